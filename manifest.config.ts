@@ -44,11 +44,17 @@ export default function createManifest({ mode }: ManifestFactoryOptions) {
       service_worker: "src/extension/service-worker.ts",
       type: "module",
     },
-    permissions: ["storage", "tabs", "scripting", "alarms", "sidePanel", "aiLanguageModel", "webNavigation", "contextMenus"],
+    permissions: ["storage", "tabs", "scripting", "alarms", "sidePanel", "aiLanguageModel", "webNavigation", "contextMenus", "downloads", "favicon"],
     host_permissions: ["<all_urls>"],
     side_panel: {
       default_path: "src/extension/sidepanel/index.html",
     },
+    commands: {
+      "start-new-session": {
+        suggested_key: { default: "Alt+Shift+N" },
+        description: "Start a new NanoScribe session",
+      },
+    },
     ...(originTrialTokens.length > 0 ? { trial_tokens: originTrialTokens } : {}),
     content_scripts: [
       {
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Ban, Loader2, Plus, Save, ShieldBan, Trash2 } from "lucide-react";
+import { sendToBackground } from "@/extension/messaging";
+import type { CaptureRule, CaptureRuleKind, CaptureRulesConfig } from "@/extension/types";
+
+const KIND_PLACEHOLDERS: Record<CaptureRuleKind, string> = {
+  domain: "mail.example.com",
+  glob: "*.bank.com/accounts/*",
+  regex: "^https://intranet\\.",
+};
+
+type PanelStatus = {
+  tone: "success" | "error";
+  message: string;
+};
+
+export function CaptureRulesPanel() {
+  const [config, setConfig] = useState<CaptureRulesConfig>({ mode: "blocklist", precedence: "deny-first", rules: [] });
+  const [purgeExisting, setPurgeExisting] = useState(true);
+  const [busy, setBusy] = useState<"save" | "block" | null>(null);
+  const [status, setStatus] = useState<PanelStatus | null>(null);
+
+  useEffect(() => {
+    sendToBackground({ type: "GET_CAPTURE_RULES" })
+      .then((response) => {
+        if (response.type === "CAPTURE_RULES") {
+          setConfig(response.payload.config);
+        }
+      })
+      .catch((error) => console.error("[NanoScribe] Failed to load capture rules", error));
+  }, []);
+
+  const updateRule = (id: string, patch: Partial<CaptureRule>) => {
+    setConfig((previous) => ({
+      ...previous,
+      rules: previous.rules.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)),
+    }));
+  };
+
+  const addRule = () => {
+    setConfig((previous) => ({
+      ...previous,
+      rules: [
+        ...previous.rules,
+        { id: crypto.randomUUID(), kind: "domain", pattern: "", action: previous.mode === "allowlist" ? "allow" : "deny", createdAt: Date.now() },
+      ],
+    }));
+  };
+
+  const handleSave = async () => {
+    setBusy("save");
+    setStatus(null);
+    try {
+      const response = await sendToBackground({
+        type: "UPDATE_CAPTURE_RULES",
+        payload: { config: { ...config, rules: config.rules.filter((rule) => rule.pattern.trim()) }, purgeExisting },
+      });
+      if (response.type !== "CAPTURE_RULES") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      setConfig(response.payload.config);
+      const { purged } = response.payload;
+      setStatus({
+        tone: "success",
+        message: `Capture rules saved${purged > 0 ? `; removed ${purged} ${purged === 1 ? "memory" : "memories"} from blocked sites` : ""}.`,
+      });
+    } catch (error) {
+      console.error("[NanoScribe] Failed to save capture rules", error);
+      setStatus({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleBlockCurrentSite = async () => {
+    setBusy("block");
+    setStatus(null);
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.url || !/^https?:/.test(tab.url)) {
+        throw new Error("The current tab is not a web page.");
+      }
+      const response = await sendToBackground({ type: "BLOCK_CAPTURE_SITE", payload: { url: tab.url } });
+      if (response.type !== "CAPTURE_SITE_BLOCKED") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+
+      const refreshed = await sendToBackground({ type: "GET_CAPTURE_RULES" });
+      if (refreshed.type === "CAPTURE_RULES") {
+        setConfig(refreshed.payload.config);
+      }
+      const { rule, purged } = response.payload;
+      setStatus({
+        tone: "success",
+        message: `Never capturing ${rule.pattern}${purged > 0 ? `; removed ${purged} saved ${purged === 1 ? "memory" : "memories"}` : ""}.`,
+      });
+    } catch (error) {
+      console.error("[NanoScribe] Failed to block current site", error);
+      setStatus({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonClassName =
+    "justify-start rounded-xl border-white/20 bg-white/5 text-sm text-muted-foreground hover:border-white/40 hover:bg-white/10";
+  const inputClassName = "h-8 rounded-xl border-white/15 bg-black/20 text-xs";
+  const selectClassName = "h-8 rounded-xl border-white/15 bg-black/20 text-xs";
+
+  return (
+    <div>
+      <div className="flex items-start gap-3">
+        <div className="glow-ring flex h-10 w-10 items-center justify-center rounded-xl bg-white/10">
+          <ShieldBan className="h-4 w-4" />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-card-foreground">Capture Rules</p>
+          <p className="text-xs text-muted-foreground">
+            Choose which sites NanoScribe remembers; rules also apply to “Summarize Selection”
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 space-y-3 text-xs text-muted-foreground">
+        <label className="flex items-center justify-between gap-3">
+          Only capture sites with an allow rule
+          <Switch
+            checked={config.mode === "allowlist"}
+            onCheckedChange={(checked) => setConfig((previous) => ({ ...previous, mode: checked ? "allowlist" : "blocklist" }))}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-3">
+          Allow rules win when both match
+          <Switch
+            checked={config.precedence === "allow-first"}
+            onCheckedChange={(checked) =>
+              setConfig((previous) => ({ ...previous, precedence: checked ? "allow-first" : "deny-first" }))
+            }
+          />
+        </label>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {config.rules.map((rule) => (
+          <div key={rule.id} className="flex items-center gap-2">
+            <Select value={rule.action} onValueChange={(value) => updateRule(rule.id, { action: value as CaptureRule["action"] })}>
+              <SelectTrigger className={`${selectClassName} w-20`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="deny">Deny</SelectItem>
+                <SelectItem value="allow">Allow</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={rule.kind} onValueChange={(value) => updateRule(rule.id, { kind: value as CaptureRuleKind })}>
+              <SelectTrigger className={`${selectClassName} w-24`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="domain">Domain</SelectItem>
+                <SelectItem value="glob">Glob</SelectItem>
+                <SelectItem value="regex">Regex</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder={KIND_PLACEHOLDERS[rule.kind]}
+              value={rule.pattern}
+              onChange={(event) => updateRule(rule.id, { pattern: event.target.value })}
+              className={`${inputClassName} flex-1 font-mono`}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 rounded-xl text-muted-foreground hover:text-destructive"
+              onClick={() => setConfig((previous) => ({ ...previous, rules: previous.rules.filter((entry) => entry.id !== rule.id) }))}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+        <Button variant="ghost" size="sm" className="rounded-xl text-xs text-muted-foreground" onClick={addRule}>
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          Add rule
+        </Button>
+      </div>
+
+      <label className="mt-3 flex items-center justify-between gap-3 text-xs text-muted-foreground">
+        Delete existing memories that the rules now block
+        <Switch checked={purgeExisting} onCheckedChange={setPurgeExisting} />
+      </label>
+
+      <div className="mt-4 grid grid-cols-1 gap-3">
+        <Button variant="outline" className={buttonClassName} disabled={busy !== null} onClick={handleSave}>
+          {busy === "save" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save capture rules
+        </Button>
+        <Button variant="outline" className={buttonClassName} disabled={busy !== null} onClick={handleBlockCurrentSite}>
+          {busy === "block" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Ban className="mr-2 h-4 w-4" />}
+          Never capture the current site
+        </Button>
+      </div>
+
+      {status ? (
+        <p className={`mt-3 text-xs ${status.tone === "error" ? "text-destructive" : "text-muted-foreground"}`}>{status.message}</p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Database, Loader2, Play, ScanSearch } from "lucide-react";
+import { isBackgroundEvent, sendToBackground } from "@/extension/messaging";
+import type { MigrationProgress, MigrationReport } from "@/extension/types";
+
+const STATUS_COPY: Record<MigrationReport["status"], string> = {
+  completed: "Completed",
+  "rolled-back": "Failed — restored from snapshot",
+  failed: "Failed",
+};
+
+export function DatabaseMigrationPanel() {
+  const [running, setRunning] = useState<"dry-run" | "migrate" | null>(null);
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+  const [report, setReport] = useState<MigrationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const listener = (message: unknown) => {
+      if (isBackgroundEvent(message) && message.type === "MIGRATION_PROGRESS") {
+        setProgress(message.payload);
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, []);
+
+  const runMigrations = async (dryRun: boolean) => {
+    setRunning(dryRun ? "dry-run" : "migrate");
+    setProgress(null);
+    setError(null);
+    try {
+      const response = await sendToBackground({ type: "RUN_DATABASE_MIGRATIONS", payload: { dryRun } });
+      if (response.type !== "MIGRATION_REPORT") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      setReport(response.payload);
+    } catch (caught) {
+      console.error("[NanoScribe] Database migration request failed", caught);
+      setError(caught instanceof Error ? caught.message : String(caught));
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const progressValue = progress && progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : null;
+  const buttonClassName =
+    "justify-start rounded-xl border-white/20 bg-white/5 text-sm text-muted-foreground hover:border-white/40 hover:bg-white/10";
+
+  return (
+    <div>
+      <div className="flex items-start gap-3">
+        <div className="glow-ring flex h-10 w-10 items-center justify-center rounded-xl bg-white/10">
+          <Database className="h-4 w-4" />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-card-foreground">Database Migrations</p>
+          <p className="text-xs text-muted-foreground">
+            Upgrade stored memories in place; a snapshot is restored if a step fails
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 gap-3">
+        <Button variant="outline" className={buttonClassName} disabled={running !== null} onClick={() => runMigrations(true)}>
+          {running === "dry-run" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ScanSearch className="mr-2 h-4 w-4" />}
+          Preview pending migrations
+        </Button>
+        <Button variant="outline" className={buttonClassName} disabled={running !== null} onClick={() => runMigrations(false)}>
+          {running === "migrate" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+          Run pending migrations
+        </Button>
+      </div>
+
+      {running && progress ? (
+        <div className="mt-4 space-y-2">
+          <p className="text-xs text-muted-foreground">
+            v{progress.version}: {progress.description}
+            {progress.total > 0 ? ` (${progress.processed}/${progress.total})` : ""}
+          </p>
+          {progressValue !== null ? <Progress value={progressValue} className="h-1.5" /> : null}
+        </div>
+      ) : null}
+
+      {report && !running ? (
+        <div className="glass-card mt-4 space-y-2 rounded-xl border border-white/10 bg-black/10 p-3 text-xs">
+          <p className="font-medium text-card-foreground">
+            {report.dryRun ? "Dry run" : "Migration"}: {STATUS_COPY[report.status]} (v{report.fromVersion} → v{report.toVersion})
+          </p>
+          {report.steps.length === 0 ? (
+            <p className="text-muted-foreground">No pending record migrations.</p>
+          ) : (
+            <ul className="space-y-1 text-muted-foreground">
+              {report.steps.map((step) => (
+                <li key={step.version}>
+                  v{step.version} · {step.description}: {step.changed} of {step.scanned} records{" "}
+                  {report.dryRun ? "would change" : "changed"}
+                </li>
+              ))}
+            </ul>
+          )}
+          {report.error ? <p className="text-destructive">{report.error}</p> : null}
+        </div>
+      ) : null}
+
+      {error ? <p className="mt-3 text-xs text-destructive">{error}</p> : null}
+    </div>
+  );
+}
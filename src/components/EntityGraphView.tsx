@@ -0,0 +1,303 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ExternalLink, Loader2, Network, X } from "lucide-react";
+import { isBackgroundEvent, sendToBackground, type BackgroundEvent } from "@/extension/messaging";
+import type { EntityGraph, EntitySummary, EntityType, MemoryRecord } from "@/extension/types";
+
+const GRAPH_SIZE = 320;
+const GRAPH_PADDING = 16;
+const LAYOUT_ITERATIONS = 160;
+const QUERY_DEBOUNCE_MS = 250;
+
+const ENTITY_TYPE_STYLES: Record<EntityType, string> = {
+  person: "border-sky-400/40 bg-sky-400/10",
+  organization: "border-violet-400/40 bg-violet-400/10",
+  product: "border-amber-400/40 bg-amber-400/10",
+  technology: "border-emerald-400/40 bg-emerald-400/10",
+  date: "border-white/15 bg-white/5",
+};
+
+type Point = { x: number; y: number };
+
+// A small spring layout: linked memories attract, every pair repels, and nodes start on a circle so the result is stable
+function layoutGraph(graph: EntityGraph): Map<string, Point> {
+  const ids = graph.memories.map((memory) => memory.id);
+  const positions = new Map<string, Point>(
+    ids.map((id, index) => {
+      const angle = (2 * Math.PI * index) / Math.max(ids.length, 1);
+      return [id, { x: Math.cos(angle), y: Math.sin(angle) }];
+    }),
+  );
+  const idealLength = 1.8 / Math.sqrt(Math.max(ids.length, 1));
+
+  for (let iteration = 0; iteration < LAYOUT_ITERATIONS; iteration += 1) {
+    const step = 0.1 * (1 - iteration / LAYOUT_ITERATIONS);
+    const forces = new Map<string, Point>(ids.map((id) => [id, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < ids.length; i += 1) {
+      for (let j = i + 1; j < ids.length; j += 1) {
+        const a = positions.get(ids[i])!;
+        const b = positions.get(ids[j])!;
+        const dx = a.x - b.x;
+        const dy = a.y - b.y;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const push = (idealLength * idealLength) / distance;
+        forces.get(ids[i])!.x += (dx / distance) * push;
+        forces.get(ids[i])!.y += (dy / distance) * push;
+        forces.get(ids[j])!.x -= (dx / distance) * push;
+        forces.get(ids[j])!.y -= (dy / distance) * push;
+      }
+    }
+
+    for (const link of graph.links) {
+      const a = positions.get(link.source);
+      const b = positions.get(link.target);
+      if (!a || !b) {
+        continue;
+      }
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const pull = ((distance * distance) / idealLength) * Math.min(link.weight, 3);
+      forces.get(link.source)!.x -= (dx / distance) * pull;
+      forces.get(link.source)!.y -= (dy / distance) * pull;
+      forces.get(link.target)!.x += (dx / distance) * pull;
+      forces.get(link.target)!.y += (dy / distance) * pull;
+    }
+
+    for (const id of ids) {
+      const position = positions.get(id)!;
+      const force = forces.get(id)!;
+      const magnitude = Math.max(Math.hypot(force.x, force.y), 0.0001);
+      position.x += (force.x / magnitude) * Math.min(magnitude, step);
+      position.y += (force.y / magnitude) * Math.min(magnitude, step);
+    }
+  }
+
+  // Scale the layout into the SVG viewport
+  const points = Array.from(positions.values());
+  const minX = Math.min(...points.map((point) => point.x));
+  const maxX = Math.max(...points.map((point) => point.x));
+  const minY = Math.min(...points.map((point) => point.y));
+  const maxY = Math.max(...points.map((point) => point.y));
+  const span = GRAPH_SIZE - 2 * GRAPH_PADDING;
+  for (const point of points) {
+    point.x = GRAPH_PADDING + (maxX > minX ? ((point.x - minX) / (maxX - minX)) * span : span / 2);
+    point.y = GRAPH_PADDING + (maxY > minY ? ((point.y - minY) / (maxY - minY)) * span : span / 2);
+  }
+  return positions;
+}
+
+// Memories linked by the people, organizations, products and technologies they share
+export function EntityGraphView({ query }: { query: string }) {
+  const [graph, setGraph] = useState<EntityGraph | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedMemoryId, setSelectedMemoryId] = useState<string | null>(null);
+  const [selectedEntity, setSelectedEntity] = useState<{ entity: EntitySummary; memories: MemoryRecord[] } | null>(null);
+
+  const loadGraph = useCallback(async (entityQuery: string) => {
+    setIsLoading(true);
+    try {
+      const response = await sendToBackground({ type: "GET_ENTITY_GRAPH", payload: { query: entityQuery } });
+      if (response.type !== "ENTITY_GRAPH") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      setGraph(response.payload);
+      setError(null);
+    } catch (loadError) {
+      console.error("[NanoScribe] Failed to load entity graph", loadError);
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => void loadGraph(query), QUERY_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [loadGraph, query]);
+
+  useEffect(() => {
+    const listener = (message: BackgroundEvent) => {
+      if (isBackgroundEvent(message) && (message.type === "MEMORY_DELETED" || message.type === "MEMORIES_GROUPED")) {
+        void loadGraph(query);
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, [loadGraph, query]);
+
+  const openEntity = async (entity: EntitySummary) => {
+    try {
+      const response = await sendToBackground({ type: "GET_ENTITY_MEMORIES", payload: { entityId: entity.id } });
+      if (response.type !== "ENTITY_MEMORIES") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      setSelectedEntity(response.payload);
+    } catch (loadError) {
+      console.error("[NanoScribe] Failed to load entity memories", loadError);
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    }
+  };
+
+  const positions = useMemo(() => (graph ? layoutGraph(graph) : new Map<string, Point>()), [graph]);
+  const memoriesById = useMemo(() => new Map((graph?.memories ?? []).map((memory) => [memory.id, memory])), [graph]);
+  const selectedMemory = selectedMemoryId ? memoriesById.get(selectedMemoryId) : undefined;
+  const selectedLinks = (graph?.links ?? []).filter((link) => link.source === selectedMemoryId || link.target === selectedMemoryId);
+
+  if (error && !graph) {
+    return (
+      <div className="glass-card rounded-2xl border border-red-500/40 bg-red-500/10 p-5 text-sm text-red-100">{error}</div>
+    );
+  }
+
+  if (!graph) {
+    return (
+      <div className="glass-card flex items-center gap-3 rounded-2xl border border-white/12 bg-black/25 p-6 text-sm text-muted-foreground">
+        <span className="fancy-spinner" aria-hidden="true" />
+        <span>Building the entity graph…</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="glass-card space-y-3 rounded-2xl border border-white/12 bg-black/25 p-4 text-xs text-muted-foreground shadow-lg">
+        <p className="flex items-center gap-2 font-semibold text-card-foreground">
+          <Network className="h-4 w-4" />
+          Related memories · {graph.memories.length} linked by {graph.links.length} shared mentions
+          {isLoading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : null}
+        </p>
+        {graph.links.length === 0 ? (
+          <p>No memories share any people, organizations, products or technologies yet.</p>
+        ) : (
+          <svg viewBox={`0 0 ${GRAPH_SIZE} ${GRAPH_SIZE}`} className="w-full rounded-xl bg-black/30" role="img" aria-label="Entity graph">
+            {graph.links.map((link) => {
+              const a = positions.get(link.source);
+              const b = positions.get(link.target);
+              if (!a || !b) {
+                return null;
+              }
+              const active = link.source === selectedMemoryId || link.target === selectedMemoryId;
+              return (
+                <line
+                  key={`${link.source}|${link.target}`}
+                  x1={a.x}
+                  y1={a.y}
+                  x2={b.x}
+                  y2={b.y}
+                  stroke="currentColor"
+                  strokeOpacity={active ? 0.8 : 0.2}
+                  strokeWidth={Math.min(link.weight, 4) * (active ? 1 : 0.6)}
+                >
+                  <title>{link.entities.join(", ")}</title>
+                </line>
+              );
+            })}
+            {graph.memories.map((memory) => {
+              const point = positions.get(memory.id);
+              if (!point) {
+                return null;
+              }
+              const selected = memory.id === selectedMemoryId;
+              return (
+                <circle
+                  key={memory.id}
+                  cx={point.x}
+                  cy={point.y}
+                  r={Math.min(4 + memory.entityIds.length / 2, 9)}
+                  className={`cursor-pointer ${selected ? "fill-primary" : "fill-white/60 hover:fill-white"}`}
+                  onClick={() => setSelectedMemoryId(selected ? null : memory.id)}
+                >
+                  <title>{memory.title}</title>
+                </circle>
+              );
+            })}
+          </svg>
+        )}
+        {selectedMemory ? (
+          <div className="space-y-1 rounded-xl border border-white/10 bg-black/30 p-3">
+            <p className="font-semibold text-foreground/90">{selectedMemory.title}</p>
+            <ul className="space-y-0.5">
+              {selectedLinks.map((link) => {
+                const other = memoriesById.get(link.source === selectedMemory.id ? link.target : link.source);
+                return (
+                  <li key={`${link.source}|${link.target}`} className="truncate">
+                    {other?.title ?? "Untitled"} · {link.entities.join(", ")}
+                  </li>
+                );
+              })}
+            </ul>
+            {selectedMemory.url ? (
+              <a
+                href={selectedMemory.url}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-flex items-center gap-1 text-[11px] font-medium text-primary hover:underline"
+              >
+                Open memory
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+
+      <div className="glass-card space-y-3 rounded-2xl border border-white/12 bg-black/25 p-4 text-xs text-muted-foreground shadow-lg">
+        <p className="text-[11px] uppercase tracking-[0.2em]">{query.trim() ? `Entities matching “${query.trim()}”` : "Most mentioned"}</p>
+        {graph.entities.length === 0 ? (
+          <p>No entities found.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1.5">
+            {graph.entities.map((entity) => (
+              <button
+                key={entity.id}
+                type="button"
+                title={entity.type}
+                onClick={() => void openEntity(entity)}
+                className={`rounded-full border px-2.5 py-0.5 text-[11px] text-foreground/80 transition hover:text-foreground ${
+                  ENTITY_TYPE_STYLES[entity.type]
+                } ${selectedEntity?.entity.id === entity.id ? "ring-1 ring-primary/60" : ""}`}
+              >
+                {entity.name} · {entity.memoryCount}
+              </button>
+            ))}
+          </div>
+        )}
+        {selectedEntity ? (
+          <div className="space-y-2 rounded-xl border border-white/10 bg-black/30 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-semibold text-foreground/90">Memories mentioning {selectedEntity.entity.name}</p>
+              <button
+                type="button"
+                aria-label="Close entity memories"
+                onClick={() => setSelectedEntity(null)}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+            <ul className="space-y-1">
+              {selectedEntity.memories.map((memory) => (
+                <li key={memory.id} className="flex items-center gap-2">
+                  <span className="min-w-0 flex-1 truncate">{memory.title}</span>
+                  {/^https?:/.test(memory.url) ? (
+                    <a
+                      href={memory.url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex shrink-0 items-center gap-1 text-primary hover:underline"
+                    >
+                      Open
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
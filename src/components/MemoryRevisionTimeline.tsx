@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { History, Loader2 } from "lucide-react";
+import { sendToBackground } from "@/extension/messaging";
+import type { MemoryRevisionSummary, RevisionComparison } from "@/extension/types";
+
+type MemoryRevisionTimelineProps = {
+  memoryId: string;
+};
+
+// Unchanged lines are collapsed so the diff stays readable in the narrow sidepanel
+const MAX_VISIBLE_DIFF_LINES = 80;
+
+export function MemoryRevisionTimeline({ memoryId }: MemoryRevisionTimelineProps) {
+  const [revisions, setRevisions] = useState<MemoryRevisionSummary[] | null>(null);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<RevisionComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    sendToBackground({ type: "GET_MEMORY_REVISIONS", payload: { memoryId } })
+      .then((response) => {
+        if (response.type !== "MEMORY_REVISIONS") {
+          throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+        }
+        setRevisions(response.payload.revisions);
+      })
+      .catch((loadError) => {
+        console.error("[NanoScribe] Failed to load memory revisions", loadError);
+        setError(loadError instanceof Error ? loadError.message : String(loadError));
+      });
+  }, [memoryId]);
+
+  // The latest capture is always compared against either the chosen revision or the one right before it
+  useEffect(() => {
+    if (!revisions || revisions.length < 2) {
+      return;
+    }
+    setComparing(true);
+    sendToBackground({ type: "COMPARE_MEMORY_REVISIONS", payload: { memoryId, fromId, toId: revisions[0].id } })
+      .then((response) => {
+        if (response.type !== "REVISION_COMPARISON") {
+          throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+        }
+        setComparison(response.payload);
+      })
+      .catch((compareError) => {
+        console.error("[NanoScribe] Failed to compare memory revisions", compareError);
+        setError(compareError instanceof Error ? compareError.message : String(compareError));
+      })
+      .finally(() => setComparing(false));
+  }, [memoryId, revisions, fromId]);
+
+  if (error) {
+    return <p className="text-xs text-destructive">{error}</p>;
+  }
+  if (!revisions) {
+    return (
+      <p className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Loading history...
+      </p>
+    );
+  }
+  if (revisions.length < 2) {
+    return <p className="text-xs text-muted-foreground">Only one capture so far; changes appear here when the page is revisited.</p>;
+  }
+
+  const changedLines = comparison?.lines.filter((line) => line.kind !== "same") ?? [];
+  const activeFromId = comparison?.fromId ?? fromId;
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="space-y-1">
+        <p className="flex items-center gap-1 font-medium text-card-foreground">
+          <History className="h-3 w-3" />
+          {fromId ? "What changed since the selected capture" : "What changed since last visit"}
+        </p>
+        {comparing ? (
+          <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+        ) : comparison?.changeSummary ? (
+          <p className="whitespace-pre-line leading-relaxed text-muted-foreground">{comparison.changeSummary}</p>
+        ) : (
+          <p className="text-muted-foreground">No text changes detected.</p>
+        )}
+      </div>
+
+      <ol className="space-y-1 border-l border-white/15 pl-3">
+        {revisions.map((revision, index) => (
+          <li key={revision.id} className="flex items-center justify-between gap-2">
+            <span className={revision.id === activeFromId ? "text-primary" : "text-muted-foreground"}>
+              {new Date(revision.capturedAt).toLocaleString()} · {revision.chunkCount} sections
+              {index === 0 ? " · latest" : ""}
+            </span>
+            {index > 0 ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 rounded-lg px-2 text-[11px] text-muted-foreground"
+                disabled={comparing || revision.id === activeFromId}
+                onClick={() => setFromId(revision.id)}
+              >
+                Compare
+              </Button>
+            ) : null}
+          </li>
+        ))}
+      </ol>
+
+      {comparison && changedLines.length > 0 ? (
+        <div className="space-y-1">
+          <p className="text-muted-foreground">
+            +{comparison.added} / −{comparison.removed} lines
+          </p>
+          <div className="max-h-60 space-y-0.5 overflow-y-auto rounded-lg bg-black/20 p-2 font-mono text-[11px]">
+            {changedLines.slice(0, MAX_VISIBLE_DIFF_LINES).map((line, index) => (
+              <p key={index} className={line.kind === "added" ? "text-emerald-300" : "text-red-300 line-through"}>
+                {line.kind === "added" ? "+ " : "− "}
+                {line.text}
+              </p>
+            ))}
+            {changedLines.length > MAX_VISIBLE_DIFF_LINES ? (
+              <p className="text-muted-foreground">… {changedLines.length - MAX_VISIBLE_DIFF_LINES} more changed lines</p>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Loader2, Tag, X } from "lucide-react";
+import { sendToBackground } from "@/extension/messaging";
+import type { MemoryRecord, TagCount } from "@/extension/types";
+
+type MemoryTagEditorProps = {
+  memory: MemoryRecord;
+  allTags: TagCount[];
+  onUpdated: (memory: MemoryRecord, tags: TagCount[]) => void;
+};
+
+export function MemoryTagEditor({ memory, allTags, onUpdated }: MemoryTagEditorProps) {
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const tags = memory.tags ?? [];
+  const listId = `memory-tags-${memory.id}`;
+
+  const saveTags = async (nextTags: string[]) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await sendToBackground({ type: "UPDATE_MEMORY_TAGS", payload: { memoryId: memory.id, tags: nextTags } });
+      if (response.type !== "MEMORY_TAGS_UPDATED") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      onUpdated(response.payload.memory, response.payload.tags);
+    } catch (saveError) {
+      console.error("[NanoScribe] Failed to update memory tags", saveError);
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = () => {
+    const value = draft.trim();
+    if (!value) {
+      return;
+    }
+    setDraft("");
+    // The background normalizes tags, so "#Research" and "research" end up as one chip
+    void saveTags([...tags, ...value.split(",")]);
+  };
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <Tag className="h-3 w-3 text-muted-foreground" />
+        {tags.length === 0 ? <span className="text-muted-foreground">No tags yet</span> : null}
+        {tags.map((tag) => (
+          <span key={tag} className="inline-flex items-center gap-1 rounded-full border border-white/15 bg-white/10 px-2 py-0.5 text-[11px] text-foreground/90">
+            #{tag}
+            <button
+              type="button"
+              aria-label={`Remove tag ${tag}`}
+              className="text-muted-foreground hover:text-red-300"
+              disabled={saving}
+              onClick={() => void saveTags(tags.filter((entry) => entry !== tag))}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        {saving ? <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" /> : null}
+      </div>
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          handleAdd();
+        }}
+      >
+        <Input
+          value={draft}
+          list={listId}
+          placeholder="Add tags (comma separated)"
+          disabled={saving}
+          onChange={(event) => setDraft(event.target.value)}
+          className="h-8 rounded-lg border-white/15 bg-black/30 text-xs"
+        />
+        <datalist id={listId}>
+          {allTags
+            .filter((entry) => !tags.includes(entry.tag))
+            .map((entry) => (
+              <option key={entry.tag} value={entry.tag} />
+            ))}
+        </datalist>
+      </form>
+      {error ? <p className="text-destructive">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Download, FileJson, FileText, Loader2, Upload } from "lucide-react";
+import { sendToBackground } from "@/extension/messaging";
+import type { MemoryExportFile, MemoryExportFormat } from "@/extension/types";
+
+type TransferStatus = {
+  tone: "success" | "error";
+  message: string;
+};
+
+async function downloadExportFile(file: MemoryExportFile): Promise<void> {
+  const blob = new Blob([file.content], { type: file.mimeType });
+  const url = URL.createObjectURL(blob);
+  try {
+    await chrome.downloads.download({ url, filename: file.path, conflictAction: "uniquify", saveAs: false });
+  } finally {
+    // Give the download manager time to read the blob before revoking it
+    setTimeout(() => URL.revokeObjectURL(url), 10_000);
+  }
+}
+
+export function MemoryTransferPanel() {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [busy, setBusy] = useState<MemoryExportFormat | "import" | null>(null);
+  const [status, setStatus] = useState<TransferStatus | null>(null);
+
+  const handleExport = async (format: MemoryExportFormat) => {
+    setBusy(format);
+    setStatus(null);
+    try {
+      const response = await sendToBackground({ type: "EXPORT_MEMORIES", payload: { format } });
+      if (response.type !== "MEMORIES_EXPORTED") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+
+      for (const file of response.payload.files) {
+        await downloadExportFile(file);
+      }
+
+      setStatus({
+        tone: "success",
+        message: `Exported ${response.payload.memoryCount} memories (${response.payload.files.length} file${response.payload.files.length === 1 ? "" : "s"}).`,
+      });
+    } catch (error) {
+      console.error("[NanoScribe] Memory export failed", error);
+      setStatus({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    setBusy("import");
+    setStatus(null);
+    try {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error("The selected file is not valid JSON.");
+      }
+
+      const response = await sendToBackground({ type: "IMPORT_MEMORIES", payload: { bundle } });
+      if (response.type !== "MEMORIES_IMPORTED") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+
+      const { imported, skippedDuplicates, sessions } = response.payload;
+      setStatus({
+        tone: "success",
+        message: `Imported ${imported} memories across ${sessions} session${sessions === 1 ? "" : "s"}${
+          skippedDuplicates > 0 ? `, skipped ${skippedDuplicates} already saved` : ""
+        }.`,
+      });
+    } catch (error) {
+      console.error("[NanoScribe] Memory import failed", error);
+      setStatus({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonClassName =
+    "justify-start rounded-xl border-white/20 bg-white/5 text-sm text-muted-foreground hover:border-white/40 hover:bg-white/10";
+
+  return (
+    <div>
+      <div className="flex items-start gap-3">
+        <div className="glow-ring flex h-10 w-10 items-center justify-center rounded-xl bg-white/10">
+          <Download className="h-4 w-4" />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-card-foreground">Export & Import</p>
+          <p className="text-xs text-muted-foreground">
+            Back up memories, sessions and settings, or restore them from a NanoScribe export
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 gap-3">
+        <Button variant="outline" className={buttonClassName} disabled={busy !== null} onClick={() => handleExport("json")}>
+          {busy === "json" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileJson className="mr-2 h-4 w-4" />}
+          Export JSON bundle
+        </Button>
+        <Button variant="outline" className={buttonClassName} disabled={busy !== null} onClick={() => handleExport("markdown")}>
+          {busy === "markdown" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+          Export Markdown folder
+        </Button>
+        <Button
+          variant="outline"
+          className={buttonClassName}
+          disabled={busy !== null}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          {busy === "import" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          Import JSON bundle
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+      </div>
+
+      {status ? (
+        <p className={`mt-3 text-xs ${status.tone === "error" ? "text-destructive" : "text-muted-foreground"}`}>{status.message}</p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, StickyNote } from "lucide-react";
+import { sendToBackground } from "@/extension/messaging";
+import type { MemoryRecord } from "@/extension/types";
+
+type NoteEditorProps = {
+  // Omitted when writing a new note
+  note?: MemoryRecord;
+  onSaved: (note: MemoryRecord) => void;
+  onCancel: () => void;
+};
+
+const buttonClassName =
+  "justify-start rounded-xl border-white/20 bg-white/5 text-sm text-muted-foreground hover:border-white/40 hover:bg-white/10";
+
+export function NoteEditor({ note, onSaved, onCancel }: NoteEditorProps) {
+  const [title, setTitle] = useState(note?.title ?? "");
+  const [body, setBody] = useState(note?.summary ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await sendToBackground({ type: "SAVE_NOTE", payload: { id: note?.id ?? null, title, body } });
+      if (response.type !== "NOTE_SAVED") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      onSaved(response.payload);
+    } catch (saveError) {
+      console.error("[NanoScribe] Failed to save note", saveError);
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="glass-card space-y-3 rounded-2xl border border-white/12 bg-black/30 p-4 shadow-lg">
+      <p className="flex items-center gap-2 text-sm font-semibold text-card-foreground">
+        <StickyNote className="h-4 w-4" />
+        {note ? "Edit note" : "New note"}
+      </p>
+      <Input
+        value={title}
+        placeholder="Title (e.g. Product glossary)"
+        disabled={saving}
+        onChange={(event) => setTitle(event.target.value)}
+        className="h-9 rounded-xl border-white/15 bg-black/30 text-sm"
+      />
+      <Textarea
+        value={body}
+        placeholder="Facts, bios or canned answers NanoScribe should remember"
+        disabled={saving}
+        rows={8}
+        onChange={(event) => setBody(event.target.value)}
+        className="rounded-xl border-white/15 bg-black/30 text-sm"
+      />
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" className={buttonClassName} disabled={saving || !body.trim()} onClick={handleSave}>
+          {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+          Save note
+        </Button>
+        <Button size="sm" variant="ghost" className="rounded-xl text-sm text-muted-foreground" disabled={saving} onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+      {error ? <p className="text-xs text-destructive">{error}</p> : null}
+    </div>
+  );
+}
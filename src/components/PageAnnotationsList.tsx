@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from "react";
+import { ExternalLink, Highlighter } from "lucide-react";
+import { isBackgroundEvent, sendToBackground, type BackgroundEvent } from "@/extension/messaging";
+import { buildTextFragmentUrl } from "@/extension/text-fragment";
+import type { PageHighlight } from "@/extension/types";
+
+type ActiveTab = { id: number; url: string };
+
+// Highlights and notes saved on the page in the active tab; hidden when there are none
+export function PageAnnotationsList() {
+  const [tab, setTab] = useState<ActiveTab | null>(null);
+  const [highlights, setHighlights] = useState<PageHighlight[]>([]);
+
+  const refreshActiveTab = useCallback(() => {
+    chrome.tabs.query({ active: true, currentWindow: true }, ([active]) => {
+      setTab(active?.id !== undefined && active.url ? { id: active.id, url: active.url } : null);
+    });
+  }, []);
+
+  useEffect(() => {
+    refreshActiveTab();
+    const handleUpdated = (_tabId: number, changeInfo: chrome.tabs.OnUpdatedInfo) => {
+      if (changeInfo.url || changeInfo.status === "complete") {
+        refreshActiveTab();
+      }
+    };
+    chrome.tabs.onActivated.addListener(refreshActiveTab);
+    chrome.tabs.onUpdated.addListener(handleUpdated);
+    return () => {
+      chrome.tabs.onActivated.removeListener(refreshActiveTab);
+      chrome.tabs.onUpdated.removeListener(handleUpdated);
+    };
+  }, [refreshActiveTab]);
+
+  const loadHighlights = useCallback(() => {
+    if (!tab || !/^https?:/.test(tab.url)) {
+      setHighlights([]);
+      return;
+    }
+    sendToBackground({ type: "GET_PAGE_HIGHLIGHTS", payload: { url: tab.url, tabId: tab.id } })
+      .then((response) => {
+        if (response.type !== "PAGE_HIGHLIGHTS") {
+          throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+        }
+        setHighlights(response.payload.highlights);
+      })
+      .catch((error) => {
+        console.error("[NanoScribe] Failed to load page highlights", error);
+        setHighlights([]);
+      });
+  }, [tab]);
+
+  useEffect(() => {
+    loadHighlights();
+    const listener = (message: BackgroundEvent) => {
+      if (isBackgroundEvent(message) && (message.type === "MEMORY_SAVED" || message.type === "MEMORY_DELETED")) {
+        loadHighlights();
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, [loadHighlights]);
+
+  if (!tab || highlights.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="glass-card mb-3 space-y-2 rounded-2xl border border-white/12 bg-black/25 p-4 text-xs shadow-lg">
+      <p className="flex items-center gap-2 font-semibold text-card-foreground">
+        <Highlighter className="h-4 w-4" />
+        On this page · {highlights.length} {highlights.length === 1 ? "annotation" : "annotations"}
+      </p>
+      <ul className="max-h-56 space-y-2 overflow-y-auto">
+        {highlights.map((highlight) => (
+          <li key={highlight.chunkId} className="space-y-1 border-l-2 border-yellow-400/60 pl-2">
+            <p className="line-clamp-3 text-muted-foreground">“{highlight.text}”</p>
+            {highlight.note ? <p className="text-foreground/90">{highlight.note}</p> : null}
+            <div className="flex items-center gap-2 text-[11px] text-muted-foreground">
+              <span>{new Date(highlight.createdAt).toLocaleString()}</span>
+              {highlight.anchor ? (
+                <a
+                  href={buildTextFragmentUrl(tab.url, highlight.anchor)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="inline-flex items-center gap-1 text-primary hover:underline"
+                >
+                  Open at passage
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              ) : null}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { Switch } from "@/components/ui/switch";
+import { ScanEye } from "lucide-react";
+import { sendToBackground } from "@/extension/messaging";
+import type { RedactionCategory, RedactionSettings } from "@/extension/types";
+
+const CATEGORY_COPY: { category: RedactionCategory; label: string; placeholder: string }[] = [
+  { category: "email", label: "Email addresses", placeholder: "[EMAIL]" },
+  { category: "phone", label: "Phone numbers", placeholder: "[PHONE]" },
+  { category: "credit-card", label: "Credit card numbers", placeholder: "[CARD_NUMBER]" },
+  { category: "iban", label: "IBANs", placeholder: "[IBAN]" },
+  { category: "government-id", label: "Government IDs (SSN, NI number)", placeholder: "[GOV_ID]" },
+  { category: "api-key", label: "API keys and tokens", placeholder: "[SECRET]" },
+];
+
+export function RedactionPanel() {
+  const [settings, setSettings] = useState<RedactionSettings | null>(null);
+  const [status, setStatus] = useState<{ tone: "success" | "error"; message: string } | null>(null);
+
+  useEffect(() => {
+    sendToBackground({ type: "GET_REDACTION_SETTINGS" })
+      .then((response) => {
+        if (response.type === "REDACTION_SETTINGS") {
+          setSettings(response.payload);
+        }
+      })
+      .catch((error) => console.error("[NanoScribe] Failed to load redaction settings", error));
+  }, []);
+
+  const handleToggle = async (category: RedactionCategory, enabled: boolean) => {
+    if (!settings) return;
+    const previous = settings;
+    setSettings({ ...settings, [category]: enabled });
+    setStatus(null);
+    try {
+      const response = await sendToBackground({ type: "UPDATE_REDACTION_SETTINGS", payload: { ...previous, [category]: enabled } });
+      if (response.type !== "REDACTION_SETTINGS") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      setSettings(response.payload);
+    } catch (error) {
+      console.error("[NanoScribe] Failed to update redaction settings", error);
+      setSettings(previous);
+      setStatus({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-start gap-3">
+        <div className="glow-ring flex h-10 w-10 items-center justify-center rounded-xl bg-white/10">
+          <ScanEye className="h-4 w-4" />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-card-foreground">Personal Data Redaction</p>
+          <p className="text-xs text-muted-foreground">
+            Replace personal data with placeholders before pages are stored or used as autocomplete context
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 space-y-3 text-xs text-muted-foreground">
+        {CATEGORY_COPY.map(({ category, label, placeholder }) => (
+          <label key={category} className="flex items-center justify-between gap-3">
+            <span>
+              {label} <span className="font-mono text-[10px] opacity-70">{placeholder}</span>
+            </span>
+            <Switch
+              checked={settings?.[category] ?? true}
+              disabled={!settings}
+              onCheckedChange={(checked) => handleToggle(category, checked)}
+            />
+          </label>
+        ))}
+      </div>
+
+      <p className="mt-3 text-[11px] text-muted-foreground">
+        Changes apply to newly captured pages; autocomplete context is always filtered with the current settings.
+      </p>
+
+      {status ? (
+        <p className={`mt-3 text-xs ${status.tone === "error" ? "text-destructive" : "text-muted-foreground"}`}>{status.message}</p>
+      ) : null}
+    </div>
+  );
+}
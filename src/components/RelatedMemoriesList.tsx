@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useState } from "react";
+import { ExternalLink, Link2 } from "lucide-react";
+import { isBackgroundEvent, sendToBackground, type BackgroundEvent } from "@/extension/messaging";
+import type { RelatedMemoriesQuery, RelatedMemory } from "@/extension/types";
+
+type ActiveTab = { url: string; title: string };
+
+function describeRelation(entry: RelatedMemory): string[] {
+  const reasons: string[] = [];
+  if (entry.sharedEntities.length > 0) {
+    reasons.push(`Mentions ${entry.sharedEntities.slice(0, 3).join(", ")}`);
+  }
+  if (entry.keywordMatch) {
+    reasons.push("Similar topic");
+  }
+  if (entry.sameSession) {
+    reasons.push("Same session");
+  }
+  if (entry.sameDomain) {
+    reasons.push("Same site");
+  }
+  return reasons;
+}
+
+function RelatedList({ related, heading, framed }: { related: RelatedMemory[]; heading: string; framed: boolean }) {
+  return (
+    <div
+      className={
+        framed
+          ? "glass-card mb-3 space-y-2 rounded-2xl border border-white/12 bg-black/25 p-4 text-xs shadow-lg"
+          : "space-y-2 text-xs text-muted-foreground"
+      }
+    >
+      <p className="flex items-center gap-2 font-semibold text-card-foreground">
+        <Link2 className="h-4 w-4" />
+        {heading}
+      </p>
+      <ul className="space-y-2">
+        {related.map((entry) => (
+          <li key={entry.memory.id} className="space-y-0.5 border-l-2 border-primary/40 pl-2">
+            {entry.memory.source === "note" ? (
+              <p className="truncate text-foreground/90" title={entry.memory.title}>
+                {entry.memory.title}
+              </p>
+            ) : (
+              <a
+                href={entry.memory.url}
+                target="_blank"
+                rel="noreferrer"
+                title={entry.memory.title}
+                className="flex items-center gap-1 text-primary hover:underline"
+              >
+                <span className="truncate">{entry.memory.title}</span>
+                <ExternalLink className="h-3 w-3 shrink-0" />
+              </a>
+            )}
+            <p className="text-[11px] text-muted-foreground">{describeRelation(entry).join(" · ")}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function useRelatedMemories(query: RelatedMemoriesQuery | null) {
+  const [related, setRelated] = useState<RelatedMemory[]>([]);
+  const memoryId = query?.memoryId;
+  const url = query?.url;
+  const title = query?.title;
+
+  const loadRelated = useCallback(() => {
+    if (!memoryId && !url) {
+      setRelated([]);
+      return;
+    }
+    sendToBackground({ type: "GET_RELATED_MEMORIES", payload: { memoryId, url, title } })
+      .then((response) => {
+        if (response.type !== "RELATED_MEMORIES") {
+          throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+        }
+        setRelated(response.payload.related);
+      })
+      .catch((error) => {
+        console.error("[NanoScribe] Failed to load related memories", error);
+        setRelated([]);
+      });
+  }, [memoryId, title, url]);
+
+  useEffect(() => {
+    loadRelated();
+    const listener = (message: BackgroundEvent) => {
+      if (isBackgroundEvent(message) && (message.type === "MEMORY_SAVED" || message.type === "MEMORY_DELETED")) {
+        loadRelated();
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, [loadRelated]);
+
+  return related;
+}
+
+// Related memories for an expanded memory card
+export function RelatedMemoriesList({ memoryId }: { memoryId: string }) {
+  const related = useRelatedMemories({ memoryId });
+  if (related.length === 0) {
+    return null;
+  }
+  return <RelatedList related={related} heading="Related memories" framed={false} />;
+}
+
+// Earlier research related to the page in the active tab; hidden when nothing matches
+export function RelatedToPageList() {
+  const [tab, setTab] = useState<ActiveTab | null>(null);
+
+  const refreshActiveTab = useCallback(() => {
+    chrome.tabs.query({ active: true, currentWindow: true }, ([active]) => {
+      setTab(active?.url && /^https?:/.test(active.url) ? { url: active.url, title: active.title ?? "" } : null);
+    });
+  }, []);
+
+  useEffect(() => {
+    refreshActiveTab();
+    const handleUpdated = (_tabId: number, changeInfo: chrome.tabs.OnUpdatedInfo) => {
+      if (changeInfo.url || changeInfo.title || changeInfo.status === "complete") {
+        refreshActiveTab();
+      }
+    };
+    chrome.tabs.onActivated.addListener(refreshActiveTab);
+    chrome.tabs.onUpdated.addListener(handleUpdated);
+    return () => {
+      chrome.tabs.onActivated.removeListener(refreshActiveTab);
+      chrome.tabs.onUpdated.removeListener(handleUpdated);
+    };
+  }, [refreshActiveTab]);
+
+  const related = useRelatedMemories(tab);
+  if (!tab || related.length === 0) {
+    return null;
+  }
+  return <RelatedList related={related} heading="Related to this page" framed />;
+}
@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Eraser, Loader2, Plus, Save, ScanSearch, Trash2 } from "lucide-react";
+import { sendToBackground } from "@/extension/messaging";
+import type { RetentionDomainOverride, RetentionPolicy, RetentionReport } from "@/extension/types";
+
+type LimitDrafts = {
+  maxAgeDays: string;
+  maxMemories: string;
+  maxMegabytes: string;
+};
+
+const BYTES_PER_MEGABYTE = 1024 * 1024;
+
+const REASON_COPY: Record<RetentionReport["evicted"][number]["reason"], string> = {
+  age: "expired",
+  count: "over memory limit",
+  size: "over storage budget",
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes >= BYTES_PER_MEGABYTE) {
+    return `${(bytes / BYTES_PER_MEGABYTE).toFixed(1)} MB`;
+  }
+  return `${Math.max(0, Math.round(bytes / 1024))} KB`;
+}
+
+function toDraft(value: number | null): string {
+  return value === null ? "" : String(value);
+}
+
+function parseDraft(value: string): number | null {
+  const numeric = Number(value);
+  return value.trim() && Number.isFinite(numeric) && numeric > 0 ? numeric : null;
+}
+
+export function RetentionPanel() {
+  const [limits, setLimits] = useState<LimitDrafts>({ maxAgeDays: "", maxMemories: "", maxMegabytes: "" });
+  const [overrides, setOverrides] = useState<RetentionDomainOverride[]>([]);
+  const [report, setReport] = useState<RetentionReport | null>(null);
+  const [busy, setBusy] = useState<"save" | "preview" | "run" | null>(null);
+  const [status, setStatus] = useState<{ tone: "success" | "error"; message: string } | null>(null);
+
+  const applyPolicy = (policy: RetentionPolicy) => {
+    setLimits({
+      maxAgeDays: toDraft(policy.maxAgeDays),
+      maxMemories: toDraft(policy.maxMemories),
+      maxMegabytes: policy.maxBytes === null ? "" : String(Math.round(policy.maxBytes / BYTES_PER_MEGABYTE)),
+    });
+    setOverrides(policy.domainOverrides);
+  };
+
+  useEffect(() => {
+    sendToBackground({ type: "GET_RETENTION_POLICY" })
+      .then((response) => {
+        if (response.type === "RETENTION_POLICY") {
+          applyPolicy(response.payload.policy);
+          setReport(response.payload.lastReport);
+        }
+      })
+      .catch((error) => console.error("[NanoScribe] Failed to load retention policy", error));
+  }, []);
+
+  const buildPolicy = (): RetentionPolicy => {
+    const maxMegabytes = parseDraft(limits.maxMegabytes);
+    return {
+      maxAgeDays: parseDraft(limits.maxAgeDays),
+      maxMemories: parseDraft(limits.maxMemories),
+      maxBytes: maxMegabytes === null ? null : maxMegabytes * BYTES_PER_MEGABYTE,
+      domainOverrides: overrides.filter((override) => override.domain.trim().length > 0),
+    };
+  };
+
+  const handleSave = async () => {
+    setBusy("save");
+    setStatus(null);
+    try {
+      const response = await sendToBackground({ type: "UPDATE_RETENTION_POLICY", payload: buildPolicy() });
+      if (response.type !== "RETENTION_POLICY") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      applyPolicy(response.payload.policy);
+      setStatus({ tone: "success", message: "Retention policy saved." });
+    } catch (error) {
+      console.error("[NanoScribe] Failed to save retention policy", error);
+      setStatus({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRun = async (dryRun: boolean) => {
+    setBusy(dryRun ? "preview" : "run");
+    setStatus(null);
+    try {
+      const response = await sendToBackground({ type: "RUN_RETENTION_JANITOR", payload: { dryRun } });
+      if (response.type !== "RETENTION_REPORT") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      setReport(response.payload);
+    } catch (error) {
+      console.error("[NanoScribe] Retention janitor request failed", error);
+      setStatus({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const updateOverride = (index: number, patch: Partial<RetentionDomainOverride>) => {
+    setOverrides((previous) => previous.map((override, current) => (current === index ? { ...override, ...patch } : override)));
+  };
+
+  const buttonClassName =
+    "justify-start rounded-xl border-white/20 bg-white/5 text-sm text-muted-foreground hover:border-white/40 hover:bg-white/10";
+  const inputClassName = "h-8 rounded-xl border-white/15 bg-black/20 text-xs";
+
+  const limitFields: { key: keyof LimitDrafts; label: string }[] = [
+    { key: "maxAgeDays", label: "Max age (days)" },
+    { key: "maxMemories", label: "Max memories" },
+    { key: "maxMegabytes", label: "Storage budget (MB)" },
+  ];
+
+  return (
+    <div>
+      <div className="flex items-start gap-3">
+        <div className="glow-ring flex h-10 w-10 items-center justify-center rounded-xl bg-white/10">
+          <Eraser className="h-4 w-4" />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-card-foreground">Retention</p>
+          <p className="text-xs text-muted-foreground">
+            Automatically remove old or low-value memories; leave a limit blank to turn it off. Pinned memories are kept.
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 gap-2">
+        {limitFields.map((field) => (
+          <label key={field.key} className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+            {field.label}
+            <Input
+              type="number"
+              min={1}
+              placeholder="Off"
+              value={limits[field.key]}
+              onChange={(event) => setLimits((previous) => ({ ...previous, [field.key]: event.target.value }))}
+              className={`${inputClassName} w-24`}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="mt-4 space-y-2">
+        <p className="text-xs font-medium text-card-foreground">Per-domain overrides</p>
+        {overrides.map((override, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              placeholder="example.com"
+              value={override.domain}
+              onChange={(event) => updateOverride(index, { domain: event.target.value })}
+              className={`${inputClassName} flex-1`}
+            />
+            <Input
+              type="number"
+              min={1}
+              placeholder="Days"
+              disabled={override.exempt}
+              value={toDraft(override.maxAgeDays)}
+              onChange={(event) => updateOverride(index, { maxAgeDays: parseDraft(event.target.value) })}
+              className={`${inputClassName} w-16`}
+            />
+            <label className="flex items-center gap-1 text-[11px] text-muted-foreground">
+              <Switch checked={override.exempt} onCheckedChange={(checked) => updateOverride(index, { exempt: checked })} />
+              Keep
+            </label>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 rounded-xl text-muted-foreground hover:text-destructive"
+              onClick={() => setOverrides((previous) => previous.filter((_, current) => current !== index))}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="rounded-xl text-xs text-muted-foreground"
+          onClick={() => setOverrides((previous) => [...previous, { domain: "", maxAgeDays: null, exempt: false }])}
+        >
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          Add domain
+        </Button>
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 gap-3">
+        <Button variant="outline" className={buttonClassName} disabled={busy !== null} onClick={handleSave}>
+          {busy === "save" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save retention policy
+        </Button>
+        <Button variant="outline" className={buttonClassName} disabled={busy !== null} onClick={() => handleRun(true)}>
+          {busy === "preview" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ScanSearch className="mr-2 h-4 w-4" />}
+          Preview cleanup
+        </Button>
+        <Button variant="outline" className={buttonClassName} disabled={busy !== null} onClick={() => handleRun(false)}>
+          {busy === "run" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eraser className="mr-2 h-4 w-4" />}
+          Run cleanup now
+        </Button>
+      </div>
+
+      {report ? (
+        <div className="glass-card mt-4 space-y-2 rounded-xl border border-white/10 bg-black/10 p-3 text-xs">
+          <p className="font-medium text-card-foreground">
+            {report.dryRun ? "Preview" : "Last cleanup"} · {new Date(report.ranAt).toLocaleString()} ({report.trigger})
+          </p>
+          <p className="text-muted-foreground">
+            {report.evicted.length} {report.evicted.length === 1 ? "memory" : "memories"} {report.dryRun ? "would be removed" : "removed"},{" "}
+            {formatBytes(report.freedBytes)} freed · {report.remainingMemories} kept ({formatBytes(report.remainingBytes)})
+          </p>
+          {report.evicted.length > 0 ? (
+            <ul className="max-h-40 space-y-1 overflow-y-auto text-muted-foreground">
+              {report.evicted.map((eviction) => (
+                <li key={eviction.memoryId} className="truncate" title={eviction.url}>
+                  {eviction.title || eviction.url} · {REASON_COPY[eviction.reason]}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+
+      {status ? (
+        <p className={`mt-3 text-xs ${status.tone === "error" ? "text-destructive" : "text-muted-foreground"}`}>{status.message}</p>
+      ) : null}
+    </div>
+  );
+}
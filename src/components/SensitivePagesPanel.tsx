@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Check, EyeOff, Loader2, Trash2, X } from "lucide-react";
+import { sendToBackground } from "@/extension/messaging";
+import type { BackgroundRequest } from "@/extension/messaging";
+import type { SensitivePageReason, SensitivePageSettings } from "@/extension/types";
+
+const REASON_COPY: Record<SensitivePageReason, string> = {
+  "password-field": "password field",
+  "payment-form": "payment form",
+  "login-wall": "sign-in wall",
+  "no-store": "no-store hint",
+};
+
+export function SensitivePagesPanel() {
+  const [settings, setSettings] = useState<SensitivePageSettings>({ enabled: true, allowedHosts: [], skips: [] });
+  const [busy, setBusy] = useState<string | null>(null);
+  const [status, setStatus] = useState<{ tone: "success" | "error"; message: string } | null>(null);
+
+  useEffect(() => {
+    sendToBackground({ type: "GET_SENSITIVE_PAGE_SETTINGS" })
+      .then((response) => {
+        if (response.type === "SENSITIVE_PAGE_SETTINGS") {
+          setSettings(response.payload);
+        }
+      })
+      .catch((error) => console.error("[NanoScribe] Failed to load sensitive page settings", error));
+  }, []);
+
+  const runUpdate = async (key: string, request: BackgroundRequest, successMessage?: string) => {
+    setBusy(key);
+    setStatus(null);
+    try {
+      const response = await sendToBackground(request);
+      if (response.type !== "SENSITIVE_PAGE_SETTINGS") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      setSettings(response.payload);
+      if (successMessage) {
+        setStatus({ tone: "success", message: successMessage });
+      }
+    } catch (error) {
+      console.error("[NanoScribe] Failed to update sensitive page settings", error);
+      setStatus({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonClassName =
+    "justify-start rounded-xl border-white/20 bg-white/5 text-sm text-muted-foreground hover:border-white/40 hover:bg-white/10";
+
+  return (
+    <div>
+      <div className="flex items-start gap-3">
+        <div className="glow-ring flex h-10 w-10 items-center justify-center rounded-xl bg-white/10">
+          <EyeOff className="h-4 w-4" />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-card-foreground">Sensitive Pages</p>
+          <p className="text-xs text-muted-foreground">
+            Skip pages with password fields, payment forms, sign-in walls or no-store hints before anything is read
+          </p>
+        </div>
+      </div>
+
+      <label className="mt-4 flex items-center justify-between gap-3 text-xs text-muted-foreground">
+        Detect sensitive pages
+        <Switch
+          checked={settings.enabled}
+          disabled={busy !== null}
+          onCheckedChange={(checked) => runUpdate("toggle", { type: "UPDATE_SENSITIVE_DETECTION", payload: { enabled: checked } })}
+        />
+      </label>
+
+      <div className="mt-4 space-y-2">
+        <p className="text-xs font-medium text-card-foreground">Recently skipped</p>
+        {settings.skips.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No pages have been skipped.</p>
+        ) : (
+          <ul className="max-h-48 space-y-2 overflow-y-auto">
+            {settings.skips.map((skip) => (
+              <li key={skip.url} className="flex items-center gap-2 text-xs">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-card-foreground" title={skip.url}>
+                    {skip.title || skip.url}
+                  </p>
+                  <p className="truncate text-muted-foreground">
+                    {skip.host} · {skip.reasons.map((reason) => REASON_COPY[reason]).join(", ")} ·{" "}
+                    {new Date(skip.skippedAt).toLocaleString()}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 shrink-0 rounded-xl text-xs text-muted-foreground"
+                  disabled={busy !== null}
+                  onClick={() =>
+                    runUpdate(
+                      `allow:${skip.host}`,
+                      { type: "ALLOW_SENSITIVE_HOST", payload: { host: skip.host, allowed: true } },
+                      `Pages on ${skip.host} will be captured; open tabs there are being captured now.`,
+                    )
+                  }
+                >
+                  {busy === `allow:${skip.host}` ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <Check className="mr-1 h-3.5 w-3.5" />}
+                  Capture anyway
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {settings.allowedHosts.length > 0 ? (
+        <div className="mt-4 space-y-2">
+          <p className="text-xs font-medium text-card-foreground">Always captured</p>
+          <div className="flex flex-wrap gap-2">
+            {settings.allowedHosts.map((host) => (
+              <span key={host} className="flex items-center gap-1 rounded-full bg-white/10 px-2 py-1 text-[11px] text-muted-foreground">
+                {host}
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-destructive"
+                  disabled={busy !== null}
+                  onClick={() => runUpdate(`remove:${host}`, { type: "ALLOW_SENSITIVE_HOST", payload: { host, allowed: false } })}
+                  aria-label={`Check ${host} again`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      <div className="mt-4 grid grid-cols-1 gap-3">
+        <Button
+          variant="outline"
+          className={buttonClassName}
+          disabled={busy !== null || settings.skips.length === 0}
+          onClick={() => runUpdate("clear", { type: "CLEAR_SENSITIVE_SKIPS" }, "Skipped page history cleared.")}
+        >
+          {busy === "clear" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+          Clear skipped pages
+        </Button>
+      </div>
+
+      {status ? (
+        <p className={`mt-3 text-xs ${status.tone === "error" ? "text-destructive" : "text-muted-foreground"}`}>{status.message}</p>
+      ) : null}
+    </div>
+  );
+}
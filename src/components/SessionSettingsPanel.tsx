@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Layers, Loader2, Plus, Save } from "lucide-react";
+import { sendToBackground } from "@/extension/messaging";
+import type { ActiveSession, SessionSettings, SessionStartReason } from "@/extension/types";
+
+const REASON_COPY: Record<SessionStartReason, string> = {
+  first: "first capture",
+  idle: "after an idle gap",
+  topic: "topic changed",
+  window: "new window",
+  manual: "started manually",
+};
+
+function getCurrentWindowId(): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    chrome.windows.getCurrent((window) => resolve(chrome.runtime.lastError ? undefined : window?.id));
+  });
+}
+
+export function SessionSettingsPanel() {
+  const [settings, setSettings] = useState<SessionSettings | null>(null);
+  const [idleGapDraft, setIdleGapDraft] = useState("");
+  const [active, setActive] = useState<ActiveSession | null>(null);
+  const [busy, setBusy] = useState<"save" | "start" | null>(null);
+  const [status, setStatus] = useState<{ tone: "success" | "error"; message: string } | null>(null);
+
+  const applySettings = (next: SessionSettings) => {
+    setSettings(next);
+    setIdleGapDraft(String(next.idleGapMinutes));
+  };
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const response = await sendToBackground({ type: "GET_SESSION_SETTINGS", payload: { windowId: await getCurrentWindowId() } });
+      if (response.type !== "SESSION_SETTINGS") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      applySettings(response.payload.settings);
+      setActive(response.payload.active);
+    } catch (error) {
+      console.error("[NanoScribe] Failed to load session settings", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSettings();
+  }, [loadSettings]);
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setBusy("save");
+    setStatus(null);
+    try {
+      const response = await sendToBackground({
+        type: "UPDATE_SESSION_SETTINGS",
+        payload: { ...settings, idleGapMinutes: Number(idleGapDraft) },
+      });
+      if (response.type !== "SESSION_SETTINGS") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      applySettings(response.payload.settings);
+      setStatus({ tone: "success", message: "Session settings saved." });
+      await loadSettings();
+    } catch (error) {
+      console.error("[NanoScribe] Failed to save session settings", error);
+      setStatus({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleStartSession = async () => {
+    setBusy("start");
+    setStatus(null);
+    try {
+      const response = await sendToBackground({ type: "START_NEW_SESSION", payload: { windowId: await getCurrentWindowId() } });
+      if (response.type !== "SESSION_STARTED") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      setActive(response.payload);
+      setStatus({ tone: "success", message: "New session started. Pages you read next are grouped into it." });
+    } catch (error) {
+      console.error("[NanoScribe] Failed to start a new session", error);
+      setStatus({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonClassName =
+    "justify-start rounded-xl border-white/20 bg-white/5 text-sm text-muted-foreground hover:border-white/40 hover:bg-white/10";
+  const inputClassName = "h-8 rounded-xl border-white/15 bg-black/20 text-xs";
+
+  return (
+    <div>
+      <div className="flex items-start gap-3">
+        <div className="glow-ring flex h-10 w-10 items-center justify-center rounded-xl bg-white/10">
+          <Layers className="h-4 w-4" />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-card-foreground">Sessions</p>
+          <p className="text-xs text-muted-foreground">
+            Group browsing into sessions that end after a break, when the topic changes, or per window. Alt+Shift+N starts one by hand.
+          </p>
+        </div>
+      </div>
+
+      {settings ? (
+        <div className="mt-4 grid grid-cols-1 gap-2 text-xs text-muted-foreground">
+          <label className="flex items-center justify-between gap-3">
+            New session after idle (minutes)
+            <Input
+              type="number"
+              min={1}
+              value={idleGapDraft}
+              onChange={(event) => setIdleGapDraft(event.target.value)}
+              className={`${inputClassName} w-24`}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-3">
+            New session when the topic changes
+            <Switch
+              checked={settings.splitOnTopicChange}
+              onCheckedChange={(checked) => setSettings({ ...settings, splitOnTopicChange: checked })}
+            />
+          </label>
+          {settings.splitOnTopicChange ? (
+            <label className="flex items-center justify-between gap-3">
+              Minimum keyword overlap (%)
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(settings.topicSimilarityThreshold * 100)}
+                onChange={(event) => setSettings({ ...settings, topicSimilarityThreshold: Number(event.target.value) / 100 })}
+                className={`${inputClassName} w-24`}
+              />
+            </label>
+          ) : null}
+          <label className="flex items-center justify-between gap-3">
+            Separate session for each window
+            <Switch checked={settings.perWindow} onCheckedChange={(checked) => setSettings({ ...settings, perWindow: checked })} />
+          </label>
+        </div>
+      ) : null}
+
+      {active ? (
+        <p className="mt-3 text-[11px] text-muted-foreground">
+          Current session started {new Date(active.startedAt).toLocaleString()} ({REASON_COPY[active.reason]}), last active{" "}
+          {new Date(active.lastActiveAt).toLocaleTimeString()}
+        </p>
+      ) : null}
+
+      <div className="mt-4 grid grid-cols-1 gap-3">
+        <Button variant="outline" className={buttonClassName} disabled={busy !== null || !settings} onClick={handleSave}>
+          {busy === "save" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save session settings
+        </Button>
+        <Button variant="outline" className={buttonClassName} disabled={busy !== null} onClick={handleStartSession}>
+          {busy === "start" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+          Start new session
+        </Button>
+      </div>
+
+      {status ? (
+        <p className={`mt-3 text-xs ${status.tone === "error" ? "text-destructive" : "text-muted-foreground"}`}>{status.message}</p>
+      ) : null}
+    </div>
+  );
+}
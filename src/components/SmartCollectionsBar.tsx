@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { BookmarkPlus, FolderSearch, Loader2, X } from "lucide-react";
+import { isBackgroundEvent, sendToBackground, type BackgroundEvent, type BackgroundRequest } from "@/extension/messaging";
+import type { MemoryRecord, SmartCollectionSummary } from "@/extension/types";
+
+type SmartCollectionsBarProps = {
+  query: string; // The search box text, offered for saving
+  onOpen: (query: string, memories: MemoryRecord[]) => void; // Exactly the memories the collection counts
+};
+
+// Saved searches shown as chips with a live match count; opening one lists its matches and clears its new-match badge
+export function SmartCollectionsBar({ query, onOpen }: SmartCollectionsBarProps) {
+  const [collections, setCollections] = useState<SmartCollectionSummary[]>([]);
+  const [draftName, setDraftName] = useState<string | null>(null);
+  const [flagNewMatches, setFlagNewMatches] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(async (message: BackgroundRequest) => {
+    const response = await sendToBackground(message);
+    if (response.type !== "SMART_COLLECTIONS") {
+      throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+    }
+    setCollections(response.payload);
+  }, []);
+
+  const loadCollections = useCallback(() => {
+    request({ type: "GET_SMART_COLLECTIONS" }).catch((loadError) => {
+      console.error("[NanoScribe] Failed to load smart collections", loadError);
+    });
+  }, [request]);
+
+  useEffect(() => {
+    loadCollections();
+    // The background keeps matches current and pushes new counts; bulk changes such as imports and cleanups only
+    // announce the new session groups, so counts are read again then
+    const listener = (message: BackgroundEvent) => {
+      if (!isBackgroundEvent(message)) return;
+      if (message.type === "SMART_COLLECTIONS_UPDATED") {
+        setCollections(message.payload);
+      } else if (message.type === "MEMORIES_GROUPED") {
+        loadCollections();
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, [loadCollections]);
+
+  const trimmedQuery = query.trim();
+  const isSaved = collections.some((collection) => collection.query === trimmedQuery);
+
+  const handleSave = async () => {
+    if (draftName === null) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await request({ type: "SAVE_SMART_COLLECTION", payload: { name: draftName, query: trimmedQuery, flagNewMatches } });
+      setDraftName(null);
+    } catch (saveError) {
+      console.error("[NanoScribe] Failed to save smart collection", saveError);
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOpen = async (collection: SmartCollectionSummary) => {
+    setError(null);
+    try {
+      const response = await sendToBackground({ type: "OPEN_SMART_COLLECTION", payload: { id: collection.id } });
+      if (response.type !== "SMART_COLLECTION_OPENED") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      setCollections(response.payload.collections);
+      onOpen(collection.query, response.payload.memories);
+    } catch (openError) {
+      console.error("[NanoScribe] Failed to open smart collection", openError);
+      setError(openError instanceof Error ? openError.message : String(openError));
+    }
+  };
+
+  const handleDelete = (collection: SmartCollectionSummary) => {
+    if (!window.confirm(`Delete the smart collection "${collection.name}"? The memories it lists are kept.`)) {
+      return;
+    }
+    request({ type: "DELETE_SMART_COLLECTION", payload: { id: collection.id } }).catch((deleteError) => {
+      console.error("[NanoScribe] Failed to delete smart collection", deleteError);
+      setError(deleteError instanceof Error ? deleteError.message : String(deleteError));
+    });
+  };
+
+  if (collections.length === 0 && (!trimmedQuery || isSaved) && draftName === null) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {collections.map((collection) => (
+          <span
+            key={collection.id}
+            title={collection.error ?? collection.query}
+            className={`inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-[11px] transition ${
+              collection.query === trimmedQuery
+                ? "border-primary/60 bg-primary/20 text-foreground"
+                : "border-white/15 bg-white/5 text-muted-foreground hover:border-white/30 hover:text-foreground"
+            }`}
+          >
+            <button type="button" className="inline-flex items-center gap-1" onClick={() => void handleOpen(collection)}>
+              <FolderSearch className="h-3 w-3" />
+              {collection.name} · {collection.error ? "!" : collection.count}
+              {collection.newCount > 0 ? (
+                <span className="rounded-full bg-primary px-1.5 text-[10px] font-semibold text-primary-foreground">
+                  +{collection.newCount} new
+                </span>
+              ) : null}
+            </button>
+            <button
+              type="button"
+              aria-label={`Delete ${collection.name}`}
+              onClick={() => handleDelete(collection)}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        {trimmedQuery && !isSaved && draftName === null ? (
+          <button
+            type="button"
+            onClick={() => {
+              setDraftName("");
+              setError(null);
+            }}
+            className="inline-flex items-center gap-1 rounded-full border border-dashed border-white/20 px-2.5 py-0.5 text-[11px] text-muted-foreground transition hover:border-white/40 hover:text-foreground"
+          >
+            <BookmarkPlus className="h-3 w-3" />
+            Save search
+          </button>
+        ) : null}
+      </div>
+
+      {draftName !== null ? (
+        <div className="glass-card flex flex-wrap items-center gap-2 rounded-2xl border border-white/10 bg-black/25 px-3 py-2 text-xs text-muted-foreground shadow-md">
+          <Input
+            autoFocus
+            value={draftName}
+            placeholder="Collection name"
+            onChange={(event) => setDraftName(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                event.preventDefault();
+                void handleSave();
+              } else if (event.key === "Escape") {
+                setDraftName(null);
+              }
+            }}
+            className="h-8 min-w-[140px] flex-1 rounded-xl border-white/15 bg-black/20 text-xs"
+          />
+          <label className="flex items-center gap-2">
+            <Switch checked={flagNewMatches} onCheckedChange={setFlagNewMatches} />
+            Flag new matches
+          </label>
+          <Button size="sm" variant="outline" className="h-8 rounded-xl border-white/20 bg-white/5 text-xs" disabled={isSaving || !draftName.trim()} onClick={handleSave}>
+            {isSaving ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : null}
+            Save
+          </Button>
+          <Button size="sm" variant="ghost" className="h-8 rounded-xl text-xs" onClick={() => setDraftName(null)}>
+            Cancel
+          </Button>
+        </div>
+      ) : null}
+
+      {error ? <p className="text-xs text-destructive">{error}</p> : null}
+    </div>
+  );
+}
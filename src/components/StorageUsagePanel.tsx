@@ -0,0 +1,292 @@
+import { useCallback, useEffect, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Progress } from "@/components/ui/progress";
+import { Eraser, HardDrive, History, Loader2, Pin, RefreshCw, Trash2 } from "lucide-react";
+import { sendToBackground } from "@/extension/messaging";
+import type { StorageCleanupAction, StorageStats } from "@/extension/types";
+
+const BYTES_PER_MEGABYTE = 1024 * 1024;
+const BYTES_PER_GIGABYTE = 1024 * BYTES_PER_MEGABYTE;
+
+const STORE_LABELS: Record<string, string> = {
+  memories: "Memories",
+  contentChunks: "Chunks",
+  chunkTerms: "Search terms",
+  chunkStats: "Search stats",
+  searchMeta: "Search meta",
+  chunkVectors: "Vectors",
+  memoryRevisions: "Revisions",
+  entities: "Entities",
+  entityEdges: "Entity links",
+};
+
+const storeChartConfig = {
+  kilobytes: { label: "Size (KB)", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const monthChartConfig = {
+  count: { label: "Chunks", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+function formatBytes(bytes: number): string {
+  if (bytes >= BYTES_PER_GIGABYTE) {
+    return `${(bytes / BYTES_PER_GIGABYTE).toFixed(1)} GB`;
+  }
+  if (bytes >= BYTES_PER_MEGABYTE) {
+    return `${(bytes / BYTES_PER_MEGABYTE).toFixed(1)} MB`;
+  }
+  return `${Math.max(0, Math.round(bytes / 1024))} KB`;
+}
+
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { month: "short", year: "2-digit" });
+}
+
+export function StorageUsagePanel() {
+  const [stats, setStats] = useState<StorageStats | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [status, setStatus] = useState<{ tone: "success" | "error"; message: string } | null>(null);
+
+  const loadStats = useCallback(async () => {
+    setBusy("refresh");
+    try {
+      const response = await sendToBackground({ type: "GET_STORAGE_STATS" });
+      if (response.type !== "STORAGE_STATS") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      setStats(response.payload);
+    } catch (error) {
+      console.error("[NanoScribe] Failed to load storage stats", error);
+      setStatus({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadStats();
+  }, [loadStats]);
+
+  const runCleanup = async (action: StorageCleanupAction, busyKey: string) => {
+    setBusy(busyKey);
+    setStatus(null);
+    try {
+      const response = await sendToBackground({ type: "RUN_STORAGE_CLEANUP", payload: action });
+      if (response.type !== "STORAGE_CLEANUP_RESULT") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      setStats(response.payload.stats);
+      setStatus({ tone: "success", message: response.payload.message });
+    } catch (error) {
+      console.error("[NanoScribe] Storage cleanup failed", error);
+      setStatus({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonClassName =
+    "justify-start rounded-xl border-white/20 bg-white/5 text-sm text-muted-foreground hover:border-white/40 hover:bg-white/10";
+  const iconButtonClassName = "h-7 w-7 shrink-0 rounded-xl text-muted-foreground hover:text-destructive";
+
+  const storeData = (stats?.stores ?? []).map((store) => ({
+    store: STORE_LABELS[store.store] ?? store.store,
+    kilobytes: Math.round(store.bytes / 1024),
+    records: store.records,
+  }));
+  const monthData = (stats?.chunksByMonth ?? []).map((entry) => ({ month: formatMonth(entry.month), count: entry.count }));
+  const quotaPercent = stats?.estimate && stats.estimate.quota > 0 ? (stats.estimate.usage / stats.estimate.quota) * 100 : null;
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-3">
+          <div className="glow-ring flex h-10 w-10 items-center justify-center rounded-xl bg-white/10">
+            <HardDrive className="h-4 w-4" />
+          </div>
+          <div>
+            <p className="text-sm font-semibold text-card-foreground">Storage Usage</p>
+            <p className="text-xs text-muted-foreground">
+              Estimated size of each store, the largest memories and sites, and where chunks come from
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 rounded-xl text-muted-foreground"
+          disabled={busy !== null}
+          onClick={() => void loadStats()}
+          aria-label="Refresh storage stats"
+        >
+          <RefreshCw className={`h-3.5 w-3.5 ${busy === "refresh" ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {stats ? (
+        <div className="mt-4 space-y-4 text-xs">
+          <div className="space-y-2">
+            <p className="flex justify-between text-muted-foreground">
+              <span>NanoScribe data · {formatBytes(stats.totalBytes)}</span>
+              {stats.estimate ? (
+                <span>
+                  Browser reports {formatBytes(stats.estimate.usage)} of {formatBytes(stats.estimate.quota)}
+                </span>
+              ) : null}
+            </p>
+            {quotaPercent !== null ? <Progress value={Math.max(quotaPercent, 1)} className="h-1.5" /> : null}
+          </div>
+
+          <div className="space-y-1">
+            <p className="font-medium text-card-foreground">Size by store</p>
+            <ChartContainer config={storeChartConfig} className="aspect-auto h-48 w-full">
+              <BarChart data={storeData} layout="vertical" margin={{ left: 8, right: 8 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" dataKey="kilobytes" tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="store" width={84} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="kilobytes" fill="var(--color-kilobytes)" fillOpacity={0.7} radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+
+          {monthData.length > 0 ? (
+            <div className="space-y-1">
+              <p className="font-medium text-card-foreground">Chunks captured per month</p>
+              <ChartContainer config={monthChartConfig} className="aspect-auto h-36 w-full">
+                <BarChart data={monthData} margin={{ left: 0, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                  <YAxis width={32} allowDecimals={false} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" fillOpacity={0.7} radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+          ) : null}
+
+          {stats.chunksBySource.length > 0 ? (
+            <div className="space-y-1">
+              <p className="font-medium text-card-foreground">Chunks by source</p>
+              <div className="flex flex-wrap gap-1.5">
+                {stats.chunksBySource.map((entry) => (
+                  <span
+                    key={entry.sourceTag}
+                    className="rounded-full border border-white/15 bg-white/5 px-2.5 py-0.5 text-[11px] text-muted-foreground"
+                  >
+                    {entry.sourceTag} · {entry.count}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {stats.largestMemories.length > 0 ? (
+            <div className="space-y-1">
+              <p className="font-medium text-card-foreground">Largest memories</p>
+              <ul className="space-y-1">
+                {stats.largestMemories.map((memory) => (
+                  <li key={memory.memoryId} className="flex items-center gap-2 text-muted-foreground">
+                    <span className="min-w-0 flex-1 truncate" title={memory.url}>
+                      {memory.pinned ? <Pin className="mr-1 inline h-3 w-3" /> : null}
+                      {memory.title || memory.url}
+                    </span>
+                    <span className="shrink-0">
+                      {formatBytes(memory.bytes)} · {memory.chunkCount} chunks
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className={iconButtonClassName}
+                      disabled={busy !== null}
+                      aria-label={`Delete ${memory.title}`}
+                      onClick={() => {
+                        if (window.confirm(`Delete memory: "${memory.title}"?`)) {
+                          void runCleanup({ kind: "delete-memory", memoryId: memory.memoryId }, memory.memoryId);
+                        }
+                      }}
+                    >
+                      {busy === memory.memoryId ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Trash2 className="h-3.5 w-3.5" />}
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+
+          {stats.largestDomains.length > 0 ? (
+            <div className="space-y-1">
+              <p className="font-medium text-card-foreground">Largest sites</p>
+              <ul className="space-y-1">
+                {stats.largestDomains.map((domain) => (
+                  <li key={domain.domain} className="flex items-center gap-2 text-muted-foreground">
+                    <span className="min-w-0 flex-1 truncate">{domain.domain}</span>
+                    <span className="shrink-0">
+                      {formatBytes(domain.bytes)} · {domain.memories} {domain.memories === 1 ? "memory" : "memories"}
+                    </span>
+                    {domain.domain === "Notes" ? (
+                      <span className="h-7 w-7 shrink-0" />
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className={iconButtonClassName}
+                        disabled={busy !== null}
+                        aria-label={`Delete memories from ${domain.domain}`}
+                        onClick={() => {
+                          if (window.confirm(`Delete all unpinned memories from ${domain.domain}?`)) {
+                            void runCleanup({ kind: "delete-domain", domain: domain.domain }, `domain:${domain.domain}`);
+                          }
+                        }}
+                      >
+                        {busy === `domain:${domain.domain}` ? (
+                          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-3.5 w-3.5" />
+                        )}
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </div>
+      ) : (
+        <p className="mt-4 text-xs text-muted-foreground">{busy === "refresh" ? "Measuring storage…" : "No storage stats yet."}</p>
+      )}
+
+      <div className="mt-4 grid grid-cols-1 gap-3">
+        <Button
+          variant="outline"
+          className={buttonClassName}
+          disabled={busy !== null}
+          onClick={() => void runCleanup({ kind: "remove-orphans" }, "orphans")}
+        >
+          {busy === "orphans" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eraser className="mr-2 h-4 w-4" />}
+          Remove orphaned data
+        </Button>
+        <Button
+          variant="outline"
+          className={buttonClassName}
+          disabled={busy !== null}
+          onClick={() => {
+            if (window.confirm("Delete every revision except the latest capture of each memory?")) {
+              void runCleanup({ kind: "prune-revisions" }, "revisions");
+            }
+          }}
+        >
+          {busy === "revisions" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <History className="mr-2 h-4 w-4" />}
+          Prune old revisions
+        </Button>
+      </div>
+
+      {status ? (
+        <p className={`mt-3 text-xs ${status.tone === "error" ? "text-destructive" : "text-muted-foreground"}`}>{status.message}</p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { CalendarClock, ExternalLink, Highlighter, Loader2, StickyNote } from "lucide-react";
+import { isBackgroundEvent, sendToBackground, type BackgroundEvent } from "@/extension/messaging";
+import type { TimelineEntry } from "@/extension/types";
+
+const TIMELINE_PAGE_DAYS = 3;
+const MINUTE_MS = 60 * 1000;
+
+type TimelineHour = { hour: number; entries: TimelineEntry[] };
+type TimelineDay = { day: string; label: string; hours: TimelineHour[] };
+
+function faviconUrl(pageUrl: string): string {
+  return chrome.runtime.getURL(`/_favicon/?pageUrl=${encodeURIComponent(pageUrl)}&size=32`);
+}
+
+function formatDwell(ms: number): string {
+  if (ms < MINUTE_MS) {
+    return "under a minute";
+  }
+  const minutes = Math.round(ms / MINUTE_MS);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+function formatDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  const today = new Date();
+  const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+  if (date.toDateString() === today.toDateString()) {
+    return "Today";
+  }
+  if (date.toDateString() === yesterday.toDateString()) {
+    return "Yesterday";
+  }
+  return date.toLocaleDateString(undefined, { weekday: "long", month: "short", day: "numeric" });
+}
+
+function formatHour(hour: number): string {
+  return new Date(2000, 0, 1, hour).toLocaleTimeString(undefined, { hour: "numeric" });
+}
+
+// Entries arrive newest first, so days and hours come out in display order
+function groupByDayAndHour(entries: TimelineEntry[]): TimelineDay[] {
+  const days: TimelineDay[] = [];
+  for (const entry of entries) {
+    const date = new Date(entry.capturedAt);
+    const day = date.toDateString();
+    let current = days[days.length - 1];
+    if (!current || current.day !== day) {
+      current = { day, label: formatDay(entry.capturedAt), hours: [] };
+      days.push(current);
+    }
+    let hour = current.hours[current.hours.length - 1];
+    if (!hour || hour.hour !== date.getHours()) {
+      hour = { hour: date.getHours(), entries: [] };
+      current.hours.push(hour);
+    }
+    hour.entries.push(entry);
+  }
+  return days;
+}
+
+// Captures listed by day and hour, loaded a few days at a time as the list scrolls
+export function TimelineView() {
+  const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [nextBefore, setNextBefore] = useState<number | null>(null);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [domainFilter, setDomainFilter] = useState("");
+  const [sessionFilter, setSessionFilter] = useState("");
+  const [domains, setDomains] = useState<string[]>([]);
+  const [sessions, setSessions] = useState<Map<string, string | undefined>>(new Map());
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  const loadingRef = useRef(false);
+
+  const loadPage = useCallback(
+    async (before: number | undefined, reset: boolean) => {
+      if (loadingRef.current && !reset) {
+        return;
+      }
+      loadingRef.current = true;
+      setIsLoading(true);
+      try {
+        const response = await sendToBackground({
+          type: "GET_TIMELINE",
+          payload: { before, days: TIMELINE_PAGE_DAYS, domain: domainFilter || null, sessionId: sessionFilter || null },
+        });
+        if (response.type !== "TIMELINE") {
+          throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+        }
+        const page = response.payload;
+        setEntries((previous) => (reset ? page.entries : [...previous, ...page.entries]));
+        setNextBefore(page.nextBefore);
+        setDomains((previous) => Array.from(new Set([...(reset ? [] : previous), ...page.domains])).sort());
+        setSessions((previous) => {
+          const next = new Map(reset ? [] : previous);
+          page.sessions.forEach((session) => next.set(session.sessionId, session.title));
+          return next;
+        });
+        setError(null);
+      } catch (loadError) {
+        console.error("[NanoScribe] Failed to load timeline", loadError);
+        setError(loadError instanceof Error ? loadError.message : String(loadError));
+      } finally {
+        loadingRef.current = false;
+        setIsLoading(false);
+        setHasLoaded(true);
+      }
+    },
+    [domainFilter, sessionFilter],
+  );
+
+  useEffect(() => {
+    void loadPage(undefined, true);
+  }, [loadPage]);
+
+  useEffect(() => {
+    const listener = (message: BackgroundEvent) => {
+      if (
+        isBackgroundEvent(message) &&
+        (message.type === "MEMORY_SAVED" || message.type === "MEMORY_DELETED" || message.type === "MEMORIES_GROUPED")
+      ) {
+        void loadPage(undefined, true);
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, [loadPage]);
+
+  // Observing again after each page means a sentinel that is still visible loads the next range too
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || nextBefore === null) {
+      return;
+    }
+    const observer = new IntersectionObserver((observed) => {
+      if (observed.some((entry) => entry.isIntersecting)) {
+        void loadPage(nextBefore, false);
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [entries, loadPage, nextBefore]);
+
+  const days = useMemo(() => groupByDayAndHour(entries), [entries]);
+  const selectClassName = "h-8 min-w-0 flex-1 rounded-xl border border-white/15 bg-black/30 px-2 text-xs text-foreground/85";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <select
+          value={domainFilter}
+          onChange={(event) => setDomainFilter(event.target.value)}
+          className={selectClassName}
+          aria-label="Filter by site"
+        >
+          <option value="">All sites</option>
+          {domains.map((domain) => (
+            <option key={domain} value={domain}>
+              {domain}
+            </option>
+          ))}
+        </select>
+        <select
+          value={sessionFilter}
+          onChange={(event) => setSessionFilter(event.target.value)}
+          className={selectClassName}
+          aria-label="Filter by session"
+        >
+          <option value="">All sessions</option>
+          {Array.from(sessions, ([sessionId, title]) => (
+            <option key={sessionId} value={sessionId}>
+              {title ?? (sessionId === "notes" ? "Notes" : `Session ${sessionId.slice(0, 8)}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error ? (
+        <div className="glass-card rounded-2xl border border-red-500/40 bg-red-500/10 p-5 text-sm text-red-100">{error}</div>
+      ) : null}
+
+      {hasLoaded && entries.length === 0 && !isLoading && !error ? (
+        <div className="glass-card rounded-2xl border border-white/12 bg-black/25 p-6 text-sm text-muted-foreground">
+          {domainFilter || sessionFilter ? "Nothing captured matches these filters." : "Browse the web to start building your timeline."}
+        </div>
+      ) : null}
+
+      {days.map((day) => (
+        <div key={day.day} className="space-y-2">
+          <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.2em] text-muted-foreground">
+            <CalendarClock className="h-3.5 w-3.5" />
+            {day.label}
+          </p>
+          {day.hours.map((hour) => (
+            <div key={hour.hour} className="flex gap-3">
+              <span className="w-12 shrink-0 pt-3 text-right text-[11px] text-muted-foreground">{formatHour(hour.hour)}</span>
+              <div className="min-w-0 flex-1 space-y-2 border-l border-white/10 pl-3">
+                {hour.entries.map((entry) => (
+                  <div
+                    key={`${entry.memoryId}-${entry.capturedAt}`}
+                    className="glass-card flex items-start gap-3 rounded-xl border border-white/12 bg-black/25 p-3 text-xs"
+                  >
+                    {entry.url ? (
+                      <img src={faviconUrl(entry.url)} alt="" className="mt-0.5 h-4 w-4 shrink-0 rounded-sm" />
+                    ) : (
+                      <StickyNote className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    )}
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <p className="truncate font-semibold text-card-foreground" title={entry.title}>
+                        {entry.title}
+                      </p>
+                      <p className="flex flex-wrap items-center gap-x-2 text-[11px] text-muted-foreground">
+                        <span>{new Date(entry.capturedAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}</span>
+                        {entry.domain ? <span>· {entry.domain}</span> : null}
+                        {entry.dwellMs ? <span>· read {formatDwell(entry.dwellMs)}</span> : null}
+                        <span>
+                          · {entry.chunkCount} {entry.chunkCount === 1 ? "chunk" : "chunks"}
+                        </span>
+                        {entry.highlightCount > 0 ? (
+                          <span className="inline-flex items-center gap-1">
+                            · <Highlighter className="h-3 w-3" /> {entry.highlightCount}
+                          </span>
+                        ) : null}
+                        {entry.sessionTitle ? <span className="truncate">· {entry.sessionTitle}</span> : null}
+                      </p>
+                    </div>
+                    {entry.url ? (
+                      <a
+                        href={entry.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        title="Open page"
+                        className="inline-flex shrink-0 items-center gap-1 text-[11px] font-medium text-primary hover:underline"
+                      >
+                        Open
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+
+      <div ref={sentinelRef} className="flex justify-center">
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : nextBefore !== null ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="rounded-xl text-xs text-muted-foreground"
+            onClick={() => void loadPage(nextBefore, false)}
+          >
+            Load earlier
+          </Button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { KeyRound, Loader2, Lock, LockOpen, ShieldCheck, ShieldOff } from "lucide-react";
+import { isBackgroundEvent, sendToBackground, type BackgroundRequest } from "@/extension/messaging";
+import type { VaultStatus } from "@/extension/types";
+
+type VaultAction = "setup" | "unlock" | "lock" | "disable" | "settings";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export function VaultPanel() {
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+  const [busy, setBusy] = useState<VaultAction | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [autoLockMinutes, setAutoLockMinutes] = useState("15");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    sendToBackground({ type: "GET_VAULT_STATUS" })
+      .then((response) => {
+        if (response.type === "VAULT_STATUS") {
+          setStatus(response.payload);
+          setAutoLockMinutes(String(response.payload.autoLockMinutes));
+        }
+      })
+      .catch((caught) => console.error("[NanoScribe] Failed to load vault status", caught));
+
+    const listener = (message: unknown) => {
+      if (isBackgroundEvent(message) && message.type === "VAULT_STATUS_CHANGED") {
+        setStatus(message.payload);
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, []);
+
+  const runAction = async (action: VaultAction, request: BackgroundRequest) => {
+    setBusy(action);
+    setError(null);
+    try {
+      const response = await sendToBackground(request);
+      if (response.type !== "VAULT_STATUS") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      setStatus(response.payload);
+      setAutoLockMinutes(String(response.payload.autoLockMinutes));
+      setPassphrase("");
+      setConfirmation("");
+    } catch (caught) {
+      console.error(`[NanoScribe] Vault ${action} failed`, caught);
+      setError(caught instanceof Error ? caught.message : String(caught));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSetup = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError("Passphrases do not match.");
+      return;
+    }
+    void runAction("setup", {
+      type: "SETUP_VAULT",
+      payload: { passphrase, autoLockMinutes: Number(autoLockMinutes) || 15 },
+    });
+  };
+
+  const buttonClassName =
+    "justify-start rounded-xl border-white/20 bg-white/5 text-sm text-muted-foreground hover:border-white/40 hover:bg-white/10";
+  const inputClassName = "rounded-xl border-white/15 bg-black/20 text-sm";
+  const spinner = <Loader2 className="mr-2 h-4 w-4 animate-spin" />;
+
+  const description = !status?.enabled
+    ? "Encrypt saved memories with a passphrase that never leaves this browser"
+    : status.locked
+      ? "Memories are encrypted and locked; search and Ask are limited until you unlock"
+      : `Unlocked — locks automatically after ${status.autoLockMinutes} min of inactivity`;
+
+  return (
+    <div>
+      <div className="flex items-start gap-3">
+        <div className="glow-ring flex h-10 w-10 items-center justify-center rounded-xl bg-white/10">
+          {status?.enabled && status.locked ? <Lock className="h-4 w-4" /> : <KeyRound className="h-4 w-4" />}
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-card-foreground">Memory Vault</p>
+          <p className="text-xs text-muted-foreground">{description}</p>
+        </div>
+      </div>
+
+      {status && !status.enabled ? (
+        <div className="mt-4 grid grid-cols-1 gap-3">
+          <Input
+            type="password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            className={inputClassName}
+          />
+          <Input
+            type="password"
+            placeholder="Confirm passphrase"
+            value={confirmation}
+            onChange={(event) => setConfirmation(event.target.value)}
+            className={inputClassName}
+          />
+          <label className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+            Auto-lock after (minutes)
+            <Input
+              type="number"
+              min={1}
+              value={autoLockMinutes}
+              onChange={(event) => setAutoLockMinutes(event.target.value)}
+              className={`${inputClassName} w-20`}
+            />
+          </label>
+          <Button variant="outline" className={buttonClassName} disabled={busy !== null} onClick={handleSetup}>
+            {busy === "setup" ? spinner : <ShieldCheck className="mr-2 h-4 w-4" />}
+            Enable encrypted vault
+          </Button>
+          <p className="text-[11px] text-muted-foreground/80">
+            There is no recovery: if you forget the passphrase, encrypted memories cannot be read.
+          </p>
+        </div>
+      ) : null}
+
+      {status?.enabled && status.locked ? (
+        <form
+          className="mt-4 grid grid-cols-1 gap-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            void runAction("unlock", { type: "UNLOCK_VAULT", payload: { passphrase } });
+          }}
+        >
+          <Input
+            type="password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            className={inputClassName}
+          />
+          <Button type="submit" variant="outline" className={buttonClassName} disabled={busy !== null || !passphrase}>
+            {busy === "unlock" ? spinner : <LockOpen className="mr-2 h-4 w-4" />}
+            Unlock vault
+          </Button>
+        </form>
+      ) : null}
+
+      {status?.enabled && !status.locked ? (
+        <div className="mt-4 grid grid-cols-1 gap-3">
+          <Button
+            variant="outline"
+            className={buttonClassName}
+            disabled={busy !== null}
+            onClick={() => runAction("lock", { type: "LOCK_VAULT" })}
+          >
+            {busy === "lock" ? spinner : <Lock className="mr-2 h-4 w-4" />}
+            Lock now
+          </Button>
+          <div className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+            <span>Auto-lock after (minutes)</span>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                value={autoLockMinutes}
+                onChange={(event) => setAutoLockMinutes(event.target.value)}
+                className={`${inputClassName} w-20`}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="rounded-xl border-white/20 bg-white/5 text-xs text-muted-foreground hover:border-white/40 hover:bg-white/10"
+                disabled={busy !== null || !Number(autoLockMinutes)}
+                onClick={() =>
+                  runAction("settings", { type: "UPDATE_VAULT_SETTINGS", payload: { autoLockMinutes: Number(autoLockMinutes) } })
+                }
+              >
+                {busy === "settings" ? <Loader2 className="h-3 w-3 animate-spin" /> : "Save"}
+              </Button>
+            </div>
+          </div>
+          <Input
+            type="password"
+            placeholder="Passphrase to disable the vault"
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            className={inputClassName}
+          />
+          <Button
+            variant="outline"
+            className={buttonClassName}
+            disabled={busy !== null || !passphrase}
+            onClick={() => runAction("disable", { type: "DISABLE_VAULT", payload: { passphrase } })}
+          >
+            {busy === "disable" ? spinner : <ShieldOff className="mr-2 h-4 w-4" />}
+            Disable vault and decrypt memories
+          </Button>
+        </div>
+      ) : null}
+
+      {error ? <p className="mt-3 text-xs text-destructive">{error}</p> : null}
+    </div>
+  );
+}
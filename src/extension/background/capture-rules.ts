@@ -0,0 +1,180 @@
+import type { CaptureDecision, CaptureRule, CaptureRuleKind, CaptureRulesConfig } from "../types";
+import { deleteMemories, getAllMemories } from "./memory-store";
+import { isNoteMemory, isNoteUrl } from "./notes";
+
+const CAPTURE_RULES_KEY = "captureRules";
+
+export const DEFAULT_CAPTURE_RULES: CaptureRulesConfig = {
+  mode: "blocklist",
+  precedence: "deny-first",
+  rules: [],
+};
+
+const RULE_KINDS: CaptureRuleKind[] = ["domain", "glob", "regex"];
+
+function normalizeDomainPattern(pattern: string): string {
+  return pattern.trim().toLowerCase().replace(/^https?:\/\//, "").replace(/^\*\./, "").replace(/^www\./, "").replace(/\/.*$/, "");
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+// Throws with a readable message so the settings panel can show which pattern is wrong
+export function validateCaptureRule(rule: Pick<CaptureRule, "kind" | "pattern">): void {
+  if (!rule.pattern.trim()) {
+    throw new Error("Capture rule patterns cannot be empty.");
+  }
+  if (rule.kind === "regex") {
+    try {
+      new RegExp(rule.pattern);
+    } catch {
+      throw new Error(`Invalid regular expression: ${rule.pattern}`);
+    }
+  }
+}
+
+export function normalizeCaptureRules(raw: unknown): CaptureRulesConfig {
+  if (!raw || typeof raw !== "object") {
+    return { ...DEFAULT_CAPTURE_RULES, rules: [] };
+  }
+
+  const candidate = raw as Partial<CaptureRulesConfig>;
+  const rules = Array.isArray(candidate.rules) ? candidate.rules : [];
+  return {
+    mode: candidate.mode === "allowlist" ? "allowlist" : "blocklist",
+    precedence: candidate.precedence === "allow-first" ? "allow-first" : "deny-first",
+    rules: rules
+      .filter((rule): rule is CaptureRule => Boolean(rule) && typeof rule.pattern === "string" && RULE_KINDS.includes(rule.kind))
+      .map((rule): CaptureRule => ({
+        id: typeof rule.id === "string" && rule.id ? rule.id : crypto.randomUUID(),
+        kind: rule.kind,
+        pattern: rule.kind === "domain" ? normalizeDomainPattern(rule.pattern) : rule.pattern.trim(),
+        action: rule.action === "allow" ? "allow" : "deny",
+        createdAt: typeof rule.createdAt === "number" ? rule.createdAt : Date.now(),
+      }))
+      .filter((rule) => rule.pattern.length > 0),
+  };
+}
+
+export async function getCaptureRules(): Promise<CaptureRulesConfig> {
+  const stored = await chrome.storage.local.get(CAPTURE_RULES_KEY);
+  return normalizeCaptureRules(stored[CAPTURE_RULES_KEY]);
+}
+
+export async function saveCaptureRules(config: CaptureRulesConfig): Promise<CaptureRulesConfig> {
+  const normalized = normalizeCaptureRules(config);
+  normalized.rules.forEach(validateCaptureRule);
+  await chrome.storage.local.set({ [CAPTURE_RULES_KEY]: normalized });
+  return normalized;
+}
+
+// Domain rules cover subdomains. Globs without a "/" match the host, globs with a path match host + path,
+// and globs with a scheme match the full URL. Regexes are tested against the full URL.
+export function matchesCaptureRule(rule: CaptureRule, url: URL): boolean {
+  const host = url.hostname.toLowerCase();
+  switch (rule.kind) {
+    case "domain": {
+      const domain = normalizeDomainPattern(rule.pattern);
+      return host === domain || host.endsWith(`.${domain}`);
+    }
+    case "glob": {
+      const pattern = rule.pattern.trim();
+      const target = /^[a-z]+:\/\//i.test(pattern)
+        ? url.href
+        : pattern.includes("/")
+          ? `${host}${url.pathname}${url.search}`
+          : host;
+      return globToRegExp(pattern).test(target);
+    }
+    case "regex": {
+      try {
+        return new RegExp(rule.pattern, "i").test(url.href);
+      } catch {
+        return false;
+      }
+    }
+    default:
+      return false;
+  }
+}
+
+export function evaluateCaptureRules(rawUrl: string, config: CaptureRulesConfig): CaptureDecision {
+  // Notes are written in NanoScribe, not captured from a site, so no rule applies to them
+  if (isNoteUrl(rawUrl)) {
+    return { allowed: true, rule: null };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { allowed: false, rule: null };
+  }
+
+  const matching = config.rules.filter((rule) => matchesCaptureRule(rule, url));
+  const deny = matching.find((rule) => rule.action === "deny") ?? null;
+  const allow = matching.find((rule) => rule.action === "allow") ?? null;
+
+  if (deny && allow) {
+    return config.precedence === "allow-first" ? { allowed: true, rule: allow } : { allowed: false, rule: deny };
+  }
+  if (deny) {
+    return { allowed: false, rule: deny };
+  }
+  if (allow) {
+    return { allowed: true, rule: allow };
+  }
+  return { allowed: config.mode === "blocklist", rule: null };
+}
+
+export async function isCaptureAllowed(url: string): Promise<CaptureDecision> {
+  return evaluateCaptureRules(url, await getCaptureRules());
+}
+
+// Delete every captured memory the current rules would no longer capture; notes are never purged
+export async function purgeDisallowedMemories(config: CaptureRulesConfig): Promise<number> {
+  const memories = await getAllMemories();
+  const blocked = memories
+    .filter((memory) => !isNoteMemory(memory) && !evaluateCaptureRules(memory.url, config).allowed)
+    .map((memory) => memory.id);
+  if (!blocked.length) {
+    return 0;
+  }
+
+  await deleteMemories(blocked);
+  console.log(`[NanoScribe::Capture] 🧹 Purged ${blocked.length} memories from blocked sites`);
+  return blocked.length;
+}
+
+// "Never capture this site": add a deny rule for the page's domain and remove what was already captured there
+export async function blockCaptureSite(rawUrl: string): Promise<{ rule: CaptureRule; purged: number; config: CaptureRulesConfig }> {
+  let host: string;
+  try {
+    host = new URL(rawUrl).hostname;
+  } catch {
+    throw new Error("Cannot block an invalid URL.");
+  }
+
+  const domain = normalizeDomainPattern(host);
+  const config = await getCaptureRules();
+  const existing = config.rules.find((rule) => rule.kind === "domain" && rule.action === "deny" && rule.pattern === domain);
+  const rule: CaptureRule = existing ?? {
+    id: crypto.randomUUID(),
+    kind: "domain",
+    pattern: domain,
+    action: "deny",
+    createdAt: Date.now(),
+  };
+
+  // Drop allow rules for the exact same domain so the block takes effect regardless of precedence
+  const rules = config.rules.filter(
+    (candidate) => candidate.id !== rule.id && !(candidate.kind === "domain" && candidate.action === "allow" && candidate.pattern === domain)
+  );
+  const saved = await saveCaptureRules({ ...config, rules: [...rules, rule] });
+
+  console.log(`[NanoScribe::Capture] 🚫 Capture blocked for ${domain}`);
+  const purged = await purgeDisallowedMemories(saved);
+  return { rule, purged, config: saved };
+}
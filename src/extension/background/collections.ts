@@ -0,0 +1,262 @@
+import type { ContentChunkRecord, MemoryRecord, SmartCollection, SmartCollectionDraft, SmartCollectionSummary } from "../types";
+import { getAllMemories, getAllMemoryIds, getMemoriesByIds, getMemoryChunks } from "./memory-store";
+import { filterMemoriesBySearch, getSearchableChunks, parseSearchQuery, type SearchQuery } from "./search-query";
+
+const SMART_COLLECTIONS_KEY = "smartCollections";
+const MAX_COLLECTION_NAME_LENGTH = 60;
+
+function toIdList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === "string") : [];
+}
+
+function normalizeSmartCollection(raw: unknown): SmartCollection | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const candidate = raw as Partial<SmartCollection>;
+  if (typeof candidate.id !== "string" || typeof candidate.name !== "string" || typeof candidate.query !== "string") {
+    return null;
+  }
+  return {
+    id: candidate.id,
+    name: candidate.name.trim().slice(0, MAX_COLLECTION_NAME_LENGTH),
+    query: candidate.query.trim(),
+    flagNewMatches: Boolean(candidate.flagNewMatches),
+    seenMemoryIds: toIdList(candidate.seenMemoryIds),
+    matchedMemoryIds: toIdList(candidate.matchedMemoryIds),
+    matchedAt: typeof candidate.matchedAt === "number" ? candidate.matchedAt : 0,
+    createdAt: typeof candidate.createdAt === "number" ? candidate.createdAt : Date.now(),
+  };
+}
+
+async function readCollections(): Promise<SmartCollection[]> {
+  const stored = await chrome.storage.local.get(SMART_COLLECTIONS_KEY);
+  const raw = stored[SMART_COLLECTIONS_KEY];
+  return Array.isArray(raw) ? raw.flatMap((entry) => normalizeSmartCollection(entry) ?? []) : [];
+}
+
+async function writeCollections(collections: SmartCollection[]): Promise<void> {
+  await chrome.storage.local.set({ [SMART_COLLECTIONS_KEY]: collections });
+}
+
+// Unlike ranked search, a collection lists every match, so each word of its text must appear
+// in the memory title or in one of its passages
+function toCollectionSearch(search: SearchQuery): SearchQuery {
+  const words = search.text.toLowerCase().split(/\s+/).filter(Boolean);
+  return { ...search, phrases: Array.from(new Set([...search.phrases, ...words])) };
+}
+
+function parseCollectionQuery(collection: SmartCollection): SearchQuery {
+  return toCollectionSearch(parseSearchQuery(collection.query));
+}
+
+function startOfToday(): number {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today.getTime();
+}
+
+// Incremental updates only see memories that change, so a collection is evaluated in full when it has never been,
+// and once a day when its query has dates, since "after:7d" and the like move on without any memory changing
+function needsFullEvaluation(collection: SmartCollection): boolean {
+  if (collection.matchedAt === 0) {
+    return true;
+  }
+  try {
+    const search = parseSearchQuery(collection.query);
+    return (search.after !== null || search.before !== null) && collection.matchedAt < startOfToday();
+  } catch {
+    return false;
+  }
+}
+
+// Evaluate several collections from one read of the memories, and of the chunks if any collection needs them.
+// Collections whose query no longer parses keep their previous matches until the query is fixed.
+async function evaluateCollections(collections: SmartCollection[]): Promise<void> {
+  if (collections.length === 0) {
+    return;
+  }
+
+  const memories = await getAllMemories();
+  let chunks: Promise<ContentChunkRecord[]> | null = null;
+  const loadChunks = () => (chunks ??= getSearchableChunks());
+
+  for (const collection of collections) {
+    try {
+      const matches = await filterMemoriesBySearch(memories, parseCollectionQuery(collection), loadChunks);
+      collection.matchedMemoryIds = matches.map((memory) => memory.id);
+    } catch (error) {
+      console.warn(`[NanoScribe::Collections] Could not evaluate "${collection.name}"`, error);
+    }
+    collection.matchedAt = Date.now();
+  }
+}
+
+function summarize(collection: SmartCollection, liveIds: Set<string>): SmartCollectionSummary {
+  const { id, name, query, flagNewMatches, createdAt } = collection;
+  const rest = { id, name, query, flagNewMatches, createdAt };
+  try {
+    parseSearchQuery(query);
+  } catch (error) {
+    return { ...rest, count: 0, newCount: 0, error: error instanceof Error ? error.message : String(error) };
+  }
+  const matched = collection.matchedMemoryIds.filter((memoryId) => liveIds.has(memoryId));
+  const seen = new Set(collection.seenMemoryIds);
+  return {
+    ...rest,
+    count: matched.length,
+    newCount: flagNewMatches ? matched.filter((memoryId) => !seen.has(memoryId)).length : 0,
+  };
+}
+
+function hasSameIds(a: string[], b: string[]): boolean {
+  const ids = new Set(a);
+  return a.length === b.length && b.every((id) => ids.has(id));
+}
+
+// Summaries come from the stored matches; only collections that need a full evaluation scan the memories
+export async function getSmartCollections(): Promise<SmartCollectionSummary[]> {
+  const collections = await readCollections();
+  const stale = collections.filter(needsFullEvaluation);
+  if (stale.length > 0) {
+    await evaluateCollections(stale);
+    await writeCollections(collections);
+  }
+  // Memories removed outside DELETE_MEMORY, e.g. by retention cleanup, drop out of the counts here
+  const liveIds = new Set(collections.length > 0 ? await getAllMemoryIds() : []);
+  return collections.map((collection) => summarize(collection, liveIds));
+}
+
+// Create or update a collection; a new one starts with its current matches already seen
+export async function saveSmartCollection(draft: SmartCollectionDraft): Promise<SmartCollectionSummary[]> {
+  const name = draft.name.trim().slice(0, MAX_COLLECTION_NAME_LENGTH);
+  const query = draft.query.trim();
+  if (!name) {
+    throw new Error("Give the collection a name.");
+  }
+  if (!query) {
+    throw new Error("Only non-empty searches can be saved.");
+  }
+  // Rejects bad dates before anything is stored
+  parseSearchQuery(query);
+
+  const collections = await readCollections();
+  const existing = draft.id ? collections.find((collection) => collection.id === draft.id) : undefined;
+  if (draft.id && !existing) {
+    throw new Error("Collection not found.");
+  }
+
+  const collection: SmartCollection = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name,
+    query,
+    flagNewMatches: draft.flagNewMatches,
+    seenMemoryIds: existing?.seenMemoryIds ?? [],
+    matchedMemoryIds: existing?.matchedMemoryIds ?? [],
+    matchedAt: existing?.matchedAt ?? 0,
+    createdAt: existing?.createdAt ?? Date.now(),
+  };
+  if (!existing || existing.query !== query) {
+    await evaluateCollections([collection]);
+    collection.seenMemoryIds = collection.matchedMemoryIds;
+  }
+
+  await writeCollections(existing ? collections.map((entry) => (entry.id === collection.id ? collection : entry)) : [...collections, collection]);
+  return getSmartCollections();
+}
+
+export async function deleteSmartCollection(id: string): Promise<SmartCollectionSummary[]> {
+  const collections = await readCollections();
+  await writeCollections(collections.filter((collection) => collection.id !== id));
+  return getSmartCollections();
+}
+
+// The memories a collection lists, newest first; opening it clears its new-match badge
+export async function openSmartCollection(id: string): Promise<{ memories: MemoryRecord[]; collections: SmartCollectionSummary[] }> {
+  const collections = await readCollections();
+  const collection = collections.find((entry) => entry.id === id);
+  if (!collection) {
+    throw new Error("Collection not found.");
+  }
+  if (needsFullEvaluation(collection)) {
+    await evaluateCollections([collection]);
+  }
+  const memories = await getMemoriesByIds(collection.matchedMemoryIds);
+  collection.matchedMemoryIds = memories.map((memory) => memory.id);
+  collection.seenMemoryIds = collection.matchedMemoryIds;
+  await writeCollections(collections);
+  return {
+    memories: memories.sort((a, b) => b.updatedAt - a.updatedAt),
+    collections: await getSmartCollections(),
+  };
+}
+
+// Re-check every collection against just the memories that changed; ids that no longer exist drop out.
+// Returns the new summaries, or null when no collection's matches changed.
+export async function updateSmartCollectionMatches(memoryIds: string[]): Promise<SmartCollectionSummary[] | null> {
+  const collections = await readCollections();
+  if (collections.length === 0 || memoryIds.length === 0) {
+    return null;
+  }
+
+  const changedIds = new Set(memoryIds);
+  const memories = await getMemoriesByIds(memoryIds);
+  let chunks: Promise<ContentChunkRecord[]> | null = null;
+  const loadChunks = () =>
+    (chunks ??= Promise.all(memories.map((memory) => getMemoryChunks(memory.id))).then((lists) => lists.flat()));
+
+  let changed = false;
+  for (const collection of collections) {
+    // Not evaluated yet; the next read does it in full
+    if (collection.matchedAt === 0) {
+      continue;
+    }
+    let search: SearchQuery;
+    try {
+      search = parseCollectionQuery(collection);
+    } catch {
+      continue;
+    }
+    const matches = await filterMemoriesBySearch(memories, search, loadChunks);
+    const next = [...collection.matchedMemoryIds.filter((id) => !changedIds.has(id)), ...matches.map((memory) => memory.id)];
+    if (!hasSameIds(next, collection.matchedMemoryIds)) {
+      collection.matchedMemoryIds = next;
+      changed = true;
+    }
+  }
+
+  if (!changed) {
+    return null;
+  }
+  await writeCollections(collections);
+  return getSmartCollections();
+}
+
+// Renaming, merging or splitting sessions can change what any session: filter matches, for any memory,
+// so collections using one are evaluated in full. Returns null when no collection uses session filters.
+export async function refreshSessionSmartCollections(): Promise<SmartCollectionSummary[] | null> {
+  const collections = await readCollections();
+  const affected = collections.filter((collection) => {
+    try {
+      const { include, exclude } = parseSearchQuery(collection.query);
+      return include.sessions.length > 0 || exclude.sessions.length > 0;
+    } catch {
+      return false;
+    }
+  });
+  if (affected.length === 0) {
+    return null;
+  }
+  await evaluateCollections(affected);
+  await writeCollections(collections);
+  return getSmartCollections();
+}
+
+// While the vault is locked chunk text is sealed and can't be matched; evaluate everything again after unlock
+export async function invalidateSmartCollectionMatches(): Promise<void> {
+  const collections = await readCollections();
+  if (collections.length === 0) {
+    return;
+  }
+  await writeCollections(collections.map((collection) => ({ ...collection, matchedAt: 0 })));
+}
@@ -0,0 +1,58 @@
+import { addMemoryDwellTime } from "./memory-store";
+import { resolveCanonicalUrl } from "./url-normalizer";
+
+// The visit in progress lives in session storage so it survives the service worker being suspended
+const DWELL_VISIT_KEY = "dwellVisit";
+// A tab left open while the user is away should not count as hours of reading
+const MAX_DWELL_SEGMENT_MS = 30 * 60 * 1000;
+const MIN_DWELL_SEGMENT_MS = 1000;
+
+type DwellVisit = { tabId: number; url: string; since: number };
+
+let dwellQueue: Promise<unknown> = Promise.resolve();
+
+function serialize(task: () => Promise<void>): Promise<void> {
+  const run = dwellQueue.then(task, task);
+  dwellQueue = run.catch(() => undefined);
+  return run;
+}
+
+async function endVisit(now: number) {
+  const stored = await chrome.storage.session.get(DWELL_VISIT_KEY);
+  const visit = stored[DWELL_VISIT_KEY] as DwellVisit | undefined;
+  if (!visit) {
+    return;
+  }
+  await chrome.storage.session.remove(DWELL_VISIT_KEY);
+
+  const elapsed = Math.min(now - visit.since, MAX_DWELL_SEGMENT_MS);
+  if (elapsed >= MIN_DWELL_SEGMENT_MS) {
+    await addMemoryDwellTime(resolveCanonicalUrl(visit.url), elapsed);
+  }
+}
+
+// Close the current visit and start timing the newly focused tab; pass null when no page has focus
+export function trackFocusedTab(tab: { id?: number; url?: string } | null): Promise<void> {
+  return serialize(async () => {
+    const now = Date.now();
+    const stored = await chrome.storage.session.get(DWELL_VISIT_KEY);
+    const visit = stored[DWELL_VISIT_KEY] as DwellVisit | undefined;
+    if (visit && tab?.id === visit.tabId && tab.url === visit.url) {
+      return;
+    }
+
+    await endVisit(now);
+    if (tab?.id !== undefined && tab.url && /^https?:/.test(tab.url)) {
+      await chrome.storage.session.set({ [DWELL_VISIT_KEY]: { tabId: tab.id, url: tab.url, since: now } satisfies DwellVisit });
+    }
+  });
+}
+
+export function endTabVisit(tabId: number): Promise<void> {
+  return serialize(async () => {
+    const stored = await chrome.storage.session.get(DWELL_VISIT_KEY);
+    if ((stored[DWELL_VISIT_KEY] as DwellVisit | undefined)?.tabId === tabId) {
+      await endVisit(Date.now());
+    }
+  });
+}
@@ -0,0 +1,82 @@
+import type { ContentChunkRecord } from "../types";
+import { tokenizeForIndex } from "./search-index";
+
+// Bump when the feature hashing changes so stored vectors get recomputed by the backfill job
+export const EMBEDDING_VERSION = 1;
+export const EMBEDDING_DIMENSIONS = 256;
+
+const CHAR_NGRAM_SIZE = 3;
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.75;
+const CHAR_NGRAM_WEIGHT = 0.5;
+
+export type ChunkVectorRecord = {
+  chunkId: string;
+  memoryId: string;
+  version: number;
+  vector: Float32Array;
+};
+
+// 32-bit FNV-1a; deterministic across runs so vectors stay comparable
+function hashFeature(feature: string, seed: number): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let index = 0; index < feature.length; index += 1) {
+    hash ^= feature.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function addFeature(vector: Float32Array, feature: string, weight: number, seed: number): void {
+  const bucket = hashFeature(feature, seed) % EMBEDDING_DIMENSIONS;
+  const sign = hashFeature(feature, seed ^ 0x9e3779b9) & 1 ? 1 : -1;
+  vector[bucket] += sign * weight;
+}
+
+// Hashed word, word-bigram and character trigram features projected into a fixed-size unit vector.
+// A non-zero seed (derived from the vault key) keys the hashing so vectors are not comparable without it.
+export function embedText(text: string, seed: number = 0): Float32Array {
+  const vector = new Float32Array(EMBEDDING_DIMENSIONS);
+  const tokens = tokenizeForIndex(text);
+
+  tokens.forEach((token, index) => {
+    addFeature(vector, `w:${token}`, WORD_WEIGHT, seed);
+    if (index > 0) {
+      addFeature(vector, `b:${tokens[index - 1]}_${token}`, BIGRAM_WEIGHT, seed);
+    }
+
+    const padded = ` ${token} `;
+    for (let start = 0; start + CHAR_NGRAM_SIZE <= padded.length; start += 1) {
+      addFeature(vector, `c:${padded.slice(start, start + CHAR_NGRAM_SIZE)}`, CHAR_NGRAM_WEIGHT, seed);
+    }
+  });
+
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let index = 0; index < vector.length; index += 1) {
+      vector[index] /= norm;
+    }
+  }
+
+  return vector;
+}
+
+export function embedChunk(chunk: Pick<ContentChunkRecord, "chunkTitle" | "keyPoints" | "rawText">, seed: number = 0): Float32Array {
+  // Key points and title are denser than raw text, so repeat them to weight them higher
+  const emphasis = `${chunk.chunkTitle ?? ""} ${chunk.keyPoints ?? ""}`;
+  return embedText(`${emphasis} ${emphasis} ${chunk.rawText ?? ""}`, seed);
+}
+
+// Vectors are unit-normalized, so the dot product is the cosine similarity
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  for (let index = 0; index < length; index += 1) {
+    dot += a[index] * b[index];
+  }
+  return dot;
+}
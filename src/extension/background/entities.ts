@@ -0,0 +1,342 @@
+import type { EntityGraph, EntityRecord, EntitySummary, EntityType, ExtractedEntity, MemoryRecord } from "../types";
+import { generateJsonFromPrompt, isLanguageModelReady } from "./language-model";
+import {
+  getAllEntities,
+  getAllEntityEdges,
+  getAllMemories,
+  getMemoriesByIds,
+  getMemoryChunks,
+  replaceMemoryEntities,
+  type ChunkEntityMentions,
+} from "./memory-store";
+import { isNoteMemory } from "./notes";
+import { isVaultLocked, VAULT_LOCKED_MESSAGE } from "./vault";
+
+const ENTITY_TYPES: EntityType[] = ["person", "organization", "product", "technology", "date"];
+const MAX_ENTITIES_PER_CHUNK = 12;
+const MAX_ENTITY_NAME_CHARS = 80;
+// The model is slow on long pages, so only the first chunks of a capture go through it
+const MAX_MODEL_CHUNKS_PER_MEMORY = 6;
+const MODEL_INPUT_CHARS = 1500;
+const GRAPH_ENTITY_LIMIT = 30;
+const GRAPH_MEMORY_LIMIT = 60;
+const GRAPH_LINK_LIMIT = 150;
+const RELATED_ENTITY_LIMIT = 4;
+
+const ENTITY_SYSTEM_PROMPT = `You extract named entities from web page text. Return ONLY JSON shaped like {"entities":[{"name":"...","type":"person|organization|product|technology|date"}]}. Copy each name exactly as written in the text, return at most ${MAX_ENTITIES_PER_CHUNK} entities and skip generic concepts.`;
+
+const MONTHS = "January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec";
+const DATE_PATTERNS = [
+  new RegExp(`\\b(?:${MONTHS})\\.? \\d{1,2}(?:st|nd|rd|th)?,? \\d{4}\\b`, "g"),
+  new RegExp(`\\b\\d{1,2} (?:${MONTHS})\\.? \\d{4}\\b`, "g"),
+  new RegExp(`\\b(?:${MONTHS}) \\d{4}\\b`, "g"),
+  /\b\d{4}-\d{2}-\d{2}\b/g,
+];
+
+const KNOWN_TECHNOLOGIES = [
+  "JavaScript", "TypeScript", "Python", "Rust", "Java", "Kotlin", "Swift", "Ruby", "PHP", "SQL", "PostgreSQL", "MySQL",
+  "SQLite", "MongoDB", "Redis", "GraphQL", "HTML", "CSS", "WebAssembly", "WebGPU", "IndexedDB", "React", "Vue", "Angular",
+  "Svelte", "Docker", "Kubernetes", "Terraform", "AWS", "Azure", "Linux", "Git", "TensorFlow", "PyTorch", "Tailwind CSS",
+  "Vite", "Webpack", "OAuth", "JSON", "Kafka", "Elasticsearch", "Nginx", "Manifest V3", "LLM",
+];
+const KNOWN_ORGANIZATIONS = [
+  "Google", "Microsoft", "Apple", "Amazon", "Meta", "OpenAI", "Anthropic", "Mozilla", "IBM", "Intel", "NVIDIA", "Netflix",
+  "GitHub", "W3C", "WHATWG", "IETF", "NASA", "Tesla", "Samsung", "Oracle", "Adobe", "Salesforce",
+];
+const KNOWN_PRODUCTS = [
+  "ChatGPT", "Gemini Nano", "Gemini", "Copilot", "Photoshop", "Excel", "Slack", "Figma", "Notion", "VS Code", "Android", "iOS",
+  "Windows", "macOS", "Chrome", "Firefox", "Safari",
+];
+
+const ORGANIZATION_SUFFIXES = "Inc|Corp|Corporation|Ltd|LLC|GmbH|Foundation|University|Institute|Labs|Company|Group|Association|Agency|Bank";
+const ORGANIZATION_SUFFIX_WORDS = new Set(ORGANIZATION_SUFFIXES.split("|"));
+const ORGANIZATION_PATTERNS = [
+  new RegExp(`\\b(?:[A-Z][\\w&'-]*\\s){1,3}(?:${ORGANIZATION_SUFFIXES})\\b`, "g"),
+  /\bUniversity of [A-Z][a-z]+(?: [A-Z][a-z]+)?/g,
+];
+const VERSIONED_PRODUCT_PATTERN = /\b((?:[A-Z]|i[A-Z])[A-Za-z]+(?: [A-Z][A-Za-z]+)?) (\d{1,3}(?:\.\d+)?)(?: (?:Pro|Max|Ultra|Plus|Mini))?\b/g;
+const JS_LIBRARY_PATTERN = /\b[A-Z][A-Za-z]*\.js\b/g;
+const HONORIFIC_PATTERN = /\b(?:Dr|Mr|Mrs|Ms|Prof|Sir)\.? ([A-Z][a-z]+(?: [A-Z][a-z]+){0,2})/g;
+const CAPITALIZED_NAME_PATTERN = /\b[A-Z][a-z]+(?: [A-Z]\.)? [A-Z][a-z]+(?:-[A-Z][a-z]+)?\b/g;
+
+// Capitalized words that start headings and sentences far more often than names
+const NON_NAME_WORDS = new Set([
+  "The", "This", "That", "These", "Those", "In", "On", "At", "For", "And", "But", "Or", "If", "When", "Why", "How", "What",
+  "Where", "Who", "With", "From", "Into", "About", "After", "Before", "New", "Read", "See", "Learn", "Getting", "Get",
+  "Chapter", "Section", "Figure", "Table", "Step", "Part", "Version", "Page", "Home", "Next", "Previous", "More", "All",
+  "Our", "Your", "My", "We", "You", "It", "Its", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday",
+  "January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December",
+  "North", "South", "East", "West", "United", "States", "Kingdom", "Open", "Source", "Web", "Privacy", "Policy", "Terms",
+]);
+const KNOWN_NAMES = new Set([...KNOWN_TECHNOLOGIES, ...KNOWN_ORGANIZATIONS, ...KNOWN_PRODUCTS]);
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function isEntityType(value: unknown): value is EntityType {
+  return typeof value === "string" && (ENTITY_TYPES as string[]).includes(value);
+}
+
+function cleanEntityName(name: string): string {
+  return name.replace(/\s+/g, " ").replace(/^[\s"'“”‘’(]+|[\s"'“”‘’),.;:]+$/g, "").slice(0, MAX_ENTITY_NAME_CHARS);
+}
+
+function dedupeEntities(entities: ExtractedEntity[]): ExtractedEntity[] {
+  const seen = new Set<string>();
+  const unique: ExtractedEntity[] = [];
+  for (const entity of entities) {
+    const name = cleanEntityName(entity.name);
+    const key = `${entity.type}:${name.toLowerCase()}`;
+    if (name.length >= 2 && !seen.has(key)) {
+      seen.add(key);
+      unique.push({ name, type: entity.type });
+    }
+  }
+  // "Gemini" adds nothing next to "Gemini Nano"
+  const kept = unique.filter(
+    (entity) =>
+      !unique.some(
+        (other) => other !== entity && other.type === entity.type && other.name.toLowerCase().includes(entity.name.toLowerCase())
+      )
+  );
+  return kept.slice(0, MAX_ENTITIES_PER_CHUNK);
+}
+
+function matchKnown(text: string, names: string[], type: EntityType): ExtractedEntity[] {
+  return names
+    .filter((name) => new RegExp(`(?:^|[^\\w])${escapeRegExp(name)}(?![\\w])`).test(text))
+    .map((name) => ({ name, type }));
+}
+
+function isSentenceStart(text: string, index: number): boolean {
+  const before = text.slice(0, index).trimEnd();
+  return before.length === 0 || /[.!?:\n]$/.test(before);
+}
+
+// Pattern and dictionary matching, used when the language model is unavailable or returns nothing usable.
+// Entities are collected most specific first, since the per-chunk cap drops whatever comes last.
+function extractEntitiesHeuristically(text: string): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+
+  entities.push(...Array.from(text.matchAll(HONORIFIC_PATTERN), (match) => ({ name: match[1], type: "person" as const })));
+  const nameCounts = new Map<string, number>();
+  const midSentence = new Set<string>();
+  for (const match of text.matchAll(CAPITALIZED_NAME_PATTERN)) {
+    const words = match[0].split(" ");
+    if (words.some((word) => NON_NAME_WORDS.has(word) || KNOWN_NAMES.has(word) || ORGANIZATION_SUFFIX_WORDS.has(word))) {
+      continue;
+    }
+    nameCounts.set(match[0], (nameCounts.get(match[0]) ?? 0) + 1);
+    if (!isSentenceStart(text, match.index ?? 0)) {
+      midSentence.add(match[0]);
+    }
+  }
+  // A capitalized pair at the start of a sentence is as likely a heading as a name, unless it recurs
+  for (const [name, count] of nameCounts) {
+    if (midSentence.has(name) || count > 1) {
+      entities.push({ name, type: "person" });
+    }
+  }
+
+  for (const pattern of ORGANIZATION_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const words = match[0].split(" ");
+      while (words.length > 1 && NON_NAME_WORDS.has(words[0])) {
+        words.shift();
+      }
+      if (words.length > 1) {
+        entities.push({ name: words.join(" "), type: "organization" });
+      }
+    }
+  }
+  entities.push(...matchKnown(text, KNOWN_ORGANIZATIONS, "organization"));
+
+  for (const match of text.matchAll(VERSIONED_PRODUCT_PATTERN)) {
+    if (!NON_NAME_WORDS.has(match[1].split(" ")[0])) {
+      entities.push({ name: match[0], type: "product" });
+    }
+  }
+  entities.push(...matchKnown(text, KNOWN_PRODUCTS, "product"));
+
+  entities.push(...matchKnown(text, KNOWN_TECHNOLOGIES, "technology"));
+  entities.push(...Array.from(text.matchAll(JS_LIBRARY_PATTERN), (match) => ({ name: match[0], type: "technology" as const })));
+
+  const dates: string[] = [];
+  for (const pattern of DATE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      if (!dates.some((date) => date.includes(match[0]))) {
+        dates.push(match[0]);
+      }
+    }
+  }
+  entities.push(...dates.map((name) => ({ name, type: "date" as const })));
+
+  return dedupeEntities(entities);
+}
+
+type EntityExtractionResult = {
+  entities?: { name?: unknown; type?: unknown }[];
+};
+
+async function extractEntitiesWithModel(text: string): Promise<ExtractedEntity[] | null> {
+  const input = text.slice(0, MODEL_INPUT_CHARS);
+  const response = await generateJsonFromPrompt<EntityExtractionResult>({
+    systemPrompt: ENTITY_SYSTEM_PROMPT,
+    userPrompt: `Text:\n${input}\n\nReturn JSON now.`,
+    temperature: 0,
+    topK: 1,
+    timeoutMs: 20000,
+  });
+  if (!Array.isArray(response?.entities)) {
+    return null;
+  }
+
+  // Names the text does not contain are discarded, so a hallucinated entity never links two memories
+  const lowered = input.toLowerCase();
+  const entities = response.entities.flatMap((entity) =>
+    typeof entity?.name === "string" && isEntityType(entity.type) && lowered.includes(entity.name.trim().toLowerCase())
+      ? [{ name: entity.name, type: entity.type }]
+      : []
+  );
+  return entities.length ? dedupeEntities(entities) : null;
+}
+
+// Extract entities from every chunk of a memory and store them with the memory's co-occurrence edges
+export async function indexMemoryEntities(memoryId: string, options: { useModel?: boolean } = {}): Promise<number> {
+  const chunks = await getMemoryChunks(memoryId);
+  if (chunks.some((chunk) => chunk.sealed)) {
+    throw new Error(VAULT_LOCKED_MESSAGE);
+  }
+
+  const useModel = options.useModel ?? (await isLanguageModelReady());
+  const mentions: ChunkEntityMentions[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    let entities: ExtractedEntity[] | null = null;
+    if (useModel && index < MAX_MODEL_CHUNKS_PER_MEMORY) {
+      try {
+        entities = await extractEntitiesWithModel(chunk.rawText);
+      } catch (error) {
+        console.debug("[NanoScribe::Entities] Model extraction failed, using heuristics", error);
+      }
+    }
+    mentions.push({ chunkId: chunk.id, entities: entities ?? extractEntitiesHeuristically(chunk.rawText) });
+  }
+
+  const count = await replaceMemoryEntities(memoryId, mentions);
+  console.log(`[NanoScribe::Entities] 🕸️ Indexed ${count} entities for memory ${memoryId}${useModel ? " with the language model" : ""}`);
+  return count;
+}
+
+// Index memories captured before entity extraction existed or changed since. Heuristics only, so a large
+// backlog does not tie up the language model; new captures use the model through indexMemoryEntities.
+export async function backfillMemoryEntities(): Promise<{ indexed: number; total: number }> {
+  if (await isVaultLocked()) {
+    return { indexed: 0, total: 0 };
+  }
+
+  const memories = await getAllMemories();
+  const stale = memories.filter((memory) => !memory.entitiesExtractedAt || memory.entitiesExtractedAt < memory.updatedAt);
+  let indexed = 0;
+  for (const memory of stale) {
+    try {
+      await indexMemoryEntities(memory.id, { useModel: false });
+      indexed += 1;
+    } catch (error) {
+      console.warn(`[NanoScribe::Entities] Failed to index entities for ${memory.id}`, error);
+    }
+  }
+  return { indexed, total: stale.length };
+}
+
+function summarizeEntity(entity: EntityRecord): EntitySummary {
+  return { id: entity.id, type: entity.type, name: entity.name, memoryCount: entity.memoryIds.length };
+}
+
+function byMemoryCount(a: EntitySummary, b: EntitySummary): number {
+  return b.memoryCount - a.memoryCount || a.name.localeCompare(b.name);
+}
+
+// Memories joined by their strongest co-occurrence edges, plus the most mentioned entities (or those matching query)
+export async function getEntityGraph(query: string = ""): Promise<EntityGraph> {
+  const [entities, edges] = await Promise.all([getAllEntities(), getAllEntityEdges()]);
+  const entityNames = new Map(entities.map((entity) => [entity.id, entity.name]));
+
+  const memoryIds = new Set<string>();
+  const links: EntityGraph["links"] = [];
+  for (const edge of edges.sort((a, b) => b.weight - a.weight)) {
+    if (links.length >= GRAPH_LINK_LIMIT) {
+      break;
+    }
+    const added = edge.memoryIds.filter((memoryId) => !memoryIds.has(memoryId)).length;
+    if (memoryIds.size + added > GRAPH_MEMORY_LIMIT) {
+      continue;
+    }
+    edge.memoryIds.forEach((memoryId) => memoryIds.add(memoryId));
+    links.push({
+      source: edge.memoryIds[0],
+      target: edge.memoryIds[1],
+      weight: edge.weight,
+      entities: edge.entityIds.flatMap((entityId) => entityNames.get(entityId) || []),
+    });
+  }
+
+  const entityIdsByMemory = new Map<string, string[]>();
+  for (const entity of entities) {
+    for (const memoryId of entity.memoryIds) {
+      if (memoryIds.has(memoryId)) {
+        entityIdsByMemory.set(memoryId, [...(entityIdsByMemory.get(memoryId) ?? []), entity.id]);
+      }
+    }
+  }
+
+  const needle = query.trim().toLowerCase();
+  const listed = needle ? entities.filter((entity) => entity.name.toLowerCase().includes(needle)) : entities;
+  const memories = await getMemoriesByIds(Array.from(memoryIds));
+
+  return {
+    memories: memories.map((memory) => ({
+      id: memory.id,
+      title: memory.title,
+      url: isNoteMemory(memory) ? "" : memory.url,
+      entityIds: entityIdsByMemory.get(memory.id) ?? [],
+    })),
+    links,
+    entities: listed.map(summarizeEntity).sort(byMemoryCount).slice(0, GRAPH_ENTITY_LIMIT),
+  };
+}
+
+// Every memory mentioning the entity, most recently updated first
+export async function getEntityMemories(entityId: string): Promise<{ entity: EntitySummary; memories: MemoryRecord[] }> {
+  const entity = (await getAllEntities()).find((candidate) => candidate.id === entityId);
+  if (!entity) {
+    throw new Error("Entity not found.");
+  }
+  const memories = await getMemoriesByIds(entity.memoryIds);
+  return { entity: summarizeEntity(entity), memories: memories.sort((a, b) => b.updatedAt - a.updatedAt) };
+}
+
+// Entities named in the question, and the entities that share the most memories with them.
+// Dates are left out of the expansion since they co-occur with nearly everything.
+export async function findRelatedEntities(question: string): Promise<{ matched: string[]; related: string[] }> {
+  const entities = (await getAllEntities()).filter((entity) => entity.name.length >= 3);
+  const lowered = question.toLowerCase();
+  const matched = entities.filter((entity) =>
+    new RegExp(`(?:^|[^\\w])${escapeRegExp(entity.name.toLowerCase())}(?![\\w])`).test(lowered)
+  );
+  if (!matched.length) {
+    return { matched: [], related: [] };
+  }
+
+  const matchedIds = new Set(matched.map((entity) => entity.id));
+  const matchedMemories = new Set(matched.flatMap((entity) => entity.memoryIds));
+  const related = entities
+    .filter((entity) => !matchedIds.has(entity.id) && entity.type !== "date")
+    .map((entity) => ({ entity, shared: entity.memoryIds.filter((memoryId) => matchedMemories.has(memoryId)).length }))
+    .filter(({ shared }) => shared > 0)
+    .sort((a, b) => b.shared - a.shared || a.entity.memoryIds.length - b.entity.memoryIds.length)
+    .slice(0, RELATED_ENTITY_LIMIT)
+    .map(({ entity }) => entity.name);
+
+  return { matched: matched.map((entity) => entity.name), related };
+}
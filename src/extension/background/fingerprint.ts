@@ -0,0 +1,61 @@
+import { tokenizeForIndex } from "./search-index";
+
+// 64-bit SimHash stored as 16 hex chars; chunks within this many differing bits are treated as the same text
+export const SIMHASH_DUPLICATE_DISTANCE = 3;
+
+const SIMHASH_BITS = 64;
+const SHINGLE_SIZE = 3;
+// Very short chunks share most shingles with any page, so they are never fingerprinted
+const MIN_FINGERPRINT_TOKENS = 12;
+
+// 32-bit FNV-1a, two seeds give the high and low halves of each 64-bit feature hash
+function hashShingle(shingle: string, seed: number): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let index = 0; index < shingle.length; index += 1) {
+    hash ^= shingle.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// SimHash over word shingles. A non-zero seed (the vault embedding seed) keys the hashes like chunk vectors.
+export function computeSimHash(text: string, seed: number = 0): string | null {
+  const tokens = tokenizeForIndex(text);
+  if (tokens.length < MIN_FINGERPRINT_TOKENS) {
+    return null;
+  }
+
+  const weights = new Int32Array(SIMHASH_BITS);
+  for (let start = 0; start + SHINGLE_SIZE <= tokens.length; start += 1) {
+    const shingle = tokens.slice(start, start + SHINGLE_SIZE).join(" ");
+    const halves = [hashShingle(shingle, seed), hashShingle(shingle, seed ^ 0x9e3779b9)];
+    for (let bit = 0; bit < SIMHASH_BITS; bit += 1) {
+      const half = halves[bit >> 5];
+      weights[bit] += (half >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  }
+
+  const words = [0, 0];
+  for (let bit = 0; bit < SIMHASH_BITS; bit += 1) {
+    if (weights[bit] > 0) {
+      words[bit >> 5] |= 1 << (bit & 31);
+    }
+  }
+  return words.map((word) => (word >>> 0).toString(16).padStart(8, "0")).join("");
+}
+
+function popCount(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24);
+}
+
+export function hammingDistance(a: string, b: string): number {
+  const high = parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16);
+  const low = parseInt(a.slice(8, 16), 16) ^ parseInt(b.slice(8, 16), 16);
+  return popCount(high) + popCount(low);
+}
+
+export function isNearDuplicate(a: string, b: string): boolean {
+  return hammingDistance(a, b) <= SIMHASH_DUPLICATE_DISTANCE;
+}
@@ -0,0 +1,114 @@
+import type { MemoryRecord, PageHighlight } from "../types";
+import {
+  addContentChunks,
+  addOrUpdateMemory,
+  extractKeywordsFromText,
+  getMemoryByUrl,
+  getMemoryChunks,
+} from "./memory-store";
+import { getRedactionSettings, redactText } from "./redaction";
+import { HIGHLIGHT_SOURCE_TAG } from "./search-index";
+import { resolveCaptureSession } from "./sessions";
+import { generateKeyPointSummary } from "./summarizer";
+import { resolveCanonicalUrl } from "./url-normalizer";
+import { isVaultLocked } from "./vault";
+
+const MAX_HIGHLIGHT_CHARS = 12000;
+const KEY_POINTS_CHARS = 400;
+
+export type HighlightDraft = {
+  pageUrl: string;
+  canonicalUrl?: string | null;
+  title: string;
+  text: string;
+  anchor: string | null;
+  position?: { start: number; end: number } | null;
+  note?: string | null;
+  summarize?: boolean;
+  windowId?: number;
+};
+
+export type SavedHighlight = {
+  memory: MemoryRecord;
+  keyPoints: string;
+  // True when the page had no memory yet, so the caller can capture the rest of it
+  createdMemory: boolean;
+};
+
+function fallbackKeyPoints(text: string): string {
+  if (text.length <= KEY_POINTS_CHARS) {
+    return text;
+  }
+  const sentences = text.split(/[.!?]\s+/).filter(Boolean).slice(0, 3);
+  return sentences.length > 0 ? `- ${sentences.join("\n- ")}` : text.slice(0, KEY_POINTS_CHARS);
+}
+
+// Store a selected passage as a highlight chunk on its page's memory, creating the memory if needed
+export async function saveHighlight(draft: HighlightDraft): Promise<SavedHighlight> {
+  if (await isVaultLocked()) {
+    throw new Error("Unlock the memory vault to save highlights.");
+  }
+
+  const settings = await getRedactionSettings();
+  const text = redactText(draft.text.trim().slice(0, MAX_HIGHLIGHT_CHARS), settings).text;
+  if (!text) {
+    throw new Error("Select some text to save.");
+  }
+
+  let keyPoints = "";
+  if (draft.summarize) {
+    try {
+      keyPoints = (await generateKeyPointSummary(text)) ?? "";
+    } catch (error) {
+      console.debug("[NanoScribe::Highlights] Highlight summarization failed, using fallback", error);
+    }
+  }
+  keyPoints = redactText(keyPoints || fallbackKeyPoints(text), settings).text;
+
+  const title = redactText(draft.title, settings).text;
+  const url = resolveCanonicalUrl(draft.pageUrl, draft.canonicalUrl);
+  const existing = await getMemoryByUrl(url);
+  const memory = existing ?? (await addOrUpdateMemory({ url, title, summary: "" }));
+  const ordinal = (await getMemoryChunks(memory.id)).length;
+  const note = draft.note?.trim() || undefined;
+  const sessionId = await resolveCaptureSession({ windowId: draft.windowId, text: `${title} ${text}` });
+
+  // A highlight usually repeats a section of the captured page, so near-duplicate skipping must not drop it
+  await addContentChunks(
+    [
+      {
+        memoryId: memory.id,
+        sessionId,
+        // Chunk titles are stored unsealed, so the title must not repeat the passage
+        chunkTitle: "Highlight",
+        rawText: text,
+        keyPoints,
+        keywords: extractKeywordsFromText(`${title} ${note ?? ""} ${keyPoints} ${text}`),
+        ordinal,
+        sourceTag: HIGHLIGHT_SOURCE_TAG,
+        highlight: { anchor: draft.anchor, pageUrl: draft.pageUrl, note, position: draft.position ?? undefined },
+      },
+    ],
+    { skipNearDuplicates: false },
+  );
+
+  console.log(`[NanoScribe::Highlights] ✨ Saved highlight on ${url}${note ? " with a note" : ""}`);
+  return { memory: (await getMemoryByUrl(url)) ?? memory, keyPoints, createdMemory: !existing };
+}
+
+// Highlights saved on the page at this address; sealed highlights are skipped while the vault is locked
+export async function getPageHighlights(pageUrl: string, canonicalUrl?: string | null): Promise<PageHighlight[]> {
+  const memory = await getMemoryByUrl(resolveCanonicalUrl(pageUrl, canonicalUrl));
+  if (!memory) {
+    return [];
+  }
+
+  const chunks = await getMemoryChunks(memory.id);
+  return chunks
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .flatMap(({ id, rawText, sourceTag, highlight, createdAt }) =>
+      sourceTag === HIGHLIGHT_SOURCE_TAG && highlight
+        ? [{ chunkId: id, memoryId: memory.id, text: rawText, anchor: highlight.anchor, note: highlight.note, position: highlight.position, createdAt }]
+        : [],
+    );
+}
@@ -243,6 +243,18 @@ function truncateText(input: string | undefined | null, maxLength = 180): string
   return `${text.slice(0, Math.max(0, maxLength - 3))}...`;
 }
 
+const MAX_CONTEXT_ENTRIES = 5;
+// Pinned reference pages always get a slot, but never more than this many of the five
+const PINNED_CONTEXT_BUDGET = 2;
+
+function selectContextEntries(entries: AutocompleteContextEntry[] | undefined): AutocompleteContextEntry[] {
+  if (!entries) return [];
+  const pinned = entries.filter((entry) => entry.pinned).slice(0, PINNED_CONTEXT_BUDGET);
+  const pinnedIds = new Set(pinned.map((entry) => entry.id).filter(Boolean));
+  const ranked = entries.filter((entry) => !entry.pinned && !(entry.id && pinnedIds.has(entry.id)));
+  return [...pinned, ...ranked].slice(0, MAX_CONTEXT_ENTRIES);
+}
+
 function buildContextSection(entries: AutocompleteContextEntry[] | undefined, summary: string | null | undefined) {
   if ((!entries || entries.length === 0) && !summary) {
     return null;
@@ -262,8 +274,20 @@ function buildContextSection(entries: AutocompleteContextEntry[] | undefined, su
     }
   }
 
-  if (entries && entries.length > 0) {
-    const formatted = entries.slice(0, 5).map((entry, index) => {
+  const selected = selectContextEntries(entries);
+  const pinned = selected.filter((entry) => entry.pinned);
+  if (pinned.length > 0) {
+    const formatted = pinned.map((entry) => {
+      const title = truncateText(entry.title ?? "Reference", 80);
+      const summaryText = truncateText(entry.summary, 240);
+      return `- [Pinned] ${title}${summaryText ? ` — ${summaryText}` : ""}`;
+    });
+    sections.push(`## Pinned references (follow their terminology and style when relevant)\n${formatted.join("\n")}`);
+  }
+
+  const ranked = selected.filter((entry) => !entry.pinned);
+  if (ranked.length > 0) {
+    const formatted = ranked.map((entry, index) => {
       const relevanceTag = index < 2 ? "High" : "Related";
       const sourceTag = entry.source === "session" ? "Session" : "Memory";
       const title = truncateText(entry.title ?? "Context note", 80);
@@ -537,7 +561,7 @@ export async function generateCompletionFromPrompt(params: {
   contextSummary?: string | null;
   contextEntries?: AutocompleteContextEntry[];
 }): Promise<CompletionResultPayload> {
-  const contextEntries = params.contextEntries?.slice(0, 5) ?? [];
+  const contextEntries = selectContextEntries(params.contextEntries);
   const contextSummary = params.contextSummary ?? null;
   console.log("[NanoScribe] 🚀 generateCompletionFromPrompt CALLED with:", {
     textLength: params.text?.length || 0,
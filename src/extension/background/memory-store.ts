@@ -1,12 +1,56 @@
 import type {
   ContentChunkRecord,
+  EntityEdge,
+  EntityRecord,
+  ExtractedEntity,
   MemoryRecord,
+  MemoryRevision,
   MemoryStructuredSummary,
   MemorySummarySection,
-  SessionGroup
+  MigrationProgress,
+  MigrationReport,
+  ScoredChunk,
+  SessionGroup,
+  StoreUsage,
+  TagCount
 } from "../types";
 import { generateKeyPointSummary } from "./summarizer";
 import { generateJsonFromPrompt, isLanguageModelReady } from "./language-model";
+import {
+  applySchemaUpgrades,
+  createMigrationSnapshot,
+  restoreMigrationSnapshot,
+  runRecordMigrations,
+  type MigrationContext,
+  type MigrationStepResult,
+  type SchemaMigration,
+} from "./migrations";
+import {
+  getVaultProtection,
+  getVaultStatus,
+  isVaultLocked,
+  openSealedPayload,
+  touchVault,
+  VAULT_LOCKED_MESSAGE,
+  type VaultProtection,
+} from "./vault";
+import { computeSimHash, isNearDuplicate } from "./fingerprint";
+import { normalizeMemoryUrl } from "./url-normalizer";
+import { normalizeTags } from "./tags";
+import { cosineSimilarity, embedChunk, embedText, EMBEDDING_DIMENSIONS, EMBEDDING_VERSION, type ChunkVectorRecord } from "./embedding";
+import {
+  HIGHLIGHT_SOURCE_TAG,
+  blendRankings,
+  boostHighlights,
+  buildChunkIndexText,
+  buildQueryTerms,
+  computeTermFrequencies,
+  scoreBm25,
+  tokenizeForIndex,
+  type ChunkDocumentStats,
+  type ChunkTermPosting,
+  type SearchCorpusStats,
+} from "./search-index";
 
 export function sanitizeKeyPointsText(keyPoints: string): string {
   return keyPoints
@@ -24,10 +68,29 @@ declare global {
 }
 
 const DATABASE_NAME = "nanoscribe-memories";
-const DATABASE_VERSION = 5; // Incremented for keywords index support
+export const DATABASE_VERSION = 12; // Must match the last entry in SCHEMA_MIGRATIONS
 const STORE_NAME = "memories";
 const CHUNK_STORE_NAME = "contentChunks";
 const KEYWORD_INDEX_NAME = "by-keyword";
+const TAG_INDEX_NAME = "by-tag";
+const FINGERPRINT_INDEX_NAME = "by-fingerprint";
+const TERM_STORE_NAME = "chunkTerms";
+const DOC_STATS_STORE_NAME = "chunkStats";
+const SEARCH_META_STORE_NAME = "searchMeta";
+const CHUNK_VECTOR_STORE_NAME = "chunkVectors";
+const REVISION_STORE_NAME = "memoryRevisions";
+const ENTITY_STORE_NAME = "entities";
+const ENTITY_EDGE_STORE_NAME = "entityEdges";
+const ENTITY_STORES = [ENTITY_STORE_NAME, ENTITY_EDGE_STORE_NAME];
+// Entities mentioned by more memories than this (years, big vendors) are too common to link memories by
+const MAX_EDGE_ENTITY_FANOUT = 40;
+const MAX_REVISIONS_PER_MEMORY = 20;
+// Manual notes keep their chunks in one session of their own instead of joining the current browsing session
+export const NOTES_SESSION_ID = "notes";
+const CORPUS_STATS_KEY = "bm25-corpus";
+const SEARCH_INDEX_STORES = [TERM_STORE_NAME, DOC_STATS_STORE_NAME, SEARCH_META_STORE_NAME, CHUNK_VECTOR_STORE_NAME];
+const VECTOR_MIN_SIMILARITY = 0.12;
+const VECTOR_BACKFILL_BATCH_SIZE = 50;
 
 type MemoryDraft = Omit<MemoryRecord, "id" | "createdAt" | "updatedAt">;
 type ContentChunkDraft = {
@@ -39,6 +102,7 @@ type ContentChunkDraft = {
   keywords: string[];
   ordinal: number;
   sourceTag?: string;
+  highlight?: ContentChunkRecord["highlight"];
 };
 
 type SummaryConvertibleChunk = Pick<ContentChunkRecord, "ordinal" | "chunkTitle" | "rawText"> & {
@@ -192,18 +256,28 @@ async function generateSessionTitleFromContent(
   }
 }
 
-// Force database upgrade by resetting and reopening
+// Force database upgrade by recreating the schema, then restoring records from a snapshot
 export async function forceDatabaseUpgrade(): Promise<{ success: boolean; message: string }> {
   console.log("[NanoScribe::Memory] 🔄 Forcing database upgrade...");
 
   try {
-    await resetDatabase();
+    const currentDb = await openDatabase();
+    const snapshotCount = await createMigrationSnapshot(currentDb, ALL_STORE_NAMES, currentDb.version);
+
+    await resetDatabase(currentDb);
     console.log("[NanoScribe::Memory] ✅ Database reset complete, reopening...");
 
     // Opening database will trigger the upgrade to the latest version
-    await openDatabase();
+    const upgradedDb = await openDatabase();
+    await restoreMigrationSnapshot(upgradedDb);
+
+    const report = await runDatabaseMigrations();
+    if (report.status !== "completed") {
+      throw new Error(report.error ?? "Record migrations failed");
+    }
+
     console.log("[NanoScribe::Memory] ✅ Database upgrade completed successfully");
-    return { success: true, message: "Database upgrade completed successfully" };
+    return { success: true, message: `Database upgrade completed successfully (${snapshotCount} records preserved)` };
   } catch (error) {
     console.error("[NanoScribe::Memory] ❌ Database upgrade failed:", error);
     return {
@@ -231,89 +305,369 @@ async function resetDatabase(currentDb?: IDBDatabase): Promise<void> {
   });
 }
 
-function openDatabase(): Promise<IDBDatabase> {
-  console.log("[NanoScribe::Memory] 🔍 openDatabase() CALLED");
-
-  if (databasePromise) {
-    console.log("[NanoScribe::Memory] ✅ Using existing database promise");
-    return databasePromise;
+function ensureSessionIndex(transaction: IDBTransaction): void {
+  const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+  if (!chunkStore.indexNames.contains("by-sessionId-createdAt")) {
+    chunkStore.createIndex("by-sessionId-createdAt", ["sessionId", "createdAt"], { unique: false });
+    console.log("[NanoScribe::Memory] ✅ Compound index created successfully");
   }
+}
 
-  console.log("[NanoScribe::Memory] 🔄 Creating new database promise...");
-  databasePromise = new Promise((resolve, reject) => {
-    console.log("[NanoScribe::Memory] 🔄 Creating IndexedDB.open() request...");
-    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
-
-    request.onupgradeneeded = () => {
-      console.log("[NanoScribe::Memory] 🔄 Database upgrade needed");
-      const db = request.result;
-
-      const oldVersion = request.oldVersion || 0;
-
-      if (oldVersion < 1) {
-        console.log("[NanoScribe::Memory] 🔄 Creating memories store...");
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
-          store.createIndex("by-url", "url", { unique: true });
-          store.createIndex("by-createdAt", "createdAt", { unique: false });
+// Ordered schema history. New versions append a step here and bump DATABASE_VERSION;
+// data changes go in migrateRecords so they transform records in place instead of clearing stores.
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: "Create memories store",
+    upgradeSchema: (db) => {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex("by-url", "url", { unique: true });
+        store.createIndex("by-createdAt", "createdAt", { unique: false });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Create content chunks store",
+    upgradeSchema: (db) => {
+      if (!db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
+        const chunkStore = db.createObjectStore(CHUNK_STORE_NAME, { keyPath: "id" });
+        chunkStore.createIndex("by-memoryId", "memoryId", { unique: false });
+        chunkStore.createIndex("by-createdAt", "createdAt", { unique: false });
+        chunkStore.createIndex(KEYWORD_INDEX_NAME, "keywords", { unique: false, multiEntry: true });
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "Add sessionId-createdAt compound index",
+    upgradeSchema: (db, transaction) => {
+      if (db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
+        ensureSessionIndex(transaction);
+      } else {
+        console.warn("[NanoScribe::Memory] ⚠️ Chunk store not available for compound index creation");
+      }
+    },
+  },
+  {
+    version: 4,
+    description: "Add sourceTag support",
+    // sourceTag is optional, so only databases that skipped v3 need the compound index
+    upgradeSchema: (db, transaction) => {
+      if (db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
+        ensureSessionIndex(transaction);
+      }
+    },
+  },
+  {
+    version: 5,
+    description: "Add keyword index and backfill chunk keywords",
+    upgradeSchema: (db, transaction) => {
+      if (db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
+        const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+        if (!chunkStore.indexNames.contains(KEYWORD_INDEX_NAME)) {
+          chunkStore.createIndex(KEYWORD_INDEX_NAME, "keywords", { unique: false, multiEntry: true });
+          console.log("[NanoScribe::Memory] ✅ Keyword index created");
         }
       }
+    },
+    migrateRecords: backfillChunkKeywords,
+  },
+  {
+    version: 6,
+    description: "Add BM25 inverted index",
+    upgradeSchema: (db, transaction) => {
+      if (!db.objectStoreNames.contains(TERM_STORE_NAME)) {
+        const termStore = db.createObjectStore(TERM_STORE_NAME, { keyPath: ["term", "chunkId"] });
+        termStore.createIndex("by-chunkId", "chunkId", { unique: false });
+      }
+      if (!db.objectStoreNames.contains(DOC_STATS_STORE_NAME)) {
+        db.createObjectStore(DOC_STATS_STORE_NAME, { keyPath: "chunkId" });
+      }
+      if (!db.objectStoreNames.contains(SEARCH_META_STORE_NAME)) {
+        db.createObjectStore(SEARCH_META_STORE_NAME, { keyPath: "key" });
+      }
 
-      if (oldVersion < 2) {
-        if (!db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
-          console.log("[NanoScribe::Memory] 🔄 Creating content chunks store...");
-          const chunkStore = db.createObjectStore(CHUNK_STORE_NAME, { keyPath: "id" });
-          chunkStore.createIndex("by-memoryId", "memoryId", { unique: false });
-          chunkStore.createIndex("by-createdAt", "createdAt", { unique: false });
-          chunkStore.createIndex(KEYWORD_INDEX_NAME, "keywords", { unique: false, multiEntry: true });
+      if (db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
+        backfillSearchIndex(transaction);
+      }
+    },
+  },
+  {
+    version: 7,
+    description: "Add chunk vector store",
+    upgradeSchema: (db) => {
+      if (!db.objectStoreNames.contains(CHUNK_VECTOR_STORE_NAME)) {
+        db.createObjectStore(CHUNK_VECTOR_STORE_NAME, { keyPath: "chunkId" });
+      }
+      // Existing chunks are embedded by backfillChunkVectors() after startup
+    },
+  },
+  {
+    version: 8,
+    description: "Add chunk fingerprint index and backfill SimHash fingerprints",
+    upgradeSchema: (db, transaction) => {
+      if (db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
+        const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+        if (!chunkStore.indexNames.contains(FINGERPRINT_INDEX_NAME)) {
+          chunkStore.createIndex(FINGERPRINT_INDEX_NAME, "fingerprint", { unique: false });
+          console.log("[NanoScribe::Memory] ✅ Fingerprint index created");
+        }
+      }
+    },
+    migrateRecords: backfillChunkFingerprints,
+  },
+  {
+    version: 9,
+    description: "Add memory revisions store",
+    upgradeSchema: (db) => {
+      if (!db.objectStoreNames.contains(REVISION_STORE_NAME)) {
+        const revisionStore = db.createObjectStore(REVISION_STORE_NAME, { keyPath: "id" });
+        revisionStore.createIndex("by-memoryId-capturedAt", ["memoryId", "capturedAt"], { unique: false });
+      }
+      // Existing memories get a baseline revision from their stored state the next time they are re-captured
+    },
+  },
+  {
+    version: 10,
+    description: "Merge memories whose URLs normalize to the same canonical address",
+    migrateRecords: mergeDuplicateUrlMemories,
+  },
+  {
+    version: 11,
+    description: "Add memory tag index",
+    upgradeSchema: (db, transaction) => {
+      if (db.objectStoreNames.contains(STORE_NAME)) {
+        const store = transaction.objectStore(STORE_NAME);
+        if (!store.indexNames.contains(TAG_INDEX_NAME)) {
+          store.createIndex(TAG_INDEX_NAME, "tags", { unique: false, multiEntry: true });
         }
       }
+    },
+  },
+  {
+    version: 12,
+    description: "Add entity and entity co-occurrence stores",
+    upgradeSchema: (db) => {
+      if (!db.objectStoreNames.contains(ENTITY_STORE_NAME)) {
+        const entityStore = db.createObjectStore(ENTITY_STORE_NAME, { keyPath: "id" });
+        entityStore.createIndex("by-memoryId", "memoryIds", { unique: false, multiEntry: true });
+      }
+      if (!db.objectStoreNames.contains(ENTITY_EDGE_STORE_NAME)) {
+        const edgeStore = db.createObjectStore(ENTITY_EDGE_STORE_NAME, { keyPath: "id" });
+        edgeStore.createIndex("by-memoryId", "memoryIds", { unique: false, multiEntry: true });
+      }
+      // Existing memories are indexed by backfillMemoryEntities() after startup
+    },
+  },
+];
+
+const ALL_STORE_NAMES = [STORE_NAME, CHUNK_STORE_NAME, ...SEARCH_INDEX_STORES, REVISION_STORE_NAME, ...ENTITY_STORES];
+// Stores touched when memories are removed: the records, their chunks, the search index, revision history and entity graph
+const MEMORY_DELETE_STORES = [STORE_NAME, CHUNK_STORE_NAME, ...SEARCH_INDEX_STORES, REVISION_STORE_NAME, ...ENTITY_STORES];
+
+// Older builds cleared chunks to rebuild keywords; fill in missing keywords in place instead
+async function backfillChunkKeywords(context: MigrationContext): Promise<MigrationStepResult> {
+  const transaction = context.db.transaction(CHUNK_STORE_NAME, context.dryRun ? "readonly" : "readwrite");
+  const store = transaction.objectStore(CHUNK_STORE_NAME);
+  const chunks = await promisifyRequest<ContentChunkRecord[]>(store.getAll());
+  let changed = 0;
+
+  for (const [index, chunk] of chunks.entries()) {
+    // Sealed chunks get their keywords when they are written, and their text is not readable here
+    if (!chunk.sealed && (!Array.isArray(chunk.keywords) || chunk.keywords.length === 0)) {
+      changed += 1;
+      if (!context.dryRun) {
+        const keywords = extractKeywordsFromText(`${chunk.chunkTitle ?? ""} ${chunk.keyPoints ?? ""} ${chunk.rawText ?? ""}`);
+        await promisifyRequest(store.put({ ...chunk, keywords }));
+      }
+    }
+    if (index % 50 === 0) {
+      context.reportProgress(index, chunks.length);
+    }
+  }
 
-      if (oldVersion < 3) {
-        console.log("[NanoScribe::Memory] 🔄 Creating compound index for sessionId-createdAt...");
+  context.reportProgress(chunks.length, chunks.length);
+  if (!context.dryRun) {
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
 
-        if (db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
-          const chunkStore = request.transaction.objectStore(CHUNK_STORE_NAME);
+  return { scanned: chunks.length, changed };
+}
 
-          // Check if index already exists before creating
-          if (!chunkStore.indexNames.contains("by-sessionId-createdAt")) {
-            chunkStore.createIndex("by-sessionId-createdAt", ["sessionId", "createdAt"], { unique: false });
-            console.log("[NanoScribe::Memory] ✅ Compound index created successfully");
-          } else {
-            console.log("[NanoScribe::Memory] ✅ Compound index already exists");
-          }
-        } else {
-          console.warn("[NanoScribe::Memory] ⚠️ Chunk store not available for compound index creation");
+// Fingerprint existing plaintext chunks; sealed chunks get theirs the next time the vault rewrites them
+async function backfillChunkFingerprints(context: MigrationContext): Promise<MigrationStepResult> {
+  const transaction = context.db.transaction(CHUNK_STORE_NAME, context.dryRun ? "readonly" : "readwrite");
+  const store = transaction.objectStore(CHUNK_STORE_NAME);
+  const chunks = await promisifyRequest<ContentChunkRecord[]>(store.getAll());
+  let changed = 0;
+
+  for (const [index, chunk] of chunks.entries()) {
+    if (!chunk.sealed && !chunk.fingerprint) {
+      const fingerprint = computeSimHash(chunk.rawText ?? "");
+      if (fingerprint) {
+        changed += 1;
+        if (!context.dryRun) {
+          await promisifyRequest(store.put({ ...chunk, fingerprint }));
         }
       }
+    }
+    if (index % 50 === 0) {
+      context.reportProgress(index, chunks.length);
+    }
+  }
 
-      if (oldVersion < 4) {
-        console.log("[NanoScribe::Memory] 🔄 Database upgrade to v4 - adding sourceTag support");
-        // Check if we need to add the compound index (for databases that skipped v3)
-        if (db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
-          const chunkStore = request.transaction.objectStore(CHUNK_STORE_NAME);
-          if (!chunkStore.indexNames.contains("by-sessionId-createdAt")) {
-            chunkStore.createIndex("by-sessionId-createdAt", ["sessionId", "createdAt"], { unique: false });
-            console.log("[NanoScribe::Memory] ✅ Compound index created for v4 upgrade");
-          }
-        }
-        // No schema changes needed since sourceTag is optional and has a default value
+  context.reportProgress(chunks.length, chunks.length);
+  if (!context.dryRun) {
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  return { scanned: chunks.length, changed };
+}
+
+// One-time merge for memories captured before URL normalization: the oldest record of each group keeps its id
+// and takes the newest capture's content, and every chunk, vector, stat and revision is moved onto it
+async function mergeDuplicateUrlMemories(context: MigrationContext): Promise<MigrationStepResult> {
+  const storeNames = [STORE_NAME, CHUNK_STORE_NAME, DOC_STATS_STORE_NAME, CHUNK_VECTOR_STORE_NAME, REVISION_STORE_NAME].filter((name) =>
+    context.db.objectStoreNames.contains(name)
+  );
+  const transaction = context.db.transaction(storeNames, context.dryRun ? "readonly" : "readwrite");
+  const memoryStore = transaction.objectStore(STORE_NAME);
+  const memories = await promisifyRequest<MemoryRecord[]>(memoryStore.getAll());
+
+  const groups = new Map<string, MemoryRecord[]>();
+  for (const memory of memories) {
+    const canonical = normalizeMemoryUrl(memory.url);
+    groups.set(canonical, [...(groups.get(canonical) ?? []), memory]);
+  }
+
+  let changed = 0;
+  let processed = 0;
+  for (const [canonicalUrl, group] of groups) {
+    processed += group.length;
+    if (group.length === 1 && group[0].url === canonicalUrl) {
+      continue;
+    }
+
+    changed += group.length;
+    if (!context.dryRun) {
+      const byAge = group.slice().sort((a, b) => a.createdAt - b.createdAt);
+      const newest = group.reduce((latest, memory) => (memory.updatedAt > latest.updatedAt ? memory : latest));
+      const survivor: MemoryRecord = {
+        ...newest,
+        id: byAge[0].id,
+        url: canonicalUrl,
+        createdAt: byAge[0].createdAt,
+        updatedAt: newest.updatedAt,
+        pinned: group.some((memory) => memory.pinned) || undefined,
+        tags: normalizeTags(group.flatMap((memory) => memory.tags ?? [])),
+      };
+      const mergedIds = new Set(byAge.slice(1).map((memory) => memory.id));
+
+      // Delete the merged records before the survivor takes the canonical URL, so the unique by-url index never collides
+      for (const memoryId of mergedIds) {
+        await promisifyRequest(memoryStore.delete(memoryId));
       }
+      await promisifyRequest(memoryStore.put(survivor));
+      await reassignMemoryRecords(transaction, mergedIds, survivor.id);
+    }
 
-      if (oldVersion < 5) {
-        console.log("[NanoScribe::Memory] 🔄 Database upgrade to v5 - adding keyword index");
-        if (db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
-          const chunkStore = request.transaction.objectStore(CHUNK_STORE_NAME);
-          if (!chunkStore.indexNames.contains(KEYWORD_INDEX_NAME)) {
-            chunkStore.createIndex(KEYWORD_INDEX_NAME, "keywords", { unique: false, multiEntry: true });
-            console.log("[NanoScribe::Memory] ✅ Keyword index created");
-          }
+    context.reportProgress(processed, memories.length);
+  }
+
+  context.reportProgress(memories.length, memories.length);
+  if (!context.dryRun) {
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const merged = Array.from(groups.values()).filter((group) => group.length > 1).length;
+    if (merged > 0) {
+      console.log(`[NanoScribe::Memory] 🔗 Merged ${merged} groups of memories that shared a canonical URL`);
+    }
+  }
+
+  return { scanned: memories.length, changed };
+}
+
+// Point chunks, their stats/vectors, revisions and duplicate links owned by fromIds at toId
+async function reassignMemoryRecords(transaction: IDBTransaction, fromIds: Set<string>, toId: string): Promise<void> {
+  if (!fromIds.size) {
+    return;
+  }
 
-          // Clearing existing chunks ensures we rebuild keyword metadata consistently
-          chunkStore.clear();
-          console.log("[NanoScribe::Memory] ⚠️ Cleared existing chunks during v5 upgrade; they will be regenerated on revisit");
+  const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+  for (const memoryId of fromIds) {
+    const chunks = await promisifyRequest<ContentChunkRecord[]>(chunkStore.index("by-memoryId").getAll(memoryId));
+    for (const chunk of chunks) {
+      await promisifyRequest(chunkStore.put({ ...chunk, memoryId: toId }));
+      for (const storeName of [DOC_STATS_STORE_NAME, CHUNK_VECTOR_STORE_NAME]) {
+        if (!transaction.objectStoreNames.contains(storeName)) continue;
+        const store = transaction.objectStore(storeName);
+        const entry = await promisifyRequest<{ memoryId: string } | undefined>(store.get(chunk.id));
+        if (entry) {
+          await promisifyRequest(store.put({ ...entry, memoryId: toId }));
         }
       }
+    }
+
+    if (transaction.objectStoreNames.contains(REVISION_STORE_NAME)) {
+      const revisionStore = transaction.objectStore(REVISION_STORE_NAME);
+      const revisions = await promisifyRequest<MemoryRevision[]>(
+        revisionStore.index("by-memoryId-capturedAt").getAll(revisionRange(memoryId))
+      );
+      for (const revision of revisions) {
+        await promisifyRequest(revisionStore.put({ ...revision, memoryId: toId }));
+      }
+    }
+  }
+
+  const memoryStore = transaction.objectStore(STORE_NAME);
+  const linked = (await promisifyRequest<MemoryRecord[]>(memoryStore.getAll())).filter(
+    (memory) => memory.duplicateOf && fromIds.has(memory.duplicateOf)
+  );
+  for (const memory of linked) {
+    await promisifyRequest(memoryStore.put({ ...memory, duplicateOf: memory.id === toId ? undefined : toId }));
+  }
+}
+
+// Apply pending record migrations; see migrations.ts for dry-run and snapshot/rollback behaviour
+export async function runDatabaseMigrations(
+  options: { dryRun?: boolean; onProgress?: (progress: MigrationProgress) => void } = {}
+): Promise<MigrationReport> {
+  const db = await openDatabase();
+  return runRecordMigrations(db, SCHEMA_MIGRATIONS, { ...options, snapshotStores: ALL_STORE_NAMES });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  console.log("[NanoScribe::Memory] 🔍 openDatabase() CALLED");
+
+  if (databasePromise) {
+    console.log("[NanoScribe::Memory] ✅ Using existing database promise");
+    return databasePromise;
+  }
+
+  console.log("[NanoScribe::Memory] 🔄 Creating new database promise...");
+  databasePromise = new Promise((resolve, reject) => {
+    console.log("[NanoScribe::Memory] 🔄 Creating IndexedDB.open() request...");
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      console.log("[NanoScribe::Memory] 🔄 Database upgrade needed");
+      const db = request.result;
+
+      const oldVersion = request.oldVersion || 0;
+      applySchemaUpgrades(SCHEMA_MIGRATIONS, db, request.transaction!, oldVersion);
     };
 
     request.onsuccess = () => {
@@ -346,6 +700,35 @@ function openDatabase(): Promise<IDBDatabase> {
   return databasePromise;
 }
 
+// Index every existing chunk inside the upgrade transaction so search works right after v6
+function backfillSearchIndex(transaction: IDBTransaction): void {
+  const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+  const termStore = transaction.objectStore(TERM_STORE_NAME);
+  const statsStore = transaction.objectStore(DOC_STATS_STORE_NAME);
+  const metaStore = transaction.objectStore(SEARCH_META_STORE_NAME);
+  const corpus: SearchCorpusStats = { key: CORPUS_STATS_KEY, documentCount: 0, totalLength: 0 };
+
+  const cursorRequest = chunkStore.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) {
+      metaStore.put(corpus);
+      console.log(`[NanoScribe::Memory] ✅ Indexed ${corpus.documentCount} existing chunks for BM25 search`);
+      return;
+    }
+
+    const chunk = cursor.value as ContentChunkRecord;
+    const tokens = tokenizeForIndex(buildChunkIndexText(chunk));
+    for (const [term, frequency] of computeTermFrequencies(tokens)) {
+      termStore.put({ term, chunkId: chunk.id, frequency } satisfies ChunkTermPosting);
+    }
+    statsStore.put({ chunkId: chunk.id, memoryId: chunk.memoryId, length: tokens.length } satisfies ChunkDocumentStats);
+    corpus.documentCount += 1;
+    corpus.totalLength += tokens.length;
+    cursor.continue();
+  };
+}
+
 function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
   console.log("[NanoScribe::Memory] 🔄 promisifyRequest() CALLED for", request);
 
@@ -393,15 +776,15 @@ async function getStore(mode: IDBTransactionMode = "readonly") {
 }
 
 export async function addOrUpdateMemory(draft: MemoryDraft): Promise<MemoryRecord> {
-  const { store, transaction } = await getStore("readwrite");
-  const urlIndex = store.index("by-url");
-
-  const existing = await promisifyRequest<IDBValidKey | undefined>(urlIndex.getKey(draft.url));
+  // Sealing is async WebCrypto work, so resolve protection and the existing record before the write transaction
+  const protection = await getVaultProtection();
+  draft = { ...draft, url: normalizeMemoryUrl(draft.url) };
+  const existing = await getMemoryByUrl(draft.url);
   const now = Date.now();
 
   const record: MemoryRecord = existing
     ? {
-        ...(await promisifyRequest<MemoryRecord>(store.get(existing))),
+        ...existing,
         ...draft,
         updatedAt: now,
       }
@@ -411,8 +794,10 @@ export async function addOrUpdateMemory(draft: MemoryDraft): Promise<MemoryRecor
         createdAt: now,
         updatedAt: now,
       };
+  const stored = await prepareMemoryForStorage(record, protection);
 
-  await promisifyRequest(store.put(record));
+  const { store, transaction } = await getStore("readwrite");
+  await promisifyRequest(store.put(stored));
   await new Promise<void>((resolve, reject) => {
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
@@ -433,7 +818,7 @@ export async function getAllMemories(): Promise<MemoryRecord[]> {
     const request = store.index("by-createdAt").getAll();
     console.log("[NanoScribe::Memory] 🔄 IndexedDB getAll() request created, waiting for results...");
 
-    const results = await promisifyRequest(request);
+    const results = await revealMemories(await promisifyRequest(request));
     console.log("[NanoScribe::Memory] ✅ IndexedDB request completed, got", results.length, "records");
 
     const sorted = results.sort((a, b) => b.createdAt - a.createdAt);
@@ -445,6 +830,12 @@ export async function getAllMemories(): Promise<MemoryRecord[]> {
   }
 }
 
+// Keys only, for checks that don't need the (possibly sealed) records
+export async function getAllMemoryIds(): Promise<string[]> {
+  const { store } = await getStore("readonly");
+  return (await promisifyRequest<IDBValidKey[]>(store.getAllKeys())).map(String);
+}
+
 export async function searchMemories(query: string): Promise<MemoryRecord[]> {
   const trimmed = query.trim();
   if (!trimmed) {
@@ -467,9 +858,9 @@ export async function searchMemories(query: string): Promise<MemoryRecord[]> {
 export async function getMemoryByUrl(url: string): Promise<MemoryRecord | undefined> {
   const { store } = await getStore("readonly");
   const index = store.index("by-url");
-  const key = await promisifyRequest<IDBValidKey | undefined>(index.getKey(url));
+  const key = await promisifyRequest<IDBValidKey | undefined>(index.getKey(normalizeMemoryUrl(url)));
   if (key === undefined) return undefined;
-  return promisifyRequest<MemoryRecord>(store.get(key));
+  return revealMemory(await promisifyRequest<MemoryRecord>(store.get(key)));
 }
 
 async function getChunkStore(mode: IDBTransactionMode = "readonly") {
@@ -501,11 +892,25 @@ export async function getRecentChunksBySession(sessionId: string, limit: number
     // Query using compound key range: [sessionId, minTime] to [sessionId, maxTime]
     // This efficiently finds all chunks for the session without needing to scan all records
     const range = IDBKeyRange.bound([sessionId, 0], [sessionId, Number.MAX_SAFE_INTEGER]);
-    const chunks = await promisifyRequest<ContentChunkRecord[]>(compoundIndex.getAll(range, limit));
 
-    // The index already returns results sorted by [sessionId, createdAt], so no additional sorting needed
+    // Walk the index backwards so the newest chunks come first, matching the fallback below
+    const chunks = await new Promise<ContentChunkRecord[]>((resolve, reject) => {
+      const collected: ContentChunkRecord[] = [];
+      const request = compoundIndex.openCursor(range, "prev");
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || collected.length >= limit) {
+          resolve(collected);
+          return;
+        }
+        collected.push(cursor.value as ContentChunkRecord);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
     console.log(`[NanoScribe::Memory] ✅ Found ${chunks.length} chunks using compound index`);
-    return chunks;
+    return revealChunks(chunks);
   } catch (error) {
     // Fallback: compound index doesn't exist yet (database needs upgrade)
     console.warn("[NanoScribe::Memory] ⚠️ Compound index not available, falling back to JavaScript filtering:", error);
@@ -522,7 +927,7 @@ export async function getRecentChunksBySession(sessionId: string, limit: number
         .slice(0, limit);
 
       console.log(`[NanoScribe::Memory] ✅ Found ${sessionChunks.length} chunks using fallback filtering`);
-      return sessionChunks;
+      return revealChunks(sessionChunks);
     } catch (fallbackError) {
       console.error("[NanoScribe::Memory] ❌ Both compound index and fallback failed:", fallbackError);
       throw fallbackError;
@@ -537,142 +942,582 @@ export async function getAllChunks(limit: number = 1000): Promise<ContentChunkRe
     // Use the createdAt index to get all chunks
     const index = store.index("by-createdAt");
     const allChunks = await promisifyRequest<ContentChunkRecord[]>(index.getAll(undefined, limit));
+    if (allChunks.length === limit) {
+      console.warn(`[NanoScribe::Memory] ⚠️ getAllChunks() hit its ${limit}-chunk limit; older chunks were not returned`);
+    }
 
     // Sort by creation time descending (newest first)
-    return allChunks.sort((a, b) => b.createdAt - a.createdAt);
+    return revealChunks(allChunks.sort((a, b) => b.createdAt - a.createdAt));
   } catch (error) {
     console.error("[NanoScribe::Memory] ❌ Failed to get all chunks:", error);
     throw error;
   }
 }
 
-export async function getChunksByKeywords(queryKeywords: string[], limit: number = 50, fallbackQuery?: string): Promise<ContentChunkRecord[]> {
-  if (!queryKeywords.length && !fallbackQuery) {
-    return [];
+type SealedMemoryFields = Pick<MemoryRecord, "summary" | "structuredSummary">;
+type SealedChunkFields = Pick<ContentChunkRecord, "rawText" | "keyPoints" | "keywords" | "highlight">;
+type SealedRevisionFields = Pick<MemoryRevision, "summary" | "structuredSummary" | "chunks" | "contentHash">;
+
+// Chunk record plus everything derived from its plaintext, computed before any write transaction opens
+type PreparedChunk = {
+  record: ContentChunkRecord;
+  termFrequencies: Map<string, number>;
+  length: number;
+  vector: ChunkVectorRecord;
+};
+
+async function prepareMemoryForStorage(memory: MemoryRecord, protection: VaultProtection | null): Promise<MemoryRecord> {
+  const { sealed: _previous, ...plain } = memory;
+  if (!protection) {
+    return plain;
   }
 
-  const { store } = await getChunkStore("readonly");
-  const seen = new Set<string>();
-  const results: ContentChunkRecord[] = [];
+  const sealed = await protection.seal({ summary: plain.summary, structuredSummary: plain.structuredSummary } satisfies SealedMemoryFields);
+  return { ...plain, summary: "", structuredSummary: undefined, sealed };
+}
 
-  try {
-    if (queryKeywords.length) {
-      const keywordIndex = store.index(KEYWORD_INDEX_NAME);
-      for (const keyword of queryKeywords) {
-        const matches = await promisifyRequest<ContentChunkRecord[]>(keywordIndex.getAll(keyword));
-        for (const match of matches) {
-          if (seen.has(match.id)) {
-            continue;
-          }
-          results.push(match);
-          seen.add(match.id);
-          if (results.length >= limit) {
-            return results;
-          }
-        }
-      }
-    }
-  } catch (error) {
-    console.warn("[NanoScribe::Memory] ⚠️ Keyword index lookup failed, falling back to text search", error);
+async function prepareChunkForStorage(chunk: ContentChunkRecord, protection: VaultProtection | null): Promise<PreparedChunk> {
+  const { sealed: _previous, fingerprint: _fingerprint, ...rest } = chunk;
+  // Keyed by the vault seed like chunk vectors, so fingerprints are recomputed whenever records are rewritten
+  const fingerprint = computeSimHash(rest.rawText ?? "", protection?.embeddingSeed ?? 0) ?? undefined;
+  const plain: ContentChunkRecord = fingerprint ? { ...rest, fingerprint } : rest;
+  const tokens = tokenizeForIndex(buildChunkIndexText(plain));
+  const frequencies = computeTermFrequencies(tokens);
+  const vector: ChunkVectorRecord = {
+    chunkId: plain.id,
+    memoryId: plain.memoryId,
+    version: EMBEDDING_VERSION,
+    vector: embedChunk(plain, protection?.embeddingSeed ?? 0),
+  };
+
+  if (!protection) {
+    return { record: plain, termFrequencies: frequencies, length: tokens.length, vector };
   }
 
-  if (results.length >= limit) {
-    return results.slice(0, limit);
+  // Index terms and keywords are stored as keyed hashes so the index does not leak page text
+  const plainTerms = Array.from(frequencies.keys());
+  const hashedTerms = await protection.protectTerms(plainTerms);
+  const termFrequencies = new Map<string, number>();
+  hashedTerms.forEach((term, index) => {
+    termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + frequencies.get(plainTerms[index])!);
+  });
+
+  const sealed = await protection.seal({
+    rawText: plain.rawText,
+    keyPoints: plain.keyPoints,
+    keywords: plain.keywords,
+    highlight: plain.highlight,
+  } satisfies SealedChunkFields);
+  const record: ContentChunkRecord = {
+    ...plain,
+    rawText: "",
+    keyPoints: "",
+    keywords: await protection.protectTerms(plain.keywords),
+    highlight: undefined,
+    sealed,
+  };
+
+  return { record, termFrequencies, length: tokens.length, vector };
+}
+
+async function prepareRevisionForStorage(revision: MemoryRevision, protection: VaultProtection | null): Promise<MemoryRevision> {
+  const { sealed: _previous, ...plain } = revision;
+  if (!protection) {
+    return plain;
   }
 
-  // Fallback: scan chunks by createdAt order and match against fallback query/keywords
-  const fallbackText = (fallbackQuery ?? queryKeywords.join(" ")).toLowerCase();
-  if (!fallbackText) {
-    return results;
+  // The content hash is sealed too, since it would confirm a guess at a page's text
+  const sealed = await protection.seal({
+    summary: plain.summary,
+    structuredSummary: plain.structuredSummary,
+    chunks: plain.chunks,
+    contentHash: plain.contentHash,
+  } satisfies SealedRevisionFields);
+  return { ...plain, summary: "", structuredSummary: undefined, chunks: [], contentHash: "", sealed };
+}
+
+async function revealRevision(revision: MemoryRevision): Promise<MemoryRevision> {
+  if (!revision.sealed) {
+    return revision;
+  }
+  const fields = await openSealedPayload<SealedRevisionFields>(revision.sealed);
+  if (!fields) {
+    return revision;
   }
+  const { sealed: _sealed, ...plain } = revision;
+  return { ...plain, ...fields };
+}
 
-  const createdAtIndex = store.index("by-createdAt");
-  const allChunks = await promisifyRequest<ContentChunkRecord[]>(createdAtIndex.getAll());
-  for (const chunk of allChunks) {
-    if (seen.has(chunk.id)) {
-      continue;
-    }
-    const haystack = `${chunk.keyPoints} ${chunk.rawText}`.toLowerCase();
-    if (haystack.includes(fallbackText)) {
-      results.push(chunk);
-      seen.add(chunk.id);
-      if (results.length >= limit) {
-        break;
-      }
-    }
+// Decrypt sealed fields when the vault is unlocked; locked records keep their empty placeholders
+async function revealMemory(memory: MemoryRecord): Promise<MemoryRecord> {
+  if (!memory.sealed) {
+    return memory;
+  }
+  const fields = await openSealedPayload<SealedMemoryFields>(memory.sealed);
+  if (!fields) {
+    return memory;
   }
+  const { sealed: _sealed, ...plain } = memory;
+  return { ...plain, ...fields };
+}
 
-  return results.slice(0, limit);
+async function revealMemories(memories: MemoryRecord[]): Promise<MemoryRecord[]> {
+  if (memories.some((memory) => memory.sealed)) {
+    await touchVault();
+  }
+  return Promise.all(memories.map(revealMemory));
 }
 
-export async function getMemoriesByIds(ids: string[]): Promise<MemoryRecord[]> {
-  if (ids.length === 0) {
-    return [];
+async function revealChunk(chunk: ContentChunkRecord): Promise<ContentChunkRecord> {
+  if (!chunk.sealed) {
+    return chunk;
+  }
+  const fields = await openSealedPayload<SealedChunkFields>(chunk.sealed);
+  if (!fields) {
+    return chunk;
+  }
+  const { sealed: _sealed, ...plain } = chunk;
+  return { ...plain, ...fields };
+}
+
+async function revealChunks(chunks: ContentChunkRecord[]): Promise<ContentChunkRecord[]> {
+  if (chunks.some((chunk) => chunk.sealed)) {
+    await touchVault();
   }
+  return Promise.all(chunks.map(revealChunk));
+}
 
-  const uniqueIds = Array.from(new Set(ids));
-  const { store } = await getStore("readonly");
-  const records: MemoryRecord[] = [];
+// Write a prepared chunk's postings, document length and embedding; resolves with the indexed token count
+function indexChunkInTransaction(transaction: IDBTransaction, prepared: PreparedChunk): Promise<number> {
+  const termStore = transaction.objectStore(TERM_STORE_NAME);
+  const statsStore = transaction.objectStore(DOC_STATS_STORE_NAME);
+  const vectorStore = transaction.objectStore(CHUNK_VECTOR_STORE_NAME);
+  const { record } = prepared;
 
-  for (const id of uniqueIds) {
-    const record = await promisifyRequest<MemoryRecord | undefined>(store.get(id));
-    if (record) {
-      records.push(record);
-    }
+  const writes: Promise<unknown>[] = [];
+  for (const [term, frequency] of prepared.termFrequencies) {
+    writes.push(promisifyRequest(termStore.put({ term, chunkId: record.id, frequency } satisfies ChunkTermPosting)));
   }
+  writes.push(
+    promisifyRequest(statsStore.put({ chunkId: record.id, memoryId: record.memoryId, length: prepared.length } satisfies ChunkDocumentStats))
+  );
+  writes.push(promisifyRequest(vectorStore.put(prepared.vector)));
 
-  return records;
+  return Promise.all(writes).then(() => prepared.length);
 }
 
-// Get memories grouped by sessions
-export async function getMemoriesGroupedBySessions(): Promise<SessionGroup[]> {
-  console.log("[NanoScribe::Memory] 🔍 getMemoriesGroupedBySessions() CALLED");
+// Drop postings, document length and embedding for a chunk; returns the token count that was removed
+async function removeChunkFromIndex(transaction: IDBTransaction, chunkId: string): Promise<number> {
+  const termStore = transaction.objectStore(TERM_STORE_NAME);
+  const statsStore = transaction.objectStore(DOC_STATS_STORE_NAME);
+  const vectorStore = transaction.objectStore(CHUNK_VECTOR_STORE_NAME);
 
-  try {
-    // Get all memories
-    const memories = await getAllMemories();
+  const stats = await promisifyRequest<ChunkDocumentStats | undefined>(statsStore.get(chunkId));
+  const postingKeys = await promisifyRequest<IDBValidKey[]>(termStore.index("by-chunkId").getAllKeys(chunkId));
+  for (const key of postingKeys) {
+    await promisifyRequest(termStore.delete(key));
+  }
+  await promisifyRequest(statsStore.delete(chunkId));
+  await promisifyRequest(vectorStore.delete(chunkId));
 
-    // Get all chunks to determine session activity
-    const allChunks = await getAllChunks();
+  return stats ? stats.length : -1;
+}
 
-    const chunksBySession = new Map<string, ContentChunkRecord[]>();
-    const chunksByMemory = new Map<string, ContentChunkRecord[]>();
+async function adjustCorpusStats(transaction: IDBTransaction, documentDelta: number, lengthDelta: number): Promise<void> {
+  const metaStore = transaction.objectStore(SEARCH_META_STORE_NAME);
+  const current = await promisifyRequest<SearchCorpusStats | undefined>(metaStore.get(CORPUS_STATS_KEY));
+  const next: SearchCorpusStats = {
+    key: CORPUS_STATS_KEY,
+    documentCount: Math.max(0, (current?.documentCount ?? 0) + documentDelta),
+    totalLength: Math.max(0, (current?.totalLength ?? 0) + lengthDelta),
+  };
+  await promisifyRequest(metaStore.put(next));
+}
 
-    // Group chunks by sessionId and find last activity per session
-    const sessionActivity = new Map<string, number>();
-    for (const chunk of allChunks) {
-      const currentLastActivity = sessionActivity.get(chunk.sessionId) || 0;
-      sessionActivity.set(chunk.sessionId, Math.max(currentLastActivity, chunk.createdAt));
+// Rank chunks with BM25 over the inverted index (title, key points and raw text)
+// With a scope, only chunks whose ids are in it are ranked
+export async function searchChunksBm25(
+  queryKeywords: string[],
+  limit: number = 50,
+  fallbackQuery?: string,
+  scope?: ReadonlySet<string>
+): Promise<ScoredChunk[]> {
+  const plainTerms = buildQueryTerms(queryKeywords, fallbackQuery);
+  if (!plainTerms.length) {
+    return [];
+  }
 
-      if (!chunksBySession.has(chunk.sessionId)) {
-        chunksBySession.set(chunk.sessionId, []);
-      }
-      chunksBySession.get(chunk.sessionId)!.push(chunk);
+  // With the vault on, postings are keyed by hashed terms; throws while locked
+  const protection = await getVaultProtection();
+  const terms = protection ? await protection.protectTerms(plainTerms) : plainTerms;
 
-      if (!chunksByMemory.has(chunk.memoryId)) {
-        chunksByMemory.set(chunk.memoryId, []);
-      }
-      chunksByMemory.get(chunk.memoryId)!.push(chunk);
+  const db = await openDatabase();
+  const transaction = db.transaction([CHUNK_STORE_NAME, ...SEARCH_INDEX_STORES], "readonly");
+  const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+  const termStore = transaction.objectStore(TERM_STORE_NAME);
+  const statsStore = transaction.objectStore(DOC_STATS_STORE_NAME);
+  const metaStore = transaction.objectStore(SEARCH_META_STORE_NAME);
+
+  const corpus = await promisifyRequest<SearchCorpusStats | undefined>(metaStore.get(CORPUS_STATS_KEY));
+  if (!corpus || corpus.documentCount === 0) {
+    return [];
+  }
+
+  const postingsByTerm = new Map<string, ChunkTermPosting[]>();
+  for (const term of terms) {
+    const range = IDBKeyRange.bound([term, ""], [term, "\uffff"]);
+    const postings = await promisifyRequest<ChunkTermPosting[]>(termStore.getAll(range));
+    postingsByTerm.set(term, scope ? postings.filter((posting) => scope.has(posting.chunkId)) : postings);
+  }
+
+  const candidateIds = new Set<string>();
+  for (const postings of postingsByTerm.values()) {
+    postings.forEach((posting) => candidateIds.add(posting.chunkId));
+  }
+
+  const documentLengths = new Map<string, number>();
+  const statsRecords = await Promise.all(
+    Array.from(candidateIds).map((chunkId) => promisifyRequest<ChunkDocumentStats | undefined>(statsStore.get(chunkId)))
+  );
+  for (const stats of statsRecords) {
+    if (stats) {
+      documentLengths.set(stats.chunkId, stats.length);
     }
+  }
 
-    // Group memories by their associated chunks' sessionId
-    const memoriesBySession = new Map<string, MemoryRecord[]>();
+  const scored = scoreBm25(postingsByTerm, documentLengths, corpus).slice(0, limit);
+  const chunks = await Promise.all(
+    scored.map((entry) => promisifyRequest<ContentChunkRecord | undefined>(chunkStore.get(entry.chunkId)))
+  );
 
-    // For each memory, find its chunks and determine which session it belongs to
-    for (const memory of memories) {
-      const memoryChunks = chunksByMemory.get(memory.id) ?? [];
-      if (memoryChunks.length > 0) {
-        // Use the session from the most recent chunk
-        const mostRecentChunk = memoryChunks.sort((a, b) => b.createdAt - a.createdAt)[0];
-        const sessionId = mostRecentChunk.sessionId;
+  const revealed = await revealChunks(chunks.filter((chunk): chunk is ContentChunkRecord => Boolean(chunk)));
+  const revealedById = new Map(revealed.map((chunk) => [chunk.id, chunk]));
 
-        if (!memoriesBySession.has(sessionId)) {
-          memoriesBySession.set(sessionId, []);
-        }
-        memoriesBySession.get(sessionId)!.push(memory);
-      } else {
-        // Memory has no chunks, put it in a fallback "no-session" group
-        const noSessionId = "no-session";
+  const results: ScoredChunk[] = [];
+  scored.forEach((entry) => {
+    const chunk = revealedById.get(entry.chunkId);
+    if (chunk) {
+      results.push({ chunk, score: entry.score });
+    }
+  });
+
+  console.log(`[NanoScribe::Memory] 🔍 BM25 ranked ${results.length} chunks for ${terms.length} query terms`);
+  return results;
+}
+
+// Cosine top-k over the local chunk embeddings; with a scope, only those chunks' vectors are read
+export async function searchChunksByVector(query: string, limit: number = 50, scope?: ReadonlySet<string>): Promise<ScoredChunk[]> {
+  if (!query.trim() || scope?.size === 0) {
+    return [];
+  }
+
+  const protection = await getVaultProtection();
+  const queryVector = embedText(query, protection?.embeddingSeed ?? 0);
+  const db = await openDatabase();
+  const transaction = db.transaction([CHUNK_STORE_NAME, CHUNK_VECTOR_STORE_NAME], "readonly");
+  const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+  const vectorStore = transaction.objectStore(CHUNK_VECTOR_STORE_NAME);
+
+  const top: { chunkId: string; score: number }[] = [];
+  const consider = (record: ChunkVectorRecord | undefined) => {
+    if (record?.version !== EMBEDDING_VERSION) {
+      return;
+    }
+    const score = cosineSimilarity(queryVector, record.vector);
+    if (score < VECTOR_MIN_SIMILARITY || (top.length >= limit && score <= top[top.length - 1].score)) {
+      return;
+    }
+    // Binary search for the slot in the descending list, keeping it at most `limit` long
+    let low = 0;
+    let high = top.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (top[middle].score >= score) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    top.splice(low, 0, { chunkId: record.chunkId, score });
+    if (top.length > limit) {
+      top.pop();
+    }
+  };
+
+  if (scope) {
+    const records = await Promise.all(
+      Array.from(scope, (chunkId) => promisifyRequest<ChunkVectorRecord | undefined>(vectorStore.get(chunkId)))
+    );
+    records.forEach(consider);
+  } else {
+    await new Promise<void>((resolve, reject) => {
+      const cursorRequest = vectorStore.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        consider(cursor.value as ChunkVectorRecord);
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  }
+
+  const chunks = await Promise.all(
+    top.map((entry) => promisifyRequest<ContentChunkRecord | undefined>(chunkStore.get(entry.chunkId)))
+  );
+
+  const revealed = await revealChunks(chunks.filter((chunk): chunk is ContentChunkRecord => Boolean(chunk)));
+  const revealedById = new Map(revealed.map((chunk) => [chunk.id, chunk]));
+
+  const results: ScoredChunk[] = [];
+  top.forEach((entry) => {
+    const chunk = revealedById.get(entry.chunkId);
+    if (chunk) {
+      results.push({ chunk, score: entry.score });
+    }
+  });
+
+  console.log(`[NanoScribe::Memory] 🔍 Vector search returned ${results.length} chunks`);
+  return results;
+}
+
+// Blend BM25 keyword hits with vector similarity; falls back to the legacy keyword lookup if both are empty.
+// A scope of chunk ids limits every ranking step to those chunks.
+export async function hybridSearchChunks(query: string, limit: number = 50, scope?: ReadonlySet<string>): Promise<ScoredChunk[]> {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  const queryKeywords = extractKeywordsFromText(trimmed);
+
+  let keywordHits: ScoredChunk[] = [];
+  try {
+    keywordHits = await searchChunksBm25(queryKeywords, limit, trimmed, scope);
+  } catch (error) {
+    console.warn("[NanoScribe::Memory] ⚠️ BM25 search failed during hybrid search", error);
+  }
+
+  // Always the full scan, so purely semantic matches still surface when keywords already fill the limit
+  let vectorHits: ScoredChunk[] = [];
+  try {
+    vectorHits = await searchChunksByVector(trimmed, limit, scope);
+  } catch (error) {
+    console.warn("[NanoScribe::Memory] ⚠️ Vector search failed during hybrid search", error);
+  }
+
+  if (!keywordHits.length && !vectorHits.length) {
+    const legacy = await getChunksByKeywords(queryKeywords, scope ? Math.max(limit, scope.size) : limit, trimmed);
+    return legacy
+      .filter((chunk) => !scope || scope.has(chunk.id))
+      .slice(0, limit)
+      .map((chunk) => ({ chunk, score: 0 }));
+  }
+
+  return blendRankings(keywordHits, vectorHits, limit);
+}
+
+// Embed chunks that have no vector yet (or one from an older embedder version)
+export async function backfillChunkVectors(): Promise<{ embedded: number; total: number }> {
+  const db = await openDatabase();
+
+  const readTransaction = db.transaction([CHUNK_STORE_NAME, CHUNK_VECTOR_STORE_NAME], "readonly");
+  const chunkIds = await promisifyRequest<IDBValidKey[]>(readTransaction.objectStore(CHUNK_STORE_NAME).getAllKeys());
+  const vectors = await promisifyRequest<ChunkVectorRecord[]>(readTransaction.objectStore(CHUNK_VECTOR_STORE_NAME).getAll());
+
+  const current = new Set(vectors.filter((record) => record.version === EMBEDDING_VERSION).map((record) => record.chunkId));
+  const pending = chunkIds.map(String).filter((chunkId) => !current.has(chunkId));
+
+  if (!pending.length) {
+    return { embedded: 0, total: chunkIds.length };
+  }
+
+  // Sealed chunks can only be embedded with the vault key, so wait for the next unlock
+  if (await isVaultLocked()) {
+    console.log(`[NanoScribe::Memory] ⏸️ Vector backfill deferred: vault is locked (${pending.length} pending)`);
+    return { embedded: 0, total: chunkIds.length };
+  }
+  const protection = await getVaultProtection();
+
+  console.log(`[NanoScribe::Memory] 🔄 Backfilling vectors for ${pending.length} chunks...`);
+  let embedded = 0;
+
+  for (let start = 0; start < pending.length; start += VECTOR_BACKFILL_BATCH_SIZE) {
+    const batch = pending.slice(start, start + VECTOR_BACKFILL_BATCH_SIZE);
+    const batchTransaction = db.transaction(CHUNK_STORE_NAME, "readonly");
+    const batchStore = batchTransaction.objectStore(CHUNK_STORE_NAME);
+    const stored = await Promise.all(
+      batch.map((chunkId) => promisifyRequest<ContentChunkRecord | undefined>(batchStore.get(chunkId)))
+    );
+    const chunks = await revealChunks(stored.filter((chunk): chunk is ContentChunkRecord => Boolean(chunk)));
+    const records: ChunkVectorRecord[] = chunks.map((chunk) => ({
+      chunkId: chunk.id,
+      memoryId: chunk.memoryId,
+      version: EMBEDDING_VERSION,
+      vector: embedChunk(chunk, protection?.embeddingSeed ?? 0),
+    }));
+
+    const transaction = db.transaction(CHUNK_VECTOR_STORE_NAME, "readwrite");
+    const vectorStore = transaction.objectStore(CHUNK_VECTOR_STORE_NAME);
+    for (const record of records) {
+      vectorStore.put(record);
+      embedded += 1;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  console.log(`[NanoScribe::Memory] ✅ Vector backfill complete: ${embedded} embedded, ${chunkIds.length} total`);
+  return { embedded, total: chunkIds.length };
+}
+
+export async function getChunksByKeywords(queryKeywords: string[], limit: number = 50, fallbackQuery?: string): Promise<ContentChunkRecord[]> {
+  if (!queryKeywords.length && !fallbackQuery) {
+    return [];
+  }
+
+  try {
+    const ranked = await searchChunksBm25(queryKeywords, limit, fallbackQuery);
+    if (ranked.length > 0) {
+      return boostHighlights(ranked).map((entry) => entry.chunk);
+    }
+  } catch (error) {
+    console.warn("[NanoScribe::Memory] ⚠️ BM25 index lookup failed, falling back to keyword index", error);
+  }
+
+  // Sealed chunks only carry hashed keywords and no plaintext, so the legacy lookups cannot match them
+  if ((await getVaultStatus()).enabled) {
+    return [];
+  }
+
+  const { store } = await getChunkStore("readonly");
+  const seen = new Set<string>();
+  const results: ContentChunkRecord[] = [];
+  try {
+    if (queryKeywords.length) {
+      const keywordIndex = store.index(KEYWORD_INDEX_NAME);
+      for (const keyword of queryKeywords) {
+        const matches = await promisifyRequest<ContentChunkRecord[]>(keywordIndex.getAll(keyword));
+        for (const match of matches) {
+          if (seen.has(match.id)) {
+            continue;
+          }
+          results.push(match);
+          seen.add(match.id);
+          if (results.length >= limit) {
+            return results;
+          }
+        }
+      }
+    }
+  } catch (error) {
+    console.warn("[NanoScribe::Memory] ⚠️ Keyword index lookup failed, falling back to text search", error);
+  }
+
+  if (results.length >= limit) {
+    return results.slice(0, limit);
+  }
+
+  // Fallback: scan chunks by createdAt order and match against fallback query/keywords
+  const fallbackText = (fallbackQuery ?? queryKeywords.join(" ")).toLowerCase();
+  if (!fallbackText) {
+    return results;
+  }
+
+  const createdAtIndex = store.index("by-createdAt");
+  const allChunks = await promisifyRequest<ContentChunkRecord[]>(createdAtIndex.getAll());
+  for (const chunk of allChunks) {
+    if (seen.has(chunk.id)) {
+      continue;
+    }
+    const haystack = `${chunk.keyPoints} ${chunk.rawText}`.toLowerCase();
+    if (haystack.includes(fallbackText)) {
+      results.push(chunk);
+      seen.add(chunk.id);
+      if (results.length >= limit) {
+        break;
+      }
+    }
+  }
+
+  return results.slice(0, limit);
+}
+
+export async function getMemoriesByIds(ids: string[]): Promise<MemoryRecord[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const uniqueIds = Array.from(new Set(ids));
+  const { store } = await getStore("readonly");
+  const records: MemoryRecord[] = [];
+
+  for (const id of uniqueIds) {
+    const record = await promisifyRequest<MemoryRecord | undefined>(store.get(id));
+    if (record) {
+      records.push(record);
+    }
+  }
+
+  return revealMemories(records);
+}
+
+// Get memories grouped by sessions
+export async function getMemoriesGroupedBySessions(): Promise<SessionGroup[]> {
+  console.log("[NanoScribe::Memory] 🔍 getMemoriesGroupedBySessions() CALLED");
+
+  try {
+    // Get all memories
+    const memories = await getAllMemories();
+
+    // Get all chunks to determine session activity
+    const allChunks = await getAllChunks();
+
+    const chunksBySession = new Map<string, ContentChunkRecord[]>();
+    const chunksByMemory = new Map<string, ContentChunkRecord[]>();
+
+    // Group chunks by sessionId and find last activity per session
+    const sessionActivity = new Map<string, number>();
+    for (const chunk of allChunks) {
+      const currentLastActivity = sessionActivity.get(chunk.sessionId) || 0;
+      sessionActivity.set(chunk.sessionId, Math.max(currentLastActivity, chunk.createdAt));
+
+      if (!chunksBySession.has(chunk.sessionId)) {
+        chunksBySession.set(chunk.sessionId, []);
+      }
+      chunksBySession.get(chunk.sessionId)!.push(chunk);
+
+      if (!chunksByMemory.has(chunk.memoryId)) {
+        chunksByMemory.set(chunk.memoryId, []);
+      }
+      chunksByMemory.get(chunk.memoryId)!.push(chunk);
+    }
+
+    // Group memories by their associated chunks' sessionId
+    const memoriesBySession = new Map<string, MemoryRecord[]>();
+
+    // For each memory, find its chunks and determine which session it belongs to
+    for (const memory of memories) {
+      const memoryChunks = chunksByMemory.get(memory.id) ?? [];
+      if (memoryChunks.length > 0) {
+        // Use the session from the most recent chunk
+        const mostRecentChunk = memoryChunks.sort((a, b) => b.createdAt - a.createdAt)[0];
+        const sessionId = mostRecentChunk.sessionId;
+
+        if (!memoriesBySession.has(sessionId)) {
+          memoriesBySession.set(sessionId, []);
+        }
+        memoriesBySession.get(sessionId)!.push(memory);
+      } else {
+        // Memory has no chunks, put it in a fallback "no-session" group
+        const noSessionId = "no-session";
         if (!memoriesBySession.has(noSessionId)) {
           memoriesBySession.set(noSessionId, []);
         }
@@ -708,7 +1553,12 @@ export async function getMemoriesGroupedBySessions(): Promise<SessionGroup[]> {
       .sort((a, b) => b.lastActivity - a.lastActivity);
 
     for (const session of sessionGroups) {
-      if (session.title || session.sessionId === "no-session" || session.sessionId === "search-results") {
+      if (
+        session.title ||
+        session.sessionId === "no-session" ||
+        session.sessionId === "search-results" ||
+        session.sessionId === NOTES_SESSION_ID
+      ) {
         continue;
       }
 
@@ -1043,7 +1893,7 @@ export async function autoOrganizeUnorganizedMemories(): Promise<{ organized: nu
             sourceTag: "auto-organized"
           };
 
-          await addContentChunks([chunkDraft]);
+          await addContentChunks([chunkDraft], { skipNearDuplicates: false });
           organized++;
 
           console.log(`[NanoScribe::Memory] ✅ Auto-organized memory "${memory.title}" into session ${bestSessionId} (score: ${bestScore})`);
@@ -1061,7 +1911,7 @@ export async function autoOrganizeUnorganizedMemories(): Promise<{ organized: nu
             sourceTag: "auto-organized-new-session"
           };
 
-          await addContentChunks([chunkDraft]);
+          await addContentChunks([chunkDraft], { skipNearDuplicates: false });
           organized++;
 
           console.log(`[NanoScribe::Memory] ✅ Created new session ${newSessionId} for memory "${memory.title}"`);
@@ -1131,7 +1981,7 @@ export async function reprocessUnorganizedMemories(): Promise<{ reprocessed: num
           sourceTag: "reprocessed"
         };
 
-        await addContentChunks([chunkDraft]);
+        await addContentChunks([chunkDraft], { skipNearDuplicates: false });
         reprocessed++;
 
         console.log(`[NanoScribe::Memory] ✅ Reprocessed memory "${memory.title}" into new session ${sessionId}`);
@@ -1190,11 +2040,58 @@ export async function cleanupUnorganizedMemories(): Promise<{ deleted: number; t
   }
 }
 
-export async function addContentChunks(chunks: ContentChunkDraft[]): Promise<void> {
-  if (!chunks.length) return;
+export type ChunkDedupResult = {
+  stored: number;
+  skipped: number;
+  duplicateOf: string | null;
+};
+
+// A page whose fingerprinted chunks mostly repeat one other memory is linked to it as a duplicate
+const DUPLICATE_MEMORY_RATIO = 0.6;
+
+// Near-duplicate lookup compares against every stored fingerprint via a key cursor, so chunk text is never loaded
+async function findNearDuplicateChunks(
+  transaction: IDBTransaction,
+  prepared: PreparedChunk[]
+): Promise<Map<number, string>> {
+  const matches = new Map<number, string>();
+  const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+  if (!chunkStore.indexNames.contains(FINGERPRINT_INDEX_NAME)) {
+    return matches;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const request = chunkStore.index(FINGERPRINT_INDEX_NAME).openKeyCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const stored = String(cursor.key);
+      prepared.forEach((entry, index) => {
+        if (!matches.has(index) && entry.record.fingerprint && isNearDuplicate(entry.record.fingerprint, stored)) {
+          matches.set(index, String(cursor.primaryKey));
+        }
+      });
+      cursor.continue();
+    };
+  });
+
+  return matches;
+}
 
-  const { store, transaction } = await getChunkStore("readwrite");
+export async function addContentChunks(
+  chunks: ContentChunkDraft[],
+  options: { skipNearDuplicates?: boolean } = {}
+): Promise<ChunkDedupResult> {
+  if (!chunks.length) return { stored: 0, skipped: 0, duplicateOf: null };
+  const skipNearDuplicates = options.skipNearDuplicates ?? true;
 
+  // Sealing and hashing are async WebCrypto calls, so finish them before the write transaction opens
+  const protection = await getVaultProtection();
+  const prepared: PreparedChunk[] = [];
   for (const chunk of chunks) {
     const keywordSource = `${chunk.chunkTitle ?? ""} ${chunk.keyPoints ?? ""} ${chunk.rawText ?? ""}`;
     const record: ContentChunkRecord = {
@@ -1203,78 +2100,339 @@ export async function addContentChunks(chunks: ContentChunkDraft[]): Promise<voi
       ...chunk,
       keywords: chunk.keywords && chunk.keywords.length > 0 ? chunk.keywords : extractKeywordsFromText(keywordSource),
     };
-    await promisifyRequest(store.put(record));
+    prepared.push(await prepareChunkForStorage(record, protection));
+  }
+
+  const db = await openDatabase();
+  const transaction = db.transaction([STORE_NAME, CHUNK_STORE_NAME, ...SEARCH_INDEX_STORES], "readwrite");
+  const store = transaction.objectStore(CHUNK_STORE_NAME);
+
+  // Drop chunks that repeat stored text (revisits, mirrored articles, boilerplate) or an earlier chunk in this batch
+  const storedMatches = skipNearDuplicates ? await findNearDuplicateChunks(transaction, prepared) : new Map<number, string>();
+  const accepted: PreparedChunk[] = [];
+  prepared.forEach((entry, index) => {
+    const fingerprint = entry.record.fingerprint;
+    const repeatsBatch =
+      skipNearDuplicates && fingerprint !== undefined && accepted.some((kept) => kept.record.fingerprint && isNearDuplicate(kept.record.fingerprint, fingerprint));
+    if (!storedMatches.has(index) && !repeatsBatch) {
+      accepted.push(entry);
+    }
+  });
+
+  let indexedLength = 0;
+  for (const entry of accepted) {
+    await promisifyRequest(store.put(entry.record));
+    indexedLength += await indexChunkInTransaction(transaction, entry);
   }
 
+  if (accepted.length > 0) {
+    await adjustCorpusStats(transaction, accepted.length, indexedLength);
+  }
+
+  const duplicateOf = await linkDuplicateMemory(transaction, prepared, storedMatches);
+
   await new Promise<void>((resolve, reject) => {
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
     transaction.onabort = () => reject(transaction.error);
   });
+
+  const skipped = prepared.length - accepted.length;
+  if (skipped > 0) {
+    console.log(`[NanoScribe::Memory] ♻️ Skipped ${skipped} near-duplicate chunks${duplicateOf ? `; memory linked to ${duplicateOf}` : ""}`);
+  }
+  return { stored: accepted.length, skipped, duplicateOf };
 }
 
-export async function clearAllMemories(): Promise<void> {
-  console.log("[NanoScribe::Memory] 🧹 clearAllMemories() CALLED");
+// Mark the incoming memory as a duplicate when most of its chunks matched a single other memory
+async function linkDuplicateMemory(
+  transaction: IDBTransaction,
+  prepared: PreparedChunk[],
+  storedMatches: Map<number, string>
+): Promise<string | null> {
+  const memoryId = prepared[0]?.record.memoryId;
+  const fingerprinted = prepared.filter((entry) => entry.record.fingerprint).length;
+  if (!memoryId || storedMatches.size === 0 || fingerprinted === 0) {
+    return null;
+  }
 
-  try {
-    const db = await openDatabase();
-    const transaction = db.transaction([STORE_NAME, CHUNK_STORE_NAME], "readwrite");
+  const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+  const votes = new Map<string, number>();
+  for (const chunkId of storedMatches.values()) {
+    const matched = await promisifyRequest<ContentChunkRecord | undefined>(chunkStore.get(chunkId));
+    if (matched && matched.memoryId !== memoryId) {
+      votes.set(matched.memoryId, (votes.get(matched.memoryId) ?? 0) + 1);
+    }
+  }
 
-    const memoryStore = transaction.objectStore(STORE_NAME);
-    const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+  const [candidateId, count] = Array.from(votes.entries()).sort((a, b) => b[1] - a[1])[0] ?? [null, 0];
+  // Two matching chunks guard against a single shared boilerplate section, unless the page has only one
+  if (!candidateId || count < Math.min(2, fingerprinted) || count / fingerprinted < DUPLICATE_MEMORY_RATIO) {
+    return null;
+  }
 
-    // Clear both stores
-    await promisifyRequest(memoryStore.clear());
-    await promisifyRequest(chunkStore.clear());
+  const memoryStore = transaction.objectStore(STORE_NAME);
+  const [memory, candidate] = await Promise.all([
+    promisifyRequest<MemoryRecord | undefined>(memoryStore.get(memoryId)),
+    promisifyRequest<MemoryRecord | undefined>(memoryStore.get(candidateId)),
+  ]);
+  if (!memory || !candidate) {
+    return null;
+  }
 
-    await new Promise<void>((resolve, reject) => {
-      transaction.oncomplete = () => {
-        console.log("[NanoScribe::Memory] ✅ All memories and chunks cleared successfully");
-        resolve();
-      };
-      transaction.onerror = () => {
-        console.error("[NanoScribe::Memory] ❌ Failed to clear memories:", transaction.error);
-        reject(transaction.error);
-      };
-      transaction.onabort = () => {
-        console.error("[NanoScribe::Memory] ❌ Transaction aborted:", transaction.error);
-        reject(transaction.error);
-      };
-    });
-  } catch (error) {
-    console.error("[NanoScribe::Memory] ❌ clearAllMemories() failed:", error);
-    throw error;
+  // Point at the candidate's own canonical so duplicate chains stay one hop deep
+  const canonicalId = candidate.duplicateOf && candidate.duplicateOf !== memoryId ? candidate.duplicateOf : candidate.id;
+  if (memory.duplicateOf !== canonicalId) {
+    await promisifyRequest(memoryStore.put({ ...memory, duplicateOf: canonicalId }));
   }
+  return canonicalId;
 }
 
-export async function deleteMemory(memoryId: string): Promise<void> {
-  console.log(`[NanoScribe::Memory] 🗑️ deleteMemory() CALLED for memory: ${memoryId}`);
+// Read every memory and chunk in one snapshot (used by export)
+export async function getAllMemoryRecords(): Promise<{ memories: MemoryRecord[]; chunks: ContentChunkRecord[] }> {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORE_NAME, CHUNK_STORE_NAME], "readonly");
+  const memories = await promisifyRequest<MemoryRecord[]>(transaction.objectStore(STORE_NAME).getAll());
+  const chunks = await promisifyRequest<ContentChunkRecord[]>(transaction.objectStore(CHUNK_STORE_NAME).getAll());
+  return { memories: await revealMemories(memories), chunks: await revealChunks(chunks) };
+}
 
-  try {
-    const db = await openDatabase();
-    const transaction = db.transaction([STORE_NAME, CHUNK_STORE_NAME], "readwrite");
+// Write fully-formed memory and chunk records (ids already assigned) and index the chunks
+export async function restoreMemoryRecords(memories: MemoryRecord[], chunks: ContentChunkRecord[]): Promise<void> {
+  if (!memories.length && !chunks.length) return;
+
+  const protection = await getVaultProtection();
+  // Entities are not part of an export, so restored memories are queued for extraction again
+  const preparedMemories = await Promise.all(
+    memories.map(({ entitiesExtractedAt: _extracted, ...memory }) => prepareMemoryForStorage(memory, protection))
+  );
+  const preparedChunks: PreparedChunk[] = [];
+  for (const chunk of chunks) {
+    preparedChunks.push(await prepareChunkForStorage(chunk, protection));
+  }
+
+  const db = await openDatabase();
+  const transaction = db.transaction([STORE_NAME, CHUNK_STORE_NAME, ...SEARCH_INDEX_STORES], "readwrite");
+  const memoryStore = transaction.objectStore(STORE_NAME);
+  const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+  let indexedLength = 0;
+
+  for (const memory of preparedMemories) {
+    await promisifyRequest(memoryStore.put(memory));
+  }
+
+  for (const entry of preparedChunks) {
+    await promisifyRequest(chunkStore.put(entry.record));
+    indexedLength += await indexChunkInTransaction(transaction, entry);
+  }
+
+  await adjustCorpusStats(transaction, preparedChunks.length, indexedLength);
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+const MAX_REWRITE_PASSES = 5;
+
+type StoredRecords = { memories: MemoryRecord[]; chunks: ContentChunkRecord[]; revisions: MemoryRevision[] };
+
+// Records, as stored, that are not yet sealed (or not yet plaintext, when the vault is being turned off)
+async function readRecordsToRewrite(sealing: boolean): Promise<StoredRecords> {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORE_NAME, CHUNK_STORE_NAME, REVISION_STORE_NAME], "readonly");
+  const pending = <T extends { sealed?: unknown }>(records: T[]) => records.filter((record) => Boolean(record.sealed) !== sealing);
+  return {
+    memories: pending(await promisifyRequest<MemoryRecord[]>(transaction.objectStore(STORE_NAME).getAll())),
+    chunks: pending(await promisifyRequest<ContentChunkRecord[]>(transaction.objectStore(CHUNK_STORE_NAME).getAll())),
+    revisions: pending(await promisifyRequest<MemoryRevision[]>(transaction.objectStore(REVISION_STORE_NAME).getAll())),
+  };
+}
+
+// Replace the given records by key, along with their index entries, vectors and entity links.
+// A record that changed or disappeared since it was read is left alone, so a write made meanwhile is never undone.
+async function rewriteRecords(stored: StoredRecords, protection: VaultProtection | null): Promise<{ memories: number; chunks: number }> {
+  const memories = await revealMemories(stored.memories);
+  const chunks = await revealChunks(stored.chunks);
+  const revisions = await Promise.all(stored.revisions.map(revealRevision));
+  if (memories.some((memory) => memory.sealed) || chunks.some((chunk) => chunk.sealed) || revisions.some((revision) => revision.sealed)) {
+    throw new Error(VAULT_LOCKED_MESSAGE);
+  }
+
+  // Entity ids are keyed by the vault like index terms, so rewritten memories drop their entities and the backfill rebuilds them
+  const preparedMemories = await Promise.all(
+    memories.map(({ entitiesExtractedAt: _extracted, ...memory }) => prepareMemoryForStorage(memory, protection))
+  );
+  const preparedRevisions = await Promise.all(revisions.map((revision) => prepareRevisionForStorage(revision, protection)));
+  const preparedChunks: PreparedChunk[] = [];
+  for (const chunk of chunks) {
+    preparedChunks.push(await prepareChunkForStorage(chunk, protection));
+  }
+
+  const db = await openDatabase();
+  const transaction = db.transaction(ALL_STORE_NAMES, "readwrite");
+  const isUnchanged = async (store: IDBObjectStore, original: { id: string }) => {
+    const current = await promisifyRequest<unknown>(store.get(original.id));
+    return current !== undefined && JSON.stringify(current) === JSON.stringify(original);
+  };
+
+  const memoryStore = transaction.objectStore(STORE_NAME);
+  let memoryCount = 0;
+  for (const [index, memory] of preparedMemories.entries()) {
+    if (!(await isUnchanged(memoryStore, stored.memories[index]))) {
+      continue;
+    }
+    await detachMemoryEntities(transaction, memory.id);
+    await promisifyRequest(memoryStore.put(memory));
+    memoryCount += 1;
+  }
+
+  const revisionStore = transaction.objectStore(REVISION_STORE_NAME);
+  for (const [index, revision] of preparedRevisions.entries()) {
+    if (await isUnchanged(revisionStore, stored.revisions[index])) {
+      await promisifyRequest(revisionStore.put(revision));
+    }
+  }
+
+  const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+  let chunkCount = 0;
+  let documentDelta = 0;
+  let lengthDelta = 0;
+  for (const [index, entry] of preparedChunks.entries()) {
+    if (!(await isUnchanged(chunkStore, stored.chunks[index]))) {
+      continue;
+    }
+    const removedLength = await removeChunkFromIndex(transaction, entry.record.id);
+    await promisifyRequest(chunkStore.put(entry.record));
+    const indexedLength = await indexChunkInTransaction(transaction, entry);
+    documentDelta += removedLength === -1 ? 1 : 0;
+    lengthDelta += indexedLength - Math.max(removedLength, 0);
+    chunkCount += 1;
+  }
+  await adjustCorpusStats(transaction, documentDelta, lengthDelta);
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  return { memories: memoryCount, chunks: chunkCount };
+}
+
+// Re-encrypt (or decrypt, with null) every memory, chunk and revision and update the search index to match.
+// Used when the vault is turned on or off, while vault.ts holds new writes back; all records must be readable.
+// Records are replaced by key, and a write that was already under way when the rewrite began is caught by a later pass.
+export async function rewriteStoredRecords(protection: VaultProtection | null): Promise<{ memories: number; chunks: number }> {
+  const totals = { memories: 0, chunks: 0 };
+  for (let pass = 0; pass < MAX_REWRITE_PASSES; pass += 1) {
+    const pending = await readRecordsToRewrite(Boolean(protection));
+    if (!pending.memories.length && !pending.chunks.length && !pending.revisions.length) {
+      console.log(
+        `[NanoScribe::Memory] 🔐 Rewrote ${totals.memories} memories and ${totals.chunks} chunks (${protection ? "sealed" : "plaintext"})`
+      );
+      return totals;
+    }
+    const written = await rewriteRecords(pending, protection);
+    totals.memories += written.memories;
+    totals.chunks += written.chunks;
+  }
+  throw new Error("Memories kept changing while the vault was being updated. Try again.");
+}
+
+export async function clearAllMemories(): Promise<void> {
+  console.log("[NanoScribe::Memory] 🧹 clearAllMemories() CALLED");
+
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(MEMORY_DELETE_STORES, "readwrite");
 
     const memoryStore = transaction.objectStore(STORE_NAME);
     const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
 
-    // Delete the memory record
-    console.log(`[NanoScribe::Memory] 🔄 Deleting memory record: ${memoryId}`);
-    await promisifyRequest(memoryStore.delete(memoryId));
+    // Clear both stores along with the search index, revision history and entity graph built from them
+    await promisifyRequest(memoryStore.clear());
+    await promisifyRequest(chunkStore.clear());
+    for (const storeName of [...SEARCH_INDEX_STORES, REVISION_STORE_NAME, ...ENTITY_STORES]) {
+      await promisifyRequest(transaction.objectStore(storeName).clear());
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => {
+        console.log("[NanoScribe::Memory] ✅ All memories and chunks cleared successfully");
+        resolve();
+      };
+      transaction.onerror = () => {
+        console.error("[NanoScribe::Memory] ❌ Failed to clear memories:", transaction.error);
+        reject(transaction.error);
+      };
+      transaction.onabort = () => {
+        console.error("[NanoScribe::Memory] ❌ Transaction aborted:", transaction.error);
+        reject(transaction.error);
+      };
+    });
+  } catch (error) {
+    console.error("[NanoScribe::Memory] ❌ clearAllMemories() failed:", error);
+    throw error;
+  }
+}
 
-    // Delete associated content chunks
-    console.log(`[NanoScribe::Memory] 🔄 Deleting associated chunks for memory: ${memoryId}`);
-    const chunkIndex = chunkStore.index("by-memoryId");
-    const chunksToDelete = await promisifyRequest<IDBValidKey[]>(chunkIndex.getAllKeys(memoryId));
+// Delete a memory, its chunks and their index entries; the caller adjusts corpus stats once per transaction
+async function removeMemoryInTransaction(
+  transaction: IDBTransaction,
+  memoryId: string
+): Promise<{ chunks: number; documents: number; length: number }> {
+  const memoryStore = transaction.objectStore(STORE_NAME);
+  const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+
+  await promisifyRequest(memoryStore.delete(memoryId));
+  const chunkIds = await promisifyRequest<IDBValidKey[]>(chunkStore.index("by-memoryId").getAllKeys(memoryId));
+
+  if (transaction.objectStoreNames.contains(REVISION_STORE_NAME)) {
+    const revisionStore = transaction.objectStore(REVISION_STORE_NAME);
+    const revisionIds = await promisifyRequest<IDBValidKey[]>(
+      revisionStore.index("by-memoryId-capturedAt").getAllKeys(revisionRange(memoryId))
+    );
+    for (const revisionId of revisionIds) {
+      await promisifyRequest(revisionStore.delete(revisionId));
+    }
+  }
 
-    console.log(`[NanoScribe::Memory] 📦 Found ${chunksToDelete.length} chunks to delete`);
+  if (transaction.objectStoreNames.contains(ENTITY_STORE_NAME)) {
+    await detachMemoryEntities(transaction, memoryId);
+  }
 
-    for (const chunkId of chunksToDelete) {
-      await promisifyRequest(chunkStore.delete(chunkId));
+  let documents = 0;
+  let length = 0;
+  for (const chunkId of chunkIds) {
+    await promisifyRequest(chunkStore.delete(chunkId));
+    const indexedLength = await removeChunkFromIndex(transaction, String(chunkId));
+    if (indexedLength >= 0) {
+      documents += 1;
+      length += indexedLength;
+    }
+  }
+
+  return { chunks: chunkIds.length, documents, length };
+}
+
+export async function deleteMemory(memoryId: string): Promise<void> {
+  console.log(`[NanoScribe::Memory] 🗑️ deleteMemory() CALLED for memory: ${memoryId}`);
+
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(MEMORY_DELETE_STORES, "readwrite");
+
+    console.log(`[NanoScribe::Memory] 🔄 Deleting memory record and chunks: ${memoryId}`);
+    const removed = await removeMemoryInTransaction(transaction, memoryId);
+    if (removed.documents > 0) {
+      await adjustCorpusStats(transaction, -removed.documents, -removed.length);
     }
 
     await new Promise<void>((resolve, reject) => {
       transaction.oncomplete = () => {
-        console.log(`[NanoScribe::Memory] ✅ Memory ${memoryId} and ${chunksToDelete.length} chunks deleted successfully`);
+        console.log(`[NanoScribe::Memory] ✅ Memory ${memoryId} and ${removed.chunks} chunks deleted successfully`);
         resolve();
       };
       transaction.onerror = () => {
@@ -1291,3 +2449,691 @@ export async function deleteMemory(memoryId: string): Promise<void> {
     throw error;
   }
 }
+
+// Approximate stored size of a memory: its records as JSON plus one embedding per chunk
+export type MemoryFootprint = {
+  memory: MemoryRecord;
+  chunkCount: number;
+  bytes: number;
+};
+
+const footprintEncoder = new TextEncoder();
+
+// Sizes are measured on the stored (possibly sealed) records, so this works while the vault is locked
+export async function getMemoryFootprints(): Promise<MemoryFootprint[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORE_NAME, CHUNK_STORE_NAME], "readonly");
+  const memories = await promisifyRequest<MemoryRecord[]>(transaction.objectStore(STORE_NAME).getAll());
+  const chunks = await promisifyRequest<ContentChunkRecord[]>(transaction.objectStore(CHUNK_STORE_NAME).getAll());
+
+  const footprints = new Map<string, MemoryFootprint>();
+  for (const memory of memories) {
+    footprints.set(memory.id, {
+      memory,
+      chunkCount: 0,
+      bytes: footprintEncoder.encode(JSON.stringify(memory)).length,
+    });
+  }
+  for (const chunk of chunks) {
+    const footprint = footprints.get(chunk.memoryId);
+    if (footprint) {
+      footprint.chunkCount += 1;
+      footprint.bytes += footprintEncoder.encode(JSON.stringify(chunk)).length + EMBEDDING_DIMENSIONS * 4;
+    }
+  }
+
+  return Array.from(footprints.values());
+}
+
+// Delete several memories and their chunks in a single transaction
+export async function deleteMemories(memoryIds: string[]): Promise<{ memories: number; chunks: number }> {
+  if (!memoryIds.length) {
+    return { memories: 0, chunks: 0 };
+  }
+
+  const db = await openDatabase();
+  const transaction = db.transaction(MEMORY_DELETE_STORES, "readwrite");
+  let chunks = 0;
+  let documents = 0;
+  let length = 0;
+
+  for (const memoryId of memoryIds) {
+    const removed = await removeMemoryInTransaction(transaction, memoryId);
+    chunks += removed.chunks;
+    documents += removed.documents;
+    length += removed.length;
+  }
+
+  if (documents > 0) {
+    await adjustCorpusStats(transaction, -documents, -length);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  console.log(`[NanoScribe::Memory] 🗑️ Deleted ${memoryIds.length} memories and ${chunks} chunks`);
+  return { memories: memoryIds.length, chunks };
+}
+
+function revisionRange(memoryId: string): IDBKeyRange {
+  return IDBKeyRange.bound([memoryId, 0], [memoryId, Number.MAX_SAFE_INTEGER]);
+}
+
+// Revisions for one memory, newest first
+export async function getMemoryRevisions(memoryId: string): Promise<MemoryRevision[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(REVISION_STORE_NAME, "readonly");
+  const index = transaction.objectStore(REVISION_STORE_NAME).index("by-memoryId-capturedAt");
+  const revisions = await promisifyRequest<MemoryRevision[]>(index.getAll(revisionRange(memoryId)));
+  if (revisions.some((revision) => revision.sealed)) {
+    await touchVault();
+  }
+  const revealed = await Promise.all(revisions.map(revealRevision));
+  return revealed.sort((a, b) => b.capturedAt - a.capturedAt);
+}
+
+// Store a capture snapshot and drop the oldest ones beyond MAX_REVISIONS_PER_MEMORY
+export async function addMemoryRevision(draft: Omit<MemoryRevision, "id" | "sealed">): Promise<MemoryRevision> {
+  const protection = await getVaultProtection();
+  const revision: MemoryRevision = { id: crypto.randomUUID(), ...draft };
+  const stored = await prepareRevisionForStorage(revision, protection);
+
+  const db = await openDatabase();
+  const transaction = db.transaction(REVISION_STORE_NAME, "readwrite");
+  const store = transaction.objectStore(REVISION_STORE_NAME);
+  await promisifyRequest(store.put(stored));
+
+  // Keys come back in capturedAt order, so everything before the newest N is pruned
+  const keys = await promisifyRequest<IDBValidKey[]>(store.index("by-memoryId-capturedAt").getAllKeys(revisionRange(draft.memoryId)));
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_REVISIONS_PER_MEMORY))) {
+    await promisifyRequest(store.delete(key));
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  return revision;
+}
+
+// Ids of every chunk belonging to the given memories, read from the index without unsealing anything
+export async function getChunkIdsForMemories(memoryIds: string[]): Promise<string[]> {
+  const { store } = await getChunkStore("readonly");
+  const index = store.index("by-memoryId");
+  const keys = await Promise.all(memoryIds.map((memoryId) => promisifyRequest<IDBValidKey[]>(index.getAllKeys(memoryId))));
+  return keys.flat().map(String);
+}
+
+export async function getMemoryChunks(memoryId: string): Promise<ContentChunkRecord[]> {
+  const { store } = await getChunkStore("readonly");
+  const chunks = await promisifyRequest<ContentChunkRecord[]>(store.index("by-memoryId").getAll(memoryId));
+  return revealChunks(chunks.sort((a, b) => a.ordinal - b.ordinal));
+}
+
+// Remove a memory's current chunks (and their index entries) before a changed re-capture replaces them.
+// Captures pass keepHighlights so passages the user saved on the page survive.
+export async function removeMemoryChunks(memoryId: string, options: { keepHighlights?: boolean } = {}): Promise<number> {
+  const db = await openDatabase();
+  const transaction = db.transaction([CHUNK_STORE_NAME, ...SEARCH_INDEX_STORES], "readwrite");
+  const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+  const chunks = await promisifyRequest<ContentChunkRecord[]>(chunkStore.index("by-memoryId").getAll(memoryId));
+  const chunkIds = chunks
+    .filter((chunk) => !(options.keepHighlights && chunk.sourceTag === HIGHLIGHT_SOURCE_TAG))
+    .map((chunk) => chunk.id);
+
+  let documents = 0;
+  let length = 0;
+  for (const chunkId of chunkIds) {
+    await promisifyRequest(chunkStore.delete(chunkId));
+    const indexedLength = await removeChunkFromIndex(transaction, String(chunkId));
+    if (indexedLength >= 0) {
+      documents += 1;
+      length += indexedLength;
+    }
+  }
+  if (documents > 0) {
+    await adjustCorpusStats(transaction, -documents, -length);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  return chunkIds.length;
+}
+
+// Tags are plain metadata on the record, so they can be changed without revealing sealed fields
+export async function setMemoryTags(memoryId: string, tags: string[]): Promise<MemoryRecord> {
+  const { store, transaction } = await getStore("readwrite");
+  const stored = await promisifyRequest<MemoryRecord | undefined>(store.get(memoryId));
+  if (!stored) {
+    throw new Error("Memory not found.");
+  }
+
+  const updated: MemoryRecord = { ...stored, tags: normalizeTags(tags) };
+  await promisifyRequest(store.put(updated));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  return revealMemory(updated);
+}
+
+export async function setMemoryPinned(memoryId: string, pinned: boolean): Promise<MemoryRecord> {
+  const { store, transaction } = await getStore("readwrite");
+  const stored = await promisifyRequest<MemoryRecord | undefined>(store.get(memoryId));
+  if (!stored) {
+    throw new Error("Memory not found.");
+  }
+
+  const updated: MemoryRecord = { ...stored, pinned: pinned || undefined };
+  await promisifyRequest(store.put(updated));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  return revealMemory(updated);
+}
+
+// Add time spent on a page to its memory. updatedAt is left alone because the captured content did not change.
+export async function addMemoryDwellTime(url: string, ms: number): Promise<boolean> {
+  const { store, transaction } = await getStore("readwrite");
+  const key = await promisifyRequest<IDBValidKey | undefined>(store.index("by-url").getKey(normalizeMemoryUrl(url)));
+  if (key === undefined) {
+    return false;
+  }
+
+  const stored = await promisifyRequest<MemoryRecord>(store.get(key));
+  await promisifyRequest(store.put({ ...stored, dwellMs: Math.round((stored.dwellMs ?? 0) + ms) }));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  return true;
+}
+
+export type ChunkTimelineRef = Pick<ContentChunkRecord, "id" | "memoryId" | "sessionId" | "createdAt" | "sourceTag">;
+
+// Chunks created in [start, end), newest first, without opening sealed text; olderCreatedAt is the
+// creation time of the newest chunk before start, so the caller knows where the next page begins
+export async function getChunkRefsInRange(start: number, end: number): Promise<{ chunks: ChunkTimelineRef[]; olderCreatedAt: number | null }> {
+  const { store } = await getChunkStore("readonly");
+  const index = store.index("by-createdAt");
+  const chunks: ChunkTimelineRef[] = [];
+
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openCursor(IDBKeyRange.bound(start, end, false, true), "prev");
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const { id, memoryId, sessionId, createdAt, sourceTag } = cursor.value as ContentChunkRecord;
+      chunks.push({ id, memoryId, sessionId, createdAt, sourceTag });
+      cursor.continue();
+    };
+  });
+
+  const olderCreatedAt = await new Promise<number | null>((resolve, reject) => {
+    const request = index.openKeyCursor(IDBKeyRange.upperBound(start, true), "prev");
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result ? Number(request.result.key) : null);
+  });
+
+  return { chunks, olderCreatedAt };
+}
+
+// Every tag in use with the number of memories carrying it, most used first
+export async function getTagCounts(): Promise<TagCount[]> {
+  const { store } = await getStore("readonly");
+  if (!store.indexNames.contains(TAG_INDEX_NAME)) {
+    return [];
+  }
+
+  const counts = new Map<string, number>();
+  await new Promise<void>((resolve, reject) => {
+    const request = store.index(TAG_INDEX_NAME).openKeyCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const tag = String(cursor.key);
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      cursor.continue();
+    };
+  });
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+// Ids of memories carrying every one of the given tags
+export async function getMemoryIdsWithTags(tags: string[]): Promise<Set<string>> {
+  const { store } = await getStore("readonly");
+  let matches: Set<string> | null = null;
+  for (const tag of normalizeTags(tags)) {
+    const keys = await promisifyRequest<IDBValidKey[]>(store.index(TAG_INDEX_NAME).getAllKeys(tag));
+    const ids: Set<string> = new Set(keys.map(String));
+    matches = matches === null ? ids : new Set(Array.from(matches).filter((id) => ids.has(id)));
+  }
+  return matches ?? new Set();
+}
+
+// Rough in-storage size of a structured-cloned value; binary fields (vectors, sealed payloads) count their byte length
+function estimateRecordBytes(value: unknown): number {
+  if (value === null || value === undefined) {
+    return 0;
+  }
+  if (typeof value === "string") {
+    return footprintEncoder.encode(value).length;
+  }
+  if (typeof value === "number") {
+    return 8;
+  }
+  if (typeof value === "boolean") {
+    return 1;
+  }
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return value.byteLength;
+  }
+  if (Array.isArray(value)) {
+    return value.reduce<number>((total, item) => total + estimateRecordBytes(item), 0);
+  }
+  if (typeof value === "object") {
+    return Object.entries(value).reduce<number>((total, [key, item]) => total + key.length + estimateRecordBytes(item), 0);
+  }
+  return 0;
+}
+
+// Record count and estimated size of every object store, measured on the stored (possibly sealed) records
+export async function getObjectStoreUsage(): Promise<StoreUsage[]> {
+  const db = await openDatabase();
+  const storeNames = ALL_STORE_NAMES.filter((storeName) => db.objectStoreNames.contains(storeName));
+  const transaction = db.transaction(storeNames, "readonly");
+
+  return Promise.all(
+    storeNames.map(
+      (storeName) =>
+        new Promise<StoreUsage>((resolve, reject) => {
+          const usage: StoreUsage = { store: storeName, records: 0, bytes: 0 };
+          const request = transaction.objectStore(storeName).openCursor();
+          request.onerror = () => reject(request.error);
+          request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+              resolve(usage);
+              return;
+            }
+            usage.records += 1;
+            usage.bytes += estimateRecordBytes(cursor.value);
+            cursor.continue();
+          };
+        })
+    )
+  );
+}
+
+function monthKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+// Chunk counts by sourceTag and by the month they were captured; neither field is sealed, so this works while locked
+export async function getChunkBreakdown(): Promise<{ bySource: Map<string, number>; byMonth: Map<string, number> }> {
+  const { store } = await getChunkStore("readonly");
+  const bySource = new Map<string, number>();
+  const byMonth = new Map<string, number>();
+
+  await new Promise<void>((resolve, reject) => {
+    const request = store.openCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const chunk = cursor.value as ContentChunkRecord;
+      const sourceTag = chunk.sourceTag ?? "untagged";
+      bySource.set(sourceTag, (bySource.get(sourceTag) ?? 0) + 1);
+      const month = monthKey(chunk.createdAt);
+      byMonth.set(month, (byMonth.get(month) ?? 0) + 1);
+      cursor.continue();
+    };
+  });
+
+  return { bySource, byMonth };
+}
+
+// Keep only the newest `keep` revisions of every memory; returns how many were deleted
+export async function pruneMemoryRevisions(keep: number = 1): Promise<number> {
+  const db = await openDatabase();
+  const transaction = db.transaction(REVISION_STORE_NAME, "readwrite");
+  const store = transaction.objectStore(REVISION_STORE_NAME);
+  const seen = new Map<string, number>();
+  let removed = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    // Walking the [memoryId, capturedAt] index backwards visits each memory's newest revisions first
+    const request = store.index("by-memoryId-capturedAt").openKeyCursor(null, "prev");
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const [memoryId] = cursor.key as [string, number];
+      const position = (seen.get(memoryId) ?? 0) + 1;
+      seen.set(memoryId, position);
+      if (position > keep) {
+        store.delete(cursor.primaryKey);
+        removed += 1;
+      }
+      cursor.continue();
+    };
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  console.log(`[NanoScribe::Memory] 🧹 Pruned ${removed} revisions (keeping ${keep} per memory)`);
+  return removed;
+}
+
+// Move chunks between sessions: assign returns the chunk's new session, or null to leave it where it is.
+// Session ids are stored in the clear, so this works on sealed chunks without opening them.
+// Resolves with each moved chunk's previous session so the caller can undo the edit.
+export async function reassignChunkSessions(
+  assign: (chunk: Pick<ContentChunkRecord, "id" | "memoryId" | "sessionId" | "createdAt">) => string | null,
+): Promise<Record<string, string>> {
+  const { transaction, store } = await getChunkStore("readwrite");
+  const previous: Record<string, string> = {};
+
+  await new Promise<void>((resolve, reject) => {
+    const request = store.openCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const chunk = cursor.value as ContentChunkRecord;
+      const sessionId = assign(chunk);
+      if (sessionId && sessionId !== chunk.sessionId) {
+        previous[chunk.id] = chunk.sessionId;
+        cursor.update({ ...chunk, sessionId });
+      }
+      cursor.continue();
+    };
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  return previous;
+}
+
+async function collectIndexKeys(index: IDBIndex): Promise<{ key: IDBValidKey; primaryKey: IDBValidKey }[]> {
+  const entries: { key: IDBValidKey; primaryKey: IDBValidKey }[] = [];
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openKeyCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      entries.push({ key: cursor.key, primaryKey: cursor.primaryKey });
+      cursor.continue();
+    };
+  });
+  return entries;
+}
+
+// Remove chunks and revisions left behind by a deleted memory, and search index entries whose chunk is gone.
+// Interrupted deletes and older builds could leave these; nothing reachable from a memory is touched.
+export async function removeOrphanedRecords(): Promise<{ chunks: number; indexEntries: number; revisions: number }> {
+  const db = await openDatabase();
+  const transaction = db.transaction(MEMORY_DELETE_STORES, "readwrite");
+  const memoryIds = new Set((await promisifyRequest<IDBValidKey[]>(transaction.objectStore(STORE_NAME).getAllKeys())).map(String));
+  const chunkStore = transaction.objectStore(CHUNK_STORE_NAME);
+
+  const liveChunkIds = new Set<string>();
+  const orphanChunkIds: string[] = [];
+  for (const { key, primaryKey } of await collectIndexKeys(chunkStore.index("by-memoryId"))) {
+    if (memoryIds.has(String(key))) {
+      liveChunkIds.add(String(primaryKey));
+    } else {
+      orphanChunkIds.push(String(primaryKey));
+    }
+  }
+
+  let documents = 0;
+  let length = 0;
+  const removeFromIndex = async (chunkId: string) => {
+    const indexedLength = await removeChunkFromIndex(transaction, chunkId);
+    if (indexedLength >= 0) {
+      documents += 1;
+      length += indexedLength;
+    }
+  };
+
+  for (const chunkId of orphanChunkIds) {
+    await promisifyRequest(chunkStore.delete(chunkId));
+    await removeFromIndex(chunkId);
+  }
+
+  const indexedChunkIds = new Set<string>([
+    ...(await promisifyRequest<IDBValidKey[]>(transaction.objectStore(DOC_STATS_STORE_NAME).getAllKeys())).map(String),
+    ...(await promisifyRequest<IDBValidKey[]>(transaction.objectStore(CHUNK_VECTOR_STORE_NAME).getAllKeys())).map(String),
+    ...(await collectIndexKeys(transaction.objectStore(TERM_STORE_NAME).index("by-chunkId"))).map(({ key }) => String(key)),
+  ]);
+  // Read after the orphans above were removed, so anything still unmatched belongs to no chunk at all
+  const strayChunkIds = Array.from(indexedChunkIds).filter((chunkId) => !liveChunkIds.has(chunkId));
+  for (const chunkId of strayChunkIds) {
+    await removeFromIndex(chunkId);
+  }
+  if (documents > 0) {
+    await adjustCorpusStats(transaction, -documents, -length);
+  }
+
+  const revisionStore = transaction.objectStore(REVISION_STORE_NAME);
+  let revisions = 0;
+  for (const { key, primaryKey } of await collectIndexKeys(revisionStore.index("by-memoryId-capturedAt"))) {
+    const [memoryId] = key as [string, number];
+    if (!memoryIds.has(memoryId)) {
+      await promisifyRequest(revisionStore.delete(primaryKey));
+      revisions += 1;
+    }
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  console.log(
+    `[NanoScribe::Memory] 🧹 Removed ${orphanChunkIds.length} orphaned chunks, ${strayChunkIds.length} stray index entries and ${revisions} orphaned revisions`
+  );
+  return { chunks: orphanChunkIds.length, indexEntries: strayChunkIds.length, revisions };
+}
+
+type SealedEntityFields = Pick<EntityRecord, "name">;
+
+// Entities found in one chunk, as produced by the extractor
+export type ChunkEntityMentions = {
+  chunkId: string;
+  entities: ExtractedEntity[];
+};
+
+function entityKey(entity: ExtractedEntity): string {
+  return `${entity.type}:${entity.name.trim().toLowerCase()}`;
+}
+
+async function revealEntity(entity: EntityRecord): Promise<EntityRecord> {
+  if (!entity.sealed) {
+    return entity;
+  }
+  const fields = await openSealedPayload<SealedEntityFields>(entity.sealed);
+  if (!fields) {
+    return entity;
+  }
+  const { sealed: _sealed, ...plain } = entity;
+  return { ...plain, ...fields };
+}
+
+// Take a memory out of every entity and co-occurrence edge; entities only it mentioned are deleted
+async function detachMemoryEntities(transaction: IDBTransaction, memoryId: string): Promise<void> {
+  const entityStore = transaction.objectStore(ENTITY_STORE_NAME);
+  const entities = await promisifyRequest<EntityRecord[]>(entityStore.index("by-memoryId").getAll(memoryId));
+  for (const entity of entities) {
+    const memoryIds = entity.memoryIds.filter((id) => id !== memoryId);
+    if (!memoryIds.length) {
+      await promisifyRequest(entityStore.delete(entity.id));
+      continue;
+    }
+    const { [memoryId]: _removed, ...chunkIdsByMemory } = entity.chunkIdsByMemory;
+    await promisifyRequest(entityStore.put({ ...entity, memoryIds, chunkIdsByMemory } satisfies EntityRecord));
+  }
+
+  const edgeStore = transaction.objectStore(ENTITY_EDGE_STORE_NAME);
+  const edgeIds = await promisifyRequest<IDBValidKey[]>(edgeStore.index("by-memoryId").getAllKeys(memoryId));
+  for (const edgeId of edgeIds) {
+    await promisifyRequest(edgeStore.delete(edgeId));
+  }
+}
+
+// Replace the entities extracted from a memory's chunks and rebuild its co-occurrence edges.
+// With the vault on, entity ids are keyed hashes and names are sealed, like index terms and chunk text.
+export async function replaceMemoryEntities(memoryId: string, mentions: ChunkEntityMentions[]): Promise<number> {
+  const protection = await getVaultProtection();
+  const grouped = new Map<string, { entity: ExtractedEntity; chunkIds: string[] }>();
+  for (const { chunkId, entities } of mentions) {
+    for (const entity of entities) {
+      const key = entityKey(entity);
+      const entry = grouped.get(key) ?? { entity, chunkIds: [] };
+      if (!entry.chunkIds.includes(chunkId)) {
+        entry.chunkIds.push(chunkId);
+      }
+      grouped.set(key, entry);
+    }
+  }
+
+  const keys = Array.from(grouped.keys());
+  const ids = protection ? await protection.protectTerms(keys) : keys;
+  const prepared: (Pick<EntityRecord, "id" | "type" | "name" | "sealed"> & { chunkIds: string[] })[] = [];
+  for (const [index, { entity, chunkIds }] of Array.from(grouped.values()).entries()) {
+    prepared.push({
+      id: ids[index],
+      type: entity.type,
+      name: protection ? "" : entity.name,
+      sealed: protection ? await protection.seal({ name: entity.name } satisfies SealedEntityFields) : undefined,
+      chunkIds,
+    });
+  }
+
+  const db = await openDatabase();
+  const transaction = db.transaction([STORE_NAME, ...ENTITY_STORES], "readwrite");
+  const memoryStore = transaction.objectStore(STORE_NAME);
+  const memory = await promisifyRequest<MemoryRecord | undefined>(memoryStore.get(memoryId));
+  if (!memory) {
+    // Deleted while its entities were being extracted
+    return 0;
+  }
+
+  await detachMemoryEntities(transaction, memoryId);
+
+  const entityStore = transaction.objectStore(ENTITY_STORE_NAME);
+  const now = Date.now();
+  const sharedWith = new Map<string, string[]>();
+  for (const entry of prepared) {
+    const existing = await promisifyRequest<EntityRecord | undefined>(entityStore.get(entry.id));
+    const record: EntityRecord = existing
+      ? {
+          ...existing,
+          memoryIds: [...existing.memoryIds, memoryId],
+          chunkIdsByMemory: { ...existing.chunkIdsByMemory, [memoryId]: entry.chunkIds },
+          updatedAt: now,
+        }
+      : {
+          id: entry.id,
+          type: entry.type,
+          name: entry.name,
+          sealed: entry.sealed,
+          memoryIds: [memoryId],
+          chunkIdsByMemory: { [memoryId]: entry.chunkIds },
+          updatedAt: now,
+        };
+    await promisifyRequest(entityStore.put(record));
+
+    if (record.memoryIds.length <= MAX_EDGE_ENTITY_FANOUT) {
+      for (const otherId of record.memoryIds) {
+        if (otherId !== memoryId) {
+          sharedWith.set(otherId, [...(sharedWith.get(otherId) ?? []), record.id]);
+        }
+      }
+    }
+  }
+
+  const edgeStore = transaction.objectStore(ENTITY_EDGE_STORE_NAME);
+  for (const [otherId, entityIds] of sharedWith) {
+    const memoryIds = [memoryId, otherId].sort() as [string, string];
+    await promisifyRequest(
+      edgeStore.put({ id: memoryIds.join("|"), memoryIds, entityIds, weight: entityIds.length } satisfies EntityEdge)
+    );
+  }
+
+  // Written on the stored record so sealed fields stay as they are and updatedAt is untouched
+  await promisifyRequest(memoryStore.put({ ...memory, entitiesExtractedAt: now } satisfies MemoryRecord));
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  return prepared.length;
+}
+
+// Every entity with its name revealed; names stay empty while the vault is locked
+export async function getAllEntities(): Promise<EntityRecord[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(ENTITY_STORE_NAME, "readonly");
+  const entities = await promisifyRequest<EntityRecord[]>(transaction.objectStore(ENTITY_STORE_NAME).getAll());
+  if (entities.some((entity) => entity.sealed)) {
+    await touchVault();
+  }
+  return Promise.all(entities.map(revealEntity));
+}
+
+export async function getAllEntityEdges(): Promise<EntityEdge[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(ENTITY_EDGE_STORE_NAME, "readonly");
+  return promisifyRequest<EntityEdge[]>(transaction.objectStore(ENTITY_EDGE_STORE_NAME).getAll());
+}
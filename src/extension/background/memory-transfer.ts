@@ -0,0 +1,286 @@
+import type {
+  ContentChunkRecord,
+  MemoryExportBundle,
+  MemoryExportFile,
+  MemoryExportSettings,
+  MemoryImportResult,
+  MemoryRecord,
+} from "../types";
+import { getAllMemories, getAllMemoryRecords, restoreMemoryRecords, sanitizeKeyPointsText } from "./memory-store";
+import { normalizeRetentionPolicy } from "./retention";
+import { normalizeMemoryUrl } from "./url-normalizer";
+
+export const MEMORY_EXPORT_FORMAT = "nanoscribe-memories";
+export const MEMORY_EXPORT_VERSION = 1;
+
+const NO_SESSION_FOLDER = "unsorted";
+
+function slugify(value: string, fallback: string): string {
+  const slug = value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug || fallback;
+}
+
+function formatDateStamp(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function escapeFrontMatter(value: string): string {
+  return JSON.stringify(value ?? "");
+}
+
+export async function buildMemoryExportBundle(): Promise<MemoryExportBundle> {
+  const { memories, chunks } = await getAllMemoryRecords();
+  const stored = await chrome.storage.local.get(["sessionTitles", "isContextAware", "diagnosticsSettings", "retentionPolicy"]);
+
+  const settings: MemoryExportSettings = {};
+  if (typeof stored.isContextAware === "boolean") {
+    settings.isContextAware = stored.isContextAware;
+  }
+  if (stored.diagnosticsSettings && typeof stored.diagnosticsSettings === "object") {
+    settings.diagnosticsSettings = stored.diagnosticsSettings;
+  }
+  if (stored.retentionPolicy && typeof stored.retentionPolicy === "object") {
+    settings.retentionPolicy = normalizeRetentionPolicy(stored.retentionPolicy);
+  }
+
+  return {
+    format: MEMORY_EXPORT_FORMAT,
+    version: MEMORY_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    memories: memories.sort((a, b) => a.createdAt - b.createdAt),
+    chunks: chunks.sort((a, b) => a.createdAt - b.createdAt || a.ordinal - b.ordinal),
+    sessionTitles: (stored.sessionTitles as Record<string, string> | undefined) ?? {},
+    settings,
+  };
+}
+
+function renderMemoryMarkdown(memory: MemoryRecord, chunks: ContentChunkRecord[], sessionLabel: string | null): string {
+  const lines: string[] = [
+    "---",
+    `title: ${escapeFrontMatter(memory.title)}`,
+    `url: ${escapeFrontMatter(memory.url)}`,
+    ...(sessionLabel ? [`session: ${escapeFrontMatter(sessionLabel)}`] : []),
+    `created: ${new Date(memory.createdAt).toISOString()}`,
+    `updated: ${new Date(memory.updatedAt).toISOString()}`,
+    "---",
+    "",
+    `# ${memory.title || memory.url}`,
+    "",
+    `<${memory.url}>`,
+    "",
+    "## Summary",
+    "",
+    memory.structuredSummary?.overview || memory.summary || "_No summary available_",
+  ];
+
+  const orderedChunks = chunks.slice().sort((a, b) => a.ordinal - b.ordinal);
+  if (orderedChunks.length > 0) {
+    lines.push("", "## Sections");
+    for (const chunk of orderedChunks) {
+      const keyPoints = sanitizeKeyPointsText(chunk.keyPoints ?? "");
+      lines.push("", `### ${chunk.chunkTitle?.trim() || `Section ${chunk.ordinal + 1}`}`, "");
+      if (keyPoints) {
+        lines.push(...keyPoints.split("\n").map((point) => `- ${point}`), "");
+      }
+      lines.push(chunk.rawText.trim());
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+// One Markdown file per memory, foldered by session, plus an index file at the root
+export function buildMarkdownExport(bundle: MemoryExportBundle): MemoryExportFile[] {
+  const root = `nanoscribe-export-${formatDateStamp(bundle.exportedAt)}`;
+  const chunksByMemory = new Map<string, ContentChunkRecord[]>();
+  for (const chunk of bundle.chunks) {
+    if (!chunksByMemory.has(chunk.memoryId)) {
+      chunksByMemory.set(chunk.memoryId, []);
+    }
+    chunksByMemory.get(chunk.memoryId)!.push(chunk);
+  }
+
+  const usedPaths = new Set<string>();
+  const files: MemoryExportFile[] = [];
+  const indexLines: string[] = ["# NanoScribe export", "", `Exported ${new Date(bundle.exportedAt).toISOString()}`, ""];
+
+  for (const memory of bundle.memories) {
+    const memoryChunks = chunksByMemory.get(memory.id) ?? [];
+    const sessionId = memoryChunks
+      .slice()
+      .sort((a, b) => b.createdAt - a.createdAt)[0]?.sessionId;
+    const sessionLabel = sessionId ? bundle.sessionTitles[sessionId] ?? sessionId : null;
+    const folder = sessionLabel ? slugify(sessionLabel, NO_SESSION_FOLDER) : NO_SESSION_FOLDER;
+
+    const baseName = slugify(memory.title || memory.url, memory.id.slice(0, 8));
+    let path = `${root}/${folder}/${baseName}.md`;
+    for (let suffix = 2; usedPaths.has(path); suffix += 1) {
+      path = `${root}/${folder}/${baseName}-${suffix}.md`;
+    }
+    usedPaths.add(path);
+
+    files.push({
+      path,
+      mimeType: "text/markdown",
+      content: renderMemoryMarkdown(memory, memoryChunks, sessionLabel),
+    });
+    indexLines.push(`- [${memory.title || memory.url}](${path.slice(root.length + 1)})`);
+  }
+
+  files.unshift({ path: `${root}/index.md`, mimeType: "text/markdown", content: `${indexLines.join("\n")}\n` });
+  return files;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isValidMemory(value: unknown): value is MemoryRecord {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.url === "string" &&
+    typeof value.title === "string" &&
+    typeof value.summary === "string" &&
+    typeof value.createdAt === "number" &&
+    typeof value.updatedAt === "number"
+  );
+}
+
+function isValidChunk(value: unknown): value is ContentChunkRecord {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.memoryId === "string" &&
+    typeof value.sessionId === "string" &&
+    typeof value.rawText === "string" &&
+    typeof value.ordinal === "number" &&
+    typeof value.createdAt === "number"
+  );
+}
+
+// Throws with a user-facing message when the payload is not an export bundle we understand
+export function parseMemoryExportBundle(raw: unknown): MemoryExportBundle {
+  if (!isRecord(raw) || raw.format !== MEMORY_EXPORT_FORMAT) {
+    throw new Error("This file is not a NanoScribe memory export.");
+  }
+  if (typeof raw.version !== "number" || raw.version > MEMORY_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version: ${String(raw.version)}`);
+  }
+  if (!Array.isArray(raw.memories) || !Array.isArray(raw.chunks)) {
+    throw new Error("Export bundle is missing memories or chunks.");
+  }
+
+  const invalidMemory = raw.memories.findIndex((memory) => !isValidMemory(memory));
+  if (invalidMemory >= 0) {
+    throw new Error(`Memory #${invalidMemory + 1} in the export is malformed.`);
+  }
+  const invalidChunk = raw.chunks.findIndex((chunk) => !isValidChunk(chunk));
+  if (invalidChunk >= 0) {
+    throw new Error(`Chunk #${invalidChunk + 1} in the export is malformed.`);
+  }
+
+  const sessionTitles: Record<string, string> = {};
+  if (isRecord(raw.sessionTitles)) {
+    for (const [sessionId, title] of Object.entries(raw.sessionTitles)) {
+      if (typeof title === "string") {
+        sessionTitles[sessionId] = title;
+      }
+    }
+  }
+
+  return {
+    format: MEMORY_EXPORT_FORMAT,
+    version: raw.version,
+    exportedAt: typeof raw.exportedAt === "number" ? raw.exportedAt : Date.now(),
+    memories: raw.memories as MemoryRecord[],
+    chunks: (raw.chunks as ContentChunkRecord[]).map((chunk) => ({
+      ...chunk,
+      keyPoints: typeof chunk.keyPoints === "string" ? chunk.keyPoints : "",
+      keywords: Array.isArray(chunk.keywords) ? chunk.keywords.filter((keyword) => typeof keyword === "string") : [],
+    })),
+    sessionTitles,
+    settings: isRecord(raw.settings) ? (raw.settings as MemoryExportSettings) : {},
+  };
+}
+
+// Insert memories whose canonical URL is not stored yet; memory, chunk and session ids are re-issued so
+// an import never collides with (or silently merges into) existing sessions
+export async function importMemoryExportBundle(bundle: MemoryExportBundle): Promise<MemoryImportResult> {
+  const existing = await getAllMemories();
+  const knownUrls = new Set(existing.map((memory) => normalizeMemoryUrl(memory.url)));
+
+  const memoryIdMap = new Map<string, string>();
+  const memories: MemoryRecord[] = [];
+  let skippedDuplicates = 0;
+
+  for (const memory of bundle.memories) {
+    const url = normalizeMemoryUrl(memory.url);
+    if (knownUrls.has(url)) {
+      skippedDuplicates += 1;
+      continue;
+    }
+    knownUrls.add(url);
+    const id = crypto.randomUUID();
+    memoryIdMap.set(memory.id, id);
+    memories.push({ ...memory, id, url });
+  }
+
+  const sessionIdMap = new Map<string, string>();
+  const chunks: ContentChunkRecord[] = [];
+  for (const chunk of bundle.chunks) {
+    const memoryId = memoryIdMap.get(chunk.memoryId);
+    if (!memoryId) {
+      continue;
+    }
+    if (!sessionIdMap.has(chunk.sessionId)) {
+      sessionIdMap.set(chunk.sessionId, crypto.randomUUID());
+    }
+    chunks.push({ ...chunk, id: crypto.randomUUID(), memoryId, sessionId: sessionIdMap.get(chunk.sessionId)! });
+  }
+
+  await restoreMemoryRecords(memories, chunks);
+
+  const remappedTitles: Record<string, string> = {};
+  for (const [originalId, newId] of sessionIdMap) {
+    const title = bundle.sessionTitles[originalId];
+    if (title) {
+      remappedTitles[newId] = title;
+    }
+  }
+  if (Object.keys(remappedTitles).length > 0) {
+    const stored = await chrome.storage.local.get({ sessionTitles: {} as Record<string, string> });
+    await chrome.storage.local.set({ sessionTitles: { ...(stored.sessionTitles ?? {}), ...remappedTitles } });
+  }
+
+  // Settings are restored through storage; the service worker's storage listener applies them
+  const restoredSettings: Record<string, unknown> = {};
+  if (typeof bundle.settings.isContextAware === "boolean") {
+    restoredSettings.isContextAware = bundle.settings.isContextAware;
+  }
+  if (isRecord(bundle.settings.diagnosticsSettings)) {
+    restoredSettings.diagnosticsSettings = bundle.settings.diagnosticsSettings;
+  }
+  if (isRecord(bundle.settings.retentionPolicy)) {
+    restoredSettings.retentionPolicy = normalizeRetentionPolicy(bundle.settings.retentionPolicy);
+  }
+  if (Object.keys(restoredSettings).length > 0) {
+    await chrome.storage.local.set(restoredSettings);
+  }
+
+  console.log(
+    `[NanoScribe::Memory] ✅ Import complete: ${memories.length} memories, ${chunks.length} chunks, ${skippedDuplicates} duplicates skipped`
+  );
+
+  return {
+    imported: memories.length,
+    skippedDuplicates,
+    chunks: chunks.length,
+    sessions: sessionIdMap.size,
+  };
+}
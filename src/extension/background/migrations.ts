@@ -0,0 +1,253 @@
+import type { MigrationProgress, MigrationReport, MigrationStepReport } from "../types";
+
+// Snapshots live in their own database so a failed migration can never damage them
+const SNAPSHOT_DATABASE_NAME = "nanoscribe-migration-snapshot";
+const SNAPSHOT_DATABASE_VERSION = 1;
+const SNAPSHOT_STORE_NAME = "records";
+const SNAPSHOT_META_STORE_NAME = "meta";
+const SNAPSHOT_META_KEY = "snapshot";
+
+const APPLIED_VERSION_STORAGE_KEY = "databaseMigrationVersion";
+
+export type MigrationContext = {
+  db: IDBDatabase;
+  dryRun: boolean;
+  reportProgress: (processed: number, total: number) => void;
+};
+
+export type MigrationStepResult = {
+  scanned: number;
+  changed: number;
+};
+
+export type SchemaMigration = {
+  version: number;
+  description: string;
+  // Structural changes; runs synchronously inside onupgradeneeded
+  upgradeSchema?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+  // In-place record transforms; runs after the database is open and must be idempotent
+  migrateRecords?: (context: MigrationContext) => Promise<MigrationStepResult>;
+};
+
+type SnapshotRecord = {
+  storeName: string;
+  value: unknown;
+};
+
+type SnapshotMeta = {
+  key: string;
+  storeNames: string[];
+  createdAt: number;
+  fromVersion: number;
+};
+
+export function applySchemaUpgrades(
+  migrations: SchemaMigration[],
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number
+): void {
+  for (const migration of migrations) {
+    if (oldVersion < migration.version && migration.upgradeSchema) {
+      console.log(`[NanoScribe::Migrations] 🔄 Schema v${migration.version}: ${migration.description}`);
+      migration.upgradeSchema(db, transaction);
+    }
+  }
+}
+
+function waitForTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openSnapshotDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(SNAPSHOT_DATABASE_NAME, SNAPSHOT_DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE_NAME)) {
+        db.createObjectStore(SNAPSHOT_STORE_NAME, { autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOT_META_STORE_NAME)) {
+        db.createObjectStore(SNAPSHOT_META_STORE_NAME, { keyPath: "key" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Copy every record of the given stores into the snapshot database, replacing any previous snapshot
+export async function createMigrationSnapshot(db: IDBDatabase, storeNames: string[], fromVersion: number): Promise<number> {
+  const present = storeNames.filter((name) => db.objectStoreNames.contains(name));
+  const readTransaction = db.transaction(present, "readonly");
+  const records: SnapshotRecord[] = [];
+  for (const storeName of present) {
+    const values = await requestToPromise<unknown[]>(readTransaction.objectStore(storeName).getAll());
+    values.forEach((value) => records.push({ storeName, value }));
+  }
+
+  const snapshotDb = await openSnapshotDatabase();
+  try {
+    const writeTransaction = snapshotDb.transaction([SNAPSHOT_STORE_NAME, SNAPSHOT_META_STORE_NAME], "readwrite");
+    const recordStore = writeTransaction.objectStore(SNAPSHOT_STORE_NAME);
+    recordStore.clear();
+    for (const record of records) {
+      recordStore.put(record);
+    }
+    writeTransaction.objectStore(SNAPSHOT_META_STORE_NAME).put({
+      key: SNAPSHOT_META_KEY,
+      storeNames: present,
+      createdAt: Date.now(),
+      fromVersion,
+    } satisfies SnapshotMeta);
+    await waitForTransaction(writeTransaction);
+  } finally {
+    snapshotDb.close();
+  }
+
+  console.log(`[NanoScribe::Migrations] 📸 Snapshot saved (${records.length} records from ${present.length} stores)`);
+  return records.length;
+}
+
+// Replace the contents of every snapshotted store with the snapshot copy
+export async function restoreMigrationSnapshot(db: IDBDatabase): Promise<boolean> {
+  const snapshotDb = await openSnapshotDatabase();
+  let meta: SnapshotMeta | undefined;
+  let records: SnapshotRecord[] = [];
+  try {
+    const readTransaction = snapshotDb.transaction([SNAPSHOT_STORE_NAME, SNAPSHOT_META_STORE_NAME], "readonly");
+    meta = await requestToPromise<SnapshotMeta | undefined>(readTransaction.objectStore(SNAPSHOT_META_STORE_NAME).get(SNAPSHOT_META_KEY));
+    records = await requestToPromise<SnapshotRecord[]>(readTransaction.objectStore(SNAPSHOT_STORE_NAME).getAll());
+  } finally {
+    snapshotDb.close();
+  }
+
+  if (!meta) {
+    console.warn("[NanoScribe::Migrations] ⚠️ No snapshot available to restore");
+    return false;
+  }
+
+  const storeNames = meta.storeNames.filter((name) => db.objectStoreNames.contains(name));
+  const transaction = db.transaction(storeNames, "readwrite");
+  for (const storeName of storeNames) {
+    transaction.objectStore(storeName).clear();
+  }
+  for (const record of records) {
+    if (storeNames.includes(record.storeName)) {
+      transaction.objectStore(record.storeName).put(record.value);
+    }
+  }
+  await waitForTransaction(transaction);
+
+  console.log(`[NanoScribe::Migrations] ⏪ Restored ${records.length} records from snapshot taken at v${meta.fromVersion}`);
+  return true;
+}
+
+export async function discardMigrationSnapshot(): Promise<void> {
+  const snapshotDb = await openSnapshotDatabase();
+  try {
+    const transaction = snapshotDb.transaction([SNAPSHOT_STORE_NAME, SNAPSHOT_META_STORE_NAME], "readwrite");
+    transaction.objectStore(SNAPSHOT_STORE_NAME).clear();
+    transaction.objectStore(SNAPSHOT_META_STORE_NAME).clear();
+    await waitForTransaction(transaction);
+  } finally {
+    snapshotDb.close();
+  }
+}
+
+async function getAppliedMigrationVersion(): Promise<number> {
+  const stored = await chrome.storage.local.get(APPLIED_VERSION_STORAGE_KEY);
+  const value = stored[APPLIED_VERSION_STORAGE_KEY];
+  return typeof value === "number" ? value : 0;
+}
+
+// Run pending record migrations in version order. A dry run only counts what would change.
+// A real run snapshots the given stores first and restores them if any step throws.
+export async function runRecordMigrations(
+  db: IDBDatabase,
+  migrations: SchemaMigration[],
+  options: {
+    dryRun?: boolean;
+    snapshotStores: string[];
+    onProgress?: (progress: MigrationProgress) => void;
+  }
+): Promise<MigrationReport> {
+  const dryRun = options.dryRun ?? false;
+  const fromVersion = await getAppliedMigrationVersion();
+  const pending = migrations
+    .filter((migration) => migration.version > fromVersion && migration.migrateRecords)
+    .sort((a, b) => a.version - b.version);
+  const targetVersion = migrations.reduce((max, migration) => Math.max(max, migration.version), fromVersion);
+
+  const report: MigrationReport = {
+    dryRun,
+    fromVersion,
+    toVersion: targetVersion,
+    steps: [],
+    status: "completed",
+  };
+
+  const emit = (progress: Omit<MigrationProgress, "dryRun">) => options.onProgress?.({ ...progress, dryRun });
+
+  if (!pending.length) {
+    if (!dryRun && targetVersion > fromVersion) {
+      await chrome.storage.local.set({ [APPLIED_VERSION_STORAGE_KEY]: targetVersion });
+    }
+    return report;
+  }
+
+  if (!dryRun) {
+    emit({ stage: "snapshot", version: fromVersion, description: "Saving pre-migration snapshot", processed: 0, total: 0 });
+    await createMigrationSnapshot(db, options.snapshotStores, fromVersion);
+  }
+
+  let currentStep: SchemaMigration | null = null;
+  try {
+    for (const migration of pending) {
+      currentStep = migration;
+      emit({ stage: "running", version: migration.version, description: migration.description, processed: 0, total: 0 });
+
+      const result = await migration.migrateRecords!({
+        db,
+        dryRun,
+        reportProgress: (processed, total) =>
+          emit({ stage: "running", version: migration.version, description: migration.description, processed, total }),
+      });
+
+      report.steps.push({ version: migration.version, description: migration.description, ...result } satisfies MigrationStepReport);
+      console.log(
+        `[NanoScribe::Migrations] ✅ v${migration.version}${dryRun ? " (dry run)" : ""}: ${result.changed}/${result.scanned} records ${dryRun ? "would change" : "changed"}`
+      );
+    }
+
+    if (!dryRun) {
+      await chrome.storage.local.set({ [APPLIED_VERSION_STORAGE_KEY]: targetVersion });
+      await discardMigrationSnapshot();
+    }
+    emit({ stage: "completed", version: targetVersion, description: "Migrations complete", processed: 0, total: 0 });
+    return report;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[NanoScribe::Migrations] ❌ Migration v${currentStep?.version} failed:`, error);
+    report.status = "failed";
+    report.error = message;
+
+    if (!dryRun) {
+      emit({ stage: "rolling-back", version: currentStep?.version ?? fromVersion, description: "Restoring snapshot", processed: 0, total: 0 });
+      report.status = (await restoreMigrationSnapshot(db)) ? "rolled-back" : "failed";
+    }
+    emit({ stage: "failed", version: currentStep?.version ?? fromVersion, description: message, processed: 0, total: 0 });
+    return report;
+  }
+}
@@ -0,0 +1,123 @@
+import type { MemoryRecord } from "../types";
+import {
+  NOTES_SESSION_ID,
+  addContentChunks,
+  addMemoryRevision,
+  addOrUpdateMemory,
+  buildStructuredSummary,
+  extractKeywordsFromText,
+  getMemoriesByIds,
+  removeMemoryChunks,
+} from "./memory-store";
+import { computeCaptureHash, toRevisionChunks } from "./revisions";
+import { isVaultLocked } from "./vault";
+
+// Notes have no page behind them; the URL only gives each one a stable identity in the memory store
+const NOTE_URL_PREFIX = "nanoscribe-note://";
+const MAX_NOTE_LENGTH = 20_000;
+const NOTE_CHUNK_CHARS = 1200;
+const KEY_POINTS_CHARS = 400;
+
+export type NoteDraft = {
+  id?: string | null;
+  title: string;
+  body: string;
+};
+
+// Paragraphs are packed into chunks of roughly page-section size so notes rank like captured sections
+function chunkNoteBody(body: string): string[] {
+  const paragraphs = body
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > NOTE_CHUNK_CHARS) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+    while (current.length > NOTE_CHUNK_CHARS) {
+      chunks.push(current.slice(0, NOTE_CHUNK_CHARS));
+      current = current.slice(NOTE_CHUNK_CHARS);
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+// Notes are already written by the user, so short chunks are their own key points
+function noteKeyPoints(chunk: string): string {
+  if (chunk.length <= KEY_POINTS_CHARS) {
+    return chunk;
+  }
+  const sentences = chunk.split(/[.!?]\s+/).filter(Boolean).slice(0, 3);
+  return sentences.length > 0 ? `- ${sentences.join("\n- ")}` : chunk.slice(0, KEY_POINTS_CHARS);
+}
+
+export function isNoteMemory(memory: Pick<MemoryRecord, "source">): boolean {
+  return memory.source === "note";
+}
+
+export function isNoteUrl(url: string): boolean {
+  return url.startsWith(NOTE_URL_PREFIX);
+}
+
+// Create a note, or replace the text of an existing one. The whole body is kept as the summary so the
+// sidepanel can show and edit it; chunks make it searchable and usable as Ask/autocomplete context.
+export async function saveNote(draft: NoteDraft): Promise<MemoryRecord> {
+  if (await isVaultLocked()) {
+    throw new Error("Unlock the memory vault to save notes.");
+  }
+
+  const title = draft.title.trim() || "Untitled note";
+  const body = draft.body.trim().slice(0, MAX_NOTE_LENGTH);
+  if (!body) {
+    throw new Error("A note needs some text.");
+  }
+
+  let url = `${NOTE_URL_PREFIX}${crypto.randomUUID()}`;
+  if (draft.id) {
+    const [existing] = await getMemoriesByIds([draft.id]);
+    if (!existing || !isNoteMemory(existing)) {
+      throw new Error("Note not found.");
+    }
+    url = existing.url;
+    await removeMemoryChunks(existing.id);
+  }
+
+  const memory = await addOrUpdateMemory({ url, title, summary: body, source: "note" });
+  const chunks = chunkNoteBody(body).map((text, index, all) => {
+    const keyPoints = noteKeyPoints(text);
+    return {
+      memoryId: memory.id,
+      sessionId: NOTES_SESSION_ID,
+      chunkTitle: all.length > 1 ? `${title} (${index + 1}/${all.length})` : title,
+      rawText: text,
+      keyPoints,
+      keywords: extractKeywordsFromText(`${title} ${text}`),
+      ordinal: index,
+      sourceTag: "manual",
+    };
+  });
+  // A note that repeats a captured page is still the user's own record, so it is never dropped as a duplicate
+  await addContentChunks(chunks, { skipNearDuplicates: false });
+
+  const structuredSummary = buildStructuredSummary(chunks, body);
+  const saved = await addOrUpdateMemory({ url, title, summary: body, structuredSummary, source: "note" });
+
+  await addMemoryRevision({
+    memoryId: saved.id,
+    capturedAt: saved.updatedAt,
+    contentHash: await computeCaptureHash(chunks.map((chunk) => chunk.rawText)),
+    summary: body,
+    structuredSummary,
+    chunks: toRevisionChunks(chunks),
+  });
+
+  return saved;
+}
@@ -0,0 +1,171 @@
+import type { AutocompleteContextEntry, RedactionCategory, RedactionCounts, RedactionSettings } from "../types";
+
+const REDACTION_SETTINGS_KEY = "redactionSettings";
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  email: true,
+  phone: true,
+  "credit-card": true,
+  iban: true,
+  "government-id": true,
+  "api-key": true,
+};
+
+const PLACEHOLDERS: Record<RedactionCategory, string> = {
+  email: "[EMAIL]",
+  phone: "[PHONE]",
+  "credit-card": "[CARD_NUMBER]",
+  iban: "[IBAN]",
+  "government-id": "[GOV_ID]",
+  "api-key": "[SECRET]",
+};
+
+type RedactionPattern = {
+  category: RedactionCategory;
+  pattern: RegExp;
+  // Optional check to drop matches that only look like the category (e.g. digit runs failing Luhn)
+  accept?: (match: string) => boolean;
+};
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, "");
+}
+
+function passesLuhn(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function passesIbanChecksum(value: string): boolean {
+  const compact = value.replace(/\s+/g, "").toUpperCase();
+  const rearranged = `${compact.slice(4)}${compact.slice(0, 4)}`;
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// Order matters: secrets and structured numbers are replaced before the looser phone pattern sees their digits
+const REDACTION_PATTERNS: RedactionPattern[] = [
+  {
+    category: "api-key",
+    pattern:
+      /\b(?:sk-[A-Za-z0-9_-]{20,}|gh[pousr]_[A-Za-z0-9]{30,}|github_pat_[A-Za-z0-9_]{30,}|AKIA[0-9A-Z]{16}|AIza[0-9A-Za-z_-]{35}|xox[abprs]-[A-Za-z0-9-]{10,}|eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})\b/g,
+  },
+  {
+    category: "api-key",
+    pattern: /\b((?:api[_-]?key|access[_-]?token|secret|client[_-]?secret|auth[_-]?token|bearer)["']?\s*[:=]?\s*["']?)([A-Za-z0-9_\-./+=]{20,})/gi,
+  },
+  {
+    category: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    category: "iban",
+    pattern: /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,4})?\b/g,
+    accept: passesIbanChecksum,
+  },
+  {
+    category: "credit-card",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: passesLuhn,
+  },
+  {
+    category: "government-id",
+    // US SSN and UK National Insurance numbers
+    pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b|\b[A-CEGHJ-PR-TW-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b/g,
+  },
+  {
+    category: "phone",
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?)?\d{2,4}[\s.-]\d{3,4}[\s.-]?\d{3,4}\b/g,
+    accept: (match) => digitsOf(match).length >= 9 && digitsOf(match).length <= 15,
+  },
+];
+
+export function normalizeRedactionSettings(raw: unknown): RedactionSettings {
+  const candidate = raw && typeof raw === "object" ? (raw as Partial<RedactionSettings>) : {};
+  const settings = { ...DEFAULT_REDACTION_SETTINGS };
+  for (const category of Object.keys(DEFAULT_REDACTION_SETTINGS) as RedactionCategory[]) {
+    if (typeof candidate[category] === "boolean") {
+      settings[category] = candidate[category] as boolean;
+    }
+  }
+  return settings;
+}
+
+export async function getRedactionSettings(): Promise<RedactionSettings> {
+  const stored = await chrome.storage.local.get(REDACTION_SETTINGS_KEY);
+  return normalizeRedactionSettings(stored[REDACTION_SETTINGS_KEY]);
+}
+
+export async function saveRedactionSettings(settings: RedactionSettings): Promise<RedactionSettings> {
+  const normalized = normalizeRedactionSettings(settings);
+  await chrome.storage.local.set({ [REDACTION_SETTINGS_KEY]: normalized });
+  return normalized;
+}
+
+// Replace enabled categories with typed placeholders and report how many of each were found
+export function redactText(text: string, settings: RedactionSettings): { text: string; counts: RedactionCounts } {
+  const counts: RedactionCounts = {};
+  let result = text;
+
+  for (const { category, pattern, accept } of REDACTION_PATTERNS) {
+    if (!settings[category]) {
+      continue;
+    }
+    result = result.replace(pattern, (match: string, prefix?: unknown) => {
+      if (accept && !accept(match)) {
+        return match;
+      }
+      counts[category] = (counts[category] ?? 0) + 1;
+      // Keyed secrets keep their "api_key=" label so the placeholder still reads naturally
+      const label = typeof prefix === "string" ? prefix : "";
+      return `${label}${PLACEHOLDERS[category]}`;
+    });
+  }
+
+  return { text: result, counts };
+}
+
+export function mergeRedactionCounts(target: RedactionCounts, source: RedactionCounts): RedactionCounts {
+  for (const [category, count] of Object.entries(source) as [RedactionCategory, number][]) {
+    target[category] = (target[category] ?? 0) + count;
+  }
+  return target;
+}
+
+export function countRedactions(counts: RedactionCounts | undefined): number {
+  return Object.values(counts ?? {}).reduce((total, count) => total + (count ?? 0), 0);
+}
+
+// Memories saved before redaction existed still hold raw text, so scrub context again before it reaches a prompt
+export function redactContextEntries(
+  entries: AutocompleteContextEntry[],
+  summary: string | null,
+  settings: RedactionSettings,
+): { entries: AutocompleteContextEntry[]; summary: string | null } {
+  return {
+    entries: entries.map((entry) => ({
+      ...entry,
+      title: redactText(entry.title, settings).text,
+      summary: redactText(entry.summary, settings).text,
+    })),
+    summary: summary ? redactText(summary, settings).text : summary,
+  };
+}
@@ -0,0 +1,140 @@
+import type { MemoryRecord, RelatedMemoriesQuery, RelatedMemory } from "../types";
+import {
+  extractKeywordsFromText,
+  getAllEntities,
+  getAllEntityEdges,
+  getChunksByKeywords,
+  getMemoriesByIds,
+  getMemoryByUrl,
+  getMemoryChunks,
+  getRecentChunksBySession,
+} from "./memory-store";
+import { isNoteMemory } from "./notes";
+
+const DEFAULT_RELATED_LIMIT = 5;
+const MAX_RELATED_LIMIT = 20;
+const MAX_QUERY_KEYWORDS = 24;
+const KEYWORD_HIT_LIMIT = 60;
+const SESSION_CHUNK_LIMIT = 40;
+const MAX_SOURCE_SESSIONS = 3;
+const KEYWORD_WEIGHT = 0.45;
+const ENTITY_WEIGHT = 0.3;
+const SESSION_WEIGHT = 0.15;
+const DOMAIN_WEIGHT = 0.1;
+// Same session and same site together clear this, either one alone does not
+const MIN_RELATED_SCORE = 0.2;
+
+type Candidate = {
+  keyword: number;
+  entityWeight: number;
+  entityIds: string[];
+  sameSession: boolean;
+};
+
+function memoryDomain(memory: Pick<MemoryRecord, "url" | "source">): string | null {
+  if (isNoteMemory(memory)) {
+    return null;
+  }
+  try {
+    return new URL(memory.url).hostname.replace(/^www\./, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+function getCandidate(candidates: Map<string, Candidate>, memoryId: string): Candidate {
+  let candidate = candidates.get(memoryId);
+  if (!candidate) {
+    candidate = { keyword: 0, entityWeight: 0, entityIds: [], sameSession: false };
+    candidates.set(memoryId, candidate);
+  }
+  return candidate;
+}
+
+// Memories most related to a stored memory or to the page open in a tab, strongest first.
+// Candidates come from keyword search, shared-entity edges and the source's sessions, then
+// are scored on all four signals so a memory found one way still gets credit for the others.
+export async function getRelatedMemories(query: RelatedMemoriesQuery, limit: number = DEFAULT_RELATED_LIMIT): Promise<{ sourceMemoryId: string | null; related: RelatedMemory[] }> {
+  const source = query.memoryId
+    ? (await getMemoriesByIds([query.memoryId]))[0]
+    : query.url
+      ? await getMemoryByUrl(query.url)
+      : undefined;
+  if (query.memoryId && !source) {
+    throw new Error("Memory not found.");
+  }
+
+  const text = source ? `${source.title} ${source.summary}` : (query.title ?? "");
+  const keywords = extractKeywordsFromText(text).slice(0, MAX_QUERY_KEYWORDS);
+  const sourceDomain = source ? memoryDomain(source) : query.url ? memoryDomain({ url: query.url }) : null;
+  const candidates = new Map<string, Candidate>();
+
+  const hits = keywords.length ? await getChunksByKeywords(keywords, KEYWORD_HIT_LIMIT, source?.title ?? query.title) : [];
+  hits.forEach((chunk, rank) => {
+    if (chunk.memoryId !== source?.id) {
+      const candidate = getCandidate(candidates, chunk.memoryId);
+      candidate.keyword += 1 - rank / hits.length;
+    }
+  });
+
+  if (source) {
+    for (const edge of await getAllEntityEdges()) {
+      if (!edge.memoryIds.includes(source.id)) {
+        continue;
+      }
+      const otherId = edge.memoryIds[0] === source.id ? edge.memoryIds[1] : edge.memoryIds[0];
+      const candidate = getCandidate(candidates, otherId);
+      candidate.entityWeight = edge.weight;
+      candidate.entityIds = edge.entityIds;
+    }
+
+    const sessionIds = Array.from(new Set((await getMemoryChunks(source.id)).map((chunk) => chunk.sessionId)));
+    for (const sessionId of sessionIds.slice(-MAX_SOURCE_SESSIONS)) {
+      for (const chunk of await getRecentChunksBySession(sessionId, SESSION_CHUNK_LIMIT)) {
+        if (chunk.memoryId !== source.id) {
+          getCandidate(candidates, chunk.memoryId).sameSession = true;
+        }
+      }
+    }
+  }
+
+  if (!candidates.size) {
+    return { sourceMemoryId: source?.id ?? null, related: [] };
+  }
+
+  const memories = await getMemoriesByIds(Array.from(candidates.keys()));
+  const maxKeyword = Math.max(...Array.from(candidates.values(), (candidate) => candidate.keyword), 0);
+  const maxEntityWeight = Math.max(...Array.from(candidates.values(), (candidate) => candidate.entityWeight), 0);
+  const entityNames = maxEntityWeight > 0 ? new Map((await getAllEntities()).map((entity) => [entity.id, entity.name])) : new Map<string, string>();
+
+  const related: RelatedMemory[] = [];
+  for (const memory of memories) {
+    const candidate = candidates.get(memory.id);
+    if (!candidate || (source !== undefined && memory.duplicateOf === source.id)) {
+      continue;
+    }
+    const sameDomain = sourceDomain !== null && memoryDomain(memory) === sourceDomain;
+    const score =
+      (maxKeyword > 0 ? (candidate.keyword / maxKeyword) * KEYWORD_WEIGHT : 0) +
+      (maxEntityWeight > 0 ? (candidate.entityWeight / maxEntityWeight) * ENTITY_WEIGHT : 0) +
+      (candidate.sameSession ? SESSION_WEIGHT : 0) +
+      (sameDomain ? DOMAIN_WEIGHT : 0);
+    if (score < MIN_RELATED_SCORE) {
+      continue;
+    }
+    related.push({
+      memory,
+      score,
+      keywordMatch: candidate.keyword > 0,
+      sharedEntities: candidate.entityIds.flatMap((entityId) => entityNames.get(entityId) || []),
+      sameSession: candidate.sameSession,
+      sameDomain,
+    });
+  }
+
+  const capped = Math.min(Math.max(Math.round(limit), 1), MAX_RELATED_LIMIT);
+  return {
+    sourceMemoryId: source?.id ?? null,
+    related: related.sort((a, b) => b.score - a.score || b.memory.updatedAt - a.memory.updatedAt).slice(0, capped),
+  };
+}
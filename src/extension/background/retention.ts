@@ -0,0 +1,195 @@
+import type {
+  RetentionDomainOverride,
+  RetentionEviction,
+  RetentionEvictionReason,
+  RetentionPolicy,
+  RetentionReport,
+} from "../types";
+import { deleteMemories, getMemoryFootprints, type MemoryFootprint } from "./memory-store";
+
+export const RETENTION_ALARM = "nanoscribe::retention-janitor";
+export const RETENTION_INTERVAL_MINUTES = 6 * 60;
+
+const RETENTION_POLICY_KEY = "retentionPolicy";
+const RETENTION_REPORT_KEY = "retentionLastReport";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Each chunk counts as a day of recency when picking the lowest-value memory to drop
+const VALUE_PER_CHUNK_MS = DAY_MS;
+
+// Every limit is off by default, so nothing is evicted until the user opts in
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  maxAgeDays: null,
+  maxMemories: null,
+  maxBytes: null,
+  domainOverrides: [],
+};
+
+function normalizeLimit(value: unknown): number | null {
+  const numeric = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(numeric) && numeric > 0 ? Math.round(numeric) : null;
+}
+
+function normalizeDomain(value: string): string {
+  return value.trim().toLowerCase().replace(/^https?:\/\//, "").replace(/^\*\./, "").replace(/\/.*$/, "");
+}
+
+export function normalizeRetentionPolicy(raw: unknown): RetentionPolicy {
+  if (!raw || typeof raw !== "object") {
+    return { ...DEFAULT_RETENTION_POLICY };
+  }
+
+  const candidate = raw as Partial<RetentionPolicy>;
+  const overrides = Array.isArray(candidate.domainOverrides) ? candidate.domainOverrides : [];
+  return {
+    maxAgeDays: normalizeLimit(candidate.maxAgeDays),
+    maxMemories: normalizeLimit(candidate.maxMemories),
+    maxBytes: normalizeLimit(candidate.maxBytes),
+    domainOverrides: overrides
+      .filter((override): override is RetentionDomainOverride => Boolean(override) && typeof override.domain === "string")
+      .map((override) => ({
+        domain: normalizeDomain(override.domain),
+        maxAgeDays: normalizeLimit(override.maxAgeDays),
+        exempt: Boolean(override.exempt),
+      }))
+      .filter((override) => override.domain.length > 0),
+  };
+}
+
+export async function getRetentionPolicy(): Promise<RetentionPolicy> {
+  const stored = await chrome.storage.local.get(RETENTION_POLICY_KEY);
+  return normalizeRetentionPolicy(stored[RETENTION_POLICY_KEY]);
+}
+
+export async function saveRetentionPolicy(policy: RetentionPolicy): Promise<RetentionPolicy> {
+  const normalized = normalizeRetentionPolicy(policy);
+  await chrome.storage.local.set({ [RETENTION_POLICY_KEY]: normalized });
+  return normalized;
+}
+
+export async function getLastRetentionReport(): Promise<RetentionReport | null> {
+  const stored = await chrome.storage.local.get(RETENTION_REPORT_KEY);
+  return (stored[RETENTION_REPORT_KEY] as RetentionReport | undefined) ?? null;
+}
+
+export function scheduleRetentionJanitor() {
+  chrome.alarms.create(RETENTION_ALARM, { periodInMinutes: RETENTION_INTERVAL_MINUTES, delayInMinutes: 5 });
+}
+
+// Most specific override wins, so "docs.example.com" beats "example.com"
+function findDomainOverride(url: string, overrides: RetentionDomainOverride[]): RetentionDomainOverride | null {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+
+  let best: RetentionDomainOverride | null = null;
+  for (const override of overrides) {
+    if (host === override.domain || host.endsWith(`.${override.domain}`)) {
+      if (!best || override.domain.length > best.domain.length) {
+        best = override;
+      }
+    }
+  }
+  return best;
+}
+
+function memoryValue(footprint: MemoryFootprint): number {
+  return footprint.memory.updatedAt + footprint.chunkCount * VALUE_PER_CHUNK_MS;
+}
+
+// Decide which memories to evict: expired ones first, then the lowest-value ones until the count and byte caps fit.
+// Pinned memories and memories on exempt domains still count toward the caps but are never selected.
+export function planRetentionEvictions(
+  footprints: MemoryFootprint[],
+  policy: RetentionPolicy,
+  now: number = Date.now()
+): RetentionEviction[] {
+  const evictions: RetentionEviction[] = [];
+  const evict = (footprint: MemoryFootprint, reason: RetentionEvictionReason) => {
+    evictions.push({
+      memoryId: footprint.memory.id,
+      title: footprint.memory.title,
+      url: footprint.memory.url,
+      reason,
+      bytes: footprint.bytes,
+      chunkCount: footprint.chunkCount,
+    });
+  };
+
+  const kept: MemoryFootprint[] = [];
+  const evictable: MemoryFootprint[] = [];
+
+  for (const footprint of footprints) {
+    const override = findDomainOverride(footprint.memory.url, policy.domainOverrides);
+    // Notes exist only in NanoScribe, so unlike captured pages they cannot be re-captured once evicted
+    const protectedMemory = Boolean(footprint.memory.pinned) || footprint.memory.source === "note" || Boolean(override?.exempt);
+    const maxAgeDays = override?.maxAgeDays ?? policy.maxAgeDays;
+
+    if (!protectedMemory && maxAgeDays !== null && now - footprint.memory.updatedAt > maxAgeDays * DAY_MS) {
+      evict(footprint, "age");
+      continue;
+    }
+
+    kept.push(footprint);
+    if (!protectedMemory) {
+      evictable.push(footprint);
+    }
+  }
+
+  evictable.sort((a, b) => memoryValue(a) - memoryValue(b));
+
+  let remainingCount = kept.length;
+  let remainingBytes = kept.reduce((total, footprint) => total + footprint.bytes, 0);
+
+  for (const footprint of evictable) {
+    const overCount = policy.maxMemories !== null && remainingCount > policy.maxMemories;
+    const overBytes = policy.maxBytes !== null && remainingBytes > policy.maxBytes;
+    if (!overCount && !overBytes) {
+      break;
+    }
+
+    evict(footprint, overCount ? "count" : "size");
+    remainingCount -= 1;
+    remainingBytes -= footprint.bytes;
+  }
+
+  return evictions;
+}
+
+// Apply the retention policy; a dry run reports what would be removed without deleting anything
+export async function runRetentionJanitor(trigger: string, options: { dryRun?: boolean } = {}): Promise<RetentionReport> {
+  const dryRun = options.dryRun ?? false;
+  const policy = await getRetentionPolicy();
+  const footprints = await getMemoryFootprints();
+  const evicted = planRetentionEvictions(footprints, policy);
+
+  if (!dryRun && evicted.length > 0) {
+    await deleteMemories(evicted.map((eviction) => eviction.memoryId));
+  }
+
+  const totalBytes = footprints.reduce((total, footprint) => total + footprint.bytes, 0);
+  const freedBytes = evicted.reduce((total, eviction) => total + eviction.bytes, 0);
+  const report: RetentionReport = {
+    ranAt: Date.now(),
+    trigger,
+    dryRun,
+    evicted,
+    freedBytes,
+    remainingMemories: footprints.length - evicted.length,
+    remainingBytes: totalBytes - freedBytes,
+  };
+
+  if (!dryRun) {
+    await chrome.storage.local.set({ [RETENTION_REPORT_KEY]: report });
+  }
+
+  console.log(
+    `[NanoScribe::Retention] 🧹 ${dryRun ? "Dry run" : "Janitor"} (${trigger}): ${evicted.length} memories ${
+      dryRun ? "would be evicted" : "evicted"
+    }, ${freedBytes} bytes freed`
+  );
+  return report;
+}
@@ -0,0 +1,157 @@
+import type {
+  ContentChunkRecord,
+  MemoryRecord,
+  MemoryRevision,
+  MemoryRevisionChunk,
+  MemoryRevisionSummary,
+  RevisionComparison,
+  RevisionDiffLine,
+} from "../types";
+import { addMemoryRevision, getMemoryChunks, getMemoryRevisions } from "./memory-store";
+import { HIGHLIGHT_SOURCE_TAG } from "./search-index";
+import { generateKeyPointSummary } from "./summarizer";
+
+// Line-level LCS is quadratic, so very long captures are compared on their first lines only
+const MAX_DIFF_LINES = 1500;
+const CHANGE_SUMMARY_MAX_CHARS = 4000;
+
+// SHA-256 over whitespace-normalized chunk text; identical captures hash the same regardless of layout jitter
+export async function computeCaptureHash(chunks: string[]): Promise<string> {
+  const normalized = chunks.map((chunk) => chunk.replace(/\s+/g, " ").trim()).join("\n");
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function toRevisionChunks(chunks: Pick<ContentChunkRecord, "ordinal" | "chunkTitle" | "rawText" | "keyPoints">[]): MemoryRevisionChunk[] {
+  return chunks.map(({ ordinal, chunkTitle, rawText, keyPoints }) => ({ ordinal, chunkTitle, rawText, keyPoints }));
+}
+
+export function summarizeRevision(revision: MemoryRevision): MemoryRevisionSummary {
+  return {
+    id: revision.id,
+    memoryId: revision.memoryId,
+    capturedAt: revision.capturedAt,
+    contentHash: revision.contentHash,
+    summary: revision.summary,
+    chunkCount: revision.chunks.length,
+  };
+}
+
+export async function getLatestRevision(memoryId: string): Promise<MemoryRevision | null> {
+  const [latest] = await getMemoryRevisions(memoryId);
+  return latest ?? null;
+}
+
+// Memories captured before revisions existed have no history; snapshot their stored state before it is replaced
+export async function ensureBaselineRevision(memory: MemoryRecord): Promise<MemoryRevision | null> {
+  const existing = await getLatestRevision(memory.id);
+  if (existing) {
+    return existing;
+  }
+
+  // Saved highlights survive re-captures, so they are not part of the page's own content
+  const chunks = (await getMemoryChunks(memory.id)).filter((chunk) => chunk.sourceTag !== HIGHLIGHT_SOURCE_TAG);
+  if (!chunks.length && !memory.summary) {
+    return null;
+  }
+  return addMemoryRevision({
+    memoryId: memory.id,
+    capturedAt: memory.updatedAt,
+    contentHash: await computeCaptureHash(chunks.map((chunk) => chunk.rawText)),
+    summary: memory.summary,
+    structuredSummary: memory.structuredSummary,
+    chunks: toRevisionChunks(chunks),
+  });
+}
+
+function revisionLines(revision: MemoryRevision | null): string[] {
+  if (!revision) {
+    return [];
+  }
+  return revision.chunks
+    .slice()
+    .sort((a, b) => a.ordinal - b.ordinal)
+    .flatMap((chunk) => chunk.rawText.split(/(?<=[.!?])\s+|\n+/))
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .slice(0, MAX_DIFF_LINES);
+}
+
+export function diffLines(before: string[], after: string[]): RevisionDiffLine[] {
+  const rows = before.length + 1;
+  const columns = after.length + 1;
+  const lengths = new Uint16Array(rows * columns);
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      lengths[i * columns + j] =
+        before[i] === after[j]
+          ? lengths[(i + 1) * columns + j + 1] + 1
+          : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+    }
+  }
+
+  const lines: RevisionDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ kind: "same", text: before[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+      lines.push({ kind: "removed", text: before[i] });
+      i += 1;
+    } else {
+      lines.push({ kind: "added", text: after[j] });
+      j += 1;
+    }
+  }
+  while (i < before.length) lines.push({ kind: "removed", text: before[i++] });
+  while (j < after.length) lines.push({ kind: "added", text: after[j++] });
+  return lines;
+}
+
+// "What changed": summarize the added lines, falling back to listing the first few when the summarizer is unavailable
+async function describeChanges(lines: RevisionDiffLine[]): Promise<string | null> {
+  const added = lines.filter((line) => line.kind === "added").map((line) => line.text);
+  const removed = lines.filter((line) => line.kind === "removed").length;
+  if (!added.length) {
+    return removed > 0 ? `${removed} ${removed === 1 ? "passage was" : "passages were"} removed; nothing new was added.` : null;
+  }
+
+  try {
+    const summary = await generateKeyPointSummary(added.join("\n").slice(0, CHANGE_SUMMARY_MAX_CHARS));
+    if (summary) {
+      return summary;
+    }
+  } catch (error) {
+    console.debug("[NanoScribe::Revisions] Change summary generation failed, using fallback", error);
+  }
+  return `- ${added.slice(0, 3).join("\n- ")}`;
+}
+
+// Compare two captures of a memory; without explicit ids, the latest capture is compared with the one before it
+export async function compareRevisions(memoryId: string, fromId?: string | null, toId?: string | null): Promise<RevisionComparison> {
+  const revisions = await getMemoryRevisions(memoryId);
+  if (!revisions.length) {
+    throw new Error("This memory has no revision history yet.");
+  }
+
+  const to = (toId ? revisions.find((revision) => revision.id === toId) : revisions[0]) ?? null;
+  if (!to) {
+    throw new Error("Revision not found.");
+  }
+  const from = fromId
+    ? (revisions.find((revision) => revision.id === fromId) ?? null)
+    : (revisions.find((revision) => revision.capturedAt < to.capturedAt) ?? null);
+
+  const lines = diffLines(revisionLines(from), revisionLines(to));
+  return {
+    fromId: from?.id ?? null,
+    toId: to.id,
+    lines,
+    added: lines.filter((line) => line.kind === "added").length,
+    removed: lines.filter((line) => line.kind === "removed").length,
+    changeSummary: from ? await describeChanges(lines) : null,
+  };
+}
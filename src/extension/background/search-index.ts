@@ -0,0 +1,168 @@
+import type { ContentChunkRecord, ScoredChunk } from "../types";
+
+// Okapi BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Share of the blended score taken from BM25; the rest comes from vector cosine similarity
+const HYBRID_KEYWORD_WEIGHT = 0.6;
+
+// Passages the user saved by hand outrank automatically captured sections with a similar match
+export const HIGHLIGHT_SOURCE_TAG = "highlight";
+const HIGHLIGHT_SCORE_BOOST = 1.5;
+
+const INDEX_STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "has",
+  "have",
+  "in",
+  "is",
+  "it",
+  "its",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "was",
+  "were",
+  "will",
+  "with",
+]);
+
+export type ChunkTermPosting = {
+  term: string;
+  chunkId: string;
+  frequency: number;
+};
+
+export type ChunkDocumentStats = {
+  chunkId: string;
+  memoryId: string;
+  length: number;
+};
+
+export type SearchCorpusStats = {
+  key: string;
+  documentCount: number;
+  totalLength: number;
+};
+
+export type ScoredChunkId = {
+  chunkId: string;
+  score: number;
+};
+
+// Strip common English suffixes so "tokens"/"token" and "indexing"/"index" share a posting list
+function normalizeTerm(term: string): string {
+  if (term.length > 5 && term.endsWith("ing")) {
+    return term.slice(0, -3);
+  }
+  if (term.length > 4 && term.endsWith("ies")) {
+    return `${term.slice(0, -3)}y`;
+  }
+  if (term.length > 3 && term.endsWith("s") && !term.endsWith("ss")) {
+    return term.slice(0, -1);
+  }
+  return term;
+}
+
+export function tokenizeForIndex(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !INDEX_STOP_WORDS.has(token))
+    .map(normalizeTerm);
+}
+
+// A highlight's note is indexed with the passage so notes can be searched
+export function buildChunkIndexText(chunk: Pick<ContentChunkRecord, "chunkTitle" | "keyPoints" | "rawText" | "highlight">): string {
+  return `${chunk.chunkTitle ?? ""} ${chunk.keyPoints ?? ""} ${chunk.rawText ?? ""} ${chunk.highlight?.note ?? ""}`;
+}
+
+export function computeTermFrequencies(tokens: string[]): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  for (const token of tokens) {
+    frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+  }
+  return frequencies;
+}
+
+export function buildQueryTerms(queryKeywords: string[], fallbackQuery?: string): string[] {
+  const terms = [...queryKeywords.flatMap((keyword) => tokenizeForIndex(keyword)), ...tokenizeForIndex(fallbackQuery ?? "")];
+  return Array.from(new Set(terms));
+}
+
+export function scoreBm25(
+  postingsByTerm: Map<string, ChunkTermPosting[]>,
+  documentLengths: Map<string, number>,
+  corpus: Pick<SearchCorpusStats, "documentCount" | "totalLength">
+): ScoredChunkId[] {
+  const documentCount = Math.max(corpus.documentCount, 1);
+  const averageLength = corpus.totalLength > 0 ? corpus.totalLength / documentCount : 1;
+  const scores = new Map<string, number>();
+
+  for (const postings of postingsByTerm.values()) {
+    if (!postings.length) {
+      continue;
+    }
+
+    const documentFrequency = postings.length;
+    const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+    for (const posting of postings) {
+      const length = documentLengths.get(posting.chunkId) ?? averageLength;
+      const normalization = BM25_K1 * (1 - BM25_B + BM25_B * (length / averageLength));
+      const termScore = idf * ((posting.frequency * (BM25_K1 + 1)) / (posting.frequency + normalization));
+      scores.set(posting.chunkId, (scores.get(posting.chunkId) ?? 0) + termScore);
+    }
+  }
+
+  return Array.from(scores.entries())
+    .map(([chunkId, score]) => ({ chunkId, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Merge keyword and vector hits into a single ranking; BM25 scores are normalized against the best hit
+export function blendRankings(keywordHits: ScoredChunk[], vectorHits: ScoredChunk[], limit: number): ScoredChunk[] {
+  const maxKeywordScore = keywordHits.reduce((max, hit) => Math.max(max, hit.score), 0);
+  const blended = new Map<string, ScoredChunk>();
+
+  for (const hit of keywordHits) {
+    const normalized = maxKeywordScore > 0 ? hit.score / maxKeywordScore : 0;
+    blended.set(hit.chunk.id, { chunk: hit.chunk, score: HYBRID_KEYWORD_WEIGHT * normalized });
+  }
+
+  for (const hit of vectorHits) {
+    const vectorScore = (1 - HYBRID_KEYWORD_WEIGHT) * Math.max(0, hit.score);
+    const existing = blended.get(hit.chunk.id);
+    if (existing) {
+      existing.score += vectorScore;
+    } else {
+      blended.set(hit.chunk.id, { chunk: hit.chunk, score: vectorScore });
+    }
+  }
+
+  return boostHighlights(Array.from(blended.values())).slice(0, limit);
+}
+
+export function boostHighlights(hits: ScoredChunk[]): ScoredChunk[] {
+  return hits
+    .map((hit) => (hit.chunk.sourceTag === HIGHLIGHT_SOURCE_TAG ? { ...hit, score: hit.score * HIGHLIGHT_SCORE_BOOST } : hit))
+    .sort((a, b) => b.score - a.score);
+}
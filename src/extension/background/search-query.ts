@@ -0,0 +1,263 @@
+import type { ContentChunkRecord, MemoryRecord } from "../types";
+import { tokenizeSearchQuery } from "../search-query";
+import { getAllChunks, getAllMemories, getChunkIdsForMemories } from "./memory-store";
+import { hasAllTags, normalizeTag, normalizeTags, parseTagFilters } from "./tags";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELATIVE_DATE_PATTERN = /^(\d+)([dwmy])$/;
+const CALENDAR_DATE_PATTERN = /^(\d{4})(?:[-/](\d{1,2})(?:[-/](\d{1,2}))?)?$/;
+// Upper bound on chunks scanned when filters are applied without a ranked text search
+const SEARCH_FILTER_CHUNK_LIMIT = 20_000;
+
+type FieldFilters = {
+  sites: string[];
+  sessions: string[];
+  sources: string[];
+  tags: string[];
+};
+
+export type SearchQuery = {
+  text: string; // Words and phrases left for ranking, without quotes or excluded terms
+  phrases: string[]; // Lowercased; every one must appear verbatim
+  excludedTerms: string[]; // Lowercased words and phrases that must not appear
+  include: FieldFilters;
+  exclude: FieldFilters;
+  after: number | null; // Inclusive, start of the local day
+  before: number | null; // Exclusive, start of the local day
+};
+
+function startOfLocalDay(date: Date): number {
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+// Dates are YYYY, YYYY-MM, YYYY-MM-DD, today, yesterday, or a span back from today such as 7d, 2w, 3m or 1y
+function parseDateFilter(field: string, value: string): number {
+  const lowered = value.toLowerCase();
+  const today = new Date();
+  if (lowered === "today") {
+    return startOfLocalDay(today);
+  }
+  if (lowered === "yesterday") {
+    return startOfLocalDay(today) - DAY_MS;
+  }
+
+  const relative = RELATIVE_DATE_PATTERN.exec(lowered);
+  if (relative) {
+    const amount = Number(relative[1]);
+    const unit = relative[2];
+    if (unit === "d" || unit === "w") {
+      today.setDate(today.getDate() - amount * (unit === "w" ? 7 : 1));
+    } else if (unit === "m") {
+      today.setMonth(today.getMonth() - amount);
+    } else {
+      today.setFullYear(today.getFullYear() - amount);
+    }
+    return startOfLocalDay(today);
+  }
+
+  const calendar = CALENDAR_DATE_PATTERN.exec(lowered);
+  if (calendar) {
+    const [, year, month = "1", day = "1"] = calendar;
+    const date = new Date(Number(year), Number(month) - 1, Number(day));
+    if (!Number.isNaN(date.getTime())) {
+      return startOfLocalDay(date);
+    }
+  }
+
+  throw new Error(`Unrecognized date in ${field}:${value}. Use YYYY-MM-DD, YYYY-MM, today, yesterday or a span like 7d.`);
+}
+
+function normalizeSite(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/[/?#].*$/, "");
+}
+
+function emptyFilters(): FieldFilters {
+  return { sites: [], sessions: [], sources: [], tags: [] };
+}
+
+// Positive `tag:` filters go through parseTagFilters as before; everything else is read from the remaining tokens
+export function parseSearchQuery(raw: string): SearchQuery {
+  const { text: remaining, tags } = parseTagFilters(raw.trim());
+  const search: SearchQuery = {
+    text: "",
+    phrases: [],
+    excludedTerms: [],
+    include: { ...emptyFilters(), tags },
+    exclude: emptyFilters(),
+    after: null,
+    before: null,
+  };
+  const textParts: string[] = [];
+
+  for (const token of tokenizeSearchQuery(remaining)) {
+    if (token.kind !== "filter") {
+      if (token.negated) {
+        search.excludedTerms.push(token.value.toLowerCase());
+        continue;
+      }
+      if (token.kind === "phrase") {
+        search.phrases.push(token.value.toLowerCase());
+      }
+      textParts.push(token.value);
+      continue;
+    }
+
+    const target = token.negated ? search.exclude : search.include;
+    switch (token.field) {
+      case "site":
+        target.sites.push(normalizeSite(token.value));
+        break;
+      case "session":
+        target.sessions.push(token.value.toLowerCase());
+        break;
+      case "source":
+        target.sources.push(token.value.toLowerCase());
+        break;
+      case "tag":
+        target.tags.push(normalizeTag(token.value));
+        break;
+      // Negated dates read as their opposite: -before:X is after:X
+      case "before":
+      case "after": {
+        const isBefore = (token.field === "before") !== token.negated;
+        const timestamp = parseDateFilter(token.field, token.value);
+        if (isBefore) {
+          search.before = search.before === null ? timestamp : Math.min(search.before, timestamp);
+        } else {
+          search.after = search.after === null ? timestamp : Math.max(search.after, timestamp);
+        }
+        break;
+      }
+    }
+  }
+
+  search.exclude.tags = normalizeTags(search.exclude.tags);
+  search.text = textParts.join(" ").trim();
+  return search;
+}
+
+function hasMemoryFilters(search: SearchQuery): boolean {
+  return [search.include, search.exclude].some((filters) => filters.sites.length > 0 || filters.tags.length > 0);
+}
+
+// Filters that need a memory's chunks rather than just the memory record
+export function hasChunkFilters(search: SearchQuery): boolean {
+  return (
+    [search.include, search.exclude].some((filters) => filters.sessions.length > 0 || filters.sources.length > 0) ||
+    search.after !== null ||
+    search.before !== null ||
+    search.phrases.length > 0 ||
+    search.excludedTerms.length > 0
+  );
+}
+
+export function hasSearchFilters(search: SearchQuery): boolean {
+  return hasMemoryFilters(search) || hasChunkFilters(search);
+}
+
+function siteMatches(memory: MemoryRecord, site: string): boolean {
+  try {
+    const host = new URL(memory.url).hostname.replace(/^www\./, "");
+    return host === site || host.endsWith(`.${site}`);
+  } catch {
+    return false;
+  }
+}
+
+// Session filters match an id prefix or part of the session's title
+function sessionMatches(sessionId: string, value: string, sessionTitles: Record<string, string>): boolean {
+  return sessionId.toLowerCase().startsWith(value) || (sessionTitles[sessionId]?.toLowerCase().includes(value) ?? false);
+}
+
+export function matchesMemoryFilters(memory: MemoryRecord, search: SearchQuery): boolean {
+  const { include, exclude } = search;
+  return (
+    hasAllTags(memory.tags, include.tags) &&
+    !exclude.tags.some((tag) => memory.tags?.includes(tag)) &&
+    (include.sites.length === 0 || include.sites.some((site) => siteMatches(memory, site))) &&
+    !exclude.sites.some((site) => siteMatches(memory, site))
+  );
+}
+
+// Phrases and excluded terms are checked against the memory title and the chunk's text; sealed text never matches
+export function matchesChunkFilters(
+  chunk: ContentChunkRecord,
+  memory: MemoryRecord,
+  search: SearchQuery,
+  sessionTitles: Record<string, string>
+): boolean {
+  const { include, exclude } = search;
+  const source = chunk.sourceTag?.toLowerCase() ?? "";
+  if (
+    (include.sessions.length > 0 && !include.sessions.some((value) => sessionMatches(chunk.sessionId, value, sessionTitles))) ||
+    exclude.sessions.some((value) => sessionMatches(chunk.sessionId, value, sessionTitles)) ||
+    (include.sources.length > 0 && !include.sources.includes(source)) ||
+    exclude.sources.includes(source) ||
+    (search.after !== null && chunk.createdAt < search.after) ||
+    (search.before !== null && chunk.createdAt >= search.before)
+  ) {
+    return false;
+  }
+
+  if (search.phrases.length === 0 && search.excludedTerms.length === 0) {
+    return true;
+  }
+  const haystack = `${memory.title}\n${chunk.chunkTitle ?? ""}\n${chunk.keyPoints}\n${chunk.rawText}`.toLowerCase();
+  return search.phrases.every((phrase) => haystack.includes(phrase)) && !search.excludedTerms.some((term) => haystack.includes(term));
+}
+
+export function getSearchableChunks(): Promise<ContentChunkRecord[]> {
+  return getAllChunks(SEARCH_FILTER_CHUNK_LIMIT);
+}
+
+// Memories passing every filter, for listings with no ranked text search; one matching chunk is enough
+export async function filterMemoriesBySearch(
+  memories: MemoryRecord[],
+  search: SearchQuery,
+  loadChunks: () => Promise<ContentChunkRecord[]> = getSearchableChunks
+): Promise<MemoryRecord[]> {
+  const candidates = memories.filter((memory) => matchesMemoryFilters(memory, search));
+  if (!hasChunkFilters(search) || candidates.length === 0) {
+    return candidates;
+  }
+
+  const { sessionTitles = {} } = await chrome.storage.local.get({ sessionTitles: {} as Record<string, string> });
+  const candidateById = new Map(candidates.map((memory) => [memory.id, memory]));
+  const matchingIds = new Set(
+    (await loadChunks())
+      .filter((chunk) => {
+        const memory = candidateById.get(chunk.memoryId);
+        return memory !== undefined && matchesChunkFilters(chunk, memory, search, sessionTitles);
+      })
+      .map((chunk) => chunk.memoryId)
+  );
+  return candidates.filter((memory) => matchingIds.has(memory.id));
+}
+
+// The chunks a ranked search may return, resolved from the filters before any ranking; null when nothing is filtered
+export async function getSearchScope(search: SearchQuery): Promise<Set<string> | null> {
+  if (!hasSearchFilters(search)) {
+    return null;
+  }
+
+  const memories = (await getAllMemories()).filter((memory) => matchesMemoryFilters(memory, search));
+  if (!hasChunkFilters(search) || memories.length === 0) {
+    return new Set(await getChunkIdsForMemories(memories.map((memory) => memory.id)));
+  }
+
+  const { sessionTitles = {} } = await chrome.storage.local.get({ sessionTitles: {} as Record<string, string> });
+  const memoryById = new Map(memories.map((memory) => [memory.id, memory]));
+  return new Set(
+    (await getSearchableChunks())
+      .filter((chunk) => {
+        const memory = memoryById.get(chunk.memoryId);
+        return memory !== undefined && matchesChunkFilters(chunk, memory, search, sessionTitles);
+      })
+      .map((chunk) => chunk.id)
+  );
+}
@@ -0,0 +1,77 @@
+import type { SensitivePageReason, SensitivePageSettings, SensitivePageSkip } from "../types";
+
+const SENSITIVE_SETTINGS_KEY = "sensitivePageDetection";
+const SENSITIVE_SKIPS_KEY = "sensitivePageSkips";
+const MAX_RECORDED_SKIPS = 50;
+
+type StoredDetectionSettings = {
+  enabled: boolean;
+  allowedHosts: string[];
+};
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+async function loadDetectionSettings(): Promise<StoredDetectionSettings> {
+  const stored = await chrome.storage.local.get(SENSITIVE_SETTINGS_KEY);
+  const raw = stored[SENSITIVE_SETTINGS_KEY] as Partial<StoredDetectionSettings> | undefined;
+  return {
+    enabled: raw?.enabled ?? true,
+    allowedHosts: Array.isArray(raw?.allowedHosts) ? raw.allowedHosts.filter((host) => typeof host === "string") : [],
+  };
+}
+
+export async function getSensitivePageSettings(): Promise<SensitivePageSettings> {
+  const settings = await loadDetectionSettings();
+  const stored = await chrome.storage.local.get(SENSITIVE_SKIPS_KEY);
+  const skips = (stored[SENSITIVE_SKIPS_KEY] as SensitivePageSkip[] | undefined) ?? [];
+  return { ...settings, skips };
+}
+
+// Detection runs unless it is switched off or the user allowed this host
+export async function shouldCheckSensitivePage(url: string): Promise<boolean> {
+  const settings = await loadDetectionSettings();
+  return settings.enabled && !settings.allowedHosts.includes(hostOf(url));
+}
+
+// Keep the most recent skip per URL so the settings list shows each page once
+export async function recordSensitiveSkip(url: string, title: string, reasons: SensitivePageReason[]): Promise<void> {
+  const stored = await chrome.storage.local.get(SENSITIVE_SKIPS_KEY);
+  const skips = ((stored[SENSITIVE_SKIPS_KEY] as SensitivePageSkip[] | undefined) ?? []).filter((skip) => skip.url !== url);
+  skips.unshift({ url, host: hostOf(url), title, reasons, skippedAt: Date.now() });
+  await chrome.storage.local.set({ [SENSITIVE_SKIPS_KEY]: skips.slice(0, MAX_RECORDED_SKIPS) });
+}
+
+export async function setSensitiveDetectionEnabled(enabled: boolean): Promise<SensitivePageSettings> {
+  const settings = await loadDetectionSettings();
+  await chrome.storage.local.set({ [SENSITIVE_SETTINGS_KEY]: { ...settings, enabled } });
+  return getSensitivePageSettings();
+}
+
+// Allowing a host also drops its recorded skips, since they no longer apply
+export async function setSensitiveHostAllowed(host: string, allowed: boolean): Promise<SensitivePageSettings> {
+  const normalized = host.trim().toLowerCase();
+  const settings = await loadDetectionSettings();
+  const allowedHosts = settings.allowedHosts.filter((entry) => entry !== normalized);
+  if (allowed && normalized) {
+    allowedHosts.push(normalized);
+  }
+  await chrome.storage.local.set({ [SENSITIVE_SETTINGS_KEY]: { ...settings, allowedHosts } });
+
+  if (allowed) {
+    const stored = await chrome.storage.local.get(SENSITIVE_SKIPS_KEY);
+    const skips = ((stored[SENSITIVE_SKIPS_KEY] as SensitivePageSkip[] | undefined) ?? []).filter((skip) => skip.host !== normalized);
+    await chrome.storage.local.set({ [SENSITIVE_SKIPS_KEY]: skips });
+  }
+  return getSensitivePageSettings();
+}
+
+export async function clearSensitiveSkips(): Promise<SensitivePageSettings> {
+  await chrome.storage.local.set({ [SENSITIVE_SKIPS_KEY]: [] });
+  return getSensitivePageSettings();
+}
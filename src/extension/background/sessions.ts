@@ -0,0 +1,353 @@
+import type { ActiveSession, SessionEditResult, SessionEditUndo, SessionSettings, SessionStartReason } from "../types";
+import { NOTES_SESSION_ID, extractKeywordsFromText, getRecentChunksBySession, reassignChunkSessions } from "./memory-store";
+
+const SESSION_SETTINGS_KEY = "sessionSettings";
+const ACTIVE_SESSIONS_KEY = "activeSessions";
+const SESSION_TITLES_KEY = "sessionTitles";
+const GLOBAL_SCOPE = "global";
+const MINUTE_MS = 60 * 1000;
+const MAX_IDLE_GAP_MINUTES = 24 * 60;
+
+// Topic changes are judged by how many of the new page's most frequent keywords the session's recent chunks share
+const TOPIC_HISTORY_CHUNKS = 10;
+const MIN_TOPIC_HISTORY_CHUNKS = 3;
+const TOPIC_SAMPLE_CHARS = 4000;
+const TOPIC_KEYWORDS = 30;
+
+// Groups the sidepanel builds itself; their chunks are not moved by merge, split or move
+const FIXED_SESSION_IDS = new Set(["no-session", "search-results", NOTES_SESSION_ID]);
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  idleGapMinutes: 30,
+  splitOnTopicChange: true,
+  topicSimilarityThreshold: 0.15,
+  perWindow: false,
+};
+
+// Active session per scope: "global", or "window:<id>" while sessions are kept per window
+type ActiveSessions = Record<string, ActiveSession>;
+
+export type CaptureSessionContext = {
+  windowId?: number | null;
+  text?: string; // Title and opening text of the capture, used for topic detection
+};
+
+export function normalizeSessionSettings(raw: unknown): SessionSettings {
+  if (!raw || typeof raw !== "object") {
+    return { ...DEFAULT_SESSION_SETTINGS };
+  }
+
+  const candidate = raw as Partial<SessionSettings>;
+  const idleGap = Number(candidate.idleGapMinutes);
+  const threshold = Number(candidate.topicSimilarityThreshold);
+  return {
+    idleGapMinutes: Number.isFinite(idleGap) && idleGap >= 1 ? Math.min(Math.round(idleGap), MAX_IDLE_GAP_MINUTES) : DEFAULT_SESSION_SETTINGS.idleGapMinutes,
+    splitOnTopicChange: typeof candidate.splitOnTopicChange === "boolean" ? candidate.splitOnTopicChange : DEFAULT_SESSION_SETTINGS.splitOnTopicChange,
+    topicSimilarityThreshold:
+      Number.isFinite(threshold) && threshold >= 0 && threshold <= 1 ? threshold : DEFAULT_SESSION_SETTINGS.topicSimilarityThreshold,
+    perWindow: Boolean(candidate.perWindow),
+  };
+}
+
+export async function getSessionSettings(): Promise<SessionSettings> {
+  const stored = await chrome.storage.local.get(SESSION_SETTINGS_KEY);
+  return normalizeSessionSettings(stored[SESSION_SETTINGS_KEY]);
+}
+
+export async function saveSessionSettings(settings: SessionSettings): Promise<SessionSettings> {
+  const normalized = normalizeSessionSettings(settings);
+  await chrome.storage.local.set({ [SESSION_SETTINGS_KEY]: normalized });
+  return normalized;
+}
+
+function scopeFor(settings: SessionSettings, windowId?: number | null): string {
+  return settings.perWindow && typeof windowId === "number" && windowId >= 0 ? `window:${windowId}` : GLOBAL_SCOPE;
+}
+
+async function readActiveSessions(): Promise<ActiveSessions> {
+  const stored = await chrome.storage.local.get([ACTIVE_SESSIONS_KEY, "currentSessionId", "sessionLastActiveTimestamp"]);
+  const sessions: ActiveSessions = { ...((stored[ACTIVE_SESSIONS_KEY] as ActiveSessions | undefined) ?? {}) };
+
+  // Installs from before segmentation only have the single current session
+  if (!sessions[GLOBAL_SCOPE] && typeof stored.currentSessionId === "string") {
+    const lastActiveAt = Number(stored.sessionLastActiveTimestamp) || 0;
+    sessions[GLOBAL_SCOPE] = { sessionId: stored.currentSessionId, startedAt: lastActiveAt, lastActiveAt, reason: "first", windowId: null };
+  }
+  return sessions;
+}
+
+// currentSessionId always names the session of the latest activity, since autocomplete reads its recent chunks
+async function writeActiveSessions(sessions: ActiveSessions, current: ActiveSession) {
+  await chrome.storage.local.set({
+    [ACTIVE_SESSIONS_KEY]: sessions,
+    currentSessionId: current.sessionId,
+    sessionLastActiveTimestamp: current.lastActiveAt,
+  });
+}
+
+// Captures finish concurrently, so session decisions run one at a time to avoid opening two sessions at once
+let sessionQueue: Promise<unknown> = Promise.resolve();
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const run = sessionQueue.then(task, task);
+  sessionQueue = run.catch(() => undefined);
+  return run;
+}
+
+function topKeywords(text: string): string[] {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().split(/[\s\n\W]+/)) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return extractKeywordsFromText(text)
+    .filter((keyword) => !/^\d+$/.test(keyword))
+    .sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0))
+    .slice(0, TOPIC_KEYWORDS);
+}
+
+// Share of the capture's top keywords found in the session's recent chunks; null when there is too little to compare
+async function measureTopicSimilarity(sessionId: string, text: string): Promise<number | null> {
+  const recent = await getRecentChunksBySession(sessionId, TOPIC_HISTORY_CHUNKS);
+  if (recent.length < MIN_TOPIC_HISTORY_CHUNKS) {
+    return null;
+  }
+
+  const sessionKeywords = new Set(recent.flatMap((chunk) => chunk.keywords ?? []));
+  const captureKeywords = topKeywords(text.slice(0, TOPIC_SAMPLE_CHARS));
+  if (sessionKeywords.size === 0 || captureKeywords.length === 0) {
+    return null;
+  }
+  return captureKeywords.filter((keyword) => sessionKeywords.has(keyword)).length / captureKeywords.length;
+}
+
+function openSession(reason: SessionStartReason, scope: string, windowId?: number | null): ActiveSession {
+  const now = Date.now();
+  return {
+    sessionId: crypto.randomUUID(),
+    startedAt: now,
+    lastActiveAt: now,
+    reason,
+    windowId: scope === GLOBAL_SCOPE ? null : (windowId ?? null),
+  };
+}
+
+// The session a new capture belongs to, starting a new one after an idle gap, a topic change or in a new window
+export function resolveCaptureSession(context: CaptureSessionContext = {}): Promise<string> {
+  return serialize(async () => {
+    const settings = await getSessionSettings();
+    const sessions = await readActiveSessions();
+    const scope = scopeFor(settings, context.windowId);
+    const current = sessions[scope];
+
+    let reason: SessionStartReason | null = null;
+    if (!current) {
+      reason = scope === GLOBAL_SCOPE ? "first" : "window";
+    } else if (Date.now() - current.lastActiveAt > settings.idleGapMinutes * MINUTE_MS) {
+      reason = "idle";
+    } else if (settings.splitOnTopicChange && context.text) {
+      const similarity = await measureTopicSimilarity(current.sessionId, context.text).catch((error) => {
+        console.debug("[NanoScribe::Sessions] Topic comparison failed", error);
+        return null;
+      });
+      if (similarity !== null && similarity < settings.topicSimilarityThreshold) {
+        console.log(`[NanoScribe::Sessions] Topic changed (similarity ${similarity.toFixed(2)})`);
+        reason = "topic";
+      }
+    }
+
+    const active = reason ? openSession(reason, scope, context.windowId) : { ...current!, lastActiveAt: Date.now() };
+    sessions[scope] = active;
+    await writeActiveSessions(sessions, active);
+    if (reason) {
+      console.log(`[NanoScribe::Sessions] 🔄 Started session ${active.sessionId} (${reason})`);
+    }
+    return active.sessionId;
+  });
+}
+
+// Manually close the current session so the next capture in this window (or anywhere) starts fresh
+export function startNewSession(windowId?: number | null): Promise<ActiveSession> {
+  return serialize(async () => {
+    const settings = await getSessionSettings();
+    const sessions = await readActiveSessions();
+    const scope = scopeFor(settings, windowId);
+    const active = openSession("manual", scope, windowId);
+    sessions[scope] = active;
+    await writeActiveSessions(sessions, active);
+    console.log(`[NanoScribe::Sessions] 🔄 Started session ${active.sessionId} (manual)`);
+    return active;
+  });
+}
+
+export async function getActiveSession(windowId?: number | null): Promise<ActiveSession | null> {
+  const [settings, sessions] = await Promise.all([getSessionSettings(), readActiveSessions()]);
+  return sessions[scopeFor(settings, windowId)] ?? null;
+}
+
+// With per-window sessions, focusing a window makes its session the current one for autocomplete
+export function activateWindowSession(windowId: number): Promise<void> {
+  return serialize(async () => {
+    const settings = await getSessionSettings();
+    if (!settings.perWindow) {
+      return;
+    }
+    const sessions = await readActiveSessions();
+    const active = sessions[scopeFor(settings, windowId)];
+    if (active) {
+      await writeActiveSessions(sessions, active);
+    }
+  });
+}
+
+export function forgetWindowSession(windowId: number): Promise<void> {
+  return serialize(async () => {
+    const sessions = await readActiveSessions();
+    const scope = `window:${windowId}`;
+    if (!sessions[scope]) {
+      return;
+    }
+    delete sessions[scope];
+    await chrome.storage.local.set({ [ACTIVE_SESSIONS_KEY]: sessions });
+  });
+}
+
+function assertEditableSession(sessionId: string) {
+  if (!sessionId || FIXED_SESSION_IDS.has(sessionId)) {
+    throw new Error("That group is not a browsing session and can't be edited.");
+  }
+}
+
+// Apply title changes (null removes a title) and return the titles they replaced
+async function updateSessionTitles(
+  changes: Record<string, string | null>,
+): Promise<{ titles: Record<string, string>; previous: Record<string, string | null> }> {
+  const stored = await chrome.storage.local.get({ [SESSION_TITLES_KEY]: {} as Record<string, string> });
+  const titles: Record<string, string> = { ...(stored[SESSION_TITLES_KEY] ?? {}) };
+  const previous: Record<string, string | null> = {};
+  for (const [sessionId, title] of Object.entries(changes)) {
+    previous[sessionId] = titles[sessionId] ?? null;
+    if (title) {
+      titles[sessionId] = title;
+    } else {
+      delete titles[sessionId];
+    }
+  }
+  if (Object.keys(changes).length > 0) {
+    await chrome.storage.local.set({ [SESSION_TITLES_KEY]: titles });
+  }
+  return { titles, previous };
+}
+
+type ActiveSessionMoves = SessionEditUndo["activeSessions"];
+
+// Point capture scopes at other sessions; returns what moved so an undo can point them back
+function moveActiveSessions(pick: (scope: string, active: ActiveSession) => string | null): Promise<ActiveSessionMoves> {
+  return serialize(async () => {
+    const sessions = await readActiveSessions();
+    const { currentSessionId } = await chrome.storage.local.get("currentSessionId");
+    const moves: ActiveSessionMoves = {};
+    let current: ActiveSession | null = null;
+    for (const [scope, active] of Object.entries(sessions)) {
+      const next = pick(scope, active);
+      if (!next || next === active.sessionId) {
+        continue;
+      }
+      moves[scope] = { from: active.sessionId, to: next };
+      sessions[scope] = { ...active, sessionId: next };
+      current = currentSessionId === active.sessionId ? sessions[scope] : current;
+    }
+    if (Object.keys(moves).length === 0) {
+      return moves;
+    }
+    if (current) {
+      await writeActiveSessions(sessions, current);
+    } else {
+      await chrome.storage.local.set({ [ACTIVE_SESSIONS_KEY]: sessions });
+    }
+    return moves;
+  });
+}
+
+// Captures still headed for a session that was merged away or split off continue in its replacement
+function repointActiveSessions(fromSessionId: string, toSessionId: string): Promise<ActiveSessionMoves> {
+  return moveActiveSessions((_scope, active) => (active.sessionId === fromSessionId ? toSessionId : null));
+}
+
+async function finishSessionEdit(
+  description: string,
+  chunkSessions: Record<string, string>,
+  titleChanges: Record<string, string | null>,
+  activeSessions: ActiveSessionMoves = {},
+): Promise<SessionEditResult> {
+  const { titles, previous } = await updateSessionTitles(titleChanges);
+  const movedChunks = Object.keys(chunkSessions).length;
+  console.log(`[NanoScribe::Sessions] ✂️ ${description} (${movedChunks} chunks)`);
+  return { description, movedChunks, sessionTitles: titles, undo: { chunkSessions, titles: previous, activeSessions } };
+}
+
+// Fold every chunk of the source session into the target; the target keeps its title, or takes the source's
+export async function mergeSessions(sourceSessionId: string, targetSessionId: string): Promise<SessionEditResult> {
+  assertEditableSession(sourceSessionId);
+  assertEditableSession(targetSessionId);
+  if (sourceSessionId === targetSessionId) {
+    throw new Error("Pick two different sessions to merge.");
+  }
+
+  const chunkSessions = await reassignChunkSessions((chunk) => (chunk.sessionId === sourceSessionId ? targetSessionId : null));
+  const activeSessions = await repointActiveSessions(sourceSessionId, targetSessionId);
+
+  const stored = await chrome.storage.local.get({ [SESSION_TITLES_KEY]: {} as Record<string, string> });
+  const titles: Record<string, string> = stored[SESSION_TITLES_KEY] ?? {};
+  const titleChanges: Record<string, string | null> = { [sourceSessionId]: null };
+  if (!titles[targetSessionId] && titles[sourceSessionId]) {
+    titleChanges[targetSessionId] = titles[sourceSessionId];
+  }
+  return finishSessionEdit("Merged sessions", chunkSessions, titleChanges, activeSessions);
+}
+
+// Everything captured in the session at or after the given time moves to a new session
+export async function splitSession(sessionId: string, at: number): Promise<SessionEditResult> {
+  assertEditableSession(sessionId);
+
+  const newSessionId = crypto.randomUUID();
+  const chunkSessions = await reassignChunkSessions((chunk) =>
+    chunk.sessionId === sessionId && chunk.createdAt >= at ? newSessionId : null,
+  );
+  if (Object.keys(chunkSessions).length === 0) {
+    throw new Error("Nothing in this session was captured after that point.");
+  }
+  const activeSessions = await repointActiveSessions(sessionId, newSessionId);
+
+  const stored = await chrome.storage.local.get({ [SESSION_TITLES_KEY]: {} as Record<string, string> });
+  const title = (stored[SESSION_TITLES_KEY] as Record<string, string> | undefined)?.[sessionId];
+  return finishSessionEdit("Split session", chunkSessions, title ? { [newSessionId]: `${title} (continued)` } : {}, activeSessions);
+}
+
+// Move every chunk of the memories into the target session, or into a new session when targetSessionId is null
+export async function moveMemoriesToSession(memoryIds: string[], targetSessionId: string | null): Promise<SessionEditResult> {
+  if (targetSessionId !== null) {
+    assertEditableSession(targetSessionId);
+  }
+
+  const target = targetSessionId ?? crypto.randomUUID();
+  const ids = new Set(memoryIds);
+  const chunkSessions = await reassignChunkSessions((chunk) =>
+    ids.has(chunk.memoryId) && !FIXED_SESSION_IDS.has(chunk.sessionId) ? target : null,
+  );
+  if (Object.keys(chunkSessions).length === 0) {
+    throw new Error("Only captured pages can be moved between sessions.");
+  }
+  const moved = ids.size === 1 ? "Moved memory" : `Moved ${ids.size} memories`;
+  return finishSessionEdit(targetSessionId ? moved : `${moved} to a new session`, chunkSessions, {});
+}
+
+// Put chunks, titles and active sessions back the way they were before an edit; the result can undo the undo.
+// A scope that has since moved on to a newer session is left there.
+export async function undoSessionEdit(undo: SessionEditUndo): Promise<SessionEditResult> {
+  const chunkSessions = await reassignChunkSessions((chunk) => undo.chunkSessions[chunk.id] ?? null);
+  const activeSessions = await moveActiveSessions((scope, active) => {
+    const move = undo.activeSessions?.[scope];
+    return move && active.sessionId === move.to ? move.from : null;
+  });
+  return finishSessionEdit("Undid session edit", chunkSessions, undo.titles, activeSessions);
+}
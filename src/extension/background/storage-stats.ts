@@ -0,0 +1,113 @@
+import type { StorageCleanupAction, StorageCleanupResult, StorageDomainUsage, StorageStats } from "../types";
+import {
+  deleteMemories,
+  getChunkBreakdown,
+  getMemoryFootprints,
+  getObjectStoreUsage,
+  pruneMemoryRevisions,
+  removeOrphanedRecords,
+  type MemoryFootprint,
+} from "./memory-store";
+import { isNoteMemory } from "./notes";
+
+const LARGEST_MEMORIES_LIMIT = 10;
+const LARGEST_DOMAINS_LIMIT = 10;
+const NOTES_DOMAIN = "Notes";
+
+function footprintDomain(footprint: MemoryFootprint): string {
+  if (isNoteMemory(footprint.memory)) {
+    return NOTES_DOMAIN;
+  }
+  try {
+    return new URL(footprint.memory.url).hostname.replace(/^www\./, "") || footprint.memory.url;
+  } catch {
+    return footprint.memory.url;
+  }
+}
+
+async function getStorageEstimate(): Promise<StorageStats["estimate"]> {
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return typeof usage === "number" && typeof quota === "number" ? { usage, quota } : null;
+  } catch (error) {
+    console.debug("[NanoScribe::Memory] navigator.storage.estimate() unavailable", error);
+    return null;
+  }
+}
+
+// Sizes come from the stored records, so the dashboard also works while the vault is locked
+export async function getStorageStats(): Promise<StorageStats> {
+  const [stores, footprints, breakdown, estimate] = await Promise.all([
+    getObjectStoreUsage(),
+    getMemoryFootprints(),
+    getChunkBreakdown(),
+    getStorageEstimate(),
+  ]);
+
+  const domains = new Map<string, StorageDomainUsage>();
+  for (const footprint of footprints) {
+    const domain = footprintDomain(footprint);
+    const entry = domains.get(domain) ?? { domain, memories: 0, bytes: 0 };
+    entry.memories += 1;
+    entry.bytes += footprint.bytes;
+    domains.set(domain, entry);
+  }
+
+  return {
+    generatedAt: Date.now(),
+    stores: stores.sort((a, b) => b.bytes - a.bytes),
+    totalBytes: stores.reduce((total, store) => total + store.bytes, 0),
+    estimate,
+    largestMemories: [...footprints]
+      .sort((a, b) => b.bytes - a.bytes)
+      .slice(0, LARGEST_MEMORIES_LIMIT)
+      .map(({ memory, chunkCount, bytes }) => ({
+        memoryId: memory.id,
+        title: memory.title,
+        url: memory.url,
+        chunkCount,
+        bytes,
+        pinned: Boolean(memory.pinned),
+      })),
+    largestDomains: Array.from(domains.values())
+      .sort((a, b) => b.bytes - a.bytes)
+      .slice(0, LARGEST_DOMAINS_LIMIT),
+    chunksBySource: Array.from(breakdown.bySource, ([sourceTag, count]) => ({ sourceTag, count })).sort((a, b) => b.count - a.count),
+    chunksByMonth: Array.from(breakdown.byMonth, ([month, count]) => ({ month, count })).sort((a, b) => a.month.localeCompare(b.month)),
+  };
+}
+
+async function runCleanupAction(action: StorageCleanupAction): Promise<{ removed: number; message: string }> {
+  switch (action.kind) {
+    case "delete-memory": {
+      const { memories, chunks } = await deleteMemories([action.memoryId]);
+      return { removed: memories, message: memories ? `Deleted the memory and ${chunks} chunks.` : "That memory no longer exists." };
+    }
+    case "delete-domain": {
+      // Pinned memories and notes are kept, matching the retention janitor
+      const footprints = await getMemoryFootprints();
+      const memoryIds = footprints
+        .filter((footprint) => footprintDomain(footprint) === action.domain && !footprint.memory.pinned && !isNoteMemory(footprint.memory))
+        .map((footprint) => footprint.memory.id);
+      const { memories, chunks } = await deleteMemories(memoryIds);
+      return { removed: memories, message: `Deleted ${memories} memories (${chunks} chunks) from ${action.domain}.` };
+    }
+    case "prune-revisions": {
+      const removed = await pruneMemoryRevisions(1);
+      return { removed, message: `Removed ${removed} older revisions; the latest capture of each memory is kept.` };
+    }
+    case "remove-orphans": {
+      const { chunks, indexEntries, revisions } = await removeOrphanedRecords();
+      return {
+        removed: chunks + indexEntries + revisions,
+        message: `Removed ${chunks} orphaned chunks, ${indexEntries} stray index entries and ${revisions} orphaned revisions.`,
+      };
+    }
+  }
+}
+
+export async function runStorageCleanup(action: StorageCleanupAction): Promise<StorageCleanupResult> {
+  const { removed, message } = await runCleanupAction(action);
+  console.log(`[NanoScribe::Memory] 🧹 Storage cleanup ${action.kind}: ${message}`);
+  return { action: action.kind, removed, message, stats: await getStorageStats() };
+}
@@ -0,0 +1,39 @@
+// User tags are short lowercase labels; "#Release Notes" and "release-notes" are the same tag
+const MAX_TAG_LENGTH = 32;
+const MAX_TAGS_PER_MEMORY = 20;
+const TAG_FILTER_PATTERN = /(^|\s)tag:("[^"]+"|\S+)/gi;
+
+export function normalizeTag(raw: string): string {
+  return raw
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^\p{L}\p{N}_-]/gu, "")
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+export function normalizeTags(raw: unknown): string[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const tags = raw.filter((tag): tag is string => typeof tag === "string").map(normalizeTag).filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS_PER_MEMORY);
+}
+
+// Pull `tag:foo` / `tag:"two words"` filters out of a search query and return the remaining free text
+export function parseTagFilters(query: string): { text: string; tags: string[] } {
+  const tags: string[] = [];
+  const text = query
+    .replace(TAG_FILTER_PATTERN, (_match, leading: string, value: string) => {
+      tags.push(normalizeTag(value.replace(/^"|"$/g, "")));
+      return leading;
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+  return { text, tags: normalizeTags(tags) };
+}
+
+export function hasAllTags(memoryTags: string[] | undefined, required: string[]): boolean {
+  return required.every((tag) => memoryTags?.includes(tag));
+}
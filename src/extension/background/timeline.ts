@@ -0,0 +1,103 @@
+import type { MemoryRecord, TimelineEntry, TimelinePage, TimelineQuery } from "../types";
+import { getChunkRefsInRange, getMemoriesByIds, type ChunkTimelineRef } from "./memory-store";
+import { isNoteMemory } from "./notes";
+import { HIGHLIGHT_SOURCE_TAG } from "./search-index";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_TIMELINE_DAYS = 3;
+const MAX_TIMELINE_DAYS = 31;
+// Ranges with nothing matching the filters are skipped, up to this many, so a page is rarely empty
+const MAX_EMPTY_RANGES = 12;
+
+function startOfLocalDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function memoryDomain(memory: MemoryRecord): string | null {
+  if (isNoteMemory(memory)) {
+    return null;
+  }
+  try {
+    return new URL(memory.url).hostname.replace(/^www\./, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+// Chunks of one memory captured in the same hour and session become a single entry
+function groupCaptures(chunks: ChunkTimelineRef[]): ChunkTimelineRef[][] {
+  const groups = new Map<string, ChunkTimelineRef[]>();
+  for (const chunk of chunks) {
+    const key = `${chunk.memoryId}|${chunk.sessionId}|${Math.floor(chunk.createdAt / HOUR_MS)}`;
+    groups.set(key, [...(groups.get(key) ?? []), chunk]);
+  }
+  return Array.from(groups.values());
+}
+
+// Captures in whole local days ending before query.before, newest first, loaded a few days at a time
+export async function getTimeline(query: TimelineQuery = {}): Promise<TimelinePage> {
+  const days = Math.min(Math.max(Math.round(query.days ?? DEFAULT_TIMELINE_DAYS), 1), MAX_TIMELINE_DAYS);
+  const { sessionTitles = {} } = await chrome.storage.local.get({ sessionTitles: {} as Record<string, string> });
+
+  let end = query.before ?? Date.now();
+  const domains = new Set<string>();
+  const sessionIds = new Set<string>();
+  const entries: TimelineEntry[] = [];
+  let rangeStart = end;
+  let nextBefore: number | null = null;
+
+  for (let attempt = 0; attempt < MAX_EMPTY_RANGES && entries.length === 0; attempt += 1) {
+    rangeStart = startOfLocalDay(end - 1) - (days - 1) * DAY_MS;
+    const { chunks, olderCreatedAt } = await getChunkRefsInRange(rangeStart, end);
+    nextBefore = olderCreatedAt === null ? null : startOfLocalDay(olderCreatedAt) + DAY_MS;
+
+    const memories = await getMemoriesByIds(chunks.map((chunk) => chunk.memoryId));
+    const memoryById = new Map(memories.map((memory) => [memory.id, memory]));
+
+    for (const captures of groupCaptures(chunks)) {
+      const [newest] = captures;
+      const memory = memoryById.get(newest.memoryId);
+      if (!memory) {
+        continue;
+      }
+
+      const domain = memoryDomain(memory);
+      if (domain) {
+        domains.add(domain);
+      }
+      sessionIds.add(newest.sessionId);
+      if ((query.domain && domain !== query.domain) || (query.sessionId && newest.sessionId !== query.sessionId)) {
+        continue;
+      }
+
+      entries.push({
+        memoryId: memory.id,
+        title: memory.title,
+        url: isNoteMemory(memory) ? "" : memory.url,
+        domain,
+        sessionId: newest.sessionId,
+        sessionTitle: sessionTitles[newest.sessionId],
+        capturedAt: newest.createdAt,
+        chunkCount: captures.length,
+        highlightCount: captures.filter((chunk) => chunk.sourceTag === HIGHLIGHT_SOURCE_TAG).length,
+        dwellMs: memory.dwellMs ?? null,
+      });
+    }
+
+    if (nextBefore === null) {
+      break;
+    }
+    end = nextBefore;
+  }
+
+  return {
+    entries: entries.sort((a, b) => b.capturedAt - a.capturedAt),
+    rangeStart,
+    nextBefore,
+    domains: Array.from(domains).sort(),
+    sessions: Array.from(sessionIds, (sessionId) => ({ sessionId, title: sessionTitles[sessionId] })),
+  };
+}
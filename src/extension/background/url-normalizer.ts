@@ -0,0 +1,112 @@
+// Canonical memory identity: one page should map to one MemoryRecord no matter how it was reached
+
+// Query parameters that only carry campaign or click attribution
+const TRACKING_PARAM_PATTERNS: RegExp[] = [
+  /^utm_/i,
+  /^(fbclid|gclid|gclsrc|dclid|wbraid|gbraid|msclkid|yclid|twclid|ttclid|igshid|li_fat_id)$/i,
+  /^(mc_cid|mc_eid|_hsenc|_hsmi|__hssc|__hstc|__hsfp|hsctatracking|mkt_tok)$/i,
+  /^(ref|ref_src|ref_url|referrer|source|cmpid|campaign|spm|scid|s_cid|si|feature)$/i,
+  /^(oly_anon_id|oly_enc_id|vero_id|vero_conv|rb_clickid|__s|_ga|_gl|ncid|sr_share)$/i,
+];
+
+// AMP variants that point back at the regular article
+const AMP_QUERY_PARAMS = new Set(["amp", "outputtype", "usqp"]);
+const AMP_CACHE_HOST = /\.cdn\.ampproject\.org$/i;
+const MOBILE_HOST_PREFIX = /^(m|mobile|amp)\./i;
+
+function isTrackingParam(name: string): boolean {
+  return TRACKING_PARAM_PATTERNS.some((pattern) => pattern.test(name));
+}
+
+// Google AMP viewer and AMP cache URLs embed the publisher URL in their path
+function unwrapAmpCache(url: URL): URL {
+  const embedded =
+    url.hostname.endsWith("google.com") && url.pathname.startsWith("/amp/s/")
+      ? url.pathname.slice("/amp/s/".length)
+      : AMP_CACHE_HOST.test(url.hostname)
+        ? url.pathname.replace(/^\/[a-z]\/(s\/)?/i, "")
+        : null;
+  if (!embedded) {
+    return url;
+  }
+  try {
+    return new URL(`https://${embedded}${url.search}`);
+  } catch {
+    return url;
+  }
+}
+
+function normalizeHost(hostname: string): string {
+  let host = hostname.toLowerCase().replace(/\.$/, "");
+  if (host.startsWith("www.")) {
+    host = host.slice(4);
+  }
+  return host.replace(MOBILE_HOST_PREFIX, "");
+}
+
+function normalizePath(pathname: string): string {
+  let path = pathname.replace(/\/{2,}/g, "/");
+  path = path.replace(/\/amp\/?$/i, "/").replace(/\.amp(\.html?)?$/i, "$1");
+  path = path.replace(/\/index\.html?$/i, "/");
+  if (path.length > 1 && path.endsWith("/")) {
+    path = path.slice(0, -1);
+  }
+  return path || "/";
+}
+
+// Strip tracking params, fragments, www/mobile/AMP variants and trailing slashes; sort what remains.
+// Non-http URLs and unparseable strings are returned unchanged.
+export function normalizeMemoryUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return raw;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return raw;
+  }
+
+  url = unwrapAmpCache(url);
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name) && !AMP_QUERY_PARAMS.has(name.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const host = normalizeHost(url.hostname);
+  const port = url.port && url.port !== "80" && url.port !== "443" ? `:${url.port}` : "";
+  const query = params.length ? `?${new URLSearchParams(params).toString()}` : "";
+  // Hash-bang and "#/" routes are the page address in single-page apps, so those fragments are kept
+  const fragment = /^#!?\//.test(url.hash) ? url.hash : "";
+
+  return `${url.protocol}//${host}${port}${normalizePath(url.pathname)}${query}${fragment}`;
+}
+
+// Prefer the page's declared canonical (<link rel=canonical> / og:url) when it stays on the same site and
+// is not a generic fallback to the home page; otherwise normalize the address the page was visited at.
+export function resolveCanonicalUrl(visitedUrl: string, canonicalHint?: string | null): string {
+  const visited = normalizeMemoryUrl(visitedUrl);
+  if (!canonicalHint) {
+    return visited;
+  }
+
+  let hint: URL;
+  try {
+    hint = new URL(canonicalHint, visitedUrl);
+  } catch {
+    return visited;
+  }
+  if (hint.protocol !== "http:" && hint.protocol !== "https:") {
+    return visited;
+  }
+
+  const canonical = normalizeMemoryUrl(hint.href);
+  const visitedParts = new URL(visited);
+  const canonicalParts = new URL(canonical);
+  const sameSite =
+    canonicalParts.hostname === visitedParts.hostname ||
+    canonicalParts.hostname.endsWith(`.${visitedParts.hostname}`) ||
+    visitedParts.hostname.endsWith(`.${canonicalParts.hostname}`);
+  const collapsesToHome = canonicalParts.pathname === "/" && visitedParts.pathname !== "/";
+
+  return sameSite && !collapsesToHome ? canonical : visited;
+}
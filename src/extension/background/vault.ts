@@ -0,0 +1,308 @@
+import type { SealedPayload, VaultStatus } from "../types";
+
+type VaultStatusListener = (status: VaultStatus) => void;
+
+type VaultConfig = {
+  enabled: boolean;
+  salt: string;
+  iterations: number;
+  verifier: SealedPayload;
+  autoLockMinutes: number;
+};
+
+// Key material only ever lives in these module-level variables; nothing is persisted
+type VaultKeys = {
+  encryptionKey: CryptoKey;
+  indexKey: CryptoKey;
+  embeddingSeed: number;
+};
+
+export type VaultProtection = {
+  seal: (value: unknown) => Promise<SealedPayload>;
+  protectTerms: (terms: string[]) => Promise<string[]>;
+  embeddingSeed: number;
+};
+
+export const VAULT_LOCKED_MESSAGE = "Memory vault is locked. Unlock it in Settings to continue.";
+export const VAULT_AUTOLOCK_ALARM = "nanoscribe::vault-autolock";
+
+const VAULT_CONFIG_KEY = "vaultConfig";
+const PBKDF2_ITERATIONS = 310_000;
+const DEFAULT_AUTOLOCK_MINUTES = 15;
+const VERIFIER_PLAINTEXT = "nanoscribe-vault-v1";
+
+const listeners = new Set<VaultStatusListener>();
+
+let vaultKeys: VaultKeys | null = null;
+let cachedConfig: VaultConfig | null | undefined;
+let lastActivityAt: number | null = null;
+// Set while enableVault/disableVault rewrite stored data. Writers wait on it, so nothing is stored
+// with the old protection once the rewrite has started, or with none before the new config is saved.
+let rewriteInProgress: Promise<void> | null = null;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+async function loadConfig(): Promise<VaultConfig | null> {
+  if (cachedConfig !== undefined) {
+    return cachedConfig;
+  }
+  const stored = await chrome.storage.local.get(VAULT_CONFIG_KEY);
+  const config = stored[VAULT_CONFIG_KEY] as VaultConfig | undefined;
+  cachedConfig = config?.enabled ? config : null;
+  return cachedConfig;
+}
+
+async function saveConfig(config: VaultConfig | null): Promise<void> {
+  cachedConfig = config;
+  if (config) {
+    await chrome.storage.local.set({ [VAULT_CONFIG_KEY]: config });
+  } else {
+    await chrome.storage.local.remove(VAULT_CONFIG_KEY);
+  }
+}
+
+// PBKDF2 yields 512 bits: the first half becomes the AES-GCM key, the second half the HMAC key for index terms
+async function deriveVaultKeys(passphrase: string, salt: Uint8Array, iterations: number): Promise<VaultKeys> {
+  const baseKey = await crypto.subtle.importKey("raw", textEncoder.encode(passphrase), "PBKDF2", false, ["deriveBits"]);
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, baseKey, 512)
+  );
+
+  const encryptionKey = await crypto.subtle.importKey("raw", bits.slice(0, 32), { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+  const indexKey = await crypto.subtle.importKey("raw", bits.slice(32), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const seedBytes = new Uint8Array(await crypto.subtle.sign("HMAC", indexKey, textEncoder.encode("embedding-seed")));
+  const embeddingSeed = new DataView(seedBytes.buffer).getUint32(0);
+
+  bits.fill(0);
+  return { encryptionKey, indexKey, embeddingSeed };
+}
+
+async function encryptWithKey(key: CryptoKey, plaintext: string): Promise<SealedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, textEncoder.encode(plaintext)));
+  return { iv: toBase64(iv), data: toBase64(data) };
+}
+
+async function decryptWithKey(key: CryptoKey, sealed: SealedPayload): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data));
+  return textDecoder.decode(plaintext);
+}
+
+function buildProtection(keys: VaultKeys): VaultProtection {
+  return {
+    seal: (value) => encryptWithKey(keys.encryptionKey, JSON.stringify(value)),
+    protectTerms: async (terms) => {
+      const hashed = await Promise.all(
+        terms.map(async (term) => {
+          const signature = new Uint8Array(await crypto.subtle.sign("HMAC", keys.indexKey, textEncoder.encode(term)));
+          return `h:${toBase64(signature.slice(0, 12))}`;
+        })
+      );
+      return hashed;
+    },
+    embeddingSeed: keys.embeddingSeed,
+  };
+}
+
+function emitChange(status: VaultStatus) {
+  listeners.forEach((listener) => {
+    try {
+      listener(status);
+    } catch (error) {
+      console.error("[NanoScribe::Vault] Status listener failed", error);
+    }
+  });
+}
+
+async function notifyStatusChange() {
+  emitChange(await getVaultStatus());
+}
+
+function scheduleAutoLock(autoLockMinutes: number) {
+  chrome.alarms.create(VAULT_AUTOLOCK_ALARM, { when: Date.now() + autoLockMinutes * 60_000 });
+}
+
+export function addVaultStatusListener(listener: VaultStatusListener) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export async function getVaultStatus(): Promise<VaultStatus> {
+  const config = await loadConfig();
+  return {
+    enabled: Boolean(config),
+    locked: Boolean(config) && !vaultKeys,
+    autoLockMinutes: config?.autoLockMinutes ?? DEFAULT_AUTOLOCK_MINUTES,
+    lastActivityAt,
+  };
+}
+
+export async function isVaultLocked(): Promise<boolean> {
+  const config = await loadConfig();
+  return Boolean(config) && !vaultKeys;
+}
+
+// Push the auto-lock deadline forward; called whenever sealed data is read or written
+export async function touchVault(): Promise<void> {
+  const config = await loadConfig();
+  if (!config || !vaultKeys) {
+    return;
+  }
+  lastActivityAt = Date.now();
+  scheduleAutoLock(config.autoLockMinutes);
+}
+
+async function waitForRewrite(): Promise<void> {
+  while (rewriteInProgress) {
+    await rewriteInProgress.catch(() => undefined);
+  }
+}
+
+// Run a switch of the vault's protection as the rewrite that writers wait on
+async function runRewrite(task: () => Promise<void>): Promise<void> {
+  if (rewriteInProgress) {
+    throw new Error("The memory vault is already being updated.");
+  }
+  const running = task();
+  rewriteInProgress = running;
+  try {
+    await running;
+  } finally {
+    rewriteInProgress = null;
+  }
+}
+
+// null when the vault is off; throws when it is on but locked. Waits while stored data is being rewritten.
+export async function getVaultProtection(): Promise<VaultProtection | null> {
+  await waitForRewrite();
+  const config = await loadConfig();
+  if (!config) {
+    return null;
+  }
+  if (!vaultKeys) {
+    throw new Error(VAULT_LOCKED_MESSAGE);
+  }
+  await touchVault();
+  return buildProtection(vaultKeys);
+}
+
+// Returns null while locked so callers can fall back to the plaintext placeholders
+export async function openSealedPayload<T>(sealed: SealedPayload): Promise<T | null> {
+  if (!vaultKeys) {
+    return null;
+  }
+  return JSON.parse(await decryptWithKey(vaultKeys.encryptionKey, sealed)) as T;
+}
+
+export async function unlockVault(passphrase: string): Promise<boolean> {
+  const config = await loadConfig();
+  if (!config) {
+    return true;
+  }
+
+  const keys = await deriveVaultKeys(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    const verifier = await decryptWithKey(keys.encryptionKey, config.verifier);
+    if (verifier !== VERIFIER_PLAINTEXT) {
+      return false;
+    }
+  } catch {
+    // AES-GCM authentication fails on a wrong passphrase
+    return false;
+  }
+
+  vaultKeys = keys;
+  await touchVault();
+  console.log("[NanoScribe::Vault] 🔓 Vault unlocked");
+  await notifyStatusChange();
+  return true;
+}
+
+export async function lockVault(reason: string = "manual"): Promise<void> {
+  if (!vaultKeys) {
+    return;
+  }
+  vaultKeys = null;
+  lastActivityAt = null;
+  chrome.alarms.clear(VAULT_AUTOLOCK_ALARM);
+  console.log(`[NanoScribe::Vault] 🔒 Vault locked (${reason})`);
+  await notifyStatusChange();
+}
+
+// Derive keys for a new vault, let the caller re-encrypt stored data, then persist the config.
+// If rewriting fails the config is never written, so the stored data stays readable as before.
+export async function enableVault(
+  passphrase: string,
+  autoLockMinutes: number,
+  rewriteStoredData: (protection: VaultProtection) => Promise<void>
+): Promise<void> {
+  if (await loadConfig()) {
+    throw new Error("The memory vault is already enabled.");
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const keys = await deriveVaultKeys(passphrase, salt, PBKDF2_ITERATIONS);
+  await runRewrite(async () => {
+    await rewriteStoredData(buildProtection(keys));
+    await saveConfig({
+      enabled: true,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await encryptWithKey(keys.encryptionKey, VERIFIER_PLAINTEXT),
+      autoLockMinutes: Math.max(1, Math.round(autoLockMinutes || DEFAULT_AUTOLOCK_MINUTES)),
+    });
+    vaultKeys = keys;
+  });
+
+  await touchVault();
+  console.log("[NanoScribe::Vault] ✅ Vault enabled");
+  await notifyStatusChange();
+}
+
+// Verify the passphrase, let the caller write everything back in plaintext, then drop the config
+export async function disableVault(passphrase: string, rewriteStoredData: () => Promise<void>): Promise<void> {
+  if (!(await loadConfig())) {
+    return;
+  }
+  if (!(await unlockVault(passphrase))) {
+    throw new Error("Incorrect passphrase.");
+  }
+
+  await runRewrite(async () => {
+    await rewriteStoredData();
+    await saveConfig(null);
+    vaultKeys = null;
+  });
+  lastActivityAt = null;
+  chrome.alarms.clear(VAULT_AUTOLOCK_ALARM);
+  console.log("[NanoScribe::Vault] ✅ Vault disabled");
+  await notifyStatusChange();
+}
+
+export async function updateVaultAutoLock(autoLockMinutes: number): Promise<void> {
+  const config = await loadConfig();
+  if (!config) {
+    return;
+  }
+  await saveConfig({ ...config, autoLockMinutes: Math.max(1, Math.round(autoLockMinutes)) });
+  await touchVault();
+  await notifyStatusChange();
+}
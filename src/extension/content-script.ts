@@ -157,6 +157,10 @@ async function testMemoryCreation() {
 
 // Import Readability for DOM parsing
 import { Readability } from '@mozilla/readability';
+import { detectSensitivePage } from "./sensitive-page";
+import { createTextFragment, serializeTextFragment } from "./text-fragment";
+import { buildPageTextIndex, locateRange, renderHighlightOverlay } from "./highlight-overlay";
+import type { PageHighlight } from "./types";
 
 // Types for content script messages
 interface ExtractReadabilityResponse {
@@ -166,12 +170,120 @@ interface ExtractReadabilityResponse {
     textContent: string;
     chunks: string[];
     baseURI: string;
+    canonicalUrl: string | null;
   };
   error?: string;
 }
 
+// The page's own idea of its address; the service worker decides whether to trust it
+function getCanonicalHint(): string | null {
+  const link = document.querySelector<HTMLLinkElement>('link[rel="canonical"][href]');
+  if (link?.href) {
+    return link.href;
+  }
+  const ogUrl = document.querySelector<HTMLMetaElement>('meta[property="og:url"][content]');
+  return ogUrl?.content || null;
+}
+
+// Text just before and after the selection, used as prefix/suffix so short highlights anchor unambiguously
+function getSelectionContext(range: Range): { before: string; after: string } {
+  const before = range.startContainer.nodeType === Node.TEXT_NODE
+    ? (range.startContainer.textContent ?? "").slice(0, range.startOffset)
+    : "";
+  const after = range.endContainer.nodeType === Node.TEXT_NODE
+    ? (range.endContainer.textContent ?? "").slice(range.endOffset)
+    : "";
+  return { before, after };
+}
+
+// Late-rendering pages may not contain every saved passage yet, so unanchored highlights get one more try
+const HIGHLIGHT_RETRY_DELAY_MS = 3000;
+
+function loadPageHighlights(retry = true) {
+  chrome.runtime.sendMessage(
+    { type: "GET_PAGE_HIGHLIGHTS", payload: { url: location.href, canonicalUrl: getCanonicalHint() } },
+    (response) => {
+      if (chrome.runtime.lastError || response?.type !== "PAGE_HIGHLIGHTS") {
+        return;
+      }
+      const highlights = response.payload.highlights as PageHighlight[];
+      const anchored = renderHighlightOverlay(highlights);
+      if (highlights.length > 0) {
+        console.log(`[NanoScribe::Content] ✨ Re-anchored ${anchored.length}/${highlights.length} saved highlights`);
+      }
+      if (retry && anchored.length < highlights.length) {
+        window.setTimeout(() => loadPageHighlights(false), HIGHLIGHT_RETRY_DELAY_MS);
+      }
+    },
+  );
+}
+
+if (window.top === window && /^https?:/.test(location.protocol)) {
+  loadPageHighlights();
+}
+
 // Message handler for Readability extraction
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (message.type === "REFRESH_PAGE_HIGHLIGHTS") {
+    loadPageHighlights(false);
+    sendResponse({ success: true });
+    return true;
+  }
+
+  if (message.type === "GET_CANONICAL_HINT") {
+    sendResponse({ success: true, canonicalUrl: getCanonicalHint() });
+    return true;
+  }
+
+  if (message.type === "GET_SELECTION_HIGHLIGHT") {
+    const selection = window.getSelection();
+    const text = selection?.toString().trim() ?? "";
+    if (!selection || !selection.rangeCount || !text) {
+      sendResponse({ success: false, error: "No selection" });
+      return true;
+    }
+
+    const range = selection.getRangeAt(0);
+    const { before, after } = getSelectionContext(range);
+    const fragment = createTextFragment(text, before, after);
+    const position = locateRange(buildPageTextIndex(), range);
+    let note: string | null = null;
+    if (message.payload?.askForNote) {
+      note = window.prompt("Add a note to this highlight (optional)", "");
+      if (note === null) {
+        sendResponse({ success: false, cancelled: true });
+        return true;
+      }
+    }
+
+    sendResponse({
+      success: true,
+      data: {
+        text,
+        anchor: fragment ? serializeTextFragment(fragment) : null,
+        position,
+        note: note?.trim() || null,
+        title: document.title,
+        canonicalUrl: getCanonicalHint(),
+      },
+    });
+    return true;
+  }
+
+  if (message.type === "DETECT_SENSITIVE_PAGE") {
+    try {
+      const reasons = detectSensitivePage(document);
+      if (reasons.length > 0) {
+        console.log(`[NanoScribe::Content] 🔒 Sensitive page signals: ${reasons.join(", ")}`);
+      }
+      sendResponse({ success: true, reasons });
+    } catch (error) {
+      console.error("[NanoScribe::Content] ❌ Sensitive page detection failed:", error);
+      sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+    }
+    return true;
+  }
+
   if (message.type === "EXTRACT_WITH_READABILITY") {
     try {
       console.log("[NanoScribe::Content] 📖 Extracting content with Readability...");
@@ -250,7 +362,8 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           title: article.title || document.title,
           textContent: article.textContent,
           chunks,
-          baseURI: document.baseURI
+          baseURI: document.baseURI,
+          canonicalUrl: getCanonicalHint()
         }
       } as ExtractReadabilityResponse);
     } catch (error) {
@@ -106,7 +106,7 @@ function ensureToastStyles(): void {
   toastStylesInjected = true;
 }
 
-function showSummaryToast(payload: { state: "loading" | "success" | "error"; title?: string; description?: string }) {
+function showSummaryToast(payload: { state: "loading" | "success" | "error"; title?: string; description?: string; captureUrl?: string }) {
   const host = ensureToastHost();
   ensureToastStyles();
 
@@ -282,6 +282,44 @@ function showSummaryToast(payload: { state: "loading" | "success" | "error"; tit
     actions.appendChild(copyBtn);
   }
 
+  if (payload.captureUrl) {
+    const captureUrl = payload.captureUrl;
+    const blockBtn = document.createElement('button');
+    blockBtn.textContent = 'Never capture this site';
+    blockBtn.style.background = 'transparent';
+    blockBtn.style.color = '#fca5a5';
+    blockBtn.style.border = '1px solid rgba(248,113,113,0.35)';
+    blockBtn.style.borderRadius = '6px';
+    blockBtn.style.padding = '6px 10px';
+    blockBtn.style.fontSize = '12px';
+    blockBtn.onmousedown = (e) => { e.preventDefault(); };
+    blockBtn.onclick = async (e) => {
+      e.stopPropagation();
+      blockBtn.disabled = true;
+      try {
+        const response = await sendToBackground({ type: "BLOCK_CAPTURE_SITE", payload: { url: captureUrl } });
+        if (response.type !== "CAPTURE_SITE_BLOCKED") {
+          throw new Error(response.type === "ERROR" ? response.message : "Unexpected response");
+        }
+        title.textContent = 'Capture disabled for this site';
+        desc.textContent = response.payload.purged > 0
+          ? `Removed ${response.payload.purged} saved ${response.payload.purged === 1 ? 'memory' : 'memories'} from this site.`
+          : 'NanoScribe will not capture pages from this site.';
+        blockBtn.remove();
+        if (toast === activeLoadingToast) {
+          header.firstChild?.remove();
+          activeLoadingToast = null;
+        }
+        setTimeout(() => { if (toast.parentElement === host) host.removeChild(toast); }, 4000);
+      } catch (err) {
+        console.warn('[NanoScribe::Content] Failed to block site', err);
+        blockBtn.disabled = false;
+        desc.textContent = err instanceof Error ? err.message : String(err);
+      }
+    };
+    actions.appendChild(blockBtn);
+  }
+
   const dismissBtn = document.createElement('button');
   dismissBtn.textContent = 'Dismiss';
   dismissBtn.style.background = 'transparent';
@@ -0,0 +1,297 @@
+import type { PageHighlight } from "./types";
+import { parseTextFragment } from "./text-fragment";
+
+// Saved highlights are re-anchored against the live page and drawn in a shadow-root overlay,
+// so the page's DOM, styles and event handlers are never touched.
+
+const OVERLAY_HOST_ID = "nanoscribe-highlight-overlay";
+const SKIPPED_TAGS = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "TEXTAREA", "INPUT"]);
+// Selection text puts line breaks between blocks even when the DOM has no whitespace text there
+const BLOCK_SELECTOR = "p,div,li,td,th,tr,h1,h2,h3,h4,h5,h6,blockquote,pre,section,article,header,footer,dt,dd,figcaption";
+// textEnd must appear within this many characters of textStart to count as the same passage
+const MAX_HIGHLIGHT_SPAN = 20000;
+
+// The page's visible text with whitespace collapsed, and where each character came from
+type PageTextIndex = {
+  text: string;
+  nodes: Text[];
+  nodeIndex: Uint32Array;
+  offsets: Uint32Array;
+};
+
+export type HighlightPosition = { start: number; end: number };
+
+function collectTextNodes(root: Node): Text[] {
+  const nodes: Text[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => {
+      const parent = node.parentElement;
+      if (!parent || SKIPPED_TAGS.has(parent.tagName) || parent.closest(`#${OVERLAY_HOST_ID}`)) {
+        return NodeFilter.FILTER_REJECT;
+      }
+      return NodeFilter.FILTER_ACCEPT;
+    },
+  });
+  while (walker.nextNode()) {
+    nodes.push(walker.currentNode as Text);
+  }
+  return nodes;
+}
+
+export function buildPageTextIndex(root: Node = document.body): PageTextIndex {
+  const nodes = collectTextNodes(root);
+  // One extra slot per node for the separator inserted between blocks
+  const total = nodes.reduce((sum, node) => sum + node.data.length + 1, 0);
+  const nodeIndex = new Uint32Array(total);
+  const offsets = new Uint32Array(total);
+  const chars: string[] = [];
+  let previousWasSpace = true;
+  let previousBlock: Element | null = null;
+
+  nodes.forEach((node, index) => {
+    const data = node.data;
+    const block = node.parentElement?.closest(BLOCK_SELECTOR) ?? null;
+    if (block !== previousBlock && !previousWasSpace) {
+      nodeIndex[chars.length] = index;
+      offsets[chars.length] = 0;
+      chars.push(" ");
+      previousWasSpace = true;
+    }
+    previousBlock = block;
+    for (let offset = 0; offset < data.length; offset += 1) {
+      const isSpace = /\s/.test(data[offset]);
+      if (isSpace && previousWasSpace) {
+        continue;
+      }
+      nodeIndex[chars.length] = index;
+      offsets[chars.length] = offset;
+      chars.push(isSpace ? " " : data[offset]);
+      previousWasSpace = isSpace;
+    }
+  });
+
+  return { text: chars.join(""), nodes, nodeIndex: nodeIndex.subarray(0, chars.length), offsets: offsets.subarray(0, chars.length) };
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Offsets of a live selection in the index, stored with a highlight as the fallback anchor.
+// Selections that start or end on an element rather than a text node get no position.
+export function locateRange(index: PageTextIndex, range: Range): HighlightPosition | null {
+  const startNode = index.nodes.indexOf(range.startContainer as Text);
+  const endNode = index.nodes.indexOf(range.endContainer as Text);
+  if (startNode < 0 || endNode < 0) {
+    return null;
+  }
+
+  // nodeIndex is non-decreasing, so one pass finds the first character at or after the start
+  // and the last character before the end
+  let start = -1;
+  let end = -1;
+  for (let position = 0; position < index.text.length; position += 1) {
+    const node = index.nodeIndex[position];
+    const offset = index.offsets[position];
+    if (start < 0 && (node > startNode || (node === startNode && offset >= range.startOffset))) {
+      start = position;
+    }
+    if (node < endNode || (node === endNode && offset < range.endOffset)) {
+      end = position + 1;
+    } else if (node > endNode) {
+      break;
+    }
+  }
+  return start >= 0 && end > start ? { start, end } : null;
+}
+
+function toRange(index: PageTextIndex, start: number, end: number): Range | null {
+  if (start < 0 || end > index.text.length || end <= start) {
+    return null;
+  }
+  const range = document.createRange();
+  const last = end - 1;
+  range.setStart(index.nodes[index.nodeIndex[start]], index.offsets[start]);
+  range.setEnd(index.nodes[index.nodeIndex[last]], index.offsets[last] + 1);
+  return range;
+}
+
+function allIndexesOf(haystack: string, needle: string): number[] {
+  const found: number[] = [];
+  let position = haystack.indexOf(needle);
+  while (position >= 0 && needle) {
+    found.push(position);
+    position = haystack.indexOf(needle, position + 1);
+  }
+  return found;
+}
+
+// Text quote first (start/end words scored by matching prefix/suffix and distance from the saved
+// position), then the saved position itself when the quote no longer appears on the page
+export function anchorHighlight(index: PageTextIndex, highlight: PageHighlight): Range | null {
+  const fragment = highlight.anchor ? parseTextFragment(highlight.anchor) : null;
+  const quoteStart = normalize(fragment?.textStart ?? highlight.text);
+  const quoteEnd = fragment?.textEnd ? normalize(fragment.textEnd) : null;
+  const prefix = fragment?.prefix ? normalize(fragment.prefix) : null;
+  const suffix = fragment?.suffix ? normalize(fragment.suffix) : null;
+
+  let best: { start: number; end: number; score: number } | null = null;
+  for (const start of allIndexesOf(index.text, quoteStart)) {
+    let end = start + quoteStart.length;
+    if (quoteEnd) {
+      const endMatch = index.text.indexOf(quoteEnd, end);
+      if (endMatch < 0 || endMatch - start > MAX_HIGHLIGHT_SPAN) {
+        continue;
+      }
+      end = endMatch + quoteEnd.length;
+    }
+
+    let score = 0;
+    if (prefix && normalize(index.text.slice(Math.max(0, start - prefix.length - 1), start)).endsWith(prefix)) score += 2;
+    if (suffix && normalize(index.text.slice(end, end + suffix.length + 1)).startsWith(suffix)) score += 2;
+    if (highlight.position) {
+      score -= Math.min(1, Math.abs(start - highlight.position.start) / Math.max(1, index.text.length));
+    }
+    if (!best || score > best.score) {
+      best = { start, end, score };
+    }
+  }
+
+  if (best) {
+    return toRange(index, best.start, best.end);
+  }
+  return highlight.position ? toRange(index, highlight.position.start, highlight.position.end) : null;
+}
+
+type AnchoredHighlight = { highlight: PageHighlight; range: Range };
+
+let overlayState: {
+  host: HTMLElement;
+  layer: HTMLElement;
+  tooltip: HTMLElement;
+  anchored: AnchoredHighlight[];
+  frame: number | null;
+  cleanup: () => void;
+} | null = null;
+
+function createOverlay() {
+  const host = document.createElement("div");
+  host.id = OVERLAY_HOST_ID;
+  host.style.cssText = "position:absolute;top:0;left:0;width:0;height:0;z-index:2147483646;pointer-events:none;";
+  const shadow = host.attachShadow({ mode: "closed" });
+  shadow.innerHTML = `
+    <style>
+      .mark { position: absolute; background: rgba(250, 204, 21, 0.35); border-bottom: 2px solid rgba(234, 179, 8, 0.9); border-radius: 2px; mix-blend-mode: multiply; }
+      .mark.active { background: rgba(250, 204, 21, 0.55); }
+      .tooltip { position: absolute; max-width: 320px; padding: 8px 10px; border-radius: 8px; background: #111827; color: white;
+        font: 12px/1.4 ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial; box-shadow: 0 10px 15px -3px rgba(0,0,0,0.2);
+        white-space: pre-wrap; display: none; }
+      .tooltip .label { display: block; margin-bottom: 2px; font-weight: 600; color: #facc15; }
+    </style>
+    <div class="layer"></div>
+    <div class="tooltip"></div>
+  `;
+  document.documentElement.appendChild(host);
+  return { host, layer: shadow.querySelector(".layer") as HTMLElement, tooltip: shadow.querySelector(".tooltip") as HTMLElement };
+}
+
+function drawMarks() {
+  if (!overlayState) return;
+  const { layer, anchored } = overlayState;
+  layer.replaceChildren();
+  anchored.forEach(({ range }, highlightIndex) => {
+    for (const rect of Array.from(range.getClientRects())) {
+      if (rect.width < 1 || rect.height < 1) continue;
+      const mark = document.createElement("div");
+      mark.className = "mark";
+      mark.dataset.highlight = String(highlightIndex);
+      mark.style.cssText = `left:${rect.left + window.scrollX}px;top:${rect.top + window.scrollY}px;width:${rect.width}px;height:${rect.height}px;`;
+      layer.appendChild(mark);
+    }
+  });
+}
+
+function scheduleDraw() {
+  if (!overlayState || overlayState.frame !== null) return;
+  overlayState.frame = requestAnimationFrame(() => {
+    if (!overlayState) return;
+    overlayState.frame = null;
+    drawMarks();
+  });
+}
+
+// Marks ignore the pointer so the page stays clickable; hover is detected by hit-testing the ranges instead
+function handlePointerMove(event: MouseEvent) {
+  if (!overlayState) return;
+  const { anchored, tooltip, layer } = overlayState;
+  const hit = anchored.findIndex(({ range }) =>
+    Array.from(range.getClientRects()).some(
+      (rect) => event.clientX >= rect.left && event.clientX <= rect.right && event.clientY >= rect.top && event.clientY <= rect.bottom,
+    ),
+  );
+
+  layer.querySelectorAll<HTMLElement>(".mark").forEach((mark) => mark.classList.toggle("active", mark.dataset.highlight === String(hit)));
+  if (hit < 0) {
+    tooltip.style.display = "none";
+    return;
+  }
+
+  const { highlight } = anchored[hit];
+  tooltip.replaceChildren();
+  const label = document.createElement("span");
+  label.className = "label";
+  label.textContent = highlight.note ? "NanoScribe note" : "Saved to NanoScribe";
+  tooltip.append(label, highlight.note ?? new Date(highlight.createdAt).toLocaleString());
+  tooltip.style.left = `${event.clientX + window.scrollX + 12}px`;
+  tooltip.style.top = `${event.clientY + window.scrollY + 16}px`;
+  tooltip.style.display = "block";
+}
+
+export function clearHighlightOverlay() {
+  if (!overlayState) return;
+  overlayState.cleanup();
+  overlayState.host.remove();
+  overlayState = null;
+}
+
+// Anchor and draw the given highlights, replacing anything drawn before; returns the ids that were found
+export function renderHighlightOverlay(highlights: PageHighlight[]): string[] {
+  clearHighlightOverlay();
+  if (!highlights.length || !document.body) {
+    return [];
+  }
+
+  const index = buildPageTextIndex();
+  const anchored: AnchoredHighlight[] = [];
+  for (const highlight of highlights) {
+    const range = anchorHighlight(index, highlight);
+    if (range) {
+      anchored.push({ highlight, range });
+    }
+  }
+  if (!anchored.length) {
+    return [];
+  }
+
+  const { host, layer, tooltip } = createOverlay();
+  const onScrollOrResize = () => scheduleDraw();
+  window.addEventListener("scroll", onScrollOrResize, { passive: true, capture: true });
+  window.addEventListener("resize", onScrollOrResize, { passive: true });
+  document.addEventListener("mousemove", handlePointerMove, { passive: true });
+
+  overlayState = {
+    host,
+    layer,
+    tooltip,
+    anchored,
+    frame: null,
+    cleanup: () => {
+      window.removeEventListener("scroll", onScrollOrResize, { capture: true });
+      window.removeEventListener("resize", onScrollOrResize);
+      document.removeEventListener("mousemove", handlePointerMove);
+      if (overlayState?.frame != null) cancelAnimationFrame(overlayState.frame);
+    },
+  };
+  drawMarks();
+  return anchored.map(({ highlight }) => highlight.chunkId);
+}
@@ -11,6 +11,37 @@ import type {
   SessionGroup,
   DiagnosticsSnapshot,
   DiagnosticsSettings,
+  MemoryExportFormat,
+  MemoryExportResult,
+  MemoryImportResult,
+  MigrationProgress,
+  MigrationReport,
+  VaultStatus,
+  RetentionPolicy,
+  RetentionReport,
+  CaptureRule,
+  CaptureRulesConfig,
+  SensitivePageSettings,
+  RedactionSettings,
+  MemoryRevisionSummary,
+  RevisionComparison,
+  TagCount,
+  PageHighlight,
+  StorageCleanupAction,
+  StorageCleanupResult,
+  StorageStats,
+  EntityGraph,
+  EntitySummary,
+  SessionSettings,
+  ActiveSession,
+  SessionEditResult,
+  SessionEditUndo,
+  TimelinePage,
+  TimelineQuery,
+  RelatedMemoriesQuery,
+  RelatedMemory,
+  SmartCollectionDraft,
+  SmartCollectionSummary,
 } from "./types";
 
 export type AutocompleteCommand = "accept" | "decline" | "regenerate" | "clear";
@@ -48,6 +79,51 @@ export type BackgroundRequest =
   | { type: "REPROCESS_UNORGANIZED_MEMORIES" }
   | { type: "CLEANUP_UNORGANIZED_MEMORIES" }
   | { type: "FORCE_DATABASE_UPGRADE" }
+  | { type: "RUN_DATABASE_MIGRATIONS"; payload: { dryRun: boolean } }
+  | { type: "EXPORT_MEMORIES"; payload: { format: MemoryExportFormat } }
+  | { type: "IMPORT_MEMORIES"; payload: { bundle: unknown } }
+  | { type: "GET_VAULT_STATUS" }
+  | { type: "SETUP_VAULT"; payload: { passphrase: string; autoLockMinutes: number } }
+  | { type: "UNLOCK_VAULT"; payload: { passphrase: string } }
+  | { type: "LOCK_VAULT" }
+  | { type: "DISABLE_VAULT"; payload: { passphrase: string } }
+  | { type: "UPDATE_VAULT_SETTINGS"; payload: { autoLockMinutes: number } }
+  | { type: "GET_RETENTION_POLICY" }
+  | { type: "UPDATE_RETENTION_POLICY"; payload: RetentionPolicy }
+  | { type: "RUN_RETENTION_JANITOR"; payload: { dryRun: boolean } }
+  | { type: "GET_CAPTURE_RULES" }
+  | { type: "UPDATE_CAPTURE_RULES"; payload: { config: CaptureRulesConfig; purgeExisting: boolean } }
+  | { type: "BLOCK_CAPTURE_SITE"; payload: { url: string } }
+  | { type: "GET_SENSITIVE_PAGE_SETTINGS" }
+  | { type: "UPDATE_SENSITIVE_DETECTION"; payload: { enabled: boolean } }
+  | { type: "ALLOW_SENSITIVE_HOST"; payload: { host: string; allowed: boolean } }
+  | { type: "CLEAR_SENSITIVE_SKIPS" }
+  | { type: "GET_REDACTION_SETTINGS" }
+  | { type: "UPDATE_REDACTION_SETTINGS"; payload: RedactionSettings }
+  | { type: "GET_MEMORY_REVISIONS"; payload: { memoryId: string } }
+  | { type: "COMPARE_MEMORY_REVISIONS"; payload: { memoryId: string; fromId?: string | null; toId?: string | null } }
+  | { type: "GET_MEMORY_TAGS" }
+  | { type: "UPDATE_MEMORY_TAGS"; payload: { memoryId: string; tags: string[] } }
+  | { type: "SET_MEMORY_PINNED"; payload: { memoryId: string; pinned: boolean } }
+  | { type: "SAVE_NOTE"; payload: { id?: string | null; title: string; body: string } }
+  | { type: "GET_PAGE_HIGHLIGHTS"; payload: { url: string; canonicalUrl?: string | null; tabId?: number } }
+  | { type: "GET_STORAGE_STATS" }
+  | { type: "RUN_STORAGE_CLEANUP"; payload: StorageCleanupAction }
+  | { type: "GET_SESSION_SETTINGS"; payload?: { windowId?: number } }
+  | { type: "UPDATE_SESSION_SETTINGS"; payload: SessionSettings }
+  | { type: "START_NEW_SESSION"; payload?: { windowId?: number } }
+  | { type: "MERGE_SESSIONS"; payload: { sourceSessionId: string; targetSessionId: string } }
+  | { type: "SPLIT_SESSION"; payload: { sessionId: string; at: number } }
+  | { type: "MOVE_MEMORIES_TO_SESSION"; payload: { memoryIds: string[]; targetSessionId: string | null } }
+  | { type: "UNDO_SESSION_EDIT"; payload: SessionEditUndo }
+  | { type: "GET_TIMELINE"; payload?: TimelineQuery }
+  | { type: "GET_ENTITY_GRAPH"; payload?: { query?: string } }
+  | { type: "GET_ENTITY_MEMORIES"; payload: { entityId: string } }
+  | { type: "GET_RELATED_MEMORIES"; payload: RelatedMemoriesQuery & { limit?: number } }
+  | { type: "GET_SMART_COLLECTIONS" }
+  | { type: "SAVE_SMART_COLLECTION"; payload: SmartCollectionDraft }
+  | { type: "DELETE_SMART_COLLECTION"; payload: { id: string } }
+  | { type: "OPEN_SMART_COLLECTION"; payload: { id: string } }
   | { type: "GET_DIAGNOSTICS" }
   | { type: "UPDATE_DIAGNOSTICS_SETTINGS"; payload: DiagnosticsSettings }
   | { type: "ECHO"; payload: unknown }
@@ -66,6 +142,34 @@ export type BackgroundResponse =
   | { type: "AUTO_ORGANIZE_RESULT"; payload: { organized: number; failed: number; total: number } }
   | { type: "REPROCESS_RESULT"; payload: { reprocessed: number; failed: number; total: number } }
   | { type: "CLEANUP_RESULT"; payload: { deleted: number; total: number } }
+  | { type: "MEMORIES_EXPORTED"; payload: MemoryExportResult }
+  | { type: "MEMORIES_IMPORTED"; payload: MemoryImportResult }
+  | { type: "MIGRATION_REPORT"; payload: MigrationReport }
+  | { type: "VAULT_STATUS"; payload: VaultStatus }
+  | { type: "RETENTION_POLICY"; payload: { policy: RetentionPolicy; lastReport: RetentionReport | null } }
+  | { type: "RETENTION_REPORT"; payload: RetentionReport }
+  | { type: "CAPTURE_RULES"; payload: { config: CaptureRulesConfig; purged: number } }
+  | { type: "CAPTURE_SITE_BLOCKED"; payload: { rule: CaptureRule; purged: number } }
+  | { type: "SENSITIVE_PAGE_SETTINGS"; payload: SensitivePageSettings }
+  | { type: "REDACTION_SETTINGS"; payload: RedactionSettings }
+  | { type: "MEMORY_REVISIONS"; payload: { memoryId: string; revisions: MemoryRevisionSummary[] } }
+  | { type: "REVISION_COMPARISON"; payload: RevisionComparison }
+  | { type: "MEMORY_TAGS"; payload: TagCount[] }
+  | { type: "MEMORY_TAGS_UPDATED"; payload: { memory: MemoryRecord; tags: TagCount[] } }
+  | { type: "MEMORY_PINNED_UPDATED"; payload: MemoryRecord }
+  | { type: "NOTE_SAVED"; payload: MemoryRecord }
+  | { type: "PAGE_HIGHLIGHTS"; payload: { url: string; highlights: PageHighlight[] } }
+  | { type: "STORAGE_STATS"; payload: StorageStats }
+  | { type: "STORAGE_CLEANUP_RESULT"; payload: StorageCleanupResult }
+  | { type: "SESSION_SETTINGS"; payload: { settings: SessionSettings; active: ActiveSession | null } }
+  | { type: "SESSION_STARTED"; payload: ActiveSession }
+  | { type: "SESSION_EDIT_RESULT"; payload: SessionEditResult }
+  | { type: "TIMELINE"; payload: TimelinePage }
+  | { type: "ENTITY_GRAPH"; payload: EntityGraph }
+  | { type: "ENTITY_MEMORIES"; payload: { entity: EntitySummary; memories: MemoryRecord[] } }
+  | { type: "RELATED_MEMORIES"; payload: { sourceMemoryId: string | null; related: RelatedMemory[] } }
+  | { type: "SMART_COLLECTIONS"; payload: SmartCollectionSummary[] }
+  | { type: "SMART_COLLECTION_OPENED"; payload: { collectionId: string; memories: MemoryRecord[]; collections: SmartCollectionSummary[] } }
   | { type: "ERROR"; message: string }
   | { type: "PROOFREADER_FIELD_RESULT"; payload: ProofreaderFieldResult }
   | { type: "COMPLETION_RESULT"; payload: CompletionResultPayload }
@@ -88,11 +192,14 @@ export type BackgroundEvent =
   | { type: "AUTOCOMPLETE_STATE_UPDATED"; payload: AutocompleteState }
   | { type: "PROOFREADER_STATE_UPDATED"; payload: { text: string; isVisible: boolean; isLoading: boolean; corrections: ProofreaderCorrection[]; error: string | null; sessionId?: string | null; correctedText?: string | null } }
   | { type: "MEMORIES_GROUPED"; payload: SessionGroup[] }
+  | { type: "SMART_COLLECTIONS_UPDATED"; payload: SmartCollectionSummary[] }
   | { type: "SIDEPANEL_OPENED" }
   | { type: "SIDEPANEL_CLOSED" }
   | { type: "INITIAL_SETTINGS"; payload: { isContextAware: boolean } }
   | { type: "CONTEXT_AWARENESS_UPDATED"; payload: { isContextAware: boolean } }
-  | { type: "DIAGNOSTICS_UPDATED"; payload: DiagnosticsSnapshot };
+  | { type: "DIAGNOSTICS_UPDATED"; payload: DiagnosticsSnapshot }
+  | { type: "MIGRATION_PROGRESS"; payload: MigrationProgress }
+  | { type: "VAULT_STATUS_CHANGED"; payload: VaultStatus };
 
 export function sendToBackground<T extends BackgroundRequest>(message: T): Promise<BackgroundResponse> {
   return new Promise((resolve, reject) => {
@@ -177,11 +284,14 @@ export function isBackgroundEvent(message: unknown): message is BackgroundEvent
         "AUTOCOMPLETE_STATE_UPDATED",
         "PROOFREADER_STATE_UPDATED",
         "MEMORIES_GROUPED",
+        "SMART_COLLECTIONS_UPDATED",
         "SIDEPANEL_OPENED",
         "SIDEPANEL_CLOSED",
         "INITIAL_SETTINGS",
         "CONTEXT_AWARENESS_UPDATED",
         "DIAGNOSTICS_UPDATED",
+        "MIGRATION_PROGRESS",
+        "VAULT_STATUS_CHANGED",
       ].includes(
         (message as { type: string }).type,
       ),
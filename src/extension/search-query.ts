@@ -0,0 +1,56 @@
+// Tokens of the memory search syntax, shared by the background parser and the sidepanel's filter chips.
+// `site:`, `session:`, `tag:`, `before:`, `after:` and `source:` are filters, "quoted text" is a phrase,
+// and a leading `-` excludes a word, phrase or filter value.
+
+export const SEARCH_FILTER_FIELDS = ["site", "session", "tag", "before", "after", "source"] as const;
+
+export type SearchFilterField = (typeof SEARCH_FILTER_FIELDS)[number];
+
+export type SearchQueryToken =
+  | { kind: "filter"; field: SearchFilterField; value: string; negated: boolean; raw: string }
+  | { kind: "phrase"; value: string; negated: boolean; raw: string }
+  | { kind: "word"; value: string; negated: boolean; raw: string };
+
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+function isFilterField(field: string): field is SearchFilterField {
+  return (SEARCH_FILTER_FIELDS as readonly string[]).includes(field);
+}
+
+export function tokenizeSearchQuery(query: string): SearchQueryToken[] {
+  const tokens: SearchQueryToken[] = [];
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [raw, minus, field, quoted, bare] = match;
+    const negated = minus === "-";
+    const value = (quoted ?? bare ?? "").trim();
+    const fieldName = field?.toLowerCase();
+
+    if (fieldName && isFilterField(fieldName)) {
+      if (value) {
+        tokens.push({ kind: "filter", field: fieldName, value, negated, raw });
+      }
+    } else if (field) {
+      // Not a filter, e.g. "https://..." or "note:"; keep it as ordinary text
+      tokens.push({ kind: "word", value: raw.slice(minus.length), negated, raw });
+    } else if (quoted !== undefined) {
+      if (value) {
+        tokens.push({ kind: "phrase", value, negated, raw });
+      }
+    } else if (isFilterField(value.toLowerCase().replace(/:$/, "")) && value.endsWith(":")) {
+      // A filter still being typed, like "site:", is ignored until it has a value
+      continue;
+    } else if (value && value !== "-") {
+      tokens.push({ kind: "word", value, negated, raw });
+    }
+  }
+  return tokens;
+}
+
+// Drop one token (by its raw text) from a query, e.g. when its chip is dismissed
+export function removeSearchToken(query: string, raw: string): string {
+  const index = query.indexOf(raw);
+  if (index === -1) {
+    return query;
+  }
+  return `${query.slice(0, index)} ${query.slice(index + raw.length)}`.replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,61 @@
+import type { SensitivePageReason } from "./types";
+
+// Runs in the page before Readability so sensitive pages are never parsed or sent to the service worker
+
+const PAYMENT_AUTOCOMPLETE = /\bcc-(number|csc|exp|exp-month|exp-year|name|type)\b/i;
+const PAYMENT_FIELD_NAME = /(card.?number|cc.?num|credit.?card|cvv|cvc|security.?code)/i;
+const LOGIN_WALL_TEXT =
+  /\b(sign|log) ?in to (continue|read|view|access|see)\b|\bsubscribe to (continue|read)\b|\bcreate an account to (continue|read)\b/i;
+const LOGIN_WALL_MAX_TEXT = 2000;
+
+function isVisible(element: HTMLElement): boolean {
+  if (element.hidden || element.getAttribute("aria-hidden") === "true") {
+    return false;
+  }
+  const style = window.getComputedStyle(element);
+  return style.display !== "none" && style.visibility !== "hidden" && element.getClientRects().length > 0;
+}
+
+function hasPasswordField(doc: Document): boolean {
+  return Array.from(doc.querySelectorAll<HTMLInputElement>('input[type="password"]')).some(isVisible);
+}
+
+function hasPaymentForm(doc: Document): boolean {
+  return Array.from(doc.querySelectorAll<HTMLInputElement>("input, select")).some((field) => {
+    const autocomplete = field.getAttribute("autocomplete") ?? "";
+    const identity = `${field.name} ${field.id} ${field.getAttribute("aria-label") ?? ""}`;
+    return PAYMENT_AUTOCOMPLETE.test(autocomplete) || (PAYMENT_FIELD_NAME.test(identity) && isVisible(field));
+  });
+}
+
+// A short page whose visible text asks the reader to sign in is a wall, not content
+function hasLoginWall(doc: Document): boolean {
+  const text = doc.body?.innerText ?? "";
+  if (text.length > LOGIN_WALL_MAX_TEXT) {
+    return false;
+  }
+  return LOGIN_WALL_TEXT.test(text) || /^(sign|log) ?in\b/i.test(doc.title.trim());
+}
+
+function hasNoStoreHint(doc: Document): boolean {
+  return Array.from(doc.querySelectorAll<HTMLMetaElement>("meta")).some((meta) => {
+    const name = (meta.getAttribute("http-equiv") ?? meta.getAttribute("name") ?? "").toLowerCase();
+    const content = (meta.getAttribute("content") ?? "").toLowerCase();
+    if (name === "cache-control" || name === "pragma") {
+      return content.includes("no-store");
+    }
+    if (name === "robots" || name === "googlebot") {
+      return content.includes("noarchive");
+    }
+    return false;
+  });
+}
+
+export function detectSensitivePage(doc: Document = document): SensitivePageReason[] {
+  const reasons: SensitivePageReason[] = [];
+  if (hasPasswordField(doc)) reasons.push("password-field");
+  if (hasPaymentForm(doc)) reasons.push("payment-form");
+  if (hasLoginWall(doc)) reasons.push("login-wall");
+  if (hasNoStoreHint(doc)) reasons.push("no-store");
+  return reasons;
+}
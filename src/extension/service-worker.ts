@@ -1,24 +1,104 @@
 /// <reference types="chrome" />
 
-import { addContentChunks, addOrUpdateMemory, clearAllMemories, forceDatabaseUpgrade, getAllMemories, getMemoryByUrl, getRecentChunksBySession, searchMemories, getAllChunks, deleteMemory, getMemoriesGroupedBySessions, autoOrganizeUnorganizedMemories, reprocessUnorganizedMemories, cleanupUnorganizedMemories, aiOrganizeUnorganizedMemories, extractKeywordsFromText, getChunksByKeywords, getMemoriesByIds, sanitizeKeyPointsText, buildStructuredSummary } from "./background/memory-store";
+import { addContentChunks, addOrUpdateMemory, clearAllMemories, forceDatabaseUpgrade, getAllMemories, getMemoryByUrl, getRecentChunksBySession, searchMemories, getAllChunks, deleteMemory, getMemoriesGroupedBySessions, autoOrganizeUnorganizedMemories, reprocessUnorganizedMemories, cleanupUnorganizedMemories, aiOrganizeUnorganizedMemories, extractKeywordsFromText, getChunksByKeywords, hybridSearchChunks, backfillChunkVectors, runDatabaseMigrations, DATABASE_VERSION, getMemoriesByIds, sanitizeKeyPointsText, buildStructuredSummary, rewriteStoredRecords, addMemoryRevision, getMemoryRevisions, removeMemoryChunks, getMemoryIdsWithTags, getTagCounts, setMemoryTags, setMemoryPinned } from "./background/memory-store";
 import { extractContentStructure } from "./background/page-scraper";
+import { buildMarkdownExport, buildMemoryExportBundle, importMemoryExportBundle, parseMemoryExportBundle } from "./background/memory-transfer";
 import { generateKeyPointSummary, isSummarizerReady } from "./background/summarizer";
 import { generateCompletionFromPrompt, generateJsonFromPrompt, generateWithCustomPrompt, isLanguageModelReady, rankMemoriesWithPrompt } from "./background/language-model";
 import { isProofreaderReady, proofreadText } from "./background/proofreader";
 import { addModelStatusListener, getModelStatuses, updateModelStatus } from "./background/model-status";
+import {
+  addVaultStatusListener,
+  disableVault,
+  enableVault,
+  getVaultStatus,
+  isVaultLocked,
+  lockVault,
+  unlockVault,
+  updateVaultAutoLock,
+  VAULT_AUTOLOCK_ALARM,
+  VAULT_LOCKED_MESSAGE,
+} from "./background/vault";
+import {
+  getLastRetentionReport,
+  getRetentionPolicy,
+  RETENTION_ALARM,
+  runRetentionJanitor,
+  saveRetentionPolicy,
+  scheduleRetentionJanitor,
+} from "./background/retention";
+import { resolveCanonicalUrl } from "./background/url-normalizer";
+import { normalizeTags } from "./background/tags";
+import { filterMemoriesBySearch, getSearchScope, parseSearchQuery } from "./background/search-query";
+import { isNoteMemory, saveNote } from "./background/notes";
+import { getPageHighlights, saveHighlight } from "./background/highlights";
+import { getStorageStats, runStorageCleanup } from "./background/storage-stats";
+import {
+  activateWindowSession,
+  forgetWindowSession,
+  getActiveSession,
+  getSessionSettings,
+  mergeSessions,
+  moveMemoriesToSession,
+  resolveCaptureSession,
+  saveSessionSettings,
+  splitSession,
+  startNewSession,
+  undoSessionEdit,
+} from "./background/sessions";
+import { endTabVisit, trackFocusedTab } from "./background/dwell";
+import { getTimeline } from "./background/timeline";
+import { getRelatedMemories } from "./background/related";
+import {
+  deleteSmartCollection,
+  getSmartCollections,
+  invalidateSmartCollectionMatches,
+  openSmartCollection,
+  refreshSessionSmartCollections,
+  saveSmartCollection,
+  updateSmartCollectionMatches,
+} from "./background/collections";
+import { backfillMemoryEntities, findRelatedEntities, getEntityGraph, getEntityMemories, indexMemoryEntities } from "./background/entities";
+import { compareRevisions, computeCaptureHash, ensureBaselineRevision, summarizeRevision, toRevisionChunks } from "./background/revisions";
+import { countRedactions, getRedactionSettings, mergeRedactionCounts, redactContextEntries, redactText, saveRedactionSettings } from "./background/redaction";
+import {
+  clearSensitiveSkips,
+  getSensitivePageSettings,
+  recordSensitiveSkip,
+  setSensitiveDetectionEnabled,
+  setSensitiveHostAllowed,
+  shouldCheckSensitivePage,
+} from "./background/sensitive-pages";
+import { blockCaptureSite, getCaptureRules, isCaptureAllowed, purgeDisallowedMemories, saveCaptureRules } from "./background/capture-rules";
 import type {
   AskContextItem,
   AskResponsePayload,
   AutocompleteContextEntry,
   AutocompleteFieldType,
   AutocompleteState,
+  CaptureRulesConfig,
   CompletionRequestPayload,
   CompletionResultPayload,
   DiagnosticsMetrics,
   DiagnosticsSettings,
   DiagnosticsSnapshot,
+  MemoryExportFormat,
+  MemoryExportResult,
   MemoryRecord,
+  MemoryRevisionChunk,
   ProofreaderFieldResult,
+  RetentionPolicy,
+  SensitivePageReason,
+  RedactionCounts,
+  RedactionSettings,
+  StorageCleanupAction,
+  SessionSettings,
+  SessionEditResult,
+  SessionEditUndo,
+  TimelineQuery,
+  RelatedMemoriesQuery,
+  SmartCollectionSummary,
+  SmartCollectionDraft,
 } from "./types";
 import type { BackgroundResponse } from "./messaging";
 
@@ -48,6 +128,51 @@ export type ExtensionRuntimeMessage =
   | { type: "ASK_NANOSCRIBE"; payload: { question: string } }
   | { type: "CLEAR_ALL_MEMORIES" }
   | { type: "FORCE_DATABASE_UPGRADE" }
+  | { type: "RUN_DATABASE_MIGRATIONS"; payload: { dryRun: boolean } }
+  | { type: "EXPORT_MEMORIES"; payload: { format: MemoryExportFormat } }
+  | { type: "IMPORT_MEMORIES"; payload: { bundle: unknown } }
+  | { type: "GET_VAULT_STATUS" }
+  | { type: "SETUP_VAULT"; payload: { passphrase: string; autoLockMinutes: number } }
+  | { type: "UNLOCK_VAULT"; payload: { passphrase: string } }
+  | { type: "LOCK_VAULT" }
+  | { type: "DISABLE_VAULT"; payload: { passphrase: string } }
+  | { type: "UPDATE_VAULT_SETTINGS"; payload: { autoLockMinutes: number } }
+  | { type: "GET_RETENTION_POLICY" }
+  | { type: "UPDATE_RETENTION_POLICY"; payload: RetentionPolicy }
+  | { type: "RUN_RETENTION_JANITOR"; payload: { dryRun: boolean } }
+  | { type: "GET_CAPTURE_RULES" }
+  | { type: "UPDATE_CAPTURE_RULES"; payload: { config: CaptureRulesConfig; purgeExisting: boolean } }
+  | { type: "BLOCK_CAPTURE_SITE"; payload: { url: string } }
+  | { type: "GET_SENSITIVE_PAGE_SETTINGS" }
+  | { type: "UPDATE_SENSITIVE_DETECTION"; payload: { enabled: boolean } }
+  | { type: "ALLOW_SENSITIVE_HOST"; payload: { host: string; allowed: boolean } }
+  | { type: "CLEAR_SENSITIVE_SKIPS" }
+  | { type: "GET_REDACTION_SETTINGS" }
+  | { type: "UPDATE_REDACTION_SETTINGS"; payload: RedactionSettings }
+  | { type: "GET_MEMORY_REVISIONS"; payload: { memoryId: string } }
+  | { type: "COMPARE_MEMORY_REVISIONS"; payload: { memoryId: string; fromId?: string | null; toId?: string | null } }
+  | { type: "GET_MEMORY_TAGS" }
+  | { type: "UPDATE_MEMORY_TAGS"; payload: { memoryId: string; tags: string[] } }
+  | { type: "SET_MEMORY_PINNED"; payload: { memoryId: string; pinned: boolean } }
+  | { type: "SAVE_NOTE"; payload: { id?: string | null; title: string; body: string } }
+  | { type: "GET_PAGE_HIGHLIGHTS"; payload: { url: string; canonicalUrl?: string | null; tabId?: number } }
+  | { type: "GET_STORAGE_STATS" }
+  | { type: "RUN_STORAGE_CLEANUP"; payload: StorageCleanupAction }
+  | { type: "GET_SESSION_SETTINGS"; payload?: { windowId?: number } }
+  | { type: "UPDATE_SESSION_SETTINGS"; payload: SessionSettings }
+  | { type: "START_NEW_SESSION"; payload?: { windowId?: number } }
+  | { type: "MERGE_SESSIONS"; payload: { sourceSessionId: string; targetSessionId: string } }
+  | { type: "SPLIT_SESSION"; payload: { sessionId: string; at: number } }
+  | { type: "MOVE_MEMORIES_TO_SESSION"; payload: { memoryIds: string[]; targetSessionId: string | null } }
+  | { type: "UNDO_SESSION_EDIT"; payload: SessionEditUndo }
+  | { type: "GET_TIMELINE"; payload?: TimelineQuery }
+  | { type: "GET_ENTITY_GRAPH"; payload?: { query?: string } }
+  | { type: "GET_ENTITY_MEMORIES"; payload: { entityId: string } }
+  | { type: "GET_RELATED_MEMORIES"; payload: RelatedMemoriesQuery & { limit?: number } }
+  | { type: "GET_SMART_COLLECTIONS" }
+  | { type: "SAVE_SMART_COLLECTION"; payload: SmartCollectionDraft }
+  | { type: "DELETE_SMART_COLLECTION"; payload: { id: string } }
+  | { type: "OPEN_SMART_COLLECTION"; payload: { id: string } }
   | { type: "RUN_READABILITY_TESTS" }
   | { type: "TEST_MEMORY_CREATION"; payload: { urls: string[] } }
   | { type: "TEST_DATABASE_STATUS" }
@@ -75,6 +200,8 @@ const COMPLETION_TIMEOUT_MS = 45_000;
 const MAX_COMPLETION_RETRIES = 1;
 const COMPLETION_RETRY_DELAY_MS = 3_000;
 const COMPLETION_RETRY_COOLDOWN_MS = 5_000;
+const ASK_ENTITY_EXPANSION_SLOTS = 10;
+const START_NEW_SESSION_COMMAND = "start-new-session";
 
 const pendingSummaries = new Map<string, PendingSummary>();
 
@@ -254,6 +381,11 @@ setInterval(() => {
 chrome.storage.onChanged.addListener((changes, areaName) => {
   if (areaName !== "local") return;
 
+  // Renamed sessions change what session: filters match
+  if (Object.prototype.hasOwnProperty.call(changes, "sessionTitles")) {
+    scheduleSessionCollectionRefresh();
+  }
+
   if (Object.prototype.hasOwnProperty.call(changes, "isContextAware")) {
     const newValue = changes.isContextAware.newValue ?? true;
     broadcast({ type: "CONTEXT_AWARENESS_UPDATED", payload: { isContextAware: newValue } });
@@ -428,6 +560,10 @@ addModelStatusListener((statuses) => {
   broadcast({ type: "MODEL_STATUS_CHANGED", payload: statuses });
 });
 
+addVaultStatusListener((status) => {
+  broadcast({ type: "VAULT_STATUS_CHANGED", payload: status });
+});
+
 // Periodic status broadcast to ensure sidepanel stays in sync
 setInterval(() => {
   broadcast({ type: "MODEL_STATUS_CHANGED", payload: getModelStatuses() });
@@ -462,7 +598,8 @@ function scheduleSummarization(tabId: number, url: string, title: string | undef
   sendSummaryToast(tabId, {
     state: "loading",
     title: "Tab summarization started",
-    description: "Capturing this page while you read…"
+    description: "Capturing this page while you read…",
+    captureUrl: url,
   });
 }
 
@@ -480,7 +617,40 @@ async function ensureSummarizerReady() {
 }
 
 // New function to extract DOM with Readability from content script
-async function getPageContentWithReadability(tabId: number): Promise<{ title: string; textContent: string; chunks: string[]; baseURI: string }> {
+const SENSITIVE_REASON_COPY: Record<SensitivePageReason, string> = {
+  "password-field": "password field",
+  "payment-form": "payment form",
+  "login-wall": "sign-in wall",
+  "no-store": "page asks not to be stored",
+};
+
+// Ask the content script for sensitive-page signals; an unreachable tab reports none and fails later at extraction
+async function detectSensitivePageInTab(tabId: number): Promise<SensitivePageReason[]> {
+  return new Promise((resolve) => {
+    chrome.tabs.sendMessage(tabId, { type: "DETECT_SENSITIVE_PAGE" }, (response) => {
+      const lastError = chrome.runtime.lastError;
+      if (lastError || !response?.success) {
+        console.warn(`${LOG_PREFIX} Sensitive page check unavailable for tab ${tabId}:`, lastError?.message ?? response?.error);
+        resolve([]);
+        return;
+      }
+      resolve(Array.isArray(response.reasons) ? (response.reasons as SensitivePageReason[]) : []);
+    });
+  });
+}
+
+type ReadabilityPageContent = { title: string; textContent: string; chunks: string[]; baseURI: string; canonicalUrl?: string | null };
+
+// The page's <link rel="canonical"> (or og:url) from its content script; null when the tab can't answer
+function requestCanonicalHint(tabId: number): Promise<string | null> {
+  return new Promise((resolve) => {
+    chrome.tabs.sendMessage(tabId, { type: "GET_CANONICAL_HINT" }, (response) => {
+      resolve(chrome.runtime.lastError ? null : (response?.canonicalUrl ?? null));
+    });
+  });
+}
+
+async function getPageContentWithReadability(tabId: number): Promise<ReadabilityPageContent> {
   return new Promise((resolve, reject) => {
     chrome.tabs.sendMessage(
       tabId,
@@ -496,13 +666,14 @@ async function getPageContentWithReadability(tabId: number): Promise<{ title: st
         if (response?.success && response?.data) {
           console.log(`${LOG_PREFIX} ✅ Received processed content from Readability`);
 
-          const { title, textContent, chunks, baseURI } = response.data as { title: string; textContent: string; chunks: string[]; baseURI: string };
+          const { title, textContent, chunks, baseURI, canonicalUrl } = response.data as ReadabilityPageContent;
 
           resolve({
             title,
             textContent,
             chunks,
             baseURI,
+            canonicalUrl,
           });
         } else {
           const errorMsg = response?.error || "Content extraction failed";
@@ -520,10 +691,45 @@ async function getPageContentWithReadability(tabId: number): Promise<{ title: st
   });
 }
 
+// Key points are generated from redacted text; scrub them too in case the summarizer reassembled a match
+function redactKeyPoints(keyPoints: string, settings: RedactionSettings, counts: RedactionCounts): string {
+  const result = redactText(keyPoints, settings);
+  mergeRedactionCounts(counts, result.counts);
+  return result.text;
+}
+
+// Page and section titles are stored as memory and chunk titles, outside the sealed chunk text
+function redactTitle(title: string, settings: RedactionSettings, counts: RedactionCounts): string {
+  const result = redactText(title, settings);
+  mergeRedactionCounts(counts, result.counts);
+  return result.text;
+}
+
+// Unchanged re-captures are skipped; a changed page replaces its chunks and keeps the old capture as a revision.
+// Returns false when the page is unchanged and nothing should be stored.
+async function prepareRecapture(url: string, contentHash: string): Promise<boolean> {
+  const previous = await getMemoryByUrl(url);
+  if (!previous) {
+    return true;
+  }
+  const latestRevision = await ensureBaselineRevision(previous);
+  if (latestRevision?.contentHash === contentHash) {
+    console.log(`${LOG_PREFIX} ⏭️ ${url} unchanged since the last capture, skipping`);
+    return false;
+  }
+  await removeMemoryChunks(previous.id, { keepHighlights: true });
+  return true;
+}
+
 // New Readability-based content processing function
-async function processAndStoreWithReadability(url: string, title: string, textContent: string, chunks: string[], baseURI: string) {
+async function processAndStoreWithReadability(url: string, pageTitle: string, textContent: string, chunks: string[], baseURI: string, windowId?: number) {
   console.log(`${LOG_PREFIX} 📖 Processing page with Readability: ${url}`);
 
+  if (await isVaultLocked()) {
+    console.info(`${LOG_PREFIX} 🔒 Memory vault locked, not storing ${url}`);
+    return;
+  }
+
   try {
     console.log(`${LOG_PREFIX} ✅ Content script extracted ${textContent.length} characters of clean text`);
 
@@ -534,18 +740,24 @@ async function processAndStoreWithReadability(url: string, title: string, textCo
 
     console.log(`${LOG_PREFIX} 📦 Created ${chunks.length} content chunks`);
 
-    // Get current session for chunking
-    const { currentSessionId } = await chrome.storage.local.get('currentSessionId');
-    if (!currentSessionId) {
-      // Create a new session if none exists
-      const newSessionId = crypto.randomUUID();
-      await chrome.storage.local.set({
-        currentSessionId: newSessionId,
-        sessionLastActiveTimestamp: Date.now()
-      });
-      console.log(`${LOG_PREFIX} 🔄 Created new session for indexing: ${newSessionId}`);
+    // Replace personal data with placeholders before anything is summarized or stored
+    const redactionSettings = await getRedactionSettings();
+    const redactions: RedactionCounts = {};
+    const title = redactTitle(pageTitle, redactionSettings, redactions);
+    const redactedChunks = chunks.map((chunk) => {
+      const result = redactText(chunk, redactionSettings);
+      mergeRedactionCounts(redactions, result.counts);
+      return result.text;
+    });
+
+    const contentHash = await computeCaptureHash(redactedChunks);
+    if (!(await prepareRecapture(url, contentHash))) {
+      return;
     }
 
+    // Pick the session for this capture, starting a new one after an idle gap or a change of topic
+    const sessionId = await resolveCaptureSession({ windowId, text: `${title} ${redactedChunks.join(" ")}` });
+
     // Store memory record
     await addOrUpdateMemory({
       url,
@@ -561,11 +773,8 @@ async function processAndStoreWithReadability(url: string, title: string, textCo
       return;
     }
 
-    // Get the updated session ID (in case we just created one)
-    const { currentSessionId: sessionId } = await chrome.storage.local.get('currentSessionId');
-
     // Generate key points for each chunk and store
-    const chunkPromises = chunks.map(async (chunk, index) => {
+    const chunkPromises = redactedChunks.map(async (chunk, index) => {
       let keyPoints = '';
       try {
         // Try AI summarization first
@@ -583,6 +792,7 @@ async function processAndStoreWithReadability(url: string, title: string, textCo
         const sentences = chunk.split(/[.!?]\s+/).filter(Boolean).slice(0, 3);
         keyPoints = sentences.length > 0 ? `- ${sentences.join("\n- ")}` : chunk.slice(0, 200);
       }
+      keyPoints = redactKeyPoints(keyPoints, redactionSettings, redactions);
 
       const keywords = extractKeywordsFromText(`${title} ${keyPoints} ${chunk}`);
 
@@ -602,7 +812,7 @@ async function processAndStoreWithReadability(url: string, title: string, textCo
     await addContentChunks(processedChunks);
 
     // Generate overall summary from first few chunks
-    const summaryText = chunks.slice(0, 3).join('\n\n');
+    const summaryText = redactedChunks.slice(0, 3).join('\n\n');
     let overallSummary = '';
     try {
       overallSummary = (await generateKeyPointSummary(summaryText)) ?? '';
@@ -619,9 +829,26 @@ async function processAndStoreWithReadability(url: string, title: string, textCo
       title,
       summary: overallSummary,
       structuredSummary,
+      redactions,
+    });
+
+    await addMemoryRevision({
+      memoryId: memory.id,
+      capturedAt: Date.now(),
+      contentHash,
+      summary: overallSummary,
+      structuredSummary,
+      chunks: toRevisionChunks(processedChunks),
     });
 
+    const redactionTotal = countRedactions(redactions);
+    if (redactionTotal > 0) {
+      console.log(`${LOG_PREFIX} 🕶️ Redacted ${redactionTotal} personal data matches from ${url}`);
+    }
+
     console.log(`${LOG_PREFIX} ✅ Successfully indexed ${url} with Readability (${chunks.length} chunks, ${processedChunks.length} processed)`);
+    scheduleEntityIndexing(memory.id, "capture");
+    scheduleSmartCollectionRefresh(memory.id);
 
     // Broadcast completion
     chrome.runtime.sendMessage({
@@ -721,15 +948,53 @@ async function handleSummarizeAlarm(alarmName: string) {
   // Allow URL changes (e.g., from search to actual page)
   const actualUrl = tab.url!;
 
-  const existing = await getMemoryByUrl(actualUrl);
+  // The page may have navigated to a blocked URL during the dwell delay
+  if (!(await isCaptureAllowed(actualUrl)).allowed) {
+    console.info(`${LOG_PREFIX} 🚫 Capture rules skip`, actualUrl);
+    return;
+  }
+
+  // New captures cannot be sealed without the vault key, so skip them until it is unlocked
+  if (await isVaultLocked()) {
+    console.info(`${LOG_PREFIX} 🔒 Memory vault locked, skipping capture for`, actualUrl);
+    return;
+  }
+
+  // Store under the page's canonical address so tracking, AMP and mobile variants share one memory and one cooldown
+  const memoryUrl = resolveCanonicalUrl(actualUrl, await requestCanonicalHint(pending.tabId));
+  if (memoryUrl !== actualUrl) {
+    console.log(`${LOG_PREFIX} 🔗 Canonical URL for ${actualUrl}: ${memoryUrl}`);
+    // The canonical address can point at a host or path the rules block even when the visited one is allowed
+    if (!(await isCaptureAllowed(memoryUrl)).allowed) {
+      console.info(`${LOG_PREFIX} 🚫 Capture rules skip canonical URL`, memoryUrl);
+      return;
+    }
+  }
+
+  const existing = await getMemoryByUrl(memoryUrl);
   if (existing && Date.now() - existing.updatedAt < DUPLICATE_COOLDOWN_MS) {
-    console.info(`${LOG_PREFIX} Skipping summarization, recent entry exists for`, actualUrl);
+    console.info(`${LOG_PREFIX} Skipping summarization, recent entry exists for`, memoryUrl);
     return;
   }
 
   console.log(`${LOG_PREFIX} 🔄 Starting Readability-based indexing for ${actualUrl}`);
 
   try {
+    // Check for passwords, payment forms and similar before any page text leaves the tab
+    if (await shouldCheckSensitivePage(actualUrl)) {
+      const reasons = await detectSensitivePageInTab(pending.tabId);
+      if (reasons.length > 0) {
+        console.info(`${LOG_PREFIX} 🔒 Skipping sensitive page ${actualUrl}: ${reasons.join(", ")}`);
+        await recordSensitiveSkip(actualUrl, tab.title ?? pending.title, reasons);
+        sendSummaryToast(pending.tabId, {
+          state: "error",
+          title: "Page not captured",
+          description: `This page looks sensitive (${reasons.map((reason) => SENSITIVE_REASON_COPY[reason]).join(", ")}). You can allow this site in Settings → Sensitive pages.`,
+        });
+        return;
+      }
+    }
+
     // Use new Readability-based content extraction from content script
     const { title, textContent, chunks, baseURI } = await getPageContentWithReadability(pending.tabId);
 
@@ -740,7 +1005,7 @@ async function handleSummarizeAlarm(alarmName: string) {
     }
 
     // Process with Readability instead of the old extractContentStructure
-    await processAndStoreWithReadability(actualUrl, title, textContent, chunks, baseURI);
+    await processAndStoreWithReadability(memoryUrl, title, textContent, chunks, baseURI, tab.windowId);
 
   } catch (error) {
     console.error(`${LOG_PREFIX} ❌ Failed to index ${pending.url} with Readability:`, error);
@@ -770,7 +1035,24 @@ async function handleSummarizeAlarm(alarmName: string) {
         return;
       }
 
-      const trimmedText = readableText.slice(0, 6_000);
+      const redactionSettings = await getRedactionSettings();
+      const redactions: RedactionCounts = {};
+      const trimmedText = redactText(readableText.slice(0, 6_000), redactionSettings).text;
+      const title = redactTitle(tab.title ?? pending.title ?? actualUrl, redactionSettings, redactions);
+      const redactedChunks = contentStructure.chunks.map((rawChunk) => {
+        const redacted = redactText(rawChunk.text, redactionSettings);
+        mergeRedactionCounts(redactions, redacted.counts);
+        const chunkTitle = rawChunk.title ? redactTitle(rawChunk.title, redactionSettings, redactions) : rawChunk.title;
+        return { ...rawChunk, title: chunkTitle, text: redacted.text };
+      });
+
+      // Same change detection as Readability captures; a page without chunks is compared by its text
+      const contentHash = await computeCaptureHash(
+        redactedChunks.length > 0 ? redactedChunks.map((chunk) => chunk.text) : [trimmedText],
+      );
+      if (!(await prepareRecapture(memoryUrl, contentHash))) {
+        return;
+      }
 
       // Always try to generate a summary, even if summarizer status says it's not ready
       // The generateKeyPointSummary function will handle fallback internally
@@ -793,18 +1075,19 @@ async function handleSummarizeAlarm(alarmName: string) {
 
       console.log(`${LOG_PREFIX} 📝 Final summary length: ${summary.length} characters`);
 
-      const saved = await addOrUpdateMemory({
-        url: actualUrl,
-        title: tab.title ?? pending.title ?? actualUrl,
+      let saved = await addOrUpdateMemory({
+        url: memoryUrl,
+        title,
         summary,
       });
 
       console.info(`${LOG_PREFIX} Saved memory for`, actualUrl);
 
-      if (contentStructure.chunks.length > 0) {
-        const { currentSessionId: activeSessionId } = await chrome.storage.local.get('currentSessionId');
+      let revisionChunks: MemoryRevisionChunk[] = [];
+      if (redactedChunks.length > 0) {
+        const activeSessionId = await resolveCaptureSession({ windowId: tab.windowId, text: `${saved.title} ${trimmedText}` });
 
-        const chunkPromises = contentStructure.chunks.map(async (chunk) => {
+        const chunkPromises = redactedChunks.map(async (chunk) => {
           let keyPoints = '';
           try {
             if (summarizerStatus.ready) {
@@ -821,6 +1104,7 @@ async function handleSummarizeAlarm(alarmName: string) {
             const sentences = chunk.text.split(/[.!?]\s+/).filter(Boolean).slice(0, 3);
             keyPoints = sentences.length > 0 ? `- ${sentences.join("\n- ")}` : chunk.text.slice(0, 200);
           }
+          keyPoints = redactKeyPoints(keyPoints, redactionSettings, redactions);
 
           const keywords = extractKeywordsFromText(`${chunk.title ?? ''} ${keyPoints} ${chunk.text}`);
 
@@ -838,8 +1122,22 @@ async function handleSummarizeAlarm(alarmName: string) {
 
         const processedChunks = await Promise.all(chunkPromises);
         await addContentChunks(processedChunks);
+        revisionChunks = toRevisionChunks(processedChunks);
+        saved = await addOrUpdateMemory({ url: saved.url, title: saved.title, summary: saved.summary, redactions });
       }
 
+      await addMemoryRevision({
+        memoryId: saved.id,
+        capturedAt: Date.now(),
+        contentHash,
+        summary: saved.summary,
+        structuredSummary: saved.structuredSummary,
+        chunks: revisionChunks,
+      });
+
+      scheduleEntityIndexing(saved.id, "legacy capture");
+      scheduleSmartCollectionRefresh(saved.id);
+
       chrome.runtime.sendMessage(
         { type: "MEMORY_SAVED", payload: saved } satisfies {
           type: "MEMORY_SAVED";
@@ -858,6 +1156,119 @@ async function handleSummarizeAlarm(alarmName: string) {
   }
 }
 
+function runPendingMigrations(trigger: string) {
+  runDatabaseMigrations({ onProgress: (progress) => broadcast({ type: "MIGRATION_PROGRESS", payload: progress }) })
+    .then((report) => {
+      if (report.steps.length > 0 || report.status !== "completed") {
+        console.info(`${LOG_PREFIX} 🔄 Database migrations (${trigger}) ${report.status}: v${report.fromVersion} → v${report.toVersion}`);
+      }
+    })
+    .catch((error) => {
+      console.warn(`${LOG_PREFIX} Database migrations failed on ${trigger}`, error);
+    });
+}
+
+// Run the janitor and refresh open sidepanels when anything was evicted
+async function applyRetentionPolicy(trigger: string) {
+  try {
+    const report = await runRetentionJanitor(trigger);
+    if (report.evicted.length > 0) {
+      broadcast({ type: "MEMORIES_GROUPED", payload: await getMemoriesGroupedBySessions() });
+    }
+    return report;
+  } catch (error) {
+    console.warn(`${LOG_PREFIX} Retention janitor failed on ${trigger}`, error);
+    throw error;
+  }
+}
+
+function runVectorBackfill(trigger: string) {
+  backfillChunkVectors()
+    .then(({ embedded, total }) => {
+      if (embedded > 0) {
+        console.info(`${LOG_PREFIX} ✅ Vector backfill (${trigger}) embedded ${embedded} of ${total} chunks`);
+      }
+    })
+    .catch((error) => {
+      console.warn(`${LOG_PREFIX} Vector backfill failed on ${trigger}`, error);
+    });
+}
+
+function runEntityBackfill(trigger: string) {
+  backfillMemoryEntities()
+    .then(({ indexed, total }) => {
+      if (indexed > 0) {
+        console.info(`${LOG_PREFIX} ✅ Entity backfill (${trigger}) indexed ${indexed} of ${total} memories`);
+      }
+    })
+    .catch((error) => {
+      console.warn(`${LOG_PREFIX} Entity backfill failed on ${trigger}`, error);
+    });
+}
+
+// Entity extraction can take a model call per chunk, so it runs after the memory is saved and broadcast
+function scheduleEntityIndexing(memoryId: string, trigger: string) {
+  indexMemoryEntities(memoryId).catch((error) => {
+    console.warn(`${LOG_PREFIX} Entity extraction failed after ${trigger}`, error);
+  });
+}
+
+const SMART_COLLECTION_REFRESH_DELAY_MS = 1500;
+let smartCollectionRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+const pendingSmartCollectionMemoryIds = new Set<string>();
+let pendingSessionCollectionRefresh = false;
+
+// Smart collection matches follow memory changes; a burst of captures or edits is checked in one pass
+function scheduleSmartCollectionRefresh(memoryId: string) {
+  pendingSmartCollectionMemoryIds.add(memoryId);
+  queueSmartCollectionRefresh();
+}
+
+// Session edits can change session: filter matches for memories that were not touched
+function scheduleSessionCollectionRefresh() {
+  pendingSessionCollectionRefresh = true;
+  queueSmartCollectionRefresh();
+}
+
+function queueSmartCollectionRefresh() {
+  if (smartCollectionRefreshTimer !== null) {
+    return;
+  }
+
+  smartCollectionRefreshTimer = setTimeout(() => {
+    smartCollectionRefreshTimer = null;
+    const memoryIds = Array.from(pendingSmartCollectionMemoryIds);
+    const sessionsChanged = pendingSessionCollectionRefresh;
+    pendingSmartCollectionMemoryIds.clear();
+    pendingSessionCollectionRefresh = false;
+
+    ;(async () => {
+      if (await isVaultLocked()) {
+        await invalidateSmartCollectionMatches();
+        return;
+      }
+      let collections = await updateSmartCollectionMatches(memoryIds);
+      if (sessionsChanged) {
+        collections = (await refreshSessionSmartCollections()) ?? collections;
+      }
+      if (collections) {
+        broadcast({ type: "SMART_COLLECTIONS_UPDATED", payload: collections });
+      }
+    })().catch((error) => {
+      console.warn(`${LOG_PREFIX} Smart collection refresh failed`, error);
+    });
+  }, SMART_COLLECTION_REFRESH_DELAY_MS);
+}
+
+const SUMMARIZE_SELECTION_MENU_ID = "nanoscribe_summarize_selection";
+const SAVE_SELECTION_MENU_ID = "nanoscribe_save_selection";
+const SUMMARIZE_SAVE_SELECTION_MENU_ID = "nanoscribe_summarize_save_selection";
+const SELECTION_MENU_ITEMS: { id: string; title: string }[] = [
+  { id: SUMMARIZE_SELECTION_MENU_ID, title: "NanoScribe: Summarize Selection" },
+  { id: SAVE_SELECTION_MENU_ID, title: "Save to NanoScribe" },
+  { id: SUMMARIZE_SAVE_SELECTION_MENU_ID, title: "Summarize & save" },
+];
+
 chrome.runtime.onInstalled.addListener((details) => {
   if (details.reason === "install") {
     console.info(`${LOG_PREFIX} Extension installed.`);
@@ -879,22 +1290,26 @@ chrome.runtime.onInstalled.addListener((details) => {
     console.warn(`${LOG_PREFIX} Summarizer warmup failed on install`, error);
   });
 
-  // Create context menu for summarizing selection
+  // Bring existing records up to the current schema, then embed any chunks stored before the vector index existed
+  runPendingMigrations("install");
+  runVectorBackfill("install");
+  runEntityBackfill("install");
+  scheduleRetentionJanitor();
+
+  // Create context menus for summarizing and saving selections
   try {
     chrome.contextMenus.removeAll(() => {
       // Ignore errors on removeAll during fresh install
-      chrome.contextMenus.create({
-        id: "nanoscribe_summarize_selection",
-        title: "NanoScribe: Summarize Selection",
-        contexts: ["selection"],
-      }, () => {
-        const runtimeError = chrome.runtime.lastError;
-        if (runtimeError) {
-          console.warn(`${LOG_PREFIX} Failed to create context menu`, runtimeError.message);
-        } else {
-          console.info(`${LOG_PREFIX} ✅ Context menu created: NanoScribe: Summarize Selection`);
-        }
-      });
+      for (const item of SELECTION_MENU_ITEMS) {
+        chrome.contextMenus.create({ ...item, contexts: ["selection"] }, () => {
+          const runtimeError = chrome.runtime.lastError;
+          if (runtimeError) {
+            console.warn(`${LOG_PREFIX} Failed to create context menu`, runtimeError.message);
+          } else {
+            console.info(`${LOG_PREFIX} ✅ Context menu created: ${item.title}`);
+          }
+        });
+      }
     });
   } catch (e) {
     console.warn(`${LOG_PREFIX} Failed to initialize context menu`, e);
@@ -906,25 +1321,30 @@ chrome.runtime.onStartup.addListener(() => {
   ensureSummarizerReady().catch((error) => {
     console.warn(`${LOG_PREFIX} Summarizer warmup failed on startup`, error);
   });
-  // Ensure context menu exists after browser startup
+  runPendingMigrations("startup");
+  runVectorBackfill("startup");
+  runEntityBackfill("startup");
+  scheduleRetentionJanitor();
+  // Ensure context menus exist after browser startup
   try {
-    chrome.contextMenus.create({
-      id: "nanoscribe_summarize_selection",
-      title: "NanoScribe: Summarize Selection",
-      contexts: ["selection"],
-    }, () => {
-      const runtimeError = chrome.runtime.lastError;
-      if (runtimeError && !runtimeError.message.includes("Cannot create item with duplicate id")) {
-        console.debug(`${LOG_PREFIX} Context menu re-create warning`, runtimeError.message);
-      }
-    });
+    for (const item of SELECTION_MENU_ITEMS) {
+      chrome.contextMenus.create({ ...item, contexts: ["selection"] }, () => {
+        const runtimeError = chrome.runtime.lastError;
+        if (runtimeError && !runtimeError.message.includes("Cannot create item with duplicate id")) {
+          console.debug(`${LOG_PREFIX} Context menu re-create warning`, runtimeError.message);
+        }
+      });
+    }
   } catch (e) {
     // Ignore errors during context menu recreation on startup
   }
 });
 
 // Helper to send toast messages to a tab
-function sendSummaryToast(tabId: number, payload: { state: "loading" | "success" | "error"; title?: string; description?: string }) {
+function sendSummaryToast(
+  tabId: number,
+  payload: { state: "loading" | "success" | "error"; title?: string; description?: string; captureUrl?: string }
+) {
   chrome.tabs.sendMessage(tabId, { type: "SHOW_SUMMARY_TOAST", payload }, () => {
     const err = chrome.runtime.lastError;
     if (err && !err.message.includes("Receiving end does not exist")) {
@@ -933,17 +1353,116 @@ function sendSummaryToast(tabId: number, payload: { state: "loading" | "success"
   });
 }
 
+type SelectionHighlightResponse = {
+  success: boolean;
+  cancelled?: boolean;
+  error?: string;
+  data?: {
+    text: string;
+    anchor: string | null;
+    position: { start: number; end: number } | null;
+    note: string | null;
+    title: string;
+    canonicalUrl: string | null;
+  };
+};
+
+// The content script supplies the text-fragment anchor and asks for a note; null when it cannot be reached
+async function getSelectionHighlightInTab(tabId: number): Promise<SelectionHighlightResponse | null> {
+  return new Promise((resolve) => {
+    chrome.tabs.sendMessage(tabId, { type: "GET_SELECTION_HIGHLIGHT", payload: { askForNote: true } }, (response) => {
+      const lastError = chrome.runtime.lastError;
+      if (lastError) {
+        console.warn(`${LOG_PREFIX} Selection anchor unavailable for tab ${tabId}:`, lastError.message);
+        resolve(null);
+        return;
+      }
+      resolve((response as SelectionHighlightResponse | undefined) ?? null);
+    });
+  });
+}
+
+async function saveSelectionAsHighlight(tab: chrome.tabs.Tab & { id: number }, pageUrl: string, selection: string, summarize: boolean) {
+  const response = await getSelectionHighlightInTab(tab.id);
+  if (response?.cancelled) {
+    return;
+  }
+  const data = response?.success ? response.data : undefined;
+
+  sendSummaryToast(tab.id, {
+    state: "loading",
+    title: summarize ? "Summarizing & saving…" : "Saving highlight…",
+    description: "Adding the selection to your memories.",
+  });
+
+  try {
+    // Without the content script (e.g. a PDF viewer) the menu's selection text is saved without an anchor
+    const saved = await saveHighlight({
+      pageUrl,
+      canonicalUrl: data?.canonicalUrl,
+      title: data?.title || tab.title || pageUrl,
+      text: data?.text || selection,
+      anchor: data?.anchor ?? null,
+      position: data?.position,
+      note: data?.note,
+      summarize,
+      windowId: tab.windowId,
+    });
+    broadcast({ type: "MEMORY_SAVED", payload: saved.memory });
+    scheduleEntityIndexing(saved.memory.id, "highlight");
+    scheduleSmartCollectionRefresh(saved.memory.id);
+    chrome.tabs.sendMessage(tab.id, { type: "REFRESH_PAGE_HIGHLIGHTS" }, () => {
+      // The overlay appears on the next visit if the content script is unreachable
+      void chrome.runtime.lastError;
+    });
+
+    // A highlight on a page NanoScribe has not captured yet also captures the rest of the page
+    if (saved.createdMemory && isUrlEligible(pageUrl)) {
+      scheduleSummarization(tab.id, pageUrl, tab.title);
+    }
+
+    sendSummaryToast(tab.id, {
+      state: "success",
+      title: "Saved to NanoScribe",
+      description: summarize ? saved.keyPoints : data?.note || "Highlight added to this page's memory.",
+    });
+  } catch (error) {
+    console.error(`${LOG_PREFIX} ❌ Failed to save highlight:`, error);
+    const msg = error instanceof Error ? error.message : String(error);
+    sendSummaryToast(tab.id, { state: "error", title: "Save failed", description: msg });
+  }
+}
+
 // Context menu click handler
 chrome.contextMenus.onClicked.addListener(async (info, tab) => {
-  if (info.menuItemId !== "nanoscribe_summarize_selection") return;
+  if (!SELECTION_MENU_ITEMS.some((item) => item.id === info.menuItemId)) return;
   if (!tab?.id) return;
 
+  const pageUrl = info.pageUrl ?? tab.url;
+  if (pageUrl && !(await isCaptureAllowed(pageUrl)).allowed) {
+    sendSummaryToast(tab.id, {
+      state: "error",
+      title: "Capture disabled",
+      description: "NanoScribe is set to never capture this site. Change this in Settings → Capture rules.",
+    });
+    return;
+  }
+
   const rawSelection = (info.selectionText ?? "").trim();
   if (!rawSelection) {
     sendSummaryToast(tab.id, { state: "error", title: "No selection", description: "Select text and try again." });
     return;
   }
 
+  if (info.menuItemId === SAVE_SELECTION_MENU_ID || info.menuItemId === SUMMARIZE_SAVE_SELECTION_MENU_ID) {
+    if (!pageUrl) {
+      sendSummaryToast(tab.id, { state: "error", title: "Save failed", description: "This page has no address to save against." });
+      return;
+    }
+    await saveSelectionAsHighlight({ ...tab, id: tab.id }, pageUrl, rawSelection, info.menuItemId === SUMMARIZE_SAVE_SELECTION_MENU_ID);
+    return;
+  }
+
   // Show loading toast
   sendSummaryToast(tab.id, { state: "loading", title: "Summarizing…", description: "Working on your selection." });
 
@@ -1036,9 +1555,10 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
     case "ASK_NANOSCRIBE": {
       ;(async () => {
         const question = message.payload?.question?.trim() ?? "";
+        let expandedEntities: string[] = [];
 
         const buildResponse = (payload: AskResponsePayload) => {
-          sendResponse({ type: "ASK_RESPONSE", payload });
+          sendResponse({ type: "ASK_RESPONSE", payload: expandedEntities.length ? { ...payload, expandedEntities } : payload });
         };
 
         if (!question) {
@@ -1053,8 +1573,35 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
         }
 
         try {
-          const keywords = extractKeywordsFromText(question);
-          const candidateChunks = await getChunksByKeywords(keywords, 50, question);
+          if (await isVaultLocked()) {
+            buildResponse({
+              question,
+              answer: "",
+              status: "vault-locked",
+              context: [],
+              error: VAULT_LOCKED_MESSAGE,
+            });
+            return;
+          }
+
+          const candidateChunks = (await hybridSearchChunks(question, 50)).map((hit) => hit.chunk);
+
+          // Entities that co-occur with the ones named in the question pull in memories the wording alone misses
+          const { related } = await findRelatedEntities(question).catch((error) => {
+            console.warn(`${LOG_PREFIX} Failed to expand Ask NanoScribe entities`, error);
+            return { matched: [], related: [] as string[] };
+          });
+          if (related.length > 0) {
+            const seen = new Set(candidateChunks.map((chunk) => chunk.id));
+            const expansion = (await hybridSearchChunks(`${question} ${related.join(" ")}`, 50))
+              .map((hit) => hit.chunk)
+              .filter((chunk) => !seen.has(chunk.id))
+              .slice(0, ASK_ENTITY_EXPANSION_SLOTS);
+            if (expansion.length > 0) {
+              candidateChunks.push(...expansion);
+              expandedEntities = related;
+            }
+          }
 
           if (candidateChunks.length === 0) {
             buildResponse({
@@ -1110,7 +1657,7 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
               memoryId: chunk.memoryId,
               keyPoints: sanitizeKeyPointsText(chunk.keyPoints || chunk.rawText || ""),
               title: memory?.title ?? chunk.chunkTitle,
-              url: memory?.url ?? null,
+              url: memory && !isNoteMemory(memory) ? memory.url : null,
               createdAt: chunk.createdAt,
             };
           });
@@ -1213,16 +1760,20 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
     case "SEARCH_MEMORIES": {
       ;(async () => {
         try {
-          const query = (message.query ?? "").trim();
-
-          if (!query) {
-            const all = await getAllMemories();
-            sendResponse({ type: "MEMORIES", payload: all });
+          // Filters (site:, session:, tag:, before:/after:, source:, "phrases" and -exclusions) resolve the set of
+          // chunks that may match first; the remaining words and phrases are then ranked only within that set
+          const search = parseSearchQuery(message.query ?? "");
+          const query = search.text;
+
+          // Chunk text is sealed while the vault is locked; titles and URLs stay searchable
+          if (!query || (await isVaultLocked())) {
+            const matches = query ? await searchMemories(query) : await getAllMemories();
+            sendResponse({ type: "MEMORIES", payload: await filterMemoriesBySearch(matches, search) });
             return;
           }
 
-          const queryKeywords = extractKeywordsFromText(query);
-          const candidateChunks = await getChunksByKeywords(queryKeywords, 50, query);
+          const scope = await getSearchScope(search);
+          const candidateChunks = scope?.size === 0 ? [] : (await hybridSearchChunks(query, 50, scope ?? undefined)).map((hit) => hit.chunk);
 
           if (candidateChunks.length === 0) {
             sendResponse({ type: "SEARCH_RESULTS", payload: [] });
@@ -1275,7 +1826,7 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
           sendResponse({ type: "SEARCH_RESULTS", payload });
         } catch (error) {
           console.error(`${LOG_PREFIX} Failed to search memories`, error);
-          sendResponse({ type: "ERROR", message: String(error) });
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
         }
       })();
       return true;
@@ -1339,12 +1890,40 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
             console.log(`${LOG_PREFIX} 📚 Getting memories for context...`);
 
             // Check if context-aware mode is enabled
-            const settings = await chrome.storage.local.get("isContextAware");
-            const isContextEnabled = settings.isContextAware ?? true;
-
-            if (!isContextEnabled) {
+            const settings = await chrome.storage.local.get(["isContextAware", "contextTagFilter"]);
+            // When tags are chosen, only memories carrying all of them may feed autocomplete
+            const contextTags = normalizeTags(settings.contextTagFilter);
+            const allowedMemoryIds = contextTags.length > 0 ? await getMemoryIdsWithTags(contextTags) : null;
+            // Sealed memories cannot be read while the vault is locked, so complete without context
+            const vaultLocked = await isVaultLocked();
+            const isContextEnabled = (settings.isContextAware ?? true) && !vaultLocked;
+            const pinnedMemoryIds = new Set<string>();
+
+            if (vaultLocked) {
+              console.log(`${LOG_PREFIX} 🔒 Memory vault locked, proceeding without context`);
+            } else if (!isContextEnabled) {
               console.log(`${LOG_PREFIX} 🔄 Context-aware mode disabled, proceeding without context`);
             } else {
+              // Pinned reference pages are always eligible; the prompt's pinned budget decides how many are used
+              const pinnedMemories = (await getAllMemories())
+                .filter((memory) => memory.pinned && (!allowedMemoryIds || allowedMemoryIds.has(memory.id)))
+                .sort((a, b) => b.updatedAt - a.updatedAt);
+              pinnedMemories.forEach((memory) => {
+                pinnedMemoryIds.add(memory.id);
+                contextEntries.push({
+                  id: memory.id,
+                  title: memory.title,
+                  summary: memory.summary,
+                  source: "memory",
+                  url: isNoteMemory(memory) ? undefined : memory.url,
+                  timestamp: memory.updatedAt,
+                  pinned: true,
+                });
+              });
+              if (pinnedMemories.length > 0) {
+                console.log(`${LOG_PREFIX} 📌 Added ${pinnedMemories.length} pinned memories as context candidates`);
+              }
+
               // Get current session ID
               const sessionData = await chrome.storage.local.get(["currentSessionId", "sessionLastActiveTimestamp"]);
               const currentSessionId = sessionData.currentSessionId;
@@ -1354,7 +1933,9 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
 
               if (currentSessionId) {
                 // Get recent chunks from current session
-                const recentChunks = await getRecentChunksBySession(currentSessionId, 10);
+                const recentChunks = (await getRecentChunksBySession(currentSessionId, allowedMemoryIds ? 50 : 10))
+                  .filter((chunk) => !allowedMemoryIds || allowedMemoryIds.has(chunk.memoryId))
+                  .slice(0, 10);
                 console.log(`${LOG_PREFIX} 📋 Found ${recentChunks.length} recent chunks from session ${currentSessionId}`);
 
                 if (recentChunks.length > 0) {
@@ -1394,19 +1975,37 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
                 }, 3000);
               });
 
-              const memories = await Promise.race([memoryPromise, memoryTimeoutPromise]);
+              const memories = (await Promise.race([memoryPromise, memoryTimeoutPromise])).filter(
+                (memory) => !allowedMemoryIds || allowedMemoryIds.has(memory.id)
+              );
               console.log(`${LOG_PREFIX} 📚 Found ${memories.length} total memories, checking if memory ranking needed...`);
 
               if (memories.length > 0) {
+                // Prefer memories whose chunks score highest under BM25, then top up with recent ones
+                const rankedChunks = await getChunksByKeywords(extractKeywordsFromText(payload.text), 50, payload.text);
+                const memoryById = new Map(memories.map((memory) => [memory.id, memory]));
+                const candidateIds = new Set<string>();
+                for (const chunk of rankedChunks) {
+                  if (memoryById.has(chunk.memoryId)) {
+                    candidateIds.add(chunk.memoryId);
+                  }
+                }
+                console.log(`${LOG_PREFIX} 🔍 BM25 matched ${candidateIds.size} memories for completion context`);
+                for (const memory of memories) {
+                  candidateIds.add(memory.id);
+                }
+
                 // Limit to 20 memories to avoid overwhelming the AI model
-                const limitedMemories = memories.slice(0, 20);
+                const limitedMemories = Array.from(candidateIds)
+                  .slice(0, 20)
+                  .map((id) => memoryById.get(id)!);
                 console.log(`${LOG_PREFIX} 📚 Ranking memories with prompt (limited to ${limitedMemories.length})...`);
                 const rankedIds = await rankMemoriesWithPrompt(payload.text, limitedMemories);
                 if (rankedIds && rankedIds.length > 0) {
                   console.log(`${LOG_PREFIX} 📚 Found ${rankedIds.length} relevant memories, building context summary...`);
                   const relevantMemories = rankedIds
                     .map((id) => memories.find((memory) => memory.id === id))
-                    .filter((memory): memory is MemoryRecord => Boolean(memory))
+                    .filter((memory): memory is MemoryRecord => memory !== undefined && !pinnedMemoryIds.has(memory.id))
                     .slice(0, 5);
 
                   const relevant = relevantMemories.map((memory) => `- ${memory.title}: ${memory.summary}`);
@@ -1419,7 +2018,7 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
                         title: memory.title,
                         summary: memory.summary,
                         source: "memory",
-                        url: memory.url,
+                        url: isNoteMemory(memory) ? undefined : memory.url,
                         timestamp: memory.updatedAt,
                       });
                     });
@@ -1436,6 +2035,13 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
             // Continue without memory context - it's optional
           }
 
+          // Scrub stored context again so memories saved before redaction cannot leak into another site's field
+          if (contextEntries.length > 0 || contextSummary) {
+            const scrubbed = redactContextEntries(contextEntries, contextSummary, await getRedactionSettings());
+            contextEntries = scrubbed.entries;
+            contextSummary = scrubbed.summary;
+          }
+
           // Generate completion with retry support
           console.log(`${LOG_PREFIX} 🔄 Generating completion (may take up to ${COMPLETION_TIMEOUT_MS}ms)...`);
           const fieldType = payload.fieldType ?? "generic";
@@ -1794,6 +2400,24 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
       return true;
     }
 
+    case "RUN_DATABASE_MIGRATIONS": {
+      ;(async () => {
+        try {
+          const dryRun = message.payload?.dryRun ?? true;
+          console.log(`${LOG_PREFIX} 🔄 Running database migrations${dryRun ? " (dry run)" : ""}...`);
+          const report = await runDatabaseMigrations({
+            dryRun,
+            onProgress: (progress) => broadcast({ type: "MIGRATION_PROGRESS", payload: progress }),
+          });
+          sendResponse({ type: "MIGRATION_REPORT", payload: report });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Database migrations failed:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
     case "CLEAR_ALL_MEMORIES": {
       ;(async () => {
         try {
@@ -1809,100 +2433,745 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
       return true;
     }
 
-    case "DELETE_MEMORY": {
+    case "EXPORT_MEMORIES": {
       ;(async () => {
         try {
-          const { memoryId } = message;
-          console.log(`${LOG_PREFIX} 🗑️ Deleting memory: ${memoryId}`);
+          const format = message.payload?.format === "markdown" ? "markdown" : "json";
+          console.log(`${LOG_PREFIX} 📦 Exporting memories as ${format}...`);
 
-          await deleteMemory(memoryId);
-
-          // Broadcast deletion to all sidepanels for real-time updates
-          chrome.runtime.sendMessage({
-            type: "MEMORY_DELETED",
-            payload: { memoryId }
-          }, () => {
-            const runtimeError = chrome.runtime.lastError;
-            if (runtimeError) {
-              console.debug(`${LOG_PREFIX} No listeners for MEMORY_DELETED`, runtimeError.message);
-            }
-          });
+          // A locked export would only contain blank placeholders for sealed fields
+          if (await isVaultLocked()) {
+            throw new Error(VAULT_LOCKED_MESSAGE);
+          }
 
-          sendResponse({ type: "ACK", message: "Memory deleted successfully" });
+          const bundle = await buildMemoryExportBundle();
+          const files =
+            format === "markdown"
+              ? buildMarkdownExport(bundle)
+              : [
+                  {
+                    path: `nanoscribe-export-${new Date(bundle.exportedAt).toISOString().slice(0, 10)}.json`,
+                    mimeType: "application/json",
+                    content: JSON.stringify(bundle, null, 2),
+                  },
+                ];
+
+          const payload: MemoryExportResult = {
+            format,
+            files,
+            memoryCount: bundle.memories.length,
+            chunkCount: bundle.chunks.length,
+          };
+          console.log(`${LOG_PREFIX} ✅ Exported ${payload.memoryCount} memories (${files.length} files)`);
+          sendResponse({ type: "MEMORIES_EXPORTED", payload });
         } catch (error) {
-          console.error(`${LOG_PREFIX} ❌ Failed to delete memory:`, error);
+          console.error(`${LOG_PREFIX} ❌ Failed to export memories:`, error);
           sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
         }
       })();
       return true;
     }
 
-    case "REFRESH_MEMORIES": {
+    case "IMPORT_MEMORIES": {
       ;(async () => {
         try {
-          console.log(`${LOG_PREFIX} 🔄 Refreshing memories...`);
-          const memories = await getAllMemories();
-          console.log(`${LOG_PREFIX} ✅ Refreshed ${memories.length} memories`);
-          sendResponse({ type: "MEMORIES", payload: memories });
+          const bundle = parseMemoryExportBundle(message.payload?.bundle);
+          console.log(`${LOG_PREFIX} 📥 Importing ${bundle.memories.length} memories from export v${bundle.version}...`);
+
+          const result = await importMemoryExportBundle(bundle);
+          // Imported memories never pass through the per-memory refresh; collections are evaluated again on next read
+          await invalidateSmartCollectionMatches();
+          const sessionGroups = await getMemoriesGroupedBySessions();
+          broadcast({ type: "MEMORIES_GROUPED", payload: sessionGroups });
+
+          sendResponse({ type: "MEMORIES_IMPORTED", payload: result });
         } catch (error) {
-          console.error(`${LOG_PREFIX} ❌ Failed to refresh memories:`, error);
+          console.error(`${LOG_PREFIX} ❌ Failed to import memories:`, error);
           sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
         }
       })();
       return true;
     }
-    case "AI_ORGANIZE_UNORGANIZED_MEMORIES": {
+
+    case "GET_VAULT_STATUS": {
       ;(async () => {
         try {
-          console.log(`${LOG_PREFIX} 🤖 AI-organizing unorganized memories...`);
-          broadcast({ type: "AI_ORGANIZE_PROGRESS", payload: { stage: "start", organized: 0, failed: 0, total: 0 } });
-          const result = await aiOrganizeUnorganizedMemories();
-          console.log(`${LOG_PREFIX} ✅ AI-organization complete: ${result.organized} organized, ${result.failed} failed`);
-          broadcast({ type: "AI_ORGANIZE_PROGRESS", payload: { stage: "complete", organized: result.organized, failed: result.failed, total: result.total } });
-          sendResponse({ type: "AI_ORGANIZE_RESULT", payload: result });
+          sendResponse({ type: "VAULT_STATUS", payload: await getVaultStatus() });
         } catch (error) {
-          console.error(`${LOG_PREFIX} ❌ AI-organization failed:`, error);
-          broadcast({ type: "AI_ORGANIZE_PROGRESS", payload: { stage: "error", organized: 0, failed: 0, total: 0 } });
+          console.error(`${LOG_PREFIX} ❌ Failed to read vault status:`, error);
           sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
         }
       })();
       return true;
     }
-    case "AUTO_ORGANIZE_UNORGANIZED_MEMORIES": {
+
+    case "SETUP_VAULT": {
       ;(async () => {
         try {
-          console.log(`${LOG_PREFIX} 🔄 Auto-organizing unorganized memories...`);
-          const result = await autoOrganizeUnorganizedMemories();
-          console.log(`${LOG_PREFIX} ✅ Auto-organization complete: ${result.organized} organized, ${result.failed} failed`);
-          sendResponse({ type: "AUTO_ORGANIZE_RESULT", payload: result });
+          const passphrase = message.payload?.passphrase ?? "";
+          if (passphrase.length < 8) {
+            throw new Error("Passphrase must be at least 8 characters.");
+          }
+
+          console.log(`${LOG_PREFIX} 🔐 Enabling memory vault and encrypting stored memories...`);
+          await enableVault(passphrase, message.payload.autoLockMinutes, async (protection) => {
+            await rewriteStoredRecords(protection);
+          });
+          sendResponse({ type: "VAULT_STATUS", payload: await getVaultStatus() });
         } catch (error) {
-          console.error(`${LOG_PREFIX} ❌ Auto-organization failed:`, error);
+          console.error(`${LOG_PREFIX} ❌ Failed to enable memory vault:`, error);
           sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
         }
       })();
       return true;
     }
-    case "REPROCESS_UNORGANIZED_MEMORIES": {
+
+    case "UNLOCK_VAULT": {
       ;(async () => {
         try {
-          console.log(`${LOG_PREFIX} 🔄 Reprocessing unorganized memories...`);
-          const result = await reprocessUnorganizedMemories();
-          console.log(`${LOG_PREFIX} ✅ Reprocessing complete: ${result.reprocessed} reprocessed, ${result.failed} failed`);
-          sendResponse({ type: "REPROCESS_RESULT", payload: result });
+          const unlocked = await unlockVault(message.payload?.passphrase ?? "");
+          if (!unlocked) {
+            throw new Error("Incorrect passphrase.");
+          }
+
+          // Chunks captured before the vault was unlocked may still be missing vectors
+          runVectorBackfill("vault-unlock");
+          runEntityBackfill("vault-unlock");
+          sendResponse({ type: "VAULT_STATUS", payload: await getVaultStatus() });
         } catch (error) {
-          console.error(`${LOG_PREFIX} ❌ Reprocessing failed:`, error);
+          console.error(`${LOG_PREFIX} ❌ Failed to unlock memory vault:`, error);
           sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
         }
       })();
       return true;
     }
-    case "CLEANUP_UNORGANIZED_MEMORIES": {
+
+    case "LOCK_VAULT": {
       ;(async () => {
         try {
-          console.log(`${LOG_PREFIX} 🧹 Cleaning up unorganized memories...`);
-          const result = await cleanupUnorganizedMemories();
-          console.log(`${LOG_PREFIX} ✅ Cleanup complete: ${result.deleted} deleted`);
-          sendResponse({ type: "CLEANUP_RESULT", payload: result });
+          await lockVault("manual");
+          sendResponse({ type: "VAULT_STATUS", payload: await getVaultStatus() });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to lock memory vault:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "DISABLE_VAULT": {
+      ;(async () => {
+        try {
+          console.log(`${LOG_PREFIX} 🔓 Disabling memory vault and decrypting stored memories...`);
+          await disableVault(message.payload?.passphrase ?? "", async () => {
+            await rewriteStoredRecords(null);
+          });
+          sendResponse({ type: "VAULT_STATUS", payload: await getVaultStatus() });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to disable memory vault:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "UPDATE_VAULT_SETTINGS": {
+      ;(async () => {
+        try {
+          await updateVaultAutoLock(message.payload?.autoLockMinutes ?? 0);
+          sendResponse({ type: "VAULT_STATUS", payload: await getVaultStatus() });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to update vault settings:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_RETENTION_POLICY": {
+      ;(async () => {
+        try {
+          const [policy, lastReport] = await Promise.all([getRetentionPolicy(), getLastRetentionReport()]);
+          sendResponse({ type: "RETENTION_POLICY", payload: { policy, lastReport } });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to read retention policy:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "UPDATE_RETENTION_POLICY": {
+      ;(async () => {
+        try {
+          const policy = await saveRetentionPolicy(message.payload);
+          console.log(`${LOG_PREFIX} 🧹 Retention policy updated`, policy);
+          sendResponse({ type: "RETENTION_POLICY", payload: { policy, lastReport: await getLastRetentionReport() } });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to update retention policy:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "RUN_RETENTION_JANITOR": {
+      ;(async () => {
+        try {
+          const report = message.payload?.dryRun
+            ? await runRetentionJanitor("manual", { dryRun: true })
+            : await applyRetentionPolicy("manual");
+          sendResponse({ type: "RETENTION_REPORT", payload: report });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to run retention janitor:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_CAPTURE_RULES": {
+      ;(async () => {
+        try {
+          sendResponse({ type: "CAPTURE_RULES", payload: { config: await getCaptureRules(), purged: 0 } });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to read capture rules:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "UPDATE_CAPTURE_RULES": {
+      ;(async () => {
+        try {
+          const config = await saveCaptureRules(message.payload.config);
+          const purged = message.payload.purgeExisting ? await purgeDisallowedMemories(config) : 0;
+          console.log(`${LOG_PREFIX} 🚦 Capture rules updated (${config.rules.length} rules, ${purged} memories purged)`);
+          if (purged > 0) {
+            broadcast({ type: "MEMORIES_GROUPED", payload: await getMemoriesGroupedBySessions() });
+          }
+          sendResponse({ type: "CAPTURE_RULES", payload: { config, purged } });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to update capture rules:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "BLOCK_CAPTURE_SITE": {
+      ;(async () => {
+        try {
+          const { rule, purged } = await blockCaptureSite(message.payload.url);
+
+          // Cancel any capture already scheduled for tabs on the blocked site
+          for (const [alarmName, pending] of pendingSummaries) {
+            if (!(await isCaptureAllowed(pending.url)).allowed) {
+              clearPendingSummary(pending.tabId);
+              console.log(`${LOG_PREFIX} 🚫 Cancelled pending capture (${alarmName}) for blocked site`);
+            }
+          }
+
+          broadcast({ type: "MEMORIES_GROUPED", payload: await getMemoriesGroupedBySessions() });
+          sendResponse({ type: "CAPTURE_SITE_BLOCKED", payload: { rule, purged } });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to block capture site:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_SENSITIVE_PAGE_SETTINGS": {
+      ;(async () => {
+        try {
+          const settings = await getSensitivePageSettings();
+          sendResponse({ type: "SENSITIVE_PAGE_SETTINGS", payload: settings });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to read sensitive page settings:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "UPDATE_SENSITIVE_DETECTION": {
+      ;(async () => {
+        try {
+          const settings = await setSensitiveDetectionEnabled(Boolean(message.payload?.enabled));
+          sendResponse({ type: "SENSITIVE_PAGE_SETTINGS", payload: settings });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to update sensitive page detection:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "ALLOW_SENSITIVE_HOST": {
+      ;(async () => {
+        try {
+          const { host, allowed } = message.payload;
+          const settings = await setSensitiveHostAllowed(host, allowed);
+
+          // Capture open tabs on the allowed host now instead of waiting for the next visit
+          if (allowed) {
+            const tabs = await chrome.tabs.query({});
+            for (const openTab of tabs) {
+              if (openTab.id !== undefined && isUrlEligible(openTab.url) && new URL(openTab.url!).hostname.toLowerCase() === host.toLowerCase()) {
+                scheduleSummarization(openTab.id, openTab.url!, openTab.title);
+              }
+            }
+          }
+          sendResponse({ type: "SENSITIVE_PAGE_SETTINGS", payload: settings });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to update sensitive host override:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "CLEAR_SENSITIVE_SKIPS": {
+      ;(async () => {
+        try {
+          const settings = await clearSensitiveSkips();
+          sendResponse({ type: "SENSITIVE_PAGE_SETTINGS", payload: settings });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to clear sensitive page skips:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_REDACTION_SETTINGS": {
+      ;(async () => {
+        try {
+          sendResponse({ type: "REDACTION_SETTINGS", payload: await getRedactionSettings() });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to read redaction settings:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "UPDATE_REDACTION_SETTINGS": {
+      ;(async () => {
+        try {
+          const settings = await saveRedactionSettings(message.payload);
+          console.log(`${LOG_PREFIX} 🕶️ Redaction settings updated`);
+          sendResponse({ type: "REDACTION_SETTINGS", payload: settings });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to update redaction settings:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_MEMORY_REVISIONS": {
+      ;(async () => {
+        try {
+          const revisions = await getMemoryRevisions(message.payload.memoryId);
+          sendResponse({
+            type: "MEMORY_REVISIONS",
+            payload: { memoryId: message.payload.memoryId, revisions: revisions.map(summarizeRevision) },
+          });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to load memory revisions:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "COMPARE_MEMORY_REVISIONS": {
+      ;(async () => {
+        try {
+          const { memoryId, fromId, toId } = message.payload;
+          sendResponse({ type: "REVISION_COMPARISON", payload: await compareRevisions(memoryId, fromId, toId) });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to compare memory revisions:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_MEMORY_TAGS": {
+      ;(async () => {
+        try {
+          sendResponse({ type: "MEMORY_TAGS", payload: await getTagCounts() });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to read memory tags:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "UPDATE_MEMORY_TAGS": {
+      ;(async () => {
+        try {
+          const { memoryId, tags } = message.payload;
+          const memory = await setMemoryTags(memoryId, tags);
+          scheduleSmartCollectionRefresh(memoryId);
+          sendResponse({ type: "MEMORY_TAGS_UPDATED", payload: { memory, tags: await getTagCounts() } });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to update memory tags:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "SET_MEMORY_PINNED": {
+      ;(async () => {
+        try {
+          const { memoryId, pinned } = message.payload;
+          const memory = await setMemoryPinned(memoryId, pinned);
+          console.log(`${LOG_PREFIX} 📌 Memory ${pinned ? "pinned" : "unpinned"}: ${memory.title}`);
+          sendResponse({ type: "MEMORY_PINNED_UPDATED", payload: memory });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to update pinned memory:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "SAVE_NOTE": {
+      ;(async () => {
+        try {
+          const note = await saveNote(message.payload);
+          console.log(`${LOG_PREFIX} 📝 Saved note: ${note.title}`);
+          sendResponse({ type: "NOTE_SAVED", payload: note });
+          broadcast({ type: "MEMORY_SAVED", payload: note });
+          scheduleEntityIndexing(note.id, "note");
+          scheduleSmartCollectionRefresh(note.id);
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to save note:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_PAGE_HIGHLIGHTS": {
+      ;(async () => {
+        try {
+          const { url, tabId } = message.payload;
+          // The sidepanel only knows the tab, so the page's canonical hint is fetched from its content script
+          const canonicalUrl =
+            message.payload.canonicalUrl !== undefined || tabId === undefined
+              ? message.payload.canonicalUrl
+              : await requestCanonicalHint(tabId);
+          const highlights = await getPageHighlights(url, canonicalUrl);
+          sendResponse({ type: "PAGE_HIGHLIGHTS", payload: { url, highlights } });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to load page highlights:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_STORAGE_STATS": {
+      ;(async () => {
+        try {
+          sendResponse({ type: "STORAGE_STATS", payload: await getStorageStats() });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to collect storage stats:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "RUN_STORAGE_CLEANUP": {
+      ;(async () => {
+        try {
+          const result = await runStorageCleanup(message.payload);
+          if ((message.payload.kind === "delete-memory" || message.payload.kind === "delete-domain") && result.removed > 0) {
+            broadcast({ type: "MEMORIES_GROUPED", payload: await getMemoriesGroupedBySessions() });
+          }
+          sendResponse({ type: "STORAGE_CLEANUP_RESULT", payload: result });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to run storage cleanup:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_SESSION_SETTINGS": {
+      ;(async () => {
+        try {
+          const [settings, active] = await Promise.all([getSessionSettings(), getActiveSession(message.payload?.windowId)]);
+          sendResponse({ type: "SESSION_SETTINGS", payload: { settings, active } });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to load session settings:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "UPDATE_SESSION_SETTINGS": {
+      ;(async () => {
+        try {
+          const settings = await saveSessionSettings(message.payload);
+          console.log(`${LOG_PREFIX} ⚙️ Session settings updated`, settings);
+          sendResponse({ type: "SESSION_SETTINGS", payload: { settings, active: await getActiveSession() } });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to save session settings:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "START_NEW_SESSION": {
+      ;(async () => {
+        try {
+          sendResponse({ type: "SESSION_STARTED", payload: await startNewSession(message.payload?.windowId) });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to start a new session:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "MERGE_SESSIONS":
+    case "SPLIT_SESSION":
+    case "MOVE_MEMORIES_TO_SESSION":
+    case "UNDO_SESSION_EDIT": {
+      ;(async () => {
+        try {
+          let result: SessionEditResult;
+          if (message.type === "MERGE_SESSIONS") {
+            result = await mergeSessions(message.payload.sourceSessionId, message.payload.targetSessionId);
+          } else if (message.type === "SPLIT_SESSION") {
+            result = await splitSession(message.payload.sessionId, message.payload.at);
+          } else if (message.type === "MOVE_MEMORIES_TO_SESSION") {
+            result = await moveMemoriesToSession(message.payload.memoryIds, message.payload.targetSessionId);
+          } else {
+            result = await undoSessionEdit(message.payload);
+          }
+          sendResponse({ type: "SESSION_EDIT_RESULT", payload: result });
+          broadcast({ type: "MEMORIES_GROUPED", payload: await getMemoriesGroupedBySessions() });
+          scheduleSessionCollectionRefresh();
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to edit sessions:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_TIMELINE": {
+      ;(async () => {
+        try {
+          if (await isVaultLocked()) {
+            throw new Error(VAULT_LOCKED_MESSAGE);
+          }
+          sendResponse({ type: "TIMELINE", payload: await getTimeline(message.payload) });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to load timeline:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_RELATED_MEMORIES": {
+      ;(async () => {
+        try {
+          if (await isVaultLocked()) {
+            throw new Error(VAULT_LOCKED_MESSAGE);
+          }
+          const { limit, ...query } = message.payload;
+          sendResponse({ type: "RELATED_MEMORIES", payload: await getRelatedMemories(query, limit) });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to find related memories:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_SMART_COLLECTIONS":
+    case "SAVE_SMART_COLLECTION":
+    case "DELETE_SMART_COLLECTION": {
+      ;(async () => {
+        try {
+          // Counts read chunk text, which is sealed while the vault is locked
+          if (await isVaultLocked()) {
+            throw new Error(VAULT_LOCKED_MESSAGE);
+          }
+          let collections: SmartCollectionSummary[];
+          if (message.type === "SAVE_SMART_COLLECTION") {
+            collections = await saveSmartCollection(message.payload);
+          } else if (message.type === "DELETE_SMART_COLLECTION") {
+            collections = await deleteSmartCollection(message.payload.id);
+          } else {
+            collections = await getSmartCollections();
+          }
+          sendResponse({ type: "SMART_COLLECTIONS", payload: collections });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to update smart collections:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "OPEN_SMART_COLLECTION": {
+      ;(async () => {
+        try {
+          if (await isVaultLocked()) {
+            throw new Error(VAULT_LOCKED_MESSAGE);
+          }
+          const { id } = message.payload;
+          const { memories, collections } = await openSmartCollection(id);
+          sendResponse({ type: "SMART_COLLECTION_OPENED", payload: { collectionId: id, memories, collections } });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to open smart collection:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_ENTITY_GRAPH": {
+      ;(async () => {
+        try {
+          if (await isVaultLocked()) {
+            throw new Error(VAULT_LOCKED_MESSAGE);
+          }
+          sendResponse({ type: "ENTITY_GRAPH", payload: await getEntityGraph(message.payload?.query ?? "") });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to build entity graph:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "GET_ENTITY_MEMORIES": {
+      ;(async () => {
+        try {
+          if (await isVaultLocked()) {
+            throw new Error(VAULT_LOCKED_MESSAGE);
+          }
+          sendResponse({ type: "ENTITY_MEMORIES", payload: await getEntityMemories(message.payload.entityId) });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to load entity memories:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "DELETE_MEMORY": {
+      ;(async () => {
+        try {
+          const { memoryId } = message;
+          console.log(`${LOG_PREFIX} 🗑️ Deleting memory: ${memoryId}`);
+
+          await deleteMemory(memoryId);
+          scheduleSmartCollectionRefresh(memoryId);
+
+          // Broadcast deletion to all sidepanels for real-time updates
+          chrome.runtime.sendMessage({
+            type: "MEMORY_DELETED",
+            payload: { memoryId }
+          }, () => {
+            const runtimeError = chrome.runtime.lastError;
+            if (runtimeError) {
+              console.debug(`${LOG_PREFIX} No listeners for MEMORY_DELETED`, runtimeError.message);
+            }
+          });
+
+          sendResponse({ type: "ACK", message: "Memory deleted successfully" });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to delete memory:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+
+    case "REFRESH_MEMORIES": {
+      ;(async () => {
+        try {
+          console.log(`${LOG_PREFIX} 🔄 Refreshing memories...`);
+          const memories = await getAllMemories();
+          console.log(`${LOG_PREFIX} ✅ Refreshed ${memories.length} memories`);
+          sendResponse({ type: "MEMORIES", payload: memories });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Failed to refresh memories:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+    case "AI_ORGANIZE_UNORGANIZED_MEMORIES": {
+      ;(async () => {
+        try {
+          console.log(`${LOG_PREFIX} 🤖 AI-organizing unorganized memories...`);
+          broadcast({ type: "AI_ORGANIZE_PROGRESS", payload: { stage: "start", organized: 0, failed: 0, total: 0 } });
+          const result = await aiOrganizeUnorganizedMemories();
+          console.log(`${LOG_PREFIX} ✅ AI-organization complete: ${result.organized} organized, ${result.failed} failed`);
+          broadcast({ type: "AI_ORGANIZE_PROGRESS", payload: { stage: "complete", organized: result.organized, failed: result.failed, total: result.total } });
+          sendResponse({ type: "AI_ORGANIZE_RESULT", payload: result });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ AI-organization failed:`, error);
+          broadcast({ type: "AI_ORGANIZE_PROGRESS", payload: { stage: "error", organized: 0, failed: 0, total: 0 } });
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+    case "AUTO_ORGANIZE_UNORGANIZED_MEMORIES": {
+      ;(async () => {
+        try {
+          console.log(`${LOG_PREFIX} 🔄 Auto-organizing unorganized memories...`);
+          const result = await autoOrganizeUnorganizedMemories();
+          console.log(`${LOG_PREFIX} ✅ Auto-organization complete: ${result.organized} organized, ${result.failed} failed`);
+          sendResponse({ type: "AUTO_ORGANIZE_RESULT", payload: result });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Auto-organization failed:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+    case "REPROCESS_UNORGANIZED_MEMORIES": {
+      ;(async () => {
+        try {
+          console.log(`${LOG_PREFIX} 🔄 Reprocessing unorganized memories...`);
+          const result = await reprocessUnorganizedMemories();
+          console.log(`${LOG_PREFIX} ✅ Reprocessing complete: ${result.reprocessed} reprocessed, ${result.failed} failed`);
+          sendResponse({ type: "REPROCESS_RESULT", payload: result });
+        } catch (error) {
+          console.error(`${LOG_PREFIX} ❌ Reprocessing failed:`, error);
+          sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
+        }
+      })();
+      return true;
+    }
+    case "CLEANUP_UNORGANIZED_MEMORIES": {
+      ;(async () => {
+        try {
+          console.log(`${LOG_PREFIX} 🧹 Cleaning up unorganized memories...`);
+          const result = await cleanupUnorganizedMemories();
+          console.log(`${LOG_PREFIX} ✅ Cleanup complete: ${result.deleted} deleted`);
+          sendResponse({ type: "CLEANUP_RESULT", payload: result });
         } catch (error) {
           console.error(`${LOG_PREFIX} ❌ Cleanup failed:`, error);
           sendResponse({ type: "ERROR", message: error instanceof Error ? error.message : String(error) });
@@ -1950,18 +3219,14 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
                 console.log(`${LOG_PREFIX} 📖 Processing tab ${tab.id} with Readability...`);
 
                 // Ensure we have a session for testing
-                const testSessionId = crypto.randomUUID();
-                await chrome.storage.local.set({
-                  currentSessionId: testSessionId,
-                  sessionLastActiveTimestamp: Date.now()
-                });
-                console.log(`${LOG_PREFIX} 🔄 Created test session: ${testSessionId}`);
+                const testSession = await startNewSession(existingTab.windowId);
+                console.log(`${LOG_PREFIX} 🔄 Created test session: ${testSession.sessionId}`);
 
                 // Use new Readability-based content extraction from content script
                 const { title, textContent, chunks, baseURI } = await getPageContentWithReadability(tab.id);
 
                 if (textContent && textContent.length > 100) { // Reduced threshold for tests
-                  await processAndStoreWithReadability(testUrl, title, textContent, chunks, baseURI);
+                  await processAndStoreWithReadability(testUrl, title, textContent, chunks, baseURI, existingTab.windowId);
 
                   // Check for new memory
                   const updatedMemories = await getAllMemories();
@@ -2044,17 +3309,13 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
                 console.log(`${LOG_PREFIX} 📖 Processing tab ${tab.id} with Readability...`);
 
                 // Ensure we have a session for testing
-                const testSessionId = crypto.randomUUID();
-                await chrome.storage.local.set({
-                  currentSessionId: testSessionId,
-                  sessionLastActiveTimestamp: Date.now()
-                });
-                console.log(`${LOG_PREFIX} 🔄 Created test session: ${testSessionId}`);
+                const testSession = await startNewSession(existingTab.windowId);
+                console.log(`${LOG_PREFIX} 🔄 Created test session: ${testSession.sessionId}`);
 
                 const { title, textContent, chunks, baseURI } = await getPageContentWithReadability(tab.id);
 
                 if (textContent && textContent.length > 100) { // Reduced threshold for tests
-                  await processAndStoreWithReadability(url, title, textContent, chunks, baseURI);
+                  await processAndStoreWithReadability(url, title, textContent, chunks, baseURI, existingTab.windowId);
                   results.push({ url, success: true });
                 } else {
                   results.push({ url, success: false, error: "Content too small" });
@@ -2095,7 +3356,7 @@ chrome.runtime.onMessage.addListener((message: ExtensionRuntimeMessage, sender,
               totalChunks: allChunks.length,
               readabilityChunks: readabilityChunks.length,
               legacyChunks: legacyChunks.length,
-              databaseVersion: 4
+              databaseVersion: DATABASE_VERSION
             }
           });
         } catch (error) {
@@ -2168,6 +3429,11 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
       .catch((error) => console.debug(`${LOG_PREFIX} Unable to enable side panel`, error));
   }
 
+  // Navigating within the focused tab ends the visit to the previous page
+  if (changeInfo.url && tab.active) {
+    trackFocusedTab(tab).catch((error) => console.warn(`${LOG_PREFIX} Failed to record dwell time`, error));
+  }
+
   if (changeInfo.status === "loading") {
     clearPendingSummary(tabId);
     return;
@@ -2179,26 +3445,75 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
 
   console.log(`${LOG_PREFIX} 📖 Tab updated: ${tab.url} (status: ${changeInfo.status})`);
 
-  // Ensure we have a current session for indexing
-  ;(async () => {
-    const { currentSessionId } = await chrome.storage.local.get('currentSessionId');
-    if (!currentSessionId) {
-      const newSessionId = crypto.randomUUID();
-      await chrome.storage.local.set({
-        currentSessionId: newSessionId,
-        sessionLastActiveTimestamp: Date.now()
-      });
-      console.log(`${LOG_PREFIX} 🔄 Created new session: ${newSessionId}`);
-    }
-  })();
-
-  scheduleSummarization(tabId, tab.url!, tab.title);
+  isCaptureAllowed(tab.url!)
+    .then((decision) => {
+      if (!decision.allowed) {
+        console.info(`${LOG_PREFIX} 🚫 Capture rules skip ${tab.url}${decision.rule ? ` (${decision.rule.kind}: ${decision.rule.pattern})` : ""}`);
+        return;
+      }
+      scheduleSummarization(tabId, tab.url!, tab.title);
+    })
+    .catch((error) => console.warn(`${LOG_PREFIX} Failed to evaluate capture rules`, error));
 });
 
 chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === VAULT_AUTOLOCK_ALARM) {
+    void lockVault("auto-lock");
+    return;
+  }
+  if (alarm.name === RETENTION_ALARM) {
+    void applyRetentionPolicy("alarm");
+    return;
+  }
   handleSummarizeAlarm(alarm.name);
 });
 
+chrome.windows.onFocusChanged.addListener((windowId) => {
+  if (windowId === chrome.windows.WINDOW_ID_NONE) {
+    // Time away from the browser does not count as reading
+    trackFocusedTab(null).catch((error) => console.warn(`${LOG_PREFIX} Failed to record dwell time`, error));
+    return;
+  }
+  activateWindowSession(windowId).catch((error) => console.warn(`${LOG_PREFIX} Failed to switch window session`, error));
+  chrome.tabs
+    .query({ active: true, windowId })
+    .then(([tab]) => trackFocusedTab(tab ?? null))
+    .catch((error) => console.warn(`${LOG_PREFIX} Failed to record dwell time`, error));
+});
+
+chrome.tabs.onActivated.addListener(({ tabId }) => {
+  chrome.tabs
+    .get(tabId)
+    .then((tab) => trackFocusedTab(tab))
+    .catch((error) => console.warn(`${LOG_PREFIX} Failed to record dwell time`, error));
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  endTabVisit(tabId).catch((error) => console.warn(`${LOG_PREFIX} Failed to record dwell time`, error));
+});
+
+chrome.windows.onRemoved.addListener((windowId) => {
+  forgetWindowSession(windowId).catch((error) => console.warn(`${LOG_PREFIX} Failed to forget window session`, error));
+});
+
+chrome.commands.onCommand.addListener(async (command, tab) => {
+  if (command !== START_NEW_SESSION_COMMAND) return;
+
+  try {
+    const session = await startNewSession(tab?.windowId);
+    if (tab?.id !== undefined) {
+      sendSummaryToast(tab.id, {
+        state: "success",
+        title: "New session started",
+        description: "Pages you read from now on are grouped into a new session.",
+      });
+    }
+    console.log(`${LOG_PREFIX} ⌨️ Started session ${session.sessionId} from the keyboard shortcut`);
+  } catch (error) {
+    console.error(`${LOG_PREFIX} ❌ Failed to start a new session:`, error);
+  }
+});
+
 chrome.action.onClicked.addListener(async (tab) => {
   if (!tab?.id) return;
 
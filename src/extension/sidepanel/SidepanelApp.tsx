@@ -13,6 +13,23 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import type { ProofreaderCorrection } from "../types";
 import { ModelControlPanel } from "@/components/ModelControlPanel";
+import { MemoryTransferPanel } from "@/components/MemoryTransferPanel";
+import { DatabaseMigrationPanel } from "@/components/DatabaseMigrationPanel";
+import { VaultPanel } from "@/components/VaultPanel";
+import { RetentionPanel } from "@/components/RetentionPanel";
+import { StorageUsagePanel } from "@/components/StorageUsagePanel";
+import { CaptureRulesPanel } from "@/components/CaptureRulesPanel";
+import { SessionSettingsPanel } from "@/components/SessionSettingsPanel";
+import { SensitivePagesPanel } from "@/components/SensitivePagesPanel";
+import { RedactionPanel } from "@/components/RedactionPanel";
+import { MemoryRevisionTimeline } from "@/components/MemoryRevisionTimeline";
+import { MemoryTagEditor } from "@/components/MemoryTagEditor";
+import { NoteEditor } from "@/components/NoteEditor";
+import { PageAnnotationsList } from "@/components/PageAnnotationsList";
+import { EntityGraphView } from "@/components/EntityGraphView";
+import { TimelineView } from "@/components/TimelineView";
+import { RelatedMemoriesList, RelatedToPageList } from "@/components/RelatedMemoriesList";
+import { SmartCollectionsBar } from "@/components/SmartCollectionsBar";
 import type {
   AskContextItem,
   AutocompleteState,
@@ -23,17 +40,21 @@ import type {
   ModelIdentifier,
   ModelStatus,
   ModelStatusMap,
+  SessionEditResult,
   SessionGroup,
+  TagCount,
 } from "../types";
-import { sendToBackground, type AutocompleteCommand, type BackgroundEvent } from "../messaging";
+import { sendToBackground, type AutocompleteCommand, type BackgroundEvent, type BackgroundRequest } from "../messaging";
 import { getProofreaderSnapshot, type ProofreaderState } from "../proofreader-state";
 import { isBackgroundEvent } from "../messaging";
+import { removeSearchToken, tokenizeSearchQuery, type SearchQueryToken } from "../search-query";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import {
   Loader2,
   TestTube,
+  Ban,
   Trash2,
   RefreshCw,
   ChevronDown,
@@ -48,6 +69,18 @@ import {
   X,
   Settings,
   Search,
+  History,
+  Pin,
+  PinOff,
+  StickyNote,
+  Network,
+  Scissors,
+  Undo2,
+  CheckSquare,
+  Square,
+  FolderPlus,
+  CalendarClock,
+  Layers,
 } from "lucide-react";
 import logoImage from "@/assets/nanoscribe.svg";
 
@@ -104,16 +137,41 @@ const DEFAULT_DIAGNOSTICS_SETTINGS: DiagnosticsSettings = {
 };
 
 const SOURCE_TAGS_TO_HIDE = new Set(["readability", "legacy", "memory", "ai-organized", "auto-organized", "auto-organized-new-session", "reprocessed"]);
+// Grouping buckets built by the background rather than real browsing sessions; they can't be merged, split or dropped onto
+const FIXED_SESSION_IDS = new Set(["no-session", "search-results", "notes"]);
+const SESSION_DRAG_TYPE = "application/x-nanoscribe-session";
+const MEMORIES_DRAG_TYPE = "application/x-nanoscribe-memories";
+const SEARCH_SYNTAX_HINTS = [
+  { insert: "site:", label: "site:", description: "Only pages from a site" },
+  { insert: "session:", label: "session:", description: "Session title or id" },
+  { insert: "tag:", label: "tag:", description: "Tagged memories" },
+  { insert: "after:", label: "after:", description: "Captured on or after a date (2024-05-01, 7d)" },
+  { insert: "before:", label: "before:", description: "Captured before a date" },
+  { insert: "source:", label: "source:", description: "readability, manual or highlight" },
+  { insert: '"', label: '"phrase"', description: "Exact phrase" },
+  { insert: "-", label: "-word", description: "Exclude a word or filter" },
+];
+
+function describeSearchToken(token: SearchQueryToken): string {
+  const value = token.kind === "phrase" ? `"${token.value}"` : token.value;
+  const label = token.kind === "filter" ? `${token.field}: ${value}` : value;
+  return token.negated ? `not ${label}` : label;
+}
 const INITIAL_ASK_STATE: AskState = { question: "", answer: null, status: "idle", context: [], error: null };
 
 type SessionTitleCache = Record<string, string>;
+type SessionEditRequest = Extract<
+  BackgroundRequest,
+  { type: "MERGE_SESSIONS" | "SPLIT_SESSION" | "MOVE_MEMORIES_TO_SESSION" | "UNDO_SESSION_EDIT" }
+>;
+type SessionEditStatus = { tone: "success" | "error"; message: string; result?: SessionEditResult };
 type SessionRenameState = {
   sessionId: string;
   draft: string;
   isSaving: boolean;
 };
 
-type AskStateStatus = "idle" | "loading" | "answered" | "no-context" | "model-unavailable" | "error";
+type AskStateStatus = "idle" | "loading" | "answered" | "no-context" | "model-unavailable" | "vault-locked" | "error";
 
 type AskState = {
   question: string;
@@ -121,6 +179,7 @@ type AskState = {
   status: AskStateStatus;
   context: AskContextItem[];
   error?: string | null;
+  expandedEntities?: string[];
 };
 
 function getPrimaryDomainFromMemories(memories: MemoryRecord[]): string | null {
@@ -190,6 +249,13 @@ function deriveSessionInfo(session: SessionGroup, sessionTitleMap: SessionTitleC
     };
   }
 
+  if (session.sessionId === "notes") {
+    return {
+      title: "Notes",
+      subtitle: `Written by you · last edited ${relative}`,
+    };
+  }
+
   if (session.sessionId === "search-results") {
     return {
       title: "Search Results",
@@ -254,6 +320,25 @@ function highlightText(text: string, query: string): React.ReactNode {
   });
 }
 
+// Memory listings (the locked fallback and smart collections) shown as search results, with the summary as the passage
+function toMemorySearchResult(memory: MemoryRecord): MemorySearchResult {
+  return {
+    memory,
+    chunk: {
+      id: `memory-${memory.id}`,
+      memoryId: memory.id,
+      sessionId: "memory-fallback",
+      chunkTitle: memory.title,
+      rawText: memory.summary,
+      keyPoints: memory.summary,
+      keywords: [],
+      ordinal: 0,
+      createdAt: memory.createdAt,
+      sourceTag: "memory",
+    },
+  };
+}
+
 function buildSnippet(chunk: MemorySearchResult["chunk"]): string | null {
   const source = chunk.keyPoints?.trim() || chunk.rawText?.trim();
   if (!source) {
@@ -298,7 +383,8 @@ function deriveTitle(result: MemorySearchResult): string {
 }
 
 function deriveUrlParts(result: MemorySearchResult): { href: string | null; domain: string | null; path: string | null } {
-  const href = result.memory?.url ?? null;
+  // Notes have no page to open
+  const href = result.memory?.source === "note" ? null : (result.memory?.url ?? null);
   if (!href) {
     return { href: null, domain: null, path: null };
   }
@@ -387,6 +473,14 @@ function shortenUrl(url: string): string {
   }
 }
 
+function describeRedactions(redactions: MemoryRecord["redactions"]): { total: number; detail: string } {
+  const entries = Object.entries(redactions ?? {}).filter(([, count]) => (count ?? 0) > 0);
+  return {
+    total: entries.reduce((sum, [, count]) => sum + (count ?? 0), 0),
+    detail: entries.map(([category, count]) => `${count} ${category.replace("-", " ")}`).join(", "),
+  };
+}
+
 function hashStringToHue(input: string): number {
   let hash = 0;
   for (let i = 0; i < input.length; i++) {
@@ -735,6 +829,17 @@ const AutocompleteContent: React.FC<{
                 Context: {state.fieldPreview}
               </div>
             ) : null}
+            {state.suggestion.contextEntries?.length ? (
+              <div className="space-y-1 text-[11px] text-muted-foreground">
+                <div className="font-medium text-card-foreground">Memories used</div>
+                {state.suggestion.contextEntries.map((entry, index) => (
+                  <div key={entry.id ?? index} className="flex items-center gap-1.5 truncate">
+                    {entry.pinned ? <Pin className="h-3 w-3 shrink-0 text-primary" aria-label="Pinned" /> : null}
+                    <span className="truncate">{entry.title}</span>
+                  </div>
+                ))}
+              </div>
+            ) : null}
           </div>
         )}
 
@@ -792,6 +897,13 @@ const AutocompleteContent: React.FC<{
 
 export function SidepanelApp() {
   const [filter, setFilter] = useState("");
+  const [isSearchFocused, setIsSearchFocused] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  // Filters, phrases and exclusions in the query, shown as removable chips; plain words stay in the box only
+  const searchChips = useMemo(
+    () => tokenizeSearchQuery(filter).filter((token) => token.kind !== "word" || token.negated),
+    [filter],
+  );
   const [askInput, setAskInput] = useState("");
   const [fetchState, setFetchState] = useState<"idle" | "loading" | "error">("idle");
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -814,12 +926,27 @@ export function SidepanelApp() {
   });
   // Collapsible state for memory cards - tracks which memories are expanded
   const [expandedMemories, setExpandedMemories] = useState<Set<string>>(new Set());
+  const [historyMemoryId, setHistoryMemoryId] = useState<string | null>(null);
+  const [selectedForMove, setSelectedForMove] = useState<Set<string>>(new Set());
+  const [dragKind, setDragKind] = useState<"session" | "memories" | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [sessionEditStatus, setSessionEditStatus] = useState<SessionEditStatus | null>(null);
+  const [isEditingSessions, setIsEditingSessions] = useState(false);
+  const [allTags, setAllTags] = useState<TagCount[]>([]);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [memoriesView, setMemoriesView] = useState<"sessions" | "timeline">("sessions");
+  const [contextTagFilter, setContextTagFilter] = useState<string[]>([]);
+  // null while closed; noteId is null when writing a new note
+  const [noteEditor, setNoteEditor] = useState<{ noteId: string | null } | null>(null);
   const [searchResults, setSearchResults] = useState<MemorySearchResult[] | null>(null);
   const [isSearching, setIsSearching] = useState(false);
+  // The smart collection whose query is in the search box; its matches are listed instead of ranked results
+  const [openCollection, setOpenCollection] = useState<{ query: string; memories: MemoryRecord[] } | null>(null);
   const [sessionTitleMap, setSessionTitleMap] = useState<SessionTitleCache>({});
   const [renameState, setRenameState] = useState<SessionRenameState | null>(null);
   const [askState, setAskState] = useState<AskState>(INITIAL_ASK_STATE);
-  const [searchMode, setSearchMode] = useState<"memories" | "ask">("memories");
+  const [searchMode, setSearchMode] = useState<"memories" | "ask" | "graph">("memories");
+  const [entityQuery, setEntityQuery] = useState("");
   const askQueryRef = useRef<string | null>(null);
 
   useEffect(() => {
@@ -837,6 +964,33 @@ export function SidepanelApp() {
     });
   }, []);
 
+  useEffect(() => {
+    chrome.storage.local.get({ contextTagFilter: [] as string[] }, (entries) => {
+      const runtimeError = chrome.runtime.lastError;
+      if (runtimeError) {
+        console.error("[NanoScribe] Failed to load context tag filter:", runtimeError);
+        return;
+      }
+      setContextTagFilter(Array.isArray(entries.contextTagFilter) ? entries.contextTagFilter : []);
+    });
+  }, []);
+
+  const refreshTags = useCallback(() => {
+    sendToBackground({ type: "GET_MEMORY_TAGS" })
+      .then((response) => {
+        if (response.type === "MEMORY_TAGS") {
+          setAllTags(response.payload);
+        }
+      })
+      .catch((error) => {
+        console.error("[NanoScribe] Failed to load memory tags", error);
+      });
+  }, []);
+
+  useEffect(() => {
+    refreshTags();
+  }, [refreshTags]);
+
   useEffect(() => {
     if (searchMode === "memories") {
       askQueryRef.current = null;
@@ -879,6 +1033,7 @@ export function SidepanelApp() {
           status: payload.status,
           context: payload.context,
           error: payload.error ?? null,
+          expandedEntities: payload.expandedEntities,
         });
       } else if (response.type === "ERROR") {
         setAskState({
@@ -965,6 +1120,14 @@ export function SidepanelApp() {
       );
     }
 
+    if (askState.status === "vault-locked") {
+      return (
+        <div className="glass-card rounded-2xl border border-white/12 bg-black/25 p-5 text-sm text-muted-foreground">
+          Your memory vault is locked. Unlock it in Settings to ask questions about your saved memories.
+        </div>
+      );
+    }
+
     const showNoContext = askState.status === "no-context";
 
     return (
@@ -978,6 +1141,9 @@ export function SidepanelApp() {
           <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">Response</p>
           <p className="leading-relaxed whitespace-pre-line">{askState.answer}</p>
         </div>
+        {askState.expandedEntities?.length ? (
+          <p className="text-xs text-muted-foreground/80">Also searched related: {askState.expandedEntities.join(", ")}</p>
+        ) : null}
         {showNoContext ? (
           <p className="text-xs text-muted-foreground/80">
             We couldn't find anything in your memories matching this question.
@@ -1052,6 +1218,30 @@ export function SidepanelApp() {
     });
   }, []);
 
+  // Autocomplete context can be limited to memories carrying every selected tag
+  const handleContextTagToggle = useCallback((tag: string) => {
+    setContextTagFilter((current) => {
+      const next = current.includes(tag) ? current.filter((entry) => entry !== tag) : [...current, tag];
+      chrome.storage.local.set({ contextTagFilter: next }, () => {
+        const runtimeError = chrome.runtime.lastError;
+        if (runtimeError) {
+          console.error("[NanoScribe] Failed to save context tag filter:", runtimeError);
+        }
+      });
+      return next;
+    });
+  }, []);
+
+  const handleMemoryTagsUpdated = useCallback((updated: MemoryRecord, tags: TagCount[]) => {
+    setAllTags(tags);
+    setSessionGroups((current) =>
+      current.map((group) => ({
+        ...group,
+        memories: group.memories.map((memory) => (memory.id === updated.id ? updated : memory)),
+      })),
+    );
+  }, []);
+
   const handleAIOrganize = useCallback(async () => {
     if (isAIOrganizing) return;
     setIsAIOrganizing(true);
@@ -1104,6 +1294,67 @@ export function SidepanelApp() {
     [sessionTitleMap]
   );
 
+  // Merge, split, move and undo all answer with the edit's undo record, which backs the undo bar
+  const runSessionEdit = useCallback(async (request: SessionEditRequest) => {
+    setIsEditingSessions(true);
+    try {
+      const response = await sendToBackground(request);
+      if (response.type !== "SESSION_EDIT_RESULT") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      setSessionTitleMap(response.payload.sessionTitles);
+      setSelectedForMove(new Set());
+      setSessionEditStatus(
+        request.type === "UNDO_SESSION_EDIT"
+          ? { tone: "success", message: "Session change undone." }
+          : { tone: "success", message: `${response.payload.description}.`, result: response.payload },
+      );
+    } catch (error) {
+      console.error("[NanoScribe] Failed to edit sessions", error);
+      setSessionEditStatus({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsEditingSessions(false);
+    }
+  }, []);
+
+  const handleSessionDrop = useCallback(
+    (event: React.DragEvent, targetSessionId: string | null) => {
+      event.preventDefault();
+      setDropTargetId(null);
+      setDragKind(null);
+
+      const sourceSessionId = event.dataTransfer.getData(SESSION_DRAG_TYPE);
+      if (sourceSessionId && targetSessionId && sourceSessionId !== targetSessionId) {
+        const sourceTitle = sessionTitleMap[sourceSessionId] ?? "this session";
+        const targetTitle = sessionTitleMap[targetSessionId] ?? "the other session";
+        if (window.confirm(`Merge "${sourceTitle}" into "${targetTitle}"?`)) {
+          void runSessionEdit({ type: "MERGE_SESSIONS", payload: { sourceSessionId, targetSessionId } });
+        }
+        return;
+      }
+
+      const memoryIds = event.dataTransfer.getData(MEMORIES_DRAG_TYPE);
+      if (memoryIds) {
+        void runSessionEdit({ type: "MOVE_MEMORIES_TO_SESSION", payload: { memoryIds: JSON.parse(memoryIds), targetSessionId } });
+      }
+    },
+    [runSessionEdit, sessionTitleMap],
+  );
+
+  const handleSessionDragOver = useCallback(
+    (event: React.DragEvent, targetSessionId: string | null) => {
+      const types = Array.from(event.dataTransfer.types);
+      const accepts = targetSessionId === null ? types.includes(MEMORIES_DRAG_TYPE) : types.includes(MEMORIES_DRAG_TYPE) || types.includes(SESSION_DRAG_TYPE);
+      if (!accepts) {
+        return;
+      }
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "move";
+      setDropTargetId(targetSessionId ?? "new-session");
+    },
+    [],
+  );
+
   useEffect(() => {
     sendToBackground({ type: "SIDEPANEL_READY" }).catch((error) => {
       console.error("[NanoScribe] Failed to acknowledge side panel", error);
@@ -1212,6 +1463,12 @@ export function SidepanelApp() {
         return;
       }
 
+      if (openCollection && openCollection.query === query) {
+        setSearchResults(openCollection.memories.map(toMemorySearchResult));
+        setIsSearching(false);
+        return;
+      }
+
       setSearchResults(null);
       setIsSearching(true);
       sendToBackground({ type: "SEARCH_MEMORIES", query })
@@ -1220,23 +1477,7 @@ export function SidepanelApp() {
             setSearchResults(response.payload);
           } else if (response.type === "MEMORIES") {
             const memoriesOnly: MemoryRecord[] = response.payload;
-            setSearchResults(
-              memoriesOnly.map((memory) => ({
-                memory,
-                chunk: {
-                  id: `memory-${memory.id}`,
-                  memoryId: memory.id,
-                  sessionId: "memory-fallback",
-                  chunkTitle: memory.title,
-                  rawText: memory.summary,
-                  keyPoints: memory.summary,
-                  keywords: [],
-                  ordinal: 0,
-                  createdAt: memory.createdAt,
-                  sourceTag: "memory",
-                },
-              })),
-            );
+            setSearchResults(memoriesOnly.map(toMemorySearchResult));
           } else if (response.type === "ERROR") {
             setErrorMessage(response.message);
             setSearchResults([]);
@@ -1255,7 +1496,17 @@ export function SidepanelApp() {
     return () => {
       window.clearTimeout(controller);
     };
-  }, [filter, searchMode]);
+  }, [filter, openCollection, searchMode]);
+
+  // Editing the query leaves the collection for an ordinary search
+  useEffect(() => {
+    setOpenCollection((current) => (current && current.query !== filter.trim() ? null : current));
+  }, [filter]);
+
+  const handleOpenCollection = useCallback((query: string, memories: MemoryRecord[]) => {
+    setOpenCollection({ query, memories });
+    setFilter(query);
+  }, []);
 
   useEffect(() => {
     const listener = (message: BackgroundEvent) => {
@@ -1263,6 +1514,7 @@ export function SidepanelApp() {
 
       switch (message.type) {
         case "MEMORY_SAVED": {
+          refreshTags();
           sendToBackground({ type: "GET_MEMORIES_GROUPED" })
             .then((response) => {
               if (response.type === "MEMORIES_GROUPED") {
@@ -1276,6 +1528,7 @@ export function SidepanelApp() {
         }
         case "MEMORY_DELETED": {
           const { memoryId } = message.payload;
+          refreshTags();
           setSessionGroups((current) =>
             current
               .map((group) => ({
@@ -1399,7 +1652,7 @@ export function SidepanelApp() {
     return () => {
       chrome.runtime.onMessage.removeListener(listener);
     };
-  }, [lastStateUpdate]);
+  }, [lastStateUpdate, refreshTags]);
 
   const renderSearchResults = () => {
     if (searchResults === null) {
@@ -1488,6 +1741,40 @@ export function SidepanelApp() {
     );
   };
 
+  // Near-duplicate pages are linked to a canonical memory; group them so each card can list where else it was seen
+  const { duplicatesByCanonical, memoriesById } = useMemo(() => {
+    const byId = new Map<string, MemoryRecord>();
+    const duplicates = new Map<string, MemoryRecord[]>();
+    for (const group of sessionGroups) {
+      for (const memory of group.memories) {
+        byId.set(memory.id, memory);
+        if (memory.duplicateOf) {
+          duplicates.set(memory.duplicateOf, [...(duplicates.get(memory.duplicateOf) ?? []), memory]);
+        }
+      }
+    }
+    return { duplicatesByCanonical: duplicates, memoriesById: byId };
+  }, [sessionGroups]);
+
+  const visibleSessionGroups = useMemo(() => {
+    if (!selectedTag) {
+      return sessionGroups;
+    }
+    return sessionGroups
+      .map((group) => {
+        const memories = group.memories.filter((memory) => memory.tags?.includes(selectedTag));
+        return { ...group, memories, memoryCount: memories.length };
+      })
+      .filter((group) => group.memoryCount > 0);
+  }, [sessionGroups, selectedTag]);
+
+  // Drop a stale selection when its last memory loses the tag
+  useEffect(() => {
+    if (selectedTag && !allTags.some((entry) => entry.tag === selectedTag)) {
+      setSelectedTag(null);
+    }
+  }, [allTags, selectedTag]);
+
   const statusLabel = useMemo(() => {
     if (fetchState === "loading") {
       return "Loading memories...";
@@ -1498,8 +1785,11 @@ export function SidepanelApp() {
     if (sessionGroups.length === 0) {
       return filter.trim() ? "No memories match your search." : "Browse the web to start building memories.";
     }
+    if (visibleSessionGroups.length === 0) {
+      return "No memories carry this tag.";
+    }
     return null;
-  }, [fetchState, errorMessage, sessionGroups.length, filter]);
+  }, [fetchState, errorMessage, sessionGroups.length, visibleSessionGroups.length, filter]);
 
   const sortedModelStatuses = useMemo(() => {
     if (!modelStatuses) return [];
@@ -1613,6 +1903,36 @@ export function SidepanelApp() {
     }
   }, []);
 
+  const handleMemoryPinToggle = useCallback(async (memory: MemoryRecord) => {
+    try {
+      const response = await sendToBackground({ type: "SET_MEMORY_PINNED", payload: { memoryId: memory.id, pinned: !memory.pinned } });
+      if (response.type !== "MEMORY_PINNED_UPDATED") {
+        throw new Error(response.type === "ERROR" ? response.message : "Unexpected response from background");
+      }
+      const updated = response.payload;
+      setSessionGroups((current) =>
+        current.map((group) => ({
+          ...group,
+          memories: group.memories.map((entry) => (entry.id === updated.id ? updated : entry)),
+        })),
+      );
+    } catch (error) {
+      console.error("[NanoScribe] Failed to update pinned memory", error);
+    }
+  }, []);
+
+  // "Never capture this site": the background adds a deny rule, purges the site's memories and rebroadcasts the groups
+  const handleBlockMemorySite = useCallback(async (memory: MemoryRecord) => {
+    try {
+      const response = await sendToBackground({ type: "BLOCK_CAPTURE_SITE", payload: { url: memory.url } });
+      if (response.type === "ERROR") {
+        throw new Error(response.message);
+      }
+    } catch (error) {
+      console.error("Failed to block site:", error);
+    }
+  }, []);
+
   // Refresh memories handler
   const handleRefreshMemories = useCallback(async () => {
     setFetchState("loading");
@@ -1779,10 +2099,12 @@ export function SidepanelApp() {
               <div className="relative flex min-w-[220px] flex-1 items-center">
                 <Search className="absolute left-3 h-4 w-4 text-muted-foreground/70" />
                 <Input
-                  value={searchMode === "ask" ? askInput : filter}
+                  value={searchMode === "ask" ? askInput : searchMode === "graph" ? entityQuery : filter}
                   onChange={(event) => {
                     const value = event.target.value;
-                    if (searchMode === "ask") {
+                    if (searchMode === "graph") {
+                      setEntityQuery(value);
+                    } else if (searchMode === "ask") {
                       setAskInput(value);
                       if (askState.status !== "idle") {
                         setAskState(INITIAL_ASK_STATE);
@@ -1791,13 +2113,22 @@ export function SidepanelApp() {
                       setFilter(value);
                     }
                   }}
+                  ref={searchInputRef}
+                  onFocus={() => setIsSearchFocused(true)}
+                  onBlur={() => setIsSearchFocused(false)}
                   onKeyDown={(event) => {
                     if (searchMode === "ask" && event.key === "Enter" && !event.shiftKey) {
                       event.preventDefault();
                       handleAskSubmit();
                     }
                   }}
-                  placeholder={searchMode === "ask" ? "Ask NanoScribe anything..." : "Search memories..."}
+                  placeholder={
+                    searchMode === "ask"
+                      ? "Ask NanoScribe anything..."
+                      : searchMode === "graph"
+                        ? "Filter people, organizations, products..."
+                        : 'Search memories... (site:, tag:, after:, "phrase", -word)'
+                  }
                   className="glass-card h-10 w-full rounded-xl border border-white/5 bg-black/40 pl-10 text-sm text-foreground/90 placeholder:text-muted-foreground/60 focus:bg-black/30"
                 />
               </div>
@@ -1848,6 +2179,28 @@ export function SidepanelApp() {
                         Ask NanoScribe
                       </TooltipContent>
                     </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setSearchMode("graph")}
+                          aria-pressed={searchMode === "graph"}
+                          aria-label="Entity graph"
+                          className={`h-9 w-9 rounded-xl border border-transparent text-muted-foreground transition focus-visible:ring-2 focus-visible:ring-white/30 ${
+                            searchMode === "graph"
+                              ? "bg-white/20 text-foreground shadow-[0_0_10px_rgba(255,255,255,0.18)]"
+                              : "hover:bg-white/10"
+                          }`}
+                        >
+                          <Network className="h-4 w-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent side="bottom" sideOffset={6} className="text-xs">
+                        Entity graph
+                      </TooltipContent>
+                    </Tooltip>
                   </div>
                 </TooltipProvider>
                 {searchMode === "ask" ? (
@@ -1862,11 +2215,22 @@ export function SidepanelApp() {
                     <span>{askState.status === "loading" ? "Thinking" : "Ask"}</span>
                   </Button>
                 ) : null}
+                {searchMode === "memories" ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    title="New note"
+                    onClick={() => setNoteEditor({ noteId: null })}
+                    className="glow-ring shrink-0 rounded-xl border-white/15 bg-black/30 text-xs text-foreground/80"
+                  >
+                    <StickyNote className="h-4 w-4" />
+                  </Button>
+                ) : null}
                 <Button
                   size="sm"
                   variant="outline"
                   onClick={handleRefreshMemories}
-                  disabled={fetchState === "loading" || searchMode === "ask"}
+                  disabled={fetchState === "loading" || searchMode !== "memories"}
                   className="glow-ring shrink-0 rounded-xl border-white/15 bg-black/30 text-xs text-foreground/80 disabled:opacity-60"
                 >
                   <RefreshCw className={`h-4 w-4 ${fetchState === "loading" ? "animate-spin" : ""}`} />
@@ -1874,9 +2238,165 @@ export function SidepanelApp() {
               </div>
             </div>
 
+            {searchMode === "memories" && isSearchFocused ? (
+              <div className="glass-card flex flex-wrap gap-1.5 rounded-2xl border border-white/10 bg-black/25 px-3 py-2 text-[11px] shadow-md">
+                {SEARCH_SYNTAX_HINTS.map((hint) => (
+                  <button
+                    key={hint.label}
+                    type="button"
+                    title={hint.description}
+                    // Keep focus in the search box so the hint list stays open while inserting
+                    onMouseDown={(event) => event.preventDefault()}
+                    onClick={() => {
+                      setFilter((current) => `${current}${current && !current.endsWith(" ") ? " " : ""}${hint.insert}`);
+                      searchInputRef.current?.focus();
+                    }}
+                    className="rounded-full border border-white/15 bg-white/5 px-2.5 py-0.5 font-mono text-muted-foreground transition hover:border-white/30 hover:text-foreground"
+                  >
+                    {hint.label}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+
+            {searchMode === "memories" && searchChips.length > 0 ? (
+              <div className="flex flex-wrap gap-1.5">
+                {searchChips.map((token, index) => (
+                  <span
+                    key={`${token.raw}-${index}`}
+                    className={`inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-[11px] ${
+                      token.negated ? "border-red-400/40 bg-red-500/10 text-red-100" : "border-primary/60 bg-primary/20 text-foreground"
+                    }`}
+                  >
+                    {describeSearchToken(token)}
+                    <button
+                      type="button"
+                      aria-label={`Remove ${describeSearchToken(token)}`}
+                      onClick={() => setFilter((current) => removeSearchToken(current, token.raw))}
+                      className="text-muted-foreground hover:text-foreground"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            ) : null}
+
+            {searchMode === "memories" ? <SmartCollectionsBar query={filter} onOpen={handleOpenCollection} /> : null}
+
+            {searchMode === "memories" ? <PageAnnotationsList /> : null}
+            {searchMode === "memories" && searchResults === null ? <RelatedToPageList /> : null}
+
+            {searchMode === "memories" && searchResults === null ? (
+              <div className="mb-3 flex items-center gap-1.5">
+                {(
+                  [
+                    { view: "sessions", label: "Sessions", Icon: Layers },
+                    { view: "timeline", label: "Timeline", Icon: CalendarClock },
+                  ] as const
+                ).map(({ view, label, Icon }) => (
+                  <button
+                    key={view}
+                    type="button"
+                    aria-pressed={memoriesView === view}
+                    onClick={() => setMemoriesView(view)}
+                    className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-[11px] transition ${
+                      memoriesView === view
+                        ? "border-primary/60 bg-primary/20 text-foreground"
+                        : "border-white/15 bg-white/5 text-muted-foreground hover:border-white/30 hover:text-foreground"
+                    }`}
+                  >
+                    <Icon className="h-3.5 w-3.5" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+
+            {searchMode === "memories" && searchResults === null && memoriesView === "sessions" && allTags.length > 0 ? (
+              <div className="mb-3 flex flex-wrap gap-1.5">
+                {allTags.map((entry) => (
+                  <button
+                    key={entry.tag}
+                    type="button"
+                    onClick={() => setSelectedTag((current) => (current === entry.tag ? null : entry.tag))}
+                    className={`rounded-full border px-2.5 py-0.5 text-[11px] transition ${
+                      selectedTag === entry.tag
+                        ? "border-primary/60 bg-primary/20 text-foreground"
+                        : "border-white/15 bg-white/5 text-muted-foreground hover:border-white/30 hover:text-foreground"
+                    }`}
+                  >
+                    #{entry.tag} · {entry.count}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+
+            {searchMode === "memories" && sessionEditStatus ? (
+              <div
+                className={`glass-card flex items-center justify-between gap-3 rounded-2xl border px-4 py-2 text-xs shadow-md ${
+                  sessionEditStatus.tone === "error" ? "border-red-500/40 bg-red-500/10 text-red-100" : "border-white/12 bg-black/30 text-muted-foreground"
+                }`}
+              >
+                <span>{sessionEditStatus.message}</span>
+                <div className="flex items-center gap-1">
+                  {sessionEditStatus.result ? (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={isEditingSessions}
+                      className="h-7 rounded-lg px-2 text-xs text-foreground/85 hover:bg-white/10"
+                      onClick={() => {
+                        const undo = sessionEditStatus.result?.undo;
+                        if (undo) {
+                          void runSessionEdit({ type: "UNDO_SESSION_EDIT", payload: undo });
+                        }
+                      }}
+                    >
+                      {isEditingSessions ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Undo2 className="mr-1 h-3 w-3" />}
+                      Undo
+                    </Button>
+                  ) : null}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    aria-label="Dismiss"
+                    className="h-7 w-7 rounded-lg p-0 text-muted-foreground hover:bg-white/10"
+                    onClick={() => setSessionEditStatus(null)}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ) : null}
+
+            {searchMode === "memories" && dragKind === "memories" ? (
+              <div
+                onDragOver={(event) => handleSessionDragOver(event, null)}
+                onDragLeave={() => setDropTargetId(null)}
+                onDrop={(event) => handleSessionDrop(event, null)}
+                className={`flex items-center justify-center gap-2 rounded-2xl border border-dashed px-4 py-3 text-xs transition ${
+                  dropTargetId === "new-session" ? "border-primary/70 bg-primary/10 text-foreground" : "border-white/20 text-muted-foreground"
+                }`}
+              >
+                <FolderPlus className="h-4 w-4" />
+                Drop here to move into a new session
+              </div>
+            ) : null}
+
             <ScrollArea className="flex-1">
               <div className="flex flex-col gap-4 pb-4">
-                {searchMode === "ask" ? (
+                {noteEditor && searchMode === "memories" ? (
+                  <NoteEditor
+                    key={noteEditor.noteId ?? "new-note"}
+                    note={noteEditor.noteId ? memoriesById.get(noteEditor.noteId) : undefined}
+                    onSaved={() => setNoteEditor(null)}
+                    onCancel={() => setNoteEditor(null)}
+                  />
+                ) : null}
+                {searchMode === "graph" ? (
+                  <EntityGraphView query={entityQuery} />
+                ) : searchMode === "ask" ? (
                   <div className="space-y-4">
                     {renderAskResult()}
                     {askState.status !== "idle" && askState.status !== "loading" && askState.context.length > 0 ? (
@@ -1909,20 +2429,41 @@ export function SidepanelApp() {
                   </div>
                 ) : searchResults !== null ? (
                   renderSearchResults()
+                ) : memoriesView === "timeline" ? (
+                  <TimelineView />
                 ) : fetchState === "loading" ? (
                   <div className="glass-card flex flex-col items-center justify-center gap-3 rounded-2xl border border-white/12 bg-black/25 p-6 text-sm text-muted-foreground shadow-lg">
                     <span className="fancy-spinner" aria-hidden="true" />
                     <span>Loading memories…</span>
                   </div>
                 ) : (
-                  sessionGroups.map((sessionGroup) => {
+                  visibleSessionGroups.map((sessionGroup) => {
                     const accent = getSessionAccent(sessionGroup.sessionId);
                     const info = deriveSessionInfo(sessionGroup, sessionTitleMap);
                     const isUnorganized = sessionGroup.sessionId === "no-session";
+                    const isEditableSession = !FIXED_SESSION_IDS.has(sessionGroup.sessionId);
 
                     return (
                       <div key={sessionGroup.sessionId} className="space-y-3">
-                        <div className="glass-card flex items-start gap-3 rounded-2xl border border-white/12 bg-black/30 px-4 py-3 shadow-md">
+                        <div
+                          draggable={isEditableSession && renameState?.sessionId !== sessionGroup.sessionId}
+                          onDragStart={(event) => {
+                            event.dataTransfer.setData(SESSION_DRAG_TYPE, sessionGroup.sessionId);
+                            event.dataTransfer.effectAllowed = "move";
+                            setDragKind("session");
+                          }}
+                          onDragEnd={() => {
+                            setDragKind(null);
+                            setDropTargetId(null);
+                          }}
+                          onDragOver={isEditableSession ? (event) => handleSessionDragOver(event, sessionGroup.sessionId) : undefined}
+                          onDragLeave={() => setDropTargetId((current) => (current === sessionGroup.sessionId ? null : current))}
+                          onDrop={isEditableSession ? (event) => handleSessionDrop(event, sessionGroup.sessionId) : undefined}
+                          title={isEditableSession ? "Drag onto another session to merge, or drop memories here to move them" : undefined}
+                          className={`glass-card flex items-start gap-3 rounded-2xl border px-4 py-3 shadow-md transition ${
+                            dropTargetId === sessionGroup.sessionId ? "border-primary/70 bg-primary/10" : "border-white/12 bg-black/30"
+                          }`}
+                        >
                           <span
                             className="mt-1 flex h-9 w-9 items-center justify-center rounded-xl border border-white/10 bg-white/10 text-white shadow-[inset_0_0_12px_rgba(255,255,255,0.08)] backdrop-blur-sm"
                             style={{
@@ -2089,9 +2630,35 @@ export function SidepanelApp() {
                           {sessionGroup.memories.map((memory) => {
                             const isExpanded = expandedMemories.has(memory.id);
                             const isDeleting = deleteState.memoryId === memory.id && deleteState.isDeleting;
+                            const isNote = memory.source === "note";
+                            const redactionInfo = describeRedactions(memory.redactions);
+                            const canonical = memory.duplicateOf ? memoriesById.get(memory.duplicateOf) : undefined;
+                            const alsoSeenAt = [
+                              ...(canonical ? [canonical] : []),
+                              ...(duplicatesByCanonical.get(canonical?.id ?? memory.id) ?? []),
+                            ].filter((entry) => entry.id !== memory.id);
+
+                            const isMovable = isEditableSession && !isNote;
+                            const isSelectedForMove = selectedForMove.has(memory.id);
 
                             return (
-                              <Card key={memory.id} className="glass-card rounded-2xl border border-white/12 bg-black/25 shadow-lg">
+                              <Card
+                                key={memory.id}
+                                draggable={isMovable}
+                                onDragStart={(event) => {
+                                  const memoryIds = isSelectedForMove ? Array.from(selectedForMove) : [memory.id];
+                                  event.dataTransfer.setData(MEMORIES_DRAG_TYPE, JSON.stringify(memoryIds));
+                                  event.dataTransfer.effectAllowed = "move";
+                                  setDragKind("memories");
+                                }}
+                                onDragEnd={() => {
+                                  setDragKind(null);
+                                  setDropTargetId(null);
+                                }}
+                                className={`glass-card rounded-2xl border bg-black/25 shadow-lg ${
+                                  isSelectedForMove ? "border-primary/50" : "border-white/12"
+                                }`}
+                              >
                                 <CardHeader className="pb-3">
                                   <div className="flex items-start gap-3">
                                     <Button
@@ -2118,9 +2685,83 @@ export function SidepanelApp() {
                                           {memory.title}
                                         </CardTitle>
                                         <span className="text-xs text-muted-foreground">{formatRelativeTime(memory.createdAt)}</span>
+                                        {memory.pinned ? <Pin className="h-3 w-3 shrink-0 text-primary" aria-label="Pinned" /> : null}
                                       </div>
-                                      <span className="block truncate text-xs text-muted-foreground">{shortenUrl(memory.url)}</span>
+                                      <span className="block truncate text-xs text-muted-foreground">{isNote ? "Note" : shortenUrl(memory.url)}</span>
+                                      {redactionInfo.total > 0 ? (
+                                        <Badge
+                                          variant="secondary"
+                                          title={`Redacted before saving: ${redactionInfo.detail}`}
+                                          className="border-white/20 bg-white/10 text-[10px]"
+                                        >
+                                          {redactionInfo.total} redacted
+                                        </Badge>
+                                      ) : null}
+                                      {memory.tags?.length ? (
+                                        <div className="flex flex-wrap gap-1">
+                                          {memory.tags.map((tag) => (
+                                            <Badge key={tag} variant="outline" className="border-white/15 text-[10px] text-muted-foreground">
+                                              #{tag}
+                                            </Badge>
+                                          ))}
+                                        </div>
+                                      ) : null}
                                     </div>
+                                    {isMovable ? (
+                                      <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        title={isSelectedForMove ? "Deselect" : "Select to move with other memories"}
+                                        aria-pressed={isSelectedForMove}
+                                        className={`h-7 w-7 rounded-lg border border-transparent p-0 hover:border-white/10 hover:bg-white/10 ${
+                                          isSelectedForMove ? "text-primary" : "text-muted-foreground"
+                                        }`}
+                                        onClick={(event) => {
+                                          event.stopPropagation();
+                                          setSelectedForMove((previous) => {
+                                            const next = new Set(previous);
+                                            if (next.has(memory.id)) {
+                                              next.delete(memory.id);
+                                            } else {
+                                              next.add(memory.id);
+                                            }
+                                            return next;
+                                          });
+                                        }}
+                                      >
+                                        {isSelectedForMove ? <CheckSquare className="h-3 w-3" /> : <Square className="h-3 w-3" />}
+                                      </Button>
+                                    ) : null}
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      title={memory.pinned ? "Unpin from autocomplete context" : "Pin as autocomplete context"}
+                                      className={`h-7 w-7 rounded-lg border border-transparent p-0 hover:border-white/10 hover:bg-white/10 ${
+                                        memory.pinned ? "text-primary" : "text-muted-foreground"
+                                      }`}
+                                      onClick={(event) => {
+                                        event.stopPropagation();
+                                        handleMemoryPinToggle(memory);
+                                      }}
+                                    >
+                                      {memory.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                                    </Button>
+                                    {isNote ? null : (
+                                      <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        title="Never capture this site"
+                                        className="h-7 w-7 rounded-lg border border-transparent p-0 text-muted-foreground hover:border-red-400/40 hover:bg-red-500/10 hover:text-red-300"
+                                        onClick={(event) => {
+                                          event.stopPropagation();
+                                          if (window.confirm(`Never capture ${shortenUrl(memory.url)} again and delete its saved memories?`)) {
+                                            handleBlockMemorySite(memory);
+                                          }
+                                        }}
+                                      >
+                                        <Ban className="h-3 w-3" />
+                                      </Button>
+                                    )}
                                     <Button
                                       size="sm"
                                       variant="ghost"
@@ -2147,18 +2788,77 @@ export function SidepanelApp() {
                                       ) : (
                                         <p className="text-sm italic text-muted-foreground">No summary captured for this page.</p>
                                       )}
+                                      <MemoryTagEditor memory={memory} allTags={allTags} onUpdated={handleMemoryTagsUpdated} />
+                                      <RelatedMemoriesList memoryId={memory.id} />
+                                      {alsoSeenAt.length > 0 ? (
+                                        <div className="space-y-1 text-xs text-muted-foreground">
+                                          <p className="font-medium text-card-foreground">Also seen at</p>
+                                          {alsoSeenAt.map((entry) => (
+                                            <a
+                                              key={entry.id}
+                                              href={entry.url}
+                                              target="_blank"
+                                              rel="noreferrer"
+                                              title={entry.title}
+                                              className="block truncate text-primary hover:underline"
+                                            >
+                                              {shortenUrl(entry.url)}
+                                            </a>
+                                          ))}
+                                        </div>
+                                      ) : null}
                                       <div className="flex items-center justify-between text-xs text-muted-foreground">
                                         <span>Stored {formatRelativeTime(memory.updatedAt)}</span>
-                                        <a
-                                          href={memory.url}
-                                          target="_blank"
-                                          rel="noreferrer"
-                                          className="inline-flex items-center gap-1 text-xs font-medium text-primary hover:underline"
-                                        >
-                                          Open page
-                                          <ExternalLink className="h-3 w-3" />
-                                        </a>
+                                        <div className="flex items-center gap-3">
+                                          <button
+                                            type="button"
+                                            className="inline-flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-primary"
+                                            onClick={() => setHistoryMemoryId((current) => (current === memory.id ? null : memory.id))}
+                                          >
+                                            <History className="h-3 w-3" />
+                                            {historyMemoryId === memory.id ? "Hide history" : "History"}
+                                          </button>
+                                          {isMovable ? (
+                                            <button
+                                              type="button"
+                                              disabled={isEditingSessions}
+                                              className="inline-flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-primary disabled:opacity-60"
+                                              onClick={() => {
+                                                if (window.confirm("Move this memory and everything captured after it into a new session?")) {
+                                                  void runSessionEdit({
+                                                    type: "SPLIT_SESSION",
+                                                    payload: { sessionId: sessionGroup.sessionId, at: memory.createdAt },
+                                                  });
+                                                }
+                                              }}
+                                            >
+                                              <Scissors className="h-3 w-3" />
+                                              Split here
+                                            </button>
+                                          ) : null}
+                                          {isNote ? (
+                                            <button
+                                              type="button"
+                                              className="inline-flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+                                              onClick={() => setNoteEditor({ noteId: memory.id })}
+                                            >
+                                              <PenLine className="h-3 w-3" />
+                                              Edit note
+                                            </button>
+                                          ) : (
+                                            <a
+                                              href={memory.url}
+                                              target="_blank"
+                                              rel="noreferrer"
+                                              className="inline-flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+                                            >
+                                              Open page
+                                              <ExternalLink className="h-3 w-3" />
+                                            </a>
+                                          )}
+                                        </div>
                                       </div>
+                                      {historyMemoryId === memory.id ? <MemoryRevisionTimeline memoryId={memory.id} /> : null}
                                     </div>
                                   </CardContent>
                                 ) : null}
@@ -2212,6 +2912,30 @@ export function SidepanelApp() {
                       onCheckedChange={handleContextToggleChange}
                     />
                   </div>
+                  {isContextAware && allTags.length > 0 ? (
+                    <div className="mt-4 space-y-2">
+                      <p className="text-xs text-muted-foreground">
+                        Only use memories tagged…{" "}
+                        {contextTagFilter.length === 0 ? "(any memory)" : contextTagFilter.map((tag) => `#${tag}`).join(" + ")}
+                      </p>
+                      <div className="flex flex-wrap gap-1.5">
+                        {allTags.map((entry) => (
+                          <button
+                            key={entry.tag}
+                            type="button"
+                            onClick={() => handleContextTagToggle(entry.tag)}
+                            className={`rounded-full border px-2.5 py-0.5 text-[11px] transition ${
+                              contextTagFilter.includes(entry.tag)
+                                ? "border-primary/60 bg-primary/20 text-foreground"
+                                : "border-white/15 bg-white/5 text-muted-foreground hover:border-white/30 hover:text-foreground"
+                            }`}
+                          >
+                            #{entry.tag}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ) : null}
                 </div>
 
                 <div className="glass-card rounded-2xl border border-white/10 bg-white/5 p-5 shadow-lg">
@@ -2314,6 +3038,42 @@ export function SidepanelApp() {
                   <ModelControlPanel />
                 </div>
 
+                <div className="glass-card rounded-2xl border border-white/10 bg-white/5 p-5 shadow-lg">
+                  <VaultPanel />
+                </div>
+
+                <div className="glass-card rounded-2xl border border-white/10 bg-white/5 p-5 shadow-lg">
+                  <CaptureRulesPanel />
+                </div>
+
+                <div className="glass-card rounded-2xl border border-white/10 bg-white/5 p-5 shadow-lg">
+                  <SessionSettingsPanel />
+                </div>
+
+                <div className="glass-card rounded-2xl border border-white/10 bg-white/5 p-5 shadow-lg">
+                  <SensitivePagesPanel />
+                </div>
+
+                <div className="glass-card rounded-2xl border border-white/10 bg-white/5 p-5 shadow-lg">
+                  <RedactionPanel />
+                </div>
+
+                <div className="glass-card rounded-2xl border border-white/10 bg-white/5 p-5 shadow-lg">
+                  <RetentionPanel />
+                </div>
+
+                <div className="glass-card rounded-2xl border border-white/10 bg-white/5 p-5 shadow-lg">
+                  <StorageUsagePanel />
+                </div>
+
+                <div className="glass-card rounded-2xl border border-white/10 bg-white/5 p-5 shadow-lg">
+                  <MemoryTransferPanel />
+                </div>
+
+                <div className="glass-card rounded-2xl border border-white/10 bg-white/5 p-5 shadow-lg">
+                  <DatabaseMigrationPanel />
+                </div>
+
                 <div className="glass-card rounded-2xl border border-white/10 bg-white/5 p-5 shadow-lg">
                   <div className="flex items-start gap-3">
                     <div className="glow-ring flex h-10 w-10 items-center justify-center rounded-xl bg-white/10">
@@ -0,0 +1,82 @@
+// Text fragment anchors (https://wicg.github.io/scroll-to-text-fragment/) for saved highlights.
+// Shared by the content scripts, which build and resolve them, and the background, which stores them.
+
+export type TextFragment = {
+  textStart: string;
+  textEnd?: string;
+  prefix?: string;
+  suffix?: string;
+};
+
+// Long selections are anchored by their first and last words, like Chrome's "Copy link to highlight"
+const EXACT_MATCH_MAX_WORDS = 8;
+const EDGE_WORDS = 4;
+const CONTEXT_WORDS = 3;
+
+function words(text: string): string[] {
+  return text.replace(/\s+/g, " ").trim().split(" ").filter(Boolean);
+}
+
+// The directive syntax reserves "-", "," and "&", so they are percent-encoded on top of encodeURIComponent
+function encodePart(part: string): string {
+  return encodeURIComponent(part).replace(/-/g, "%2D").replace(/,/g, "%2C").replace(/&/g, "%26");
+}
+
+function decodePart(part: string): string {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    return part;
+  }
+}
+
+export function createTextFragment(selection: string, before = "", after = ""): TextFragment | null {
+  const selected = words(selection);
+  if (!selected.length) {
+    return null;
+  }
+
+  const fragment: TextFragment =
+    selected.length <= EXACT_MATCH_MAX_WORDS
+      ? { textStart: selected.join(" ") }
+      : { textStart: selected.slice(0, EDGE_WORDS).join(" "), textEnd: selected.slice(-EDGE_WORDS).join(" ") };
+
+  const prefix = words(before).slice(-CONTEXT_WORDS).join(" ");
+  const suffix = words(after).slice(0, CONTEXT_WORDS).join(" ");
+  if (prefix) fragment.prefix = prefix;
+  if (suffix) fragment.suffix = suffix;
+  return fragment;
+}
+
+// Serialized as the directive value, e.g. "text=prefix-,start,end,-suffix"
+export function serializeTextFragment(fragment: TextFragment): string {
+  const parts = [
+    fragment.prefix ? `${encodePart(fragment.prefix)}-` : null,
+    encodePart(fragment.textStart),
+    fragment.textEnd ? encodePart(fragment.textEnd) : null,
+    fragment.suffix ? `-${encodePart(fragment.suffix)}` : null,
+  ].filter((part): part is string => part !== null);
+  return `text=${parts.join(",")}`;
+}
+
+export function parseTextFragment(directive: string): TextFragment | null {
+  const value = directive.replace(/^:~:/, "").replace(/^text=/, "");
+  const parts = value.split(",").filter(Boolean);
+  if (!parts.length) {
+    return null;
+  }
+
+  const prefix = parts[0].endsWith("-") ? decodePart(parts.shift()!.slice(0, -1)) : undefined;
+  const suffix = parts.length > 1 && parts[parts.length - 1].startsWith("-") ? decodePart(parts.pop()!.slice(1)) : undefined;
+  const [textStart, textEnd] = parts.map(decodePart);
+  if (!textStart) {
+    return null;
+  }
+  return { textStart, textEnd, prefix, suffix };
+}
+
+// Link that scrolls to and highlights the passage in browsers that support text fragments
+export function buildTextFragmentUrl(url: string, directive: string): string {
+  const base = url.split("#:~:")[0];
+  return `${base}${base.includes("#") ? "" : "#"}:~:${directive}`;
+}
@@ -1,3 +1,15 @@
+export type SealedPayload = {
+  iv: string;
+  data: string;
+};
+
+export type VaultStatus = {
+  enabled: boolean;
+  locked: boolean;
+  autoLockMinutes: number;
+  lastActivityAt: number | null;
+};
+
 export type MemoryRecord = {
   id: string;
   url: string;
@@ -6,6 +18,14 @@ export type MemoryRecord = {
   createdAt: number;
   updatedAt: number;
   structuredSummary?: MemoryStructuredSummary;
+  sealed?: SealedPayload; // Encrypted summary fields when the memory vault is enabled
+  pinned?: boolean; // Pinned memories are never evicted by retention
+  redactions?: RedactionCounts; // Personal data replaced with placeholders before storage, per category
+  duplicateOf?: string; // Canonical memory whose chunks this page repeats (same article under another URL)
+  tags?: string[]; // User-assigned labels, indexed for filtering (not sealed by the vault)
+  source?: "page" | "note"; // Absent on captured pages; "note" for text written in the sidepanel
+  entitiesExtractedAt?: number; // When the entity graph last indexed this memory; older than updatedAt means stale
+  dwellMs?: number; // Total time the page was the focused tab, summed across visits
 };
 
 export type MemoryStructuredSummary = {
@@ -29,6 +49,36 @@ export type SessionGroup = {
   title?: string;
 };
 
+export type SessionSettings = {
+  idleGapMinutes: number; // A capture after this long without activity starts a new session
+  splitOnTopicChange: boolean;
+  topicSimilarityThreshold: number; // 0-1 keyword overlap with the session's recent chunks below which the topic changed
+  perWindow: boolean; // Each browser window keeps its own session
+};
+
+export type SessionStartReason = "first" | "idle" | "topic" | "window" | "manual";
+
+export type ActiveSession = {
+  sessionId: string;
+  startedAt: number;
+  lastActiveAt: number;
+  reason: SessionStartReason;
+  windowId: number | null; // Only set while sessions are kept per window
+};
+
+export type SessionEditUndo = {
+  chunkSessions: Record<string, string>; // Chunk id -> the session it belonged to before the edit
+  titles: Record<string, string | null>; // Previous title of each retitled session; null when it had none
+  activeSessions: Record<string, { from: string; to: string }>; // Capture scope -> the active session the edit moved it from and to
+};
+
+export type SessionEditResult = {
+  description: string;
+  movedChunks: number;
+  sessionTitles: Record<string, string>;
+  undo: SessionEditUndo;
+};
+
 // Enhanced memory record with session info
 export type MemoryWithSession = MemoryRecord & {
   sessionId: string;
@@ -46,6 +96,32 @@ export type ContentChunkRecord = {
   ordinal: number;
   createdAt: number;
   sourceTag?: string; // New field to indicate chunk source (readability, manual, etc.)
+  sealed?: SealedPayload; // Encrypted text fields when the memory vault is enabled
+  fingerprint?: string; // SimHash of rawText used to skip near-duplicate chunks
+  highlight?: ChunkHighlight; // Set on passages saved from the context menu (sourceTag "highlight")
+};
+
+export type ChunkHighlight = {
+  anchor: string | null; // Text fragment directive, e.g. "text=start,end"
+  pageUrl: string; // Address the passage was selected on, which may differ from the memory's canonical URL
+  note?: string;
+  position?: { start: number; end: number }; // Offsets in the page's whitespace-collapsed text, used when the quote no longer matches
+};
+
+// A saved highlight as sent to the content script and sidepanel for one page
+export type PageHighlight = {
+  chunkId: string;
+  memoryId: string;
+  text: string;
+  anchor: string | null;
+  note?: string;
+  position?: { start: number; end: number };
+  createdAt: number;
+};
+
+export type ScoredChunk = {
+  chunk: ContentChunkRecord;
+  score: number;
 };
 
 export type MemorySearchResult = {
@@ -65,9 +141,10 @@ export type AskContextItem = {
 export type AskResponsePayload = {
   question: string;
   answer: string;
-  status: "answered" | "no-context" | "model-unavailable" | "error";
+  status: "answered" | "no-context" | "model-unavailable" | "vault-locked" | "error";
   context: AskContextItem[];
   error?: string;
+  expandedEntities?: string[]; // Related entities added to the retrieval query
 };
 
 export type ProofreaderCorrection = {
@@ -120,6 +197,7 @@ export type AutocompleteContextEntry = {
   source: "session" | "memory";
   url?: string;
   timestamp?: number;
+  pinned?: boolean; // Came from a pinned memory rather than session recency or ranking
 };
 
 export type CompletionRequestPayload = {
@@ -202,3 +280,335 @@ export type DiagnosticsSnapshot = {
   metrics: DiagnosticsMetrics;
   updatedAt: number;
 };
+
+export type MemoryExportFormat = "json" | "markdown";
+
+export type MemoryExportSettings = {
+  isContextAware?: boolean;
+  diagnosticsSettings?: DiagnosticsSettings;
+  retentionPolicy?: RetentionPolicy;
+};
+
+export type MemoryExportBundle = {
+  format: "nanoscribe-memories";
+  version: number;
+  exportedAt: number;
+  memories: MemoryRecord[];
+  chunks: ContentChunkRecord[];
+  sessionTitles: Record<string, string>;
+  settings: MemoryExportSettings;
+};
+
+export type MemoryExportFile = {
+  path: string;
+  mimeType: string;
+  content: string;
+};
+
+export type MemoryExportResult = {
+  format: MemoryExportFormat;
+  files: MemoryExportFile[];
+  memoryCount: number;
+  chunkCount: number;
+};
+
+export type MemoryImportResult = {
+  imported: number;
+  skippedDuplicates: number;
+  chunks: number;
+  sessions: number;
+};
+
+export type MigrationProgress = {
+  stage: "snapshot" | "running" | "completed" | "rolling-back" | "failed";
+  version: number;
+  description: string;
+  processed: number;
+  total: number;
+  dryRun: boolean;
+};
+
+export type MigrationStepReport = {
+  version: number;
+  description: string;
+  scanned: number;
+  changed: number;
+};
+
+export type MigrationReport = {
+  dryRun: boolean;
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStepReport[];
+  status: "completed" | "rolled-back" | "failed";
+  error?: string;
+};
+
+// null disables a limit
+export type RetentionPolicy = {
+  maxAgeDays: number | null;
+  maxMemories: number | null;
+  maxBytes: number | null;
+  domainOverrides: RetentionDomainOverride[];
+};
+
+export type RetentionDomainOverride = {
+  domain: string; // Matches the host and its subdomains
+  maxAgeDays: number | null; // Replaces the global maximum age for this domain
+  exempt: boolean; // Never evict memories from this domain
+};
+
+export type RetentionEvictionReason = "age" | "count" | "size";
+
+export type RetentionEviction = {
+  memoryId: string;
+  title: string;
+  url: string;
+  reason: RetentionEvictionReason;
+  bytes: number;
+  chunkCount: number;
+};
+
+export type RetentionReport = {
+  ranAt: number;
+  trigger: string;
+  dryRun: boolean;
+  evicted: RetentionEviction[];
+  freedBytes: number;
+  remainingMemories: number;
+  remainingBytes: number;
+};
+
+export type CaptureRuleKind = "domain" | "glob" | "regex";
+
+export type CaptureRule = {
+  id: string;
+  kind: CaptureRuleKind;
+  pattern: string;
+  action: "allow" | "deny";
+  createdAt: number;
+};
+
+export type CaptureRulesConfig = {
+  // "blocklist" captures everything not denied; "allowlist" captures only allowed pages
+  mode: "blocklist" | "allowlist";
+  // Which rule wins when a URL matches both an allow and a deny rule
+  precedence: "deny-first" | "allow-first";
+  rules: CaptureRule[];
+};
+
+export type CaptureDecision = {
+  allowed: boolean;
+  rule: CaptureRule | null;
+};
+
+export type SensitivePageReason = "password-field" | "payment-form" | "login-wall" | "no-store";
+
+export type SensitivePageSkip = {
+  url: string;
+  host: string;
+  title: string;
+  reasons: SensitivePageReason[];
+  skippedAt: number;
+};
+
+export type SensitivePageSettings = {
+  enabled: boolean;
+  allowedHosts: string[]; // Hosts the user chose to capture even when they look sensitive
+  skips: SensitivePageSkip[];
+};
+
+export type RedactionCategory = "email" | "phone" | "credit-card" | "iban" | "government-id" | "api-key";
+
+export type RedactionSettings = Record<RedactionCategory, boolean>;
+
+export type RedactionCounts = Partial<Record<RedactionCategory, number>>;
+
+export type MemoryRevisionChunk = {
+  ordinal: number;
+  chunkTitle?: string;
+  rawText: string;
+  keyPoints: string;
+};
+
+// Snapshot of one capture of a page; the memory record itself always holds the latest capture
+export type MemoryRevision = {
+  id: string;
+  memoryId: string;
+  capturedAt: number;
+  contentHash: string;
+  summary: string;
+  structuredSummary?: MemoryStructuredSummary;
+  chunks: MemoryRevisionChunk[];
+  sealed?: SealedPayload; // Encrypted snapshot fields when the memory vault is enabled
+};
+
+export type MemoryRevisionSummary = Pick<MemoryRevision, "id" | "memoryId" | "capturedAt" | "contentHash" | "summary"> & {
+  chunkCount: number;
+};
+
+export type RevisionDiffLine = {
+  kind: "same" | "added" | "removed";
+  text: string;
+};
+
+export type RevisionComparison = {
+  fromId: string | null;
+  toId: string;
+  lines: RevisionDiffLine[];
+  added: number;
+  removed: number;
+  changeSummary: string | null;
+};
+
+export type TagCount = {
+  tag: string;
+  count: number;
+};
+
+// One memory's captures within an hour, as listed by the timeline view
+export type TimelineEntry = {
+  memoryId: string;
+  title: string;
+  url: string; // Empty for notes
+  domain: string | null;
+  sessionId: string;
+  sessionTitle?: string;
+  capturedAt: number; // Newest chunk in the hour
+  chunkCount: number;
+  highlightCount: number;
+  dwellMs: number | null;
+};
+
+export type TimelineQuery = {
+  before?: number; // Exclusive end of the range; defaults to now
+  days?: number;
+  domain?: string | null;
+  sessionId?: string | null;
+};
+
+export type TimelinePage = {
+  entries: TimelineEntry[]; // Newest first
+  rangeStart: number;
+  nextBefore: number | null; // Pass as before to load older captures; null when nothing older exists
+  domains: string[]; // Domains and sessions seen in the range before filtering, for the filter menus
+  sessions: { sessionId: string; title?: string }[];
+};
+
+export type EntityType = "person" | "organization" | "product" | "technology" | "date";
+
+export type ExtractedEntity = {
+  name: string;
+  type: EntityType;
+};
+
+// One record per distinct entity across all memories
+export type EntityRecord = {
+  id: string; // "<type>:<lowercased name>", or a keyed hash of it while the vault is enabled
+  type: EntityType;
+  name: string; // Empty while sealed
+  memoryIds: string[];
+  chunkIdsByMemory: Record<string, string[]>; // Chunks the entity was extracted from, per memory
+  updatedAt: number;
+  sealed?: SealedPayload;
+};
+
+// Two memories that mention at least one common entity
+export type EntityEdge = {
+  id: string; // "<memoryId>|<memoryId>" with the ids in sorted order
+  memoryIds: [string, string];
+  entityIds: string[];
+  weight: number;
+};
+
+export type EntitySummary = Pick<EntityRecord, "id" | "type" | "name"> & {
+  memoryCount: number;
+};
+
+export type EntityGraph = {
+  memories: { id: string; title: string; url: string; entityIds: string[] }[];
+  links: { source: string; target: string; weight: number; entities: string[] }[]; // Shared entity names
+  entities: EntitySummary[];
+};
+
+// Either a stored memory, or the page in a tab (matched to its memory by URL, else by title keywords)
+export type RelatedMemoriesQuery = {
+  memoryId?: string;
+  url?: string;
+  title?: string;
+};
+
+export type RelatedMemory = {
+  memory: MemoryRecord;
+  score: number; // 0..1, weighted blend of the signals below
+  keywordMatch: boolean;
+  sharedEntities: string[];
+  sameSession: boolean;
+  sameDomain: boolean;
+};
+
+// A saved memory search, listed in the memories tab with its current match count
+export type SmartCollection = {
+  id: string;
+  name: string;
+  query: string; // SEARCH_MEMORIES syntax
+  flagNewMatches: boolean;
+  seenMemoryIds: string[]; // Matches when the collection was last opened; anything else counts as new
+  matchedMemoryIds: string[]; // Current matches, updated as memories change
+  matchedAt: number; // When the matches were last fully evaluated; 0 until the first evaluation
+  createdAt: number;
+};
+
+export type SmartCollectionSummary = Omit<SmartCollection, "seenMemoryIds" | "matchedMemoryIds" | "matchedAt"> & {
+  count: number;
+  newCount: number; // Always 0 unless flagNewMatches is on
+  error?: string; // Set when the saved query no longer parses
+};
+
+export type SmartCollectionDraft = Pick<SmartCollection, "name" | "query" | "flagNewMatches"> & { id?: string };
+
+export type StoreUsage = {
+  store: string;
+  records: number;
+  bytes: number; // Estimated from record sizes; IndexedDB overhead and compression are not included
+};
+
+export type StorageMemoryUsage = {
+  memoryId: string;
+  title: string;
+  url: string;
+  chunkCount: number;
+  bytes: number;
+  pinned: boolean;
+};
+
+export type StorageDomainUsage = {
+  domain: string;
+  memories: number;
+  bytes: number;
+};
+
+export type StorageStats = {
+  generatedAt: number;
+  stores: StoreUsage[];
+  totalBytes: number;
+  // navigator.storage.estimate() for the whole extension origin, when the browser reports it
+  estimate: { usage: number; quota: number } | null;
+  largestMemories: StorageMemoryUsage[];
+  largestDomains: StorageDomainUsage[];
+  chunksBySource: { sourceTag: string; count: number }[];
+  chunksByMonth: { month: string; count: number }[]; // "YYYY-MM", oldest first
+};
+
+export type StorageCleanupAction =
+  | { kind: "delete-memory"; memoryId: string }
+  | { kind: "delete-domain"; domain: string }
+  | { kind: "prune-revisions" }
+  | { kind: "remove-orphans" };
+
+export type StorageCleanupResult = {
+  action: StorageCleanupAction["kind"];
+  removed: number;
+  message: string;
+  stats: StorageStats;
+};